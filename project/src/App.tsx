@@ -3,6 +3,8 @@ import { BrowserRouter, Routes, Route, Navigate, useNavigate, useLocation } from
 import { AnimatePresence } from 'framer-motion';
 import SignIn from './pages/auth/SignIn';
 import SignUp from './pages/auth/SignUp';
+import InvitePage from './pages/auth/InvitePage';
+import JoinTeamPage from './pages/auth/JoinTeamPage';
 import ClientLayout from './components/ClientLayout';
 import AccountingFirmLayout from './components/AccountingFirmLayout';
 import ClientHomePage from './pages/client/HomePage';
@@ -10,19 +12,30 @@ import ClientChatPage from './pages/client/ChatPage';
 import ClientRecordsPage from './pages/client/RecordsPage';
 import CRSAnalysisPage from './pages/client/CRSAnalysisPage';
 import PaymentRenegotiationPage from './pages/client/PaymentRenegotiationPage';
+import ClientCalendarPage from './pages/client/CalendarPage';
 import AccountingHomePage from './pages/accounting/HomePage';
 import AccountingChatPage from './pages/accounting/ChatPage';
 import AccountingAnalyticsPage from './pages/accounting/AnalyticsPage';
+import AgingReportPage from './pages/accounting/AgingReportPage';
+import RemindersPage from './pages/accounting/RemindersPage';
+import AccountingCalendarPage from './pages/accounting/CalendarPage';
+import ReviewQueuePage from './pages/accounting/ReviewQueuePage';
 import SettingsPage from './pages/settings/SettingsPage';
 import TopNavigation from './components/TopNavigation';
 import ChatNotificationProvider from './components/ChatNotification';
-import { UnreadMessagesProvider } from './contexts/UnreadMessagesContext';
+import { NotificationsProvider } from './contexts/NotificationsContext';
+import { NotificationPreferencesProvider } from './contexts/NotificationPreferencesContext';
+import { PermissionsProvider } from './contexts/PermissionsContext';
 import { Toaster } from 'react-hot-toast';
 
 const accountingNavItems = [
   { path: '/accounting', label: 'Home' },
   { path: '/accounting/chat', label: 'Chat' },
+  { path: '/accounting/reviews', label: 'Reviews' },
   { path: '/accounting/analytics', label: 'Analytics' },
+  { path: '/accounting/aging', label: 'Aging Report' },
+  { path: '/accounting/reminders', label: 'Reminders' },
+  { path: '/accounting/calendar', label: 'Calendar' },
   { path: '/settings', label: 'Settings' },
 ];
 
@@ -31,6 +44,7 @@ const clientNavItems = [
   { path: '/client/chat', label: 'Chat' },
   { path: '/client/records', label: 'Records' },
   { path: '/client/crs', label: 'CRS Analysis' },
+  { path: '/client/calendar', label: 'Calendar' },
   { path: '/settings', label: 'Settings' },
 ];
 
@@ -58,73 +72,84 @@ function PaymentChatRedirect() {
 function App() {
   return (
     <BrowserRouter>
-      <UnreadMessagesProvider>
-        <ChatNotificationProvider />
-        <Toaster position="top-right" />
-        <AnimatePresence mode="wait">
-          <Routes>
-            {/* Auth Routes */}
-            <Route path="/signin" element={<SignIn />} />
-            <Route path="/signup" element={<SignUp />} />
+      <NotificationsProvider>
+        <NotificationPreferencesProvider>
+        <PermissionsProvider>
+          <ChatNotificationProvider />
+          <Toaster position="top-right" />
+          <AnimatePresence mode="wait">
+            <Routes>
+              {/* Auth Routes */}
+              <Route path="/signin" element={<SignIn />} />
+              <Route path="/signup" element={<SignUp />} />
+              <Route path="/invite/:token" element={<InvitePage />} />
+              <Route path="/join/:token" element={<JoinTeamPage />} />
 
-            {/* Client Routes */}
-            <Route
-              path="/client"
-              element={
-                <>
-                  <TopNavigation items={clientNavItems} userType="client" />
-                  <ClientLayout />
-                </>
-              }
-            >
-              <Route index element={<ClientHomePage />} />
-              <Route path="chat" element={<ClientChatPage />} />
-              <Route path="records" element={<ClientRecordsPage />} />
-              <Route path="crs" element={<CRSAnalysisPage />} />
-              <Route path="payment/renegotiate" element={<PaymentRenegotiationPage />} />
-            </Route>
+              {/* Client Routes */}
+              <Route
+                path="/client"
+                element={
+                  <>
+                    <TopNavigation items={clientNavItems} userType="client" />
+                    <ClientLayout />
+                  </>
+                }
+              >
+                <Route index element={<ClientHomePage />} />
+                <Route path="chat" element={<ClientChatPage />} />
+                <Route path="records" element={<ClientRecordsPage />} />
+                <Route path="crs" element={<CRSAnalysisPage />} />
+                <Route path="payment/renegotiate" element={<PaymentRenegotiationPage />} />
+                <Route path="calendar" element={<ClientCalendarPage />} />
+              </Route>
 
-            {/* Accounting Routes */}
-            <Route
-              path="/accounting"
-              element={
-                <>
-                  <TopNavigation items={accountingNavItems} userType="accounting" />
-                  <AccountingFirmLayout />
-                </>
-              }
-            >
-              <Route index element={<AccountingHomePage />} />
-              <Route path="chat" element={<AccountingChatPage />} />
-              <Route path="analytics" element={<AccountingAnalyticsPage />} />
-            </Route>
+              {/* Accounting Routes */}
+              <Route
+                path="/accounting"
+                element={
+                  <>
+                    <TopNavigation items={accountingNavItems} userType="accounting" />
+                    <AccountingFirmLayout />
+                  </>
+                }
+              >
+                <Route index element={<AccountingHomePage />} />
+                <Route path="chat" element={<AccountingChatPage />} />
+                <Route path="analytics" element={<AccountingAnalyticsPage />} />
+                <Route path="aging" element={<AgingReportPage />} />
+                <Route path="reminders" element={<RemindersPage />} />
+                <Route path="calendar" element={<AccountingCalendarPage />} />
+                <Route path="reviews" element={<ReviewQueuePage />} />
+              </Route>
 
-            {/* Settings Route (accessible from both client and accounting layouts) */}
-            <Route
-              path="/settings"
-              element={
-                <>
-                  <TopNavigation
-                    items={window.location.pathname.includes('/accounting')
-                      ? accountingNavItems
-                      : clientNavItems}
-                    userType={window.location.pathname.includes('/accounting')
-                      ? 'accounting'
-                      : 'client'}
-                  />
-                  <SettingsPage />
-                </>
-              }
-            />
+              {/* Settings Route (accessible from both client and accounting layouts) */}
+              <Route
+                path="/settings"
+                element={
+                  <>
+                    <TopNavigation
+                      items={window.location.pathname.includes('/accounting')
+                        ? accountingNavItems
+                        : clientNavItems}
+                      userType={window.location.pathname.includes('/accounting')
+                        ? 'accounting'
+                        : 'client'}
+                    />
+                    <SettingsPage />
+                  </>
+                }
+              />
 
-            {/* Payment Chat Redirect */}
-            <Route path="/payment-chat-redirect" element={<PaymentChatRedirect />} />
+              {/* Payment Chat Redirect */}
+              <Route path="/payment-chat-redirect" element={<PaymentChatRedirect />} />
 
-            {/* Redirect root to signin */}
-            <Route path="/" element={<Navigate to="/signin" />} />
-          </Routes>
-        </AnimatePresence>
-      </UnreadMessagesProvider>
+              {/* Redirect root to signin */}
+              <Route path="/" element={<Navigate to="/signin" />} />
+            </Routes>
+          </AnimatePresence>
+        </PermissionsProvider>
+        </NotificationPreferencesProvider>
+      </NotificationsProvider>
     </BrowserRouter>
   );
 }
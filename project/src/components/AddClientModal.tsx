@@ -1,7 +1,15 @@
-import React, { useState, useEffect } from 'react';
-import { X, Loader2, ArrowLeft } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { X, Loader2, ArrowLeft, Copy, CheckCircle } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { supabase } from '../lib/supabase';
+import toast from 'react-hot-toast';
+import { sendTemplatedEmail } from '../lib/emailService';
+import {
+  createInvitation,
+  redeemInvitation,
+  invitationUrl,
+  parseInvitationToken,
+  INVITATION_VALID_DAYS,
+} from '../lib/invitations';
 import PaymentPlanCard from './PaymentPlanCard';
 import { PaymentPlan } from '../types/paymentPlan';
 
@@ -13,20 +21,14 @@ interface AddClientModalProps {
   description?: string;
 }
 
-interface ClientFormData {
-  companyName: string;
-  domainEmail: string;
-  liaisonName: string;
-  liaisonEmail: string;
-  liaisonPhone: string;
+interface InviteFormData {
+  name: string;
+  email: string;
 }
 
-const initialFormData: ClientFormData = {
-  companyName: '',
-  domainEmail: '',
-  liaisonName: '',
-  liaisonEmail: '',
-  liaisonPhone: '',
+const initialFormData: InviteFormData = {
+  name: '',
+  email: '',
 };
 
 const initialPaymentPlan: PaymentPlan = {
@@ -42,87 +44,42 @@ export default function AddClientModal({
   onClose, 
   onSuccess,
   title = "Add New Client",
-  description = "Add a new client to your account"
+  description = "Invite a client by email. They connect by accepting the invitation."
 }: AddClientModalProps) {
-  const [step, setStep] = useState<'verify' | 'company' | 'liaison' | 'payment'>('verify');
-  const [isUsingSoftware, setIsUsingSoftware] = useState<boolean | null>(null);
+  const [step, setStep] = useState<'invite' | 'payment' | 'sent' | 'code'>('invite');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [formData, setFormData] = useState<ClientFormData>(initialFormData);
-  const [isClient, setIsClient] = useState(false);
+  const [formData, setFormData] = useState<InviteFormData>(initialFormData);
   const [paymentPlan, setPaymentPlan] = useState<PaymentPlan>(initialPaymentPlan);
-
-  useEffect(() => {
-    const checkUserType = async () => {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { data: userData } = await supabase
-        .from('users')
-        .select('role')
-        .eq('id', user.id)
-        .single();
-
-      setIsClient(userData?.role === 'client_user');
-    };
-
-    checkUserType();
-  }, []);
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [emailSent, setEmailSent] = useState(false);
+  const [code, setCode] = useState('');
 
   useEffect(() => {
     if (!isOpen) {
       setFormData(initialFormData);
-      setStep('verify');
+      setStep('invite');
       setError(null);
       setPaymentPlan(initialPaymentPlan);
+      setInviteLink(null);
+      setEmailSent(false);
+      setCode('');
     }
   }, [isOpen]);
 
-  const handleVerifyStep = (usingSoftware: boolean) => {
-    setIsUsingSoftware(usingSoftware);
-    setStep('company');
-  };
-
   const handleBack = () => {
-    if (step === 'payment') {
-      setStep('liaison');
-    } else if (step === 'liaison') {
-      setStep('company');
-    } else if (step === 'company') {
-      setStep('verify');
-    }
-  };
-
-  const handleCompanyStep = async () => {
     setError(null);
-    setLoading(true);
-
-    try {
-      const { data: existingCompany, error: companyError } = await supabase
-        .from('companies')
-        .select('id')
-        .eq('name', formData.companyName)
-        .maybeSingle();
-
-      if (companyError) throw companyError;
-
-      if (existingCompany && !isUsingSoftware) {
-        throw new Error('Company already exists in our system');
-      }
-
-      if (!existingCompany && isUsingSoftware) {
-        throw new Error('Company not found in our system');
-      }
-
-      setStep('liaison');
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
-    } finally {
-      setLoading(false);
+    if (step === 'payment' || step === 'code') {
+      setStep('invite');
     }
   };
 
-  const handleLiaisonStep = () => {
+  const handleInviteStep = () => {
+    if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(formData.email.trim())) {
+      setError('Enter a valid email address');
+      return;
+    }
+    setError(null);
     setStep('payment');
   };
 
@@ -147,163 +104,49 @@ export default function AddClientModal({
     setLoading(true);
 
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('Not authenticated');
-
-      // Get current user's company
-      const { data: currentUser, error: userError } = await supabase
-        .from('users')
-        .select('company_id')
-        .eq('id', user.id)
-        .single();
-
-      if (userError) throw userError;
-
-      let accountingFirmId: string;
-      let clientFirmId: string;
-
-      if (isClient) {
-        // Client initiating connection
-        clientFirmId = currentUser.company_id;
-
-        // Get or create accounting firm
-        let accountingFirm;
-        if (isUsingSoftware) {
-          const { data, error } = await supabase
-            .from('companies')
-            .select('id')
-            .eq('name', formData.companyName)
-            .single();
-
-          if (error) throw error;
-          accountingFirm = data;
-        } else {
-          const { data, error } = await supabase
-            .from('companies')
-            .insert([{
-              name: formData.companyName,
-              domain_email: formData.domainEmail,
-              type: 'accounting_firm',
-              is_using_software: false
-            }])
-            .select()
-            .single();
-
-          if (error) throw error;
-          accountingFirm = data;
-        }
-        accountingFirmId = accountingFirm.id;
-      } else {
-        // Accountant initiating connection
-        accountingFirmId = currentUser.company_id;
-
-        // Get or create client company
-        let clientFirm;
-        if (isUsingSoftware) {
-          const { data, error } = await supabase
-            .from('companies')
-            .select('id')
-            .eq('name', formData.companyName)
-            .single();
-
-          if (error) throw error;
-          clientFirm = data;
-        } else {
-          const { data, error } = await supabase
-            .from('companies')
-            .insert([{
-              name: formData.companyName,
-              domain_email: formData.domainEmail,
-              type: 'client',
-              is_using_software: false
-            }])
-            .select()
-            .single();
-
-          if (error) throw error;
-          clientFirm = data;
-        }
-        clientFirmId = clientFirm.id;
-      }
-
-      // Create or get liaison user
-      let liaisonId: string;
-      const { data: existingUser, error: userQueryError } = await supabase
-        .from('users')
-        .select('id')
-        .eq('email', formData.liaisonEmail)
-        .maybeSingle();
-
-      if (userQueryError) throw userQueryError;
-
-      if (existingUser) {
-        liaisonId = existingUser.id;
-      } else {
-        const { data: authUser, error: authError } = await supabase.auth.signUp({
-          email: formData.liaisonEmail,
-          password: Math.random().toString(36).slice(-8),
+      const token = await createInvitation(formData.email.trim(), formData.name, {
+        total_due: paymentPlan.totalAmount,
+        payment_rate: paymentPlan.paymentPeriod,
+        num_payment: paymentPlan.numberOfPayments,
+      });
+      const link = invitationUrl(token);
+      setInviteLink(link);
+
+      // The invitation stands even if the email fails; the link can be shared by hand
+      try {
+        const expiresAt = new Date(Date.now() + INVITATION_VALID_DAYS * 24 * 60 * 60 * 1000);
+        await sendTemplatedEmail(formData.email.trim(), 'invitation', {
+          recipientName: formData.name || undefined,
+          inviteToken: token,
+          expiresAt: expiresAt.toLocaleDateString(),
         });
-
-        if (authError) throw authError;
-        if (!authUser.user) throw new Error('Failed to create user');
-
-        const { error: userError } = await supabase
-          .from('users')
-          .insert([{
-            id: authUser.user.id,
-            company_id: isClient ? accountingFirmId : clientFirmId,
-            email: formData.liaisonEmail,
-            full_name: formData.liaisonName,
-            phone_number: formData.liaisonPhone,
-            role: isClient ? 'accountant' : 'client_user',
-            is_using_software: false
-          }]);
-
-        if (userError) throw userError;
-        liaisonId = authUser.user.id;
+        setEmailSent(true);
+      } catch (emailError) {
+        console.error('Error sending invitation email:', emailError);
+        setEmailSent(false);
       }
 
-      // Create company relationship
-      const { data: relationship, error: relationshipError } = await supabase
-        .from('company_relationships')
-        .insert([{
-          accounting_firm_id: accountingFirmId,
-          client_firm_id: clientFirmId,
-          verification_status: 'pending',
-          initiated_by: isClient ? 'client' : 'accountant'
-        }])
-        .select()
-        .single();
-
-      if (relationshipError) throw relationshipError;
-
-      // Create liaison
-      const { data: liaison, error: liaisonError } = await supabase
-        .from('liaisons')
-        .insert([{
-          company_relationship_id: relationship.id,
-          accountant_id: isClient ? liaisonId : user.id,
-          client_id: isClient ? user.id : liaisonId
-        }])
-        .select()
-        .single();
-
-      if (liaisonError) throw liaisonError;
+      setStep('sent');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      // Create initial payment plan
-      const { error: paymentPlanError } = await supabase
-        .from('Payment_plan')
-        .insert([{
-          total_due: paymentPlan.totalAmount,
-          payment_rate: paymentPlan.paymentPeriod,
-          num_payment: paymentPlan.numberOfPayments,
-          liaison_id: liaison.id,
-          status: 'pending',
-          modified_by: user.id
-        }]);
+  const handleRedeemCode = async () => {
+    const token = parseInvitationToken(code);
+    if (!token) {
+      setError('Enter the invitation code or link you received');
+      return;
+    }
 
-      if (paymentPlanError) throw paymentPlanError;
+    setError(null);
+    setLoading(true);
 
+    try {
+      await redeemInvitation(token);
+      toast.success('You are now connected');
       onSuccess();
       onClose();
     } catch (err) {
@@ -313,6 +156,22 @@ export default function AddClientModal({
     }
   };
 
+  const handleCopyLink = async () => {
+    if (!inviteLink) return;
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      toast.success('Invitation link copied');
+    } catch (err) {
+      console.error('Error copying invitation link:', err);
+      toast.error('Failed to copy the link');
+    }
+  };
+
+  const handleDone = () => {
+    onSuccess();
+    onClose();
+  };
+
   if (!isOpen) return null;
 
   const modalVariants = {
@@ -334,7 +193,7 @@ export default function AddClientModal({
           >
             <div className="flex justify-between items-center mb-6">
               <div className="flex items-center">
-                {step !== 'verify' && (
+                {(step === 'payment' || step === 'code') && (
                   <button
                     onClick={handleBack}
                     className="mr-3 text-gray-500 hover:text-gray-700 transition-colors duration-200"
@@ -363,127 +222,78 @@ export default function AddClientModal({
               </motion.div>
             )}
 
-            {step === 'verify' && (
+            {step === 'invite' && (
               <motion.div
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
                 className="space-y-4"
               >
                 <p className="text-gray-600">{description}</p>
-                <div className="flex space-x-3">
-                  <button
-                    onClick={() => handleVerifyStep(true)}
-                    className="flex-1 bg-indigo-600 text-white py-2 rounded-lg hover:bg-indigo-700 transition-colors duration-200"
-                  >
-                    Yes
-                  </button>
-                  <button
-                    onClick={() => handleVerifyStep(false)}
-                    className="flex-1 border border-gray-300 py-2 rounded-lg hover:bg-gray-50 transition-colors duration-200"
-                  >
-                    No
-                  </button>
-                </div>
-              </motion.div>
-            )}
-
-            {step === 'company' && (
-              <motion.div
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                className="space-y-4"
-              >
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Company Name
+                    Name
                   </label>
                   <input
                     type="text"
-                    value={formData.companyName}
-                    onChange={(e) => setFormData({ ...formData, companyName: e.target.value })}
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                    placeholder="Enter company name"
+                    placeholder="Who are you inviting?"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Email
+                  </label>
+                  <input
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    placeholder="Only this address can accept the invitation"
                   />
                 </div>
-                {!isUsingSoftware && (
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Domain Email
-                    </label>
-                    <input
-                      type="text"
-                      value={formData.domainEmail}
-                      onChange={(e) => setFormData({ ...formData, domainEmail: e.target.value })}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                      placeholder="@company.com"
-                    />
-                  </div>
-                )}
                 <button
-                  onClick={handleCompanyStep}
-                  disabled={loading}
+                  onClick={handleInviteStep}
                   className="w-full bg-indigo-600 text-white py-2 rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors duration-200"
                 >
-                  {loading ? (
-                    <Loader2 className="h-5 w-5 animate-spin mx-auto" />
-                  ) : (
-                    'Continue'
-                  )}
+                  Continue
+                </button>
+                <button
+                  onClick={() => {
+                    setError(null);
+                    setStep('code');
+                  }}
+                  className="w-full text-sm text-indigo-600 hover:text-indigo-700"
+                >
+                  Have an invitation code?
                 </button>
               </motion.div>
             )}
 
-            {step === 'liaison' && (
+            {step === 'code' && (
               <motion.div
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
                 className="space-y-4"
               >
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Liaison Name
-                  </label>
-                  <input
-                    type="text"
-                    value={formData.liaisonName}
-                    onChange={(e) => setFormData({ ...formData, liaisonName: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                    placeholder="Enter liaison's full name"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Liaison Email
-                  </label>
-                  <input
-                    type="email"
-                    value={formData.liaisonEmail}
-                    onChange={(e) => setFormData({ ...formData, liaisonEmail: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                    placeholder="Enter liaison's email"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Liaison Phone
-                  </label>
-                  <input
-                    type="tel"
-                    value={formData.liaisonPhone}
-                    onChange={(e) => setFormData({ ...formData, liaisonPhone: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                    placeholder="Enter liaison's phone number"
-                  />
-                </div>
+                <p className="text-gray-600">Paste the invitation link or code you received by email.</p>
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono text-sm"
+                  placeholder="Invitation code or link"
+                />
                 <button
-                  onClick={handleLiaisonStep}
-                  disabled={loading}
+                  onClick={handleRedeemCode}
+                  disabled={loading || !code.trim()}
                   className="w-full bg-indigo-600 text-white py-2 rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors duration-200"
                 >
                   {loading ? (
                     <Loader2 className="h-5 w-5 animate-spin mx-auto" />
                   ) : (
-                    'Continue'
+                    'Accept Invitation'
                   )}
                 </button>
               </motion.div>
@@ -508,11 +318,51 @@ export default function AddClientModal({
                   {loading ? (
                     <Loader2 className="h-5 w-5 animate-spin mx-auto" />
                   ) : (
-                    'Connect'
+                    'Send Invitation'
                   )}
                 </button>
               </motion.div>
             )}
+
+            {step === 'sent' && inviteLink && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="space-y-4"
+              >
+                <div className="flex items-start text-gray-700">
+                  <CheckCircle className="h-5 w-5 text-green-600 mr-2 mt-0.5 flex-shrink-0" />
+                  <p>
+                    {emailSent
+                      ? `Invitation sent to ${formData.email.trim()}.`
+                      : `The invitation was created but the email could not be sent. Share the link with ${formData.email.trim()} yourself.`}
+                    {' '}It expires in {INVITATION_VALID_DAYS} days and can be revoked in Settings.
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    readOnly
+                    value={inviteLink}
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg bg-gray-50 font-mono text-xs"
+                  />
+                  <button
+                    onClick={handleCopyLink}
+                    title="Copy link"
+                    className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+                  >
+                    <Copy className="h-4 w-4" />
+                  </button>
+                </div>
+                <button
+                  onClick={handleDone}
+                  className="w-full bg-indigo-600 text-white py-2 rounded-lg hover:bg-indigo-700 transition-colors duration-200"
+                >
+                  Done
+                </button>
+              </motion.div>
+            )}
           </motion.div>
         </div>
       )}
@@ -0,0 +1,227 @@
+import { useState, useEffect } from 'react';
+import { Loader2, AlertCircle, History } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  getCRSPolicyVersions,
+  getDefaultCRSPolicy,
+  publishCRSPolicy,
+  validateCRSPolicy,
+  CRSPolicyInput,
+  CRSPolicyVersion,
+} from '../lib/crs';
+
+interface CRSPolicySettingsProps {
+  companyId: string;
+}
+
+type NumericField = Exclude<keyof CRSPolicyInput, 'notes'>;
+
+const FIELD_GROUPS: {
+  title: string;
+  fields: { key: NumericField; label: string; help: string; step: string }[];
+}[] = [
+  {
+    title: 'Penalties',
+    fields: [
+      { key: 'base_penalty', label: 'Missed payment penalty', help: 'Points lost for the first missed payment', step: '0.5' },
+      { key: 'penalty_multiplier', label: 'Penalty multiplier', help: 'Applied for each consecutive miss', step: '0.1' },
+      { key: 'late_payment_weight', label: 'Late payment weight', help: 'Share of the penalty for paying late (0 to 1)', step: '0.05' },
+      { key: 'grace_days', label: 'Grace period (days)', help: 'Days after the due date before a payment counts as late', step: '1' },
+    ],
+  },
+  {
+    title: 'Recovery',
+    fields: [
+      { key: 'recovery_increment', label: 'On-time payment', help: 'Points gained per on-time payment', step: '0.5' },
+      { key: 'recovery_bonus', label: 'Streak bonus', help: 'Extra points when a streak completes', step: '0.5' },
+      { key: 'bonus_period', label: 'Bonus cadence', help: 'Consecutive on-time payments per bonus', step: '1' },
+    ],
+  },
+  {
+    title: 'Scoring',
+    fields: [
+      { key: 'base_score', label: 'Starting score', help: 'Score of a client without payment history', step: '1' },
+      { key: 'low_risk_threshold', label: 'Low risk from', help: 'Scores at or above are low risk', step: '1' },
+      { key: 'medium_risk_threshold', label: 'Medium risk from', help: 'Scores at or above are medium risk', step: '1' },
+    ],
+  },
+];
+
+const toInput = (version: CRSPolicyVersion): CRSPolicyInput => ({
+  base_score: Number(version.base_score),
+  base_penalty: Number(version.base_penalty),
+  penalty_multiplier: Number(version.penalty_multiplier),
+  late_payment_weight: Number(version.late_payment_weight),
+  recovery_increment: Number(version.recovery_increment),
+  recovery_bonus: Number(version.recovery_bonus),
+  bonus_period: Number(version.bonus_period),
+  grace_days: Number(version.grace_days),
+  low_risk_threshold: Number(version.low_risk_threshold),
+  medium_risk_threshold: Number(version.medium_risk_threshold),
+  notes: '',
+});
+
+export default function CRSPolicySettings({ companyId }: CRSPolicySettingsProps) {
+  const [versions, setVersions] = useState<CRSPolicyVersion[]>([]);
+  const [policy, setPolicy] = useState<CRSPolicyInput | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchPolicy = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const published = await getCRSPolicyVersions(companyId);
+        setVersions(published);
+        setPolicy(published.length > 0 ? toInput(published[0]) : await getDefaultCRSPolicy());
+      } catch (err) {
+        console.error('Error fetching CRS policy:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load scoring policy');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPolicy();
+  }, [companyId]);
+
+  const handlePublish = async () => {
+    if (!policy) return;
+
+    const validationError = validateCRSPolicy(policy);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const published = await publishCRSPolicy(companyId, policy);
+      setVersions(prev => [published, ...prev]);
+      setPolicy({ ...policy, notes: '' });
+      toast.success(`Scoring policy v${published.version} is now in effect`);
+    } catch (err) {
+      console.error('Error publishing CRS policy:', err);
+      setError(err instanceof Error ? err.message : 'Failed to publish scoring policy');
+      toast.error('Failed to publish scoring policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || !policy) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold text-gray-900">CRS Scoring Policy</h2>
+        <span className="text-sm text-gray-500">
+          {versions.length > 0 ? `Version ${versions[0].version} in effect` : 'Using the default policy'}
+        </span>
+      </div>
+      <p className="text-sm text-gray-500 mb-6">
+        Publishing creates a new version and rescores all of your clients. Earlier
+        scores keep a reference to the version they were computed with.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center text-red-700">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {FIELD_GROUPS.map(group => (
+          <div key={group.title}>
+            <h3 className="text-lg font-medium text-gray-900 mb-4">{group.title}</h3>
+            <div className="grid grid-cols-2 gap-4">
+              {group.fields.map(field => (
+                <div key={field.key}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {field.label}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step={field.step}
+                    value={policy[field.key]}
+                    onChange={(e) => setPolicy({ ...policy, [field.key]: Number(e.target.value) })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">{field.help}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Reason for change
+          </label>
+          <textarea
+            value={policy.notes || ''}
+            onChange={(e) => setPolicy({ ...policy, notes: e.target.value })}
+            rows={2}
+            placeholder="Optional, shown in the version history"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </div>
+
+        <button
+          onClick={handlePublish}
+          disabled={saving}
+          className="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? (
+            <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+          ) : (
+            'Publish New Version'
+          )}
+        </button>
+
+        {versions.length > 0 && (
+          <div className="pt-6 border-t border-gray-200">
+            <h3 className="flex items-center text-lg font-medium text-gray-900 mb-4">
+              <History className="h-5 w-5 mr-2 text-gray-400" />
+              Version History
+            </h3>
+            <div className="space-y-3">
+              {versions.map(version => (
+                <div key={version.id} className="p-4 border border-gray-200 rounded-lg text-sm">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-medium text-gray-900">Version {version.version}</span>
+                    <span className="text-gray-500">
+                      {new Date(version.created_at).toLocaleDateString()}
+                      {version.author && ` by ${version.author.full_name}`}
+                    </span>
+                  </div>
+                  <p className="text-gray-600">
+                    Penalty {version.base_penalty} × {version.penalty_multiplier}, late weight {version.late_payment_weight},
+                    {' '}+{version.recovery_increment} per payment, +{version.recovery_bonus} every {version.bonus_period},
+                    {' '}{version.grace_days} grace days, risk {version.medium_risk_threshold}/{version.low_risk_threshold}
+                  </p>
+                  {version.notes && (
+                    <p className="mt-1 text-gray-500 italic">{version.notes}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState, useEffect } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Loader2 } from 'lucide-react';
+import { getOpenInstallments, OpenInstallment } from '../lib/payments';
+import {
+  simulateCRSScore,
+  CRSPolicy,
+  CRSScenario,
+  CRSSimulationResult,
+  SimulatedOutcome,
+} from '../lib/crs';
+
+interface CRSSimulatorProps {
+  liaisonId: string;
+  currentScore: number;
+  policy: CRSPolicy;
+}
+
+const OUTCOMES: { id: SimulatedOutcome; label: string; defaultDays: number; active: string }[] = [
+  { id: 'early', label: 'Early', defaultDays: 5, active: 'bg-green-600 text-white' },
+  { id: 'on_time', label: 'On time', defaultDays: 0, active: 'bg-indigo-600 text-white' },
+  { id: 'late', label: 'Late', defaultDays: 10, active: 'bg-yellow-500 text-white' },
+  { id: 'miss', label: 'Miss', defaultDays: 0, active: 'bg-red-600 text-white' },
+];
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('default', { month: 'short', day: 'numeric' });
+
+export default function CRSSimulator({ liaisonId, currentScore, policy }: CRSSimulatorProps) {
+  const [installments, setInstallments] = useState<OpenInstallment[]>([]);
+  const [scenarios, setScenarios] = useState<CRSScenario[]>([]);
+  const [simulation, setSimulation] = useState<CRSSimulationResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [simulating, setSimulating] = useState(false);
+
+  useEffect(() => {
+    const fetchInstallments = async () => {
+      try {
+        setLoading(true);
+        const open = await getOpenInstallments(liaisonId);
+
+        // Installments past their grace period already count as missed
+        const cutoff = new Date();
+        cutoff.setHours(0, 0, 0, 0);
+        cutoff.setDate(cutoff.getDate() - policy.grace_days);
+        const upcoming = open.filter(installment => new Date(installment.dueDate) >= cutoff);
+
+        setInstallments(upcoming);
+        setScenarios(upcoming.map(installment => ({
+          transaction_id: installment.id,
+          outcome: 'on_time',
+          days: 0,
+        })));
+      } catch (error) {
+        console.error('Error fetching upcoming installments:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInstallments();
+  }, [liaisonId, policy.grace_days]);
+
+  useEffect(() => {
+    if (scenarios.length === 0) {
+      setSimulation(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const runSimulation = async () => {
+      try {
+        setSimulating(true);
+        const result = await simulateCRSScore(liaisonId, scenarios);
+        if (!cancelled) setSimulation(result);
+      } catch (error) {
+        console.error('Error simulating CRS score:', error);
+      } finally {
+        if (!cancelled) setSimulating(false);
+      }
+    };
+
+    // Let quick edits of the day count settle before asking the database
+    const timeout = setTimeout(runSimulation, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [liaisonId, scenarios]);
+
+  const updateScenario = (transactionId: string, changes: Partial<CRSScenario>) => {
+    setScenarios(prev => prev.map(scenario =>
+      scenario.transaction_id === transactionId ? { ...scenario, ...changes } : scenario
+    ));
+  };
+
+  const applyToAll = (outcome: SimulatedOutcome) => {
+    const { defaultDays } = OUTCOMES.find(option => option.id === outcome)!;
+    setScenarios(prev => prev.map(scenario => ({ ...scenario, outcome, days: defaultDays })));
+  };
+
+  const simulatedIds = new Set(scenarios.map(scenario => scenario.transaction_id));
+  const projectedPoints = (simulation?.trajectory || [])
+    .filter(point => point.transaction_id && simulatedIds.has(point.transaction_id));
+  const projectedById = new Map(projectedPoints.map(point => [point.transaction_id, point]));
+  const finalScore = projectedPoints.length > 0
+    ? projectedPoints[projectedPoints.length - 1].score
+    : currentScore;
+
+  const chartData = [
+    { date: 'Today', score: currentScore },
+    ...projectedPoints.map(point => ({ date: formatDate(point.due_date), score: point.score })),
+  ];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-gray-900">What-If Simulator</h3>
+        {simulating && <Loader2 className="h-4 w-4 animate-spin text-indigo-600" />}
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Choose how you expect to pay each upcoming installment to see where your score would land.
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+        </div>
+      ) : installments.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">You have no upcoming installments to simulate</p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center space-x-2 text-sm">
+              <span className="text-gray-500">Set all to:</span>
+              {OUTCOMES.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => applyToAll(option.id)}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className="text-sm">
+              <span className="text-gray-500">Projected score: </span>
+              <span className={`font-semibold ${
+                finalScore > currentScore ? 'text-green-600' :
+                finalScore < currentScore ? 'text-red-600' :
+                'text-gray-900'
+              }`}>
+                {finalScore} ({finalScore >= currentScore ? '+' : ''}{finalScore - currentScore})
+              </span>
+            </div>
+          </div>
+
+          <div className="h-56 mb-6">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" />
+                <YAxis domain={[policy.min_score, policy.max_score]} />
+                <Tooltip />
+                <ReferenceLine y={policy.risk_thresholds.low} stroke="#059669" strokeDasharray="4 4" />
+                <ReferenceLine y={policy.risk_thresholds.medium} stroke="#D97706" strokeDasharray="4 4" />
+                <Line
+                  type="monotone"
+                  dataKey="score"
+                  name="Projected Score"
+                  stroke="#6366f1"
+                  strokeWidth={2}
+                  dot={{ fill: '#6366f1' }}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="divide-y divide-gray-100">
+            {installments.map(installment => {
+              const scenario = scenarios.find(item => item.transaction_id === installment.id);
+              const point = projectedById.get(installment.id);
+              if (!scenario) return null;
+
+              return (
+                <div key={installment.id} className="py-3 flex items-center justify-between">
+                  <div className="text-sm">
+                    <p className="font-medium text-gray-900">{installment.description}</p>
+                    <p className="text-gray-500">
+                      Due {formatDate(installment.dueDate)} · {formatCurrency(installment.outstanding)}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <div className="flex rounded-lg border border-gray-200 overflow-hidden text-xs">
+                      {OUTCOMES.map(option => (
+                        <button
+                          key={option.id}
+                          onClick={() => updateScenario(installment.id, {
+                            outcome: option.id,
+                            days: option.defaultDays,
+                          })}
+                          className={`px-2.5 py-1.5 transition-colors duration-200 ${
+                            scenario.outcome === option.id ? option.active : 'text-gray-600 hover:bg-gray-50'
+                          }`}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                    {(scenario.outcome === 'early' || scenario.outcome === 'late') && (
+                      <div className="flex items-center text-xs text-gray-500">
+                        <input
+                          type="number"
+                          min="1"
+                          value={scenario.days}
+                          onChange={(e) => updateScenario(installment.id, {
+                            days: Math.max(1, Number(e.target.value) || 1),
+                          })}
+                          className="w-14 px-2 py-1 border border-gray-300 rounded-md mr-1"
+                        />
+                        days
+                      </div>
+                    )}
+                    <span className={`w-12 text-right text-sm font-medium ${
+                      !point ? 'text-gray-400' :
+                      point.change > 0 ? 'text-green-600' :
+                      point.change < 0 ? 'text-red-600' :
+                      'text-gray-600'
+                    }`}>
+                      {point ? `${point.change > 0 ? '+' : ''}${point.change}` : '–'}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import { AlertCircle, CalendarDays, Copy, Loader2, RefreshCw, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  getCalendarFeed,
+  regenerateCalendarFeed,
+  revokeCalendarFeed,
+  calendarFeedUrl,
+  CalendarFeed,
+} from '../lib/calendar';
+
+export default function CalendarFeedSettings() {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchFeed = async () => {
+    try {
+      setFeed(await getCalendarFeed());
+    } catch (err) {
+      console.error('Error fetching calendar feed:', err);
+      setError('Failed to load your calendar feed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchFeed();
+  }, []);
+
+  const handleRegenerate = async () => {
+    if (feed && !window.confirm('Calendars subscribed to the current link will stop updating. Create a new link?')) {
+      return;
+    }
+
+    try {
+      setUpdating(true);
+      setError(null);
+      await regenerateCalendarFeed();
+      await fetchFeed();
+      toast.success(feed ? 'New calendar link created' : 'Calendar feed created');
+    } catch (err) {
+      console.error('Error creating calendar feed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create the calendar feed');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!window.confirm('Calendars subscribed to this link will stop updating. Turn off the calendar feed?')) {
+      return;
+    }
+
+    try {
+      setUpdating(true);
+      setError(null);
+      await revokeCalendarFeed();
+      setFeed(null);
+      toast.success('Calendar feed turned off');
+    } catch (err) {
+      console.error('Error revoking calendar feed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to turn off the calendar feed');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(calendarFeedUrl(feed.token));
+      toast.success('Calendar link copied');
+    } catch (err) {
+      console.error('Error copying calendar link:', err);
+      toast.error('Failed to copy the link');
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-2">Calendar Feed</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Subscribe to your installment due dates in Google Calendar, Outlook or Apple Calendar.
+        The link is private: anyone who has it can see your payment schedule.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center text-red-700">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+      ) : feed ? (
+        <div className="space-y-4">
+          <div className="flex items-center bg-gray-50 rounded-lg px-3 py-2">
+            <CalendarDays className="h-4 w-4 mr-2 text-gray-400 flex-shrink-0" />
+            <span className="text-sm text-gray-700 truncate">{calendarFeedUrl(feed.token)}</span>
+            <button
+              onClick={handleCopy}
+              title="Copy link"
+              className="ml-3 text-indigo-600 hover:text-indigo-700"
+            >
+              <Copy className="h-4 w-4" />
+            </button>
+          </div>
+          <p className="text-sm text-gray-500">
+            Created {new Date(feed.createdAt).toLocaleDateString()}
+            {feed.lastFetchedAt
+              ? `, last synced ${new Date(feed.lastFetchedAt).toLocaleString()}`
+              : ', not synced by a calendar app yet'}
+          </p>
+          <div className="flex space-x-3">
+            <button
+              onClick={handleRegenerate}
+              disabled={updating}
+              className="flex items-center px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              New Link
+            </button>
+            <button
+              onClick={handleRevoke}
+              disabled={updating}
+              className="flex items-center px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50"
+            >
+              <XCircle className="h-4 w-4 mr-2" />
+              Turn Off
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={handleRegenerate}
+          disabled={updating}
+          className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors duration-200"
+        >
+          {updating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CalendarDays className="h-4 w-4 mr-2" />}
+          Create Calendar Link
+        </button>
+      )}
+    </div>
+  );
+}
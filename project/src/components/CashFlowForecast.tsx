@@ -0,0 +1,195 @@
+import { useState, useEffect, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Loader2, AlertCircle } from 'lucide-react';
+import { RISK_STYLES, RiskLevel } from '../lib/crs';
+import {
+  getCashFlowForecast,
+  buildForecast,
+  ForecastInstallment,
+  FORECAST_WEEKS,
+} from '../lib/analytics';
+
+const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high'];
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+export default function CashFlowForecast() {
+  const [installments, setInstallments] = useState<ForecastInstallment[]>([]);
+  const [clientFilter, setClientFilter] = useState('all');
+  const [riskFilter, setRiskFilter] = useState<RiskLevel | 'all'>('all');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchForecast = async () => {
+      try {
+        setLoading(true);
+        setInstallments(await getCashFlowForecast());
+      } catch (err) {
+        console.error('Error fetching cash-flow forecast:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load forecast');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchForecast();
+  }, []);
+
+  const clientOptions = useMemo(() => {
+    const companies = new Map<string, string>();
+    installments.forEach(installment =>
+      companies.set(installment.clientCompanyId, installment.clientCompanyName)
+    );
+    return Array.from(companies, ([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [installments]);
+
+  const forecast = useMemo(() => {
+    const filtered = installments.filter(installment =>
+      (clientFilter === 'all' || installment.clientCompanyId === clientFilter) &&
+      (riskFilter === 'all' || installment.riskLevel === riskFilter)
+    );
+
+    return buildForecast(filtered, FORECAST_WEEKS).map(week => ({
+      ...week,
+      week: new Date(`${week.weekStart}T00:00:00`).toLocaleDateString('default', { month: 'short', day: 'numeric' }),
+      band: [week.worst, week.best],
+    }));
+  }, [installments, clientFilter, riskFilter]);
+
+  const totals = forecast.reduce(
+    (sum, week) => ({
+      scheduled: sum.scheduled + week.scheduled,
+      expected: sum.expected + week.expected,
+      best: sum.best + week.best,
+      worst: sum.worst + week.worst,
+    }),
+    { scheduled: 0, expected: 0, best: 0, worst: 0 }
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-xl shadow-sm p-6"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Cash-Flow Forecast</h3>
+          <p className="text-sm text-gray-500">
+            Expected receipts from active payment plans over the next {FORECAST_WEEKS} weeks
+          </p>
+        </div>
+        <div className="flex items-center space-x-3 text-sm">
+          <select
+            value={clientFilter}
+            onChange={(e) => setClientFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="all">All clients</option>
+            {clientOptions.map(client => (
+              <option key={client.id} value={client.id}>{client.name}</option>
+            ))}
+          </select>
+          <select
+            value={riskFilter}
+            onChange={(e) => setRiskFilter(e.target.value as RiskLevel | 'all')}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="all">All risk tiers</option>
+            {RISK_LEVELS.map(level => (
+              <option key={level} value={level}>{RISK_STYLES[level].label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center text-red-700">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div>
+              <p className="text-sm text-gray-500">Scheduled</p>
+              <p className="text-xl font-bold text-gray-900">{formatCurrency(totals.scheduled)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Expected</p>
+              <p className="text-xl font-bold text-indigo-600">{formatCurrency(totals.expected)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Best case</p>
+              <p className="text-xl font-bold text-green-600">{formatCurrency(totals.best)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Worst case</p>
+              <p className="text-xl font-bold text-red-600">{formatCurrency(totals.worst)}</p>
+            </div>
+          </div>
+
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={forecast}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="week" />
+                <YAxis tickFormatter={(value: number) => formatCurrency(value)} />
+                <Tooltip
+                  formatter={(value: number | number[], name: string) =>
+                    Array.isArray(value)
+                      ? [`${formatCurrency(value[0])} – ${formatCurrency(value[1])}`, name]
+                      : [formatCurrency(value), name]
+                  }
+                />
+                <Legend />
+                <Area
+                  type="monotone"
+                  dataKey="band"
+                  name="Worst – best case"
+                  stroke="none"
+                  fill="#c7d2fe"
+                  fillOpacity={0.6}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="scheduled"
+                  name="Scheduled"
+                  stroke="#9ca3af"
+                  strokeDasharray="5 5"
+                  dot={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="expected"
+                  name="Expected"
+                  stroke="#6366f1"
+                  strokeWidth={2}
+                  dot={{ fill: '#6366f1' }}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="mt-4 text-xs text-gray-500">
+            Each installment is weighted by its client's historical on-time rate, blended with
+            their CRS risk tier. Overdue installments are expected in the current week.
+          </p>
+        </>
+      )}
+    </motion.div>
+  );
+}
@@ -1,10 +1,10 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import { useInView } from 'react-intersection-observer';
-import { Paperclip } from 'lucide-react';
+import { Paperclip, Check, X, Bell, Info } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { useUnreadMessages } from '../contexts/UnreadMessagesContext';
+import { useNotifications } from '../contexts/NotificationsContext';
 import PaymentPlanMessage from './PaymentPlanMessage';
-import { PaymentPlanRequest } from '../types/paymentPlan';
+import { parseMessage, MessageType, MessagePayload } from '../lib/messages';
 
 interface ChatMessageProps {
   id: string;
@@ -13,12 +13,87 @@ interface ChatMessageProps {
   currentUserId: string | null;
   isRead: boolean;
   createdAt: string;
-  documentUrl?: string;
-  documentName?: string;
+  messageType?: string;
+  payload?: unknown;
   onMessageRead?: () => void;
   liaisonId: string;
 }
 
+interface RendererContext {
+  id: string;
+  content: string;
+  senderId: string;
+  currentUserId: string | null;
+  isCurrentUser: boolean;
+}
+
+type MessageRenderer<T extends MessageType> = (
+  payload: MessagePayload<T>,
+  context: RendererContext
+) => React.ReactNode;
+
+const REMINDER_TITLES: Record<MessagePayload<'reminder'>['level'], string> = {
+  friendly: 'Friendly Reminder',
+  approaching: 'Payment Approaching',
+  overdue: 'Payment Overdue',
+  urgent: 'Urgent Notice',
+};
+
+// One renderer per message type; adding a structured message kind means adding
+// its schema in lib/messages and its renderer here
+const MESSAGE_RENDERERS: { [T in MessageType]: MessageRenderer<T> } = {
+  text: (_, { content }) => <p className="whitespace-pre-wrap">{content}</p>,
+
+  payment_plan_request: (payload, { currentUserId }) => (
+    <PaymentPlanMessage
+      currentPlan={payload.currentPlan}
+      newPlan={payload.newPlan}
+      liaisonId={payload.newPlan.liaisonId}
+      currentUserId={currentUserId}
+      negotiationId={payload.negotiationId}
+      revision={payload.revision}
+    />
+  ),
+
+  payment_plan_response: ({ status }, { content }) => (
+    <div className="flex items-center space-x-2">
+      {status === 'accepted'
+        ? <Check className="h-4 w-4 flex-shrink-0" />
+        : <X className="h-4 w-4 flex-shrink-0" />}
+      <p>{content}</p>
+    </div>
+  ),
+
+  reminder: ({ level }, { content }) => (
+    <div>
+      <div className="flex items-center space-x-2 mb-1 font-medium">
+        <Bell className="h-4 w-4" />
+        <span>{REMINDER_TITLES[level]}</span>
+      </div>
+      <p className="whitespace-pre-wrap">{content}</p>
+    </div>
+  ),
+
+  document: ({ url, name }) => (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center space-x-2 hover:underline"
+    >
+      <Paperclip className="h-4 w-4" />
+      <span>{name}</span>
+    </a>
+  ),
+
+  system_event: ({ description }) => (
+    <div className="flex items-center space-x-2 italic">
+      <Info className="h-4 w-4 flex-shrink-0" />
+      <p>{description}</p>
+    </div>
+  ),
+};
+
 export default function ChatMessage({
   id,
   content,
@@ -26,12 +101,12 @@ export default function ChatMessage({
   currentUserId,
   isRead,
   createdAt,
-  documentUrl,
-  documentName,
+  messageType,
+  payload,
   onMessageRead,
   liaisonId
 }: ChatMessageProps) {
-  const { refreshUnreadCount } = useUnreadMessages();
+  const { refresh: refreshNotifications } = useNotifications();
   const { ref, inView } = useInView({
     threshold: 0.5,
     triggerOnce: true,
@@ -54,7 +129,7 @@ export default function ChatMessage({
             return;
           }
 
-          await refreshUnreadCount();
+          await refreshNotifications();
 
           if (onMessageRead) {
             onMessageRead();
@@ -66,7 +141,7 @@ export default function ChatMessage({
     };
 
     updateMessageStatus();
-  }, [inView, isRead, senderId, currentUserId, id, onMessageRead, refreshUnreadCount]);
+  }, [inView, isRead, senderId, currentUserId, id, onMessageRead, refreshNotifications]);
 
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
@@ -75,41 +150,17 @@ export default function ChatMessage({
 
   const isCurrentUser = senderId === currentUserId;
 
-  const renderContent = () => {
-    if (documentUrl) {
-      return (
-        <a
-          href={documentUrl}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="flex items-center space-x-2 hover:underline"
-        >
-          <Paperclip className="h-4 w-4" />
-          <span>{documentName}</span>
-        </a>
-      );
-    }
+  const parsed = useMemo(() => parseMessage(messageType, payload), [messageType, payload]);
 
-    try {
-      const parsedContent = JSON.parse(content) as PaymentPlanRequest;
-      if (parsedContent.type === 'payment_plan_request') {
-        return (
-          <PaymentPlanMessage
-            currentPlan={parsedContent.currentPlan}
-            newPlan={parsedContent.newPlan}
-            messageId={id}
-            liaisonId={parsedContent.newPlan.liaisonId}
-            senderId={senderId}
-            currentUserId={currentUserId}
-          />
-        );
-      }
-    } catch (e) {
-      // If content is not JSON or not a payment plan request, render as regular text
-      return <p>{content}</p>;
+  const renderContent = () => {
+    if (!parsed.success) {
+      // Unknown or malformed structured message: show its text summary
+      return MESSAGE_RENDERERS.text(null, { id, content, senderId, currentUserId, isCurrentUser });
     }
 
-    return <p>{content}</p>;
+    const { message } = parsed;
+    const render = MESSAGE_RENDERERS[message.type] as MessageRenderer<typeof message.type>;
+    return render(message.payload, { id, content, senderId, currentUserId, isCurrentUser });
   };
 
   return (
@@ -0,0 +1,276 @@
+import { useState, useEffect } from 'react';
+import { X, Loader2, Upload, Download, CheckCircle, AlertCircle } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { readSpreadsheet } from '../lib/spreadsheet';
+import {
+  parseClientImport,
+  runClientImport,
+  downloadImportTemplate,
+  downloadImportReport,
+  IMPORT_COLUMNS,
+  ClientImportResult,
+  ClientImportRow,
+  ClientImportStatus,
+} from '../lib/clientImport';
+
+interface ClientImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const STATUS_STYLES: Record<ClientImportStatus, string> = {
+  ready: 'bg-indigo-100 text-indigo-800',
+  created: 'bg-green-100 text-green-800',
+  duplicate: 'bg-yellow-100 text-yellow-800',
+  error: 'bg-red-100 text-red-700',
+};
+
+const STATUS_LABELS: Record<ClientImportStatus, string> = {
+  ready: 'Ready',
+  created: 'Imported',
+  duplicate: 'Duplicate',
+  error: 'Error',
+};
+
+const byRowNumber = (a: ClientImportResult, b: ClientImportResult) => a.rowNumber - b.rowNumber;
+
+const countBy = (results: ClientImportResult[], status: ClientImportStatus) =>
+  results.filter(result => result.status === status).length;
+
+export default function ClientImportWizard({ isOpen, onClose, onSuccess }: ClientImportWizardProps) {
+  const [step, setStep] = useState<'upload' | 'review' | 'done'>('upload');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<ClientImportRow[]>([]);
+  const [results, setResults] = useState<ClientImportResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setStep('upload');
+      setFileName(null);
+      setRows([]);
+      setResults([]);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setLoading(true);
+    setFileName(file.name);
+
+    try {
+      const parsed = parseClientImport(await readSpreadsheet(file));
+      const dryRun = parsed.rows.length > 0 ? await runClientImport(parsed.rows, true) : [];
+
+      setRows(parsed.rows);
+      setResults([...parsed.invalid, ...dryRun].sort(byRowNumber));
+      setStep('review');
+    } catch (err) {
+      console.error('Error reading client import:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setError(null);
+    setLoading(true);
+
+    try {
+      const ready = new Set(results.filter(result => result.status === 'ready').map(result => result.rowNumber));
+      const imported = await runClientImport(rows.filter(row => ready.has(row.rowNumber)), false);
+
+      const finalResults = [
+        ...results.filter(result => result.status !== 'ready'),
+        ...imported,
+      ].sort(byRowNumber);
+      setResults(finalResults);
+      setStep('done');
+
+      const created = countBy(finalResults, 'created');
+      if (created > 0) {
+        toast.success(`Imported ${created} client${created === 1 ? '' : 's'}`);
+        onSuccess();
+      }
+    } catch (err) {
+      console.error('Error importing clients:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import clients');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const readyCount = countBy(results, 'ready');
+  const problemCount = countBy(results, 'error') + countBy(results, 'duplicate');
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            transition={{ duration: 0.2 }}
+            className="bg-white rounded-xl max-w-3xl w-full p-6"
+          >
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-xl font-semibold">Import Clients</h2>
+              <button
+                onClick={onClose}
+                className="text-gray-500 hover:text-gray-700 transition-colors duration-200"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center text-red-700 text-sm">
+                <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            {step === 'upload' && (
+              <div className="space-y-4">
+                <p className="text-gray-600">
+                  Upload a CSV or XLSX file with a header row. Required columns:{' '}
+                  {IMPORT_COLUMNS.filter(column => column.required).map(column => column.label).join(', ')}.
+                  Optional: {IMPORT_COLUMNS.filter(column => !column.required).map(column => column.label).join(', ')}.
+                </p>
+                <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-8 cursor-pointer hover:border-indigo-400 transition-colors duration-200">
+                  {loading ? (
+                    <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+                  ) : (
+                    <Upload className="h-8 w-8 text-gray-400" />
+                  )}
+                  <span className="mt-2 text-sm text-gray-600">
+                    {loading ? `Checking ${fileName}...` : 'Choose a .csv or .xlsx file'}
+                  </span>
+                  <input
+                    type="file"
+                    accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                    disabled={loading}
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleFile(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                <button
+                  onClick={downloadImportTemplate}
+                  className="flex items-center text-sm text-indigo-600 hover:text-indigo-700"
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  Download a template
+                </button>
+              </div>
+            )}
+
+            {(step === 'review' || step === 'done') && (
+              <div className="space-y-4">
+                <p className="text-gray-600">
+                  {step === 'review'
+                    ? `Checked ${results.length} rows from ${fileName}. Nothing has been imported yet.`
+                    : `Imported ${countBy(results, 'created')} of ${results.length} rows from ${fileName}. Each liaison is connected to you, with their opening balance, when they sign up with the email you imported.`}
+                </p>
+
+                <div className="flex flex-wrap gap-2">
+                  {(['ready', 'created', 'duplicate', 'error'] as ClientImportStatus[])
+                    .filter(status => countBy(results, status) > 0)
+                    .map(status => (
+                      <span key={status} className={`px-3 py-1 text-sm font-medium rounded-full ${STATUS_STYLES[status]}`}>
+                        {countBy(results, status)} {STATUS_LABELS[status]}
+                      </span>
+                    ))}
+                </div>
+
+                <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Row</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Company</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Liaison</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {results.map(result => (
+                        <tr key={result.rowNumber}>
+                          <td className="px-3 py-2 text-gray-500">{result.rowNumber}</td>
+                          <td className="px-3 py-2 text-gray-900">{result.companyName}</td>
+                          <td className="px-3 py-2 text-gray-600">{result.liaisonEmail}</td>
+                          <td className="px-3 py-2">
+                            <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[result.status]}`}>
+                              {STATUS_LABELS[result.status]}
+                            </span>
+                            {result.message && (
+                              <p className="mt-1 text-xs text-gray-500">{result.message}</p>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="flex justify-between items-center">
+                  {problemCount > 0 ? (
+                    <button
+                      onClick={() => downloadImportReport(results)}
+                      className="flex items-center text-sm text-indigo-600 hover:text-indigo-700"
+                    >
+                      <Download className="h-4 w-4 mr-1" />
+                      Download error report
+                    </button>
+                  ) : <span />}
+
+                  {step === 'review' ? (
+                    <div className="flex space-x-3">
+                      <button
+                        onClick={() => setStep('upload')}
+                        disabled={loading}
+                        className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+                      >
+                        Choose Another File
+                      </button>
+                      <button
+                        onClick={handleImport}
+                        disabled={loading || readyCount === 0}
+                        className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors duration-200"
+                      >
+                        {loading ? (
+                          <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+                        ) : (
+                          `Import ${readyCount} Client${readyCount === 1 ? '' : 's'}`
+                        )}
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={onClose}
+                      className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors duration-200"
+                    >
+                      <CheckCircle className="h-5 w-5 mr-2" />
+                      Done
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,18 +1,23 @@
 import React from 'react';
 import { Outlet } from 'react-router-dom';
 import { motion } from 'framer-motion';
+import { ClientFirmProvider } from '../contexts/ClientFirmContext';
+import FirmSwitcher from './FirmSwitcher';
 
 export default function ClientLayout() {
   return (
-    <motion.div
-      initial={{ opacity: 0 }}
-      animate={{ opacity: 1 }}
-      exit={{ opacity: 0 }}
-      className="min-h-screen bg-gray-50"
-    >
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        <Outlet />
-      </main>
-    </motion.div>
+    <ClientFirmProvider>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="min-h-screen bg-gray-50"
+      >
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <FirmSwitcher />
+          <Outlet />
+        </main>
+      </motion.div>
+    </ClientFirmProvider>
   );
 }
\ No newline at end of file
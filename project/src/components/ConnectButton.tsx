@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
 import { supabase } from '../lib/supabase';
+import { useNotificationPreferences } from '../contexts/NotificationPreferencesContext';
+import { usePermissions } from '../contexts/PermissionsContext';
 
 interface ConnectButtonProps {
   relationshipId: string;
@@ -21,6 +24,8 @@ export default function ConnectButton({
   const [status, setStatus] = useState(initialStatus);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { allows } = useNotificationPreferences();
+  const { can } = usePermissions();
 
   useEffect(() => {
     const subscription = supabase
@@ -33,9 +38,12 @@ export default function ConnectButton({
           table: 'company_relationships',
           filter: `id=eq.${relationshipId}`,
         },
-        (payload: any) => {
+        (payload) => {
           const newStatus = payload.new.verification_status;
           setStatus(newStatus);
+          if (newStatus === 'verified' && userType === initiatedBy && allows('in_app', 'connection')) {
+            toast.success('Your connection request was accepted');
+          }
           if (onStatusChange) onStatusChange();
         }
       )
@@ -44,7 +52,7 @@ export default function ConnectButton({
     return () => {
       subscription.unsubscribe();
     };
-  }, [relationshipId, onStatusChange]);
+  }, [relationshipId, onStatusChange, userType, initiatedBy, allows]);
 
   const handleConnect = async () => {
     if (loading || status === 'established') return;
@@ -53,31 +61,12 @@ export default function ConnectButton({
     setError(null);
 
     try {
-      // Get the liaison ID for this relationship
-      const { data: liaison, error: liaisonError } = await supabase
-        .from('liaisons')
-        .select('id')
-        .eq('company_relationship_id', relationshipId)
-        .single();
+      // Activates the plans that came with the request and verifies it
+      const { error: acceptError } = await supabase.rpc('accept_connection', {
+        target_relationship_id: relationshipId,
+      });
 
-      if (liaisonError) throw liaisonError;
-
-      // Update the payment plan status to active
-      const { error: paymentPlanError } = await supabase
-        .from('Payment_plan')
-        .update({ status: 'active' })
-        .eq('liaison_id', liaison.id)
-        .eq('status', 'pending');
-
-      if (paymentPlanError) throw paymentPlanError;
-
-      // Update relationship status
-      const { error: updateError } = await supabase
-        .from('company_relationships')
-        .update({ verification_status: 'verified' })
-        .eq('id', relationshipId);
-
-      if (updateError) throw updateError;
+      if (acceptError) throw acceptError;
 
       setStatus('verified');
       if (onStatusChange) onStatusChange();
@@ -102,6 +91,15 @@ export default function ConnectButton({
       );
     }
 
+    // Accepting activates the plan that came with the request
+    if (status === 'pending' && !can('plans.accept')) {
+      return (
+        <div className="w-full px-4 py-2 bg-gray-100 text-gray-500 rounded-lg font-medium text-center">
+          Awaiting a Manager
+        </div>
+      );
+    }
+
     // If the user didn't initiate and status is pending, show accept button
     if (status === 'pending') {
       return (
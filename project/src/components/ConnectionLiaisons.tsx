@@ -0,0 +1,195 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, Plus, Star } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getTeamMembers, TeamMember } from '../lib/team';
+import {
+  getRelationshipLiaisons,
+  addLiaison,
+  setPrimaryLiaison,
+  reassignLiaison,
+  RelationshipLiaison,
+} from '../lib/liaisons';
+
+interface ConnectionLiaisonsProps {
+  relationshipId: string;
+  companyId: string;
+  otherCompanyId: string;
+  isAccountingFirm: boolean;
+  canManage: boolean;
+}
+
+export default function ConnectionLiaisons({
+  relationshipId,
+  companyId,
+  otherCompanyId,
+  isAccountingFirm,
+  canManage,
+}: ConnectionLiaisonsProps) {
+  const [liaisons, setLiaisons] = useState<RelationshipLiaison[]>([]);
+  const [colleagues, setColleagues] = useState<TeamMember[]>([]);
+  const [contacts, setContacts] = useState<TeamMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [newLiaison, setNewLiaison] = useState({ colleagueId: '', contactId: '' });
+
+  const fetchLiaisons = useCallback(async () => {
+    try {
+      setLiaisons(await getRelationshipLiaisons(relationshipId));
+    } catch (err) {
+      console.error('Error fetching liaisons:', err);
+      toast.error('Failed to load liaisons');
+    } finally {
+      setLoading(false);
+    }
+  }, [relationshipId]);
+
+  useEffect(() => {
+    fetchLiaisons();
+  }, [fetchLiaisons]);
+
+  useEffect(() => {
+    if (!canManage) return;
+
+    const fetchMembers = async () => {
+      try {
+        const [ownMembers, otherMembers] = await Promise.all([
+          getTeamMembers(companyId),
+          getTeamMembers(otherCompanyId),
+        ]);
+        setColleagues(ownMembers.filter(member => member.is_active));
+        setContacts(otherMembers.filter(member => member.is_active));
+      } catch (err) {
+        console.error('Error fetching members:', err);
+      }
+    };
+
+    fetchMembers();
+  }, [canManage, companyId, otherCompanyId]);
+
+  // The member on the signed-in user's side of a liaison
+  const ownSide = (liaison: RelationshipLiaison) => (isAccountingFirm ? liaison.accountant : liaison.client);
+  const otherSide = (liaison: RelationshipLiaison) => (isAccountingFirm ? liaison.client : liaison.accountant);
+
+  const runUpdate = async (id: string, update: () => Promise<void>, success: string) => {
+    try {
+      setUpdatingId(id);
+      await update();
+      toast.success(success);
+      await fetchLiaisons();
+    } catch (err) {
+      console.error('Error updating liaison:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to update liaison');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleReassign = (liaison: RelationshipLiaison, memberId: string) => {
+    const member = colleagues.find(colleague => colleague.id === memberId);
+    if (!member) return;
+
+    const confirmed = window.confirm(
+      `Hand this liaison over to ${member.full_name}? Open plans, reminders and the conversation history move with it.`
+    );
+    if (!confirmed) return;
+
+    runUpdate(liaison.id, () => reassignLiaison(liaison.id, memberId), `Handed over to ${member.full_name}`);
+  };
+
+  const handleAdd = () => {
+    const accountantId = isAccountingFirm ? newLiaison.colleagueId : newLiaison.contactId;
+    const clientId = isAccountingFirm ? newLiaison.contactId : newLiaison.colleagueId;
+
+    runUpdate('new', async () => {
+      await addLiaison(relationshipId, accountantId, clientId);
+      setNewLiaison({ colleagueId: '', contactId: '' });
+    }, 'Liaison added');
+  };
+
+  if (loading) {
+    return <Loader2 className="h-5 w-5 animate-spin text-indigo-600 mt-3" />;
+  }
+
+  return (
+    <div className="mt-3 space-y-2">
+      {liaisons.map(liaison => (
+        <div key={liaison.id} className="flex items-center justify-between text-sm bg-gray-50 rounded-lg px-3 py-2">
+          <div className="flex items-center min-w-0">
+            {liaison.is_primary && (
+              <span title="Primary liaison">
+                <Star className="h-4 w-4 mr-2 text-yellow-500 flex-shrink-0" />
+              </span>
+            )}
+            <span className="truncate text-gray-700">
+              {ownSide(liaison)?.full_name || 'Unknown'}
+              <span className="text-gray-400"> with </span>
+              {otherSide(liaison)?.full_name || 'Unknown'}
+            </span>
+          </div>
+          {canManage && (
+            <div className="flex items-center space-x-2 ml-3">
+              {updatingId === liaison.id && <Loader2 className="h-4 w-4 animate-spin text-indigo-600" />}
+              {!liaison.is_primary && (
+                <button
+                  onClick={() => runUpdate(liaison.id, () => setPrimaryLiaison(liaison.id), 'Primary liaison updated')}
+                  disabled={updatingId !== null}
+                  className="text-indigo-600 hover:text-indigo-700 disabled:opacity-50"
+                >
+                  Make primary
+                </button>
+              )}
+              <select
+                value=""
+                onChange={(e) => handleReassign(liaison, e.target.value)}
+                disabled={updatingId !== null}
+                className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="">Reassign to...</option>
+                {colleagues
+                  .filter(colleague => colleague.id !== ownSide(liaison)?.id)
+                  .map(colleague => (
+                    <option key={colleague.id} value={colleague.id}>{colleague.full_name}</option>
+                  ))}
+              </select>
+            </div>
+          )}
+        </div>
+      ))}
+      {liaisons.length === 0 && (
+        <p className="text-sm text-gray-500">No liaisons yet</p>
+      )}
+
+      {canManage && (
+        <div className="flex items-center space-x-2 pt-1">
+          <select
+            value={newLiaison.colleagueId}
+            onChange={(e) => setNewLiaison(prev => ({ ...prev, colleagueId: e.target.value }))}
+            className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="">{isAccountingFirm ? 'Accountant...' : 'Contact...'}</option>
+            {colleagues.map(colleague => (
+              <option key={colleague.id} value={colleague.id}>{colleague.full_name}</option>
+            ))}
+          </select>
+          <select
+            value={newLiaison.contactId}
+            onChange={(e) => setNewLiaison(prev => ({ ...prev, contactId: e.target.value }))}
+            className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="">{isAccountingFirm ? 'Client contact...' : 'Accountant...'}</option>
+            {contacts.map(contact => (
+              <option key={contact.id} value={contact.id}>{contact.full_name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleAdd}
+            disabled={!newLiaison.colleagueId || !newLiaison.contactId || updatingId !== null}
+            className="flex items-center px-3 py-1 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors duration-200"
+          >
+            {updatingId === 'new' ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Plus className="h-4 w-4 mr-1" />Add</>}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { Building2 } from 'lucide-react';
+import { useClientFirm } from '../contexts/ClientFirmContext';
+
+export default function FirmSwitcher() {
+  const { firms, selectedFirm, selectFirm } = useClientFirm();
+
+  // Nothing to switch between with a single firm
+  if (firms.length < 2 || !selectedFirm) return null;
+
+  return (
+    <div className="pt-20 flex items-center justify-end">
+      <label htmlFor="firm-switcher" className="flex items-center text-sm text-gray-600 mr-2">
+        <Building2 className="h-4 w-4 mr-1" />
+        Accounting firm
+      </label>
+      <select
+        id="firm-switcher"
+        value={selectedFirm.relationshipId}
+        onChange={(e) => selectFirm(e.target.value)}
+        className="px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+      >
+        {firms.map(firm => (
+          <option key={firm.relationshipId} value={firm.relationshipId}>{firm.firmName}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, Send, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import AddClientModal from './AddClientModal';
+import {
+  getInvitations,
+  revokeInvitation,
+  invitationStatus,
+  Invitation,
+  InvitationStatus,
+} from '../lib/invitations';
+
+interface InvitationSettingsProps {
+  companyId: string;
+  currentUserId: string;
+  canInvite: boolean;
+  canRevokeAll: boolean;
+  isClient: boolean;
+}
+
+const STATUS_STYLES: Record<InvitationStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  redeemed: 'bg-green-100 text-green-800',
+  revoked: 'bg-gray-100 text-gray-600',
+  expired: 'bg-red-100 text-red-700',
+};
+
+const STATUS_LABELS: Record<InvitationStatus, string> = {
+  pending: 'Pending',
+  redeemed: 'Accepted',
+  revoked: 'Revoked',
+  expired: 'Expired',
+};
+
+export default function InvitationSettings({ companyId, currentUserId, canInvite, canRevokeAll, isClient }: InvitationSettingsProps) {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+
+  const fetchInvitations = useCallback(async () => {
+    try {
+      setInvitations(await getInvitations(companyId));
+    } catch (err) {
+      console.error('Error fetching invitations:', err);
+      toast.error('Failed to load invitations');
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId]);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [fetchInvitations]);
+
+  const handleRevoke = async (invitation: Invitation) => {
+    try {
+      setRevokingId(invitation.id);
+      await revokeInvitation(invitation.id);
+      toast.success(`Invitation for ${invitation.invitee_email} revoked`);
+      await fetchInvitations();
+    } catch (err) {
+      console.error('Error revoking invitation:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to revoke invitation');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Invitations</h3>
+          <p className="text-sm text-gray-500">Pending invitations can be revoked until they are accepted</p>
+        </div>
+        {canInvite && (
+          <button
+            onClick={() => setIsInviteOpen(true)}
+            className="flex items-center px-3 py-2 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors duration-200"
+          >
+            <Send className="h-4 w-4 mr-2" />
+            Invite
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <Loader2 className="h-6 w-6 animate-spin text-indigo-600 mx-auto" />
+      ) : invitations.length === 0 ? (
+        <p className="text-center text-gray-500 py-4">No invitations sent yet</p>
+      ) : (
+        <div className="space-y-3">
+          {invitations.map(invitation => {
+            const status = invitationStatus(invitation);
+            const canRevoke = status === 'pending' && (invitation.inviter_id === currentUserId || canRevokeAll);
+            return (
+              <div
+                key={invitation.id}
+                className="flex items-center justify-between p-4 border border-gray-200 rounded-lg"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center">
+                    <h4 className="text-sm font-medium text-gray-900 truncate">
+                      {invitation.invitee_name
+                        ? `${invitation.invitee_name} (${invitation.invitee_email})`
+                        : invitation.invitee_email}
+                    </h4>
+                    <span className={`ml-2 px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[status]}`}>
+                      {STATUS_LABELS[status]}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    Invited by {invitation.inviter?.full_name || 'a former member'} on{' '}
+                    {new Date(invitation.created_at).toLocaleDateString()}
+                    {status === 'pending' && `, expires ${new Date(invitation.expires_at).toLocaleDateString()}`}
+                  </p>
+                </div>
+                {canRevoke && (
+                  <button
+                    onClick={() => handleRevoke(invitation)}
+                    disabled={revokingId === invitation.id}
+                    title="Revoke invitation"
+                    className="ml-4 text-red-600 hover:text-red-700 disabled:opacity-50"
+                  >
+                    {revokingId === invitation.id ? (
+                      <Loader2 className="h-5 w-5 animate-spin" />
+                    ) : (
+                      <XCircle className="h-5 w-5" />
+                    )}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <AddClientModal
+        isOpen={isInviteOpen}
+        onClose={() => setIsInviteOpen(false)}
+        onSuccess={fetchInvitations}
+        title={isClient ? 'Invite Your Accountant' : 'Invite a Client'}
+        description={isClient
+          ? 'Invite your accountant by email, or enter the invitation code they sent you.'
+          : 'Invite a client by email. They connect by accepting the invitation.'}
+      />
+    </div>
+  );
+}
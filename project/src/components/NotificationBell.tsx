@@ -0,0 +1,154 @@
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, Check, CheckCheck, MessageSquare, Clock, FileText, Link2 } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { useNotifications } from '../contexts/NotificationsContext';
+import { AppNotification, NotificationEvent } from '../lib/notifications';
+
+const EVENT_ICONS: Record<NotificationEvent, typeof Bell> = {
+  message: MessageSquare,
+  reminder: Clock,
+  plan: FileText,
+  connection: Link2,
+};
+
+const formatAge = (dateString: string) => {
+  const minutes = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return new Date(dateString).toLocaleDateString();
+};
+
+export default function NotificationBell() {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications();
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleMarkRead = async (notificationId: string) => {
+    try {
+      await markRead(notificationId);
+    } catch (error) {
+      console.error('Error marking notification read:', error);
+      toast.error('Failed to mark notification as read');
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllRead();
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+      toast.error('Failed to mark notifications as read');
+    }
+  };
+
+  const handleOpen = (notification: AppNotification) => {
+    setIsOpen(false);
+    handleMarkRead(notification.id);
+    navigate(notification.link, {
+      state: notification.liaison_id ? { selectedLiaisonId: notification.liaison_id } : undefined,
+    });
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        className="relative p-2 text-gray-600 hover:text-indigo-600 transition-colors duration-200"
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 bg-red-500 text-white text-xs px-1.5 py-0.5 rounded-full min-w-[1.25rem] text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="absolute right-0 mt-2 w-80 sm:w-96 bg-white rounded-lg shadow-xl border border-gray-200 z-50"
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-900">Notifications</h3>
+              {unreadCount > 0 && (
+                <button
+                  onClick={handleMarkAllRead}
+                  className="flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-700"
+                >
+                  <CheckCheck className="h-4 w-4 mr-1" />
+                  Mark all read
+                </button>
+              )}
+            </div>
+
+            <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.length === 0 ? (
+                <p className="px-4 py-8 text-sm text-center text-gray-500">You're all caught up</p>
+              ) : (
+                notifications.map(notification => {
+                  const Icon = EVENT_ICONS[notification.event];
+                  return (
+                    <div
+                      key={notification.id}
+                      className={`flex items-start px-4 py-3 hover:bg-gray-50 ${
+                        notification.is_read ? '' : 'bg-indigo-50/50'
+                      }`}
+                    >
+                      <button
+                        onClick={() => handleOpen(notification)}
+                        className="flex flex-1 min-w-0 items-start text-left"
+                      >
+                        <Icon className={`h-5 w-5 mt-0.5 mr-3 flex-shrink-0 ${
+                          notification.is_read ? 'text-gray-400' : 'text-indigo-600'
+                        }`} />
+                        <div className="min-w-0">
+                          <p className={`text-sm ${notification.is_read ? 'text-gray-700' : 'font-medium text-gray-900'}`}>
+                            {notification.title}
+                          </p>
+                          {notification.body && (
+                            <p className="text-sm text-gray-500 truncate">{notification.body}</p>
+                          )}
+                          <p className="text-xs text-gray-400 mt-1">{formatAge(notification.created_at)}</p>
+                        </div>
+                      </button>
+                      {!notification.is_read && (
+                        <button
+                          onClick={() => handleMarkRead(notification.id)}
+                          title="Mark as read"
+                          className="ml-2 p-1 text-gray-400 hover:text-indigo-600"
+                        >
+                          <Check className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState, useEffect } from 'react';
+import { Loader2, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useNotificationPreferences } from '../contexts/NotificationPreferencesContext';
+import {
+  browserTimezone,
+  validateNotificationPreferences,
+  NOTIFICATION_EVENTS,
+  NotificationChannel,
+  NotificationPreferences,
+  EmailDigestFrequency,
+} from '../lib/notifications';
+
+const CHANNELS: { id: NotificationChannel; label: string }[] = [
+  { id: 'in_app', label: 'In-app' },
+  { id: 'email', label: 'Email' },
+];
+
+const COMMON_TIMEZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+];
+
+function Toggle({ checked, onChange, label }: { checked: boolean; onChange: (checked: boolean) => void; label: string }) {
+  return (
+    <label className="relative inline-flex items-center cursor-pointer">
+      <input
+        type="checkbox"
+        aria-label={label}
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        className="sr-only peer"
+      />
+      <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-indigo-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600"></div>
+    </label>
+  );
+}
+
+export default function NotificationPreferencesSettings() {
+  const { preferences, savePreferences } = useNotificationPreferences();
+  const [draft, setDraft] = useState<NotificationPreferences>(preferences);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(preferences);
+  }, [preferences]);
+
+  const quietHoursEnabled = !!draft.quiet_hours_start;
+  const timezones = Array.from(new Set([draft.timezone, browserTimezone(), ...COMMON_TIMEZONES]));
+
+  const handleSave = async () => {
+    const validationError = validateNotificationPreferences(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await savePreferences(draft);
+      toast.success('Notification settings updated');
+    } catch (err) {
+      console.error('Error updating notification settings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update notification settings');
+      toast.error('Failed to update notification settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-6">Notification Settings</h2>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center text-red-700">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-6">
+        <table className="w-full">
+          <thead>
+            <tr>
+              <th className="text-left text-sm font-medium text-gray-500 pb-2">Notify me about</th>
+              {CHANNELS.map(channel => (
+                <th key={channel.id} className="w-24 text-center text-sm font-medium text-gray-500 pb-2">
+                  {channel.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {NOTIFICATION_EVENTS.map(event => (
+              <tr key={event.id}>
+                <td className="py-3">
+                  <h3 className="text-sm font-medium text-gray-900">{event.label}</h3>
+                  <p className="text-sm text-gray-500">{event.description}</p>
+                </td>
+                {CHANNELS.map(channel => (
+                  <td key={channel.id} className="py-3 text-center">
+                    <Toggle
+                      label={`${event.label} (${channel.label})`}
+                      checked={draft[`${channel.id}_${event.id}`]}
+                      onChange={(checked) => setDraft({ ...draft, [`${channel.id}_${event.id}`]: checked })}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex items-center justify-between pt-6 border-t border-gray-200">
+          <div>
+            <h3 className="text-sm font-medium text-gray-900">Email Digest</h3>
+            <p className="text-sm text-gray-500">
+              One email with unread messages, upcoming payments and plan proposals.
+              Urgent payment reminders are emailed right away.
+            </p>
+          </div>
+          <select
+            value={draft.email_digest}
+            onChange={(e) => setDraft({ ...draft, email_digest: e.target.value as EmailDigestFrequency })}
+            className="ml-4 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="daily">Daily</option>
+            <option value="weekly">Weekly</option>
+            <option value="off">Off</option>
+          </select>
+        </div>
+
+        <div className="pt-6 border-t border-gray-200 space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-sm font-medium text-gray-900">Quiet Hours</h3>
+              <p className="text-sm text-gray-500">No pop-ups or emails during these hours; digests wait until they end</p>
+            </div>
+            <Toggle
+              label="Quiet hours"
+              checked={quietHoursEnabled}
+              onChange={(checked) => setDraft({
+                ...draft,
+                quiet_hours_start: checked ? '22:00' : null,
+                quiet_hours_end: checked ? '07:00' : null,
+              })}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input
+                type="time"
+                value={draft.quiet_hours_start?.slice(0, 5) || ''}
+                disabled={!quietHoursEnabled}
+                onChange={(e) => setDraft({ ...draft, quiet_hours_start: e.target.value || null })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-50"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Until</label>
+              <input
+                type="time"
+                value={draft.quiet_hours_end?.slice(0, 5) || ''}
+                disabled={!quietHoursEnabled}
+                onChange={(e) => setDraft({ ...draft, quiet_hours_end: e.target.value || null })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-50"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Time zone</label>
+              <select
+                value={draft.timezone}
+                onChange={(e) => setDraft({ ...draft, timezone: e.target.value })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                {timezones.map(timezone => (
+                  <option key={timezone} value={timezone}>{timezone.replace(/_/g, ' ')}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? (
+            <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+          ) : (
+            'Save Notification Settings'
+          )}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { RISK_STYLES, RiskLevel } from '../lib/crs';
+import {
+  getCalendarInstallments,
+  CALENDAR_STATUS_STYLES,
+  CALENDAR_RISK_BORDERS,
+  CalendarInstallment,
+  CalendarStatus,
+} from '../lib/calendar';
+
+type CalendarView = 'month' | 'week';
+
+interface PaymentCalendarProps {
+  // Only the installments of this relationship
+  relationshipId?: string;
+  // Label entries with the counterpart company instead of the installment
+  showCounterpart?: boolean;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_ENTRY_LIMIT = 3;
+
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const startOfWeek = (date: Date) => addDays(date, -date.getDay());
+
+// The days shown: whole weeks covering the month, or the cursor's week
+function visibleDays(view: CalendarView, cursor: Date) {
+  const first = view === 'month'
+    ? startOfWeek(new Date(cursor.getFullYear(), cursor.getMonth(), 1))
+    : startOfWeek(cursor);
+  const last = view === 'month'
+    ? addDays(startOfWeek(new Date(cursor.getFullYear(), cursor.getMonth() + 1, 0)), 6)
+    : addDays(first, 6);
+
+  const days: Date[] = [];
+  for (let day = first; day <= last; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+export default function PaymentCalendar({ relationshipId, showCounterpart = false }: PaymentCalendarProps) {
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState(() => new Date());
+  const [installments, setInstallments] = useState<CalendarInstallment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const days = visibleDays(view, cursor);
+  const from = toDateKey(days[0]);
+  const to = toDateKey(days[days.length - 1]);
+
+  const fetchInstallments = useCallback(async () => {
+    try {
+      setLoading(true);
+      setInstallments(await getCalendarInstallments(from, to));
+    } catch (err) {
+      console.error('Error fetching calendar:', err);
+      toast.error('Failed to load the payment calendar');
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    fetchInstallments();
+  }, [fetchInstallments]);
+
+  const byDay = installments
+    .filter(installment => !relationshipId || installment.relationshipId === relationshipId)
+    .reduce<Record<string, CalendarInstallment[]>>((groups, installment) => {
+      (groups[installment.dueDate] ??= []).push(installment);
+      return groups;
+    }, {});
+
+  const move = (direction: 1 | -1) => {
+    setCursor(current => view === 'month'
+      ? new Date(current.getFullYear(), current.getMonth() + direction, 1)
+      : addDays(current, 7 * direction));
+  };
+
+  const title = view === 'month'
+    ? cursor.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+    : `${days[0].toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${days[6].toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+  const today = toDateKey(new Date());
+
+  const entryLabel = (installment: CalendarInstallment) =>
+    showCounterpart ? installment.counterpartName : installment.description;
+
+  const entryTitle = (installment: CalendarInstallment) => [
+    `${installment.counterpartName}: ${installment.description}`,
+    `Payment ${installment.paymentNumber} of ${installment.numPayments}`,
+    `$${installment.outstanding.toLocaleString()} outstanding of $${installment.amount.toLocaleString()}`,
+    `${CALENDAR_STATUS_STYLES[installment.status].label}, ${RISK_STYLES[installment.riskLevel].label}`,
+  ].join('\n');
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => move(-1)}
+            aria-label="Previous"
+            className="p-1 rounded-lg text-gray-600 hover:bg-gray-100"
+          >
+            <ChevronLeft className="h-5 w-5" />
+          </button>
+          <button
+            onClick={() => move(1)}
+            aria-label="Next"
+            className="p-1 rounded-lg text-gray-600 hover:bg-gray-100"
+          >
+            <ChevronRight className="h-5 w-5" />
+          </button>
+          <button
+            onClick={() => setCursor(new Date())}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+          >
+            Today
+          </button>
+          <h2 className="text-lg font-semibold text-gray-900 ml-2">{title}</h2>
+          {loading && <Loader2 className="h-4 w-4 animate-spin text-indigo-600" />}
+        </div>
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+          {(['month', 'week'] as CalendarView[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-3 py-1 text-sm capitalize ${
+                view === option ? 'bg-indigo-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 border-t border-l border-gray-200">
+        {WEEKDAYS.map(weekday => (
+          <div key={weekday} className="px-2 py-1 text-xs font-medium text-gray-500 border-r border-b border-gray-200 bg-gray-50">
+            {weekday}
+          </div>
+        ))}
+        {days.map(day => {
+          const key = toDateKey(day);
+          const entries = byDay[key] || [];
+          const shown = view === 'month' ? entries.slice(0, MONTH_ENTRY_LIMIT) : entries;
+          const outsideMonth = view === 'month' && day.getMonth() !== cursor.getMonth();
+
+          return (
+            <div
+              key={key}
+              className={`border-r border-b border-gray-200 p-1 ${view === 'month' ? 'min-h-[6rem]' : 'min-h-[16rem]'} ${
+                outsideMonth ? 'bg-gray-50' : ''
+              }`}
+            >
+              <div className={`text-xs mb-1 ${
+                key === today
+                  ? 'inline-flex items-center justify-center h-5 w-5 rounded-full bg-indigo-600 text-white'
+                  : outsideMonth ? 'text-gray-400' : 'text-gray-700'
+              }`}>
+                {day.getDate()}
+              </div>
+              <div className="space-y-1">
+                {shown.map(installment => (
+                  <div
+                    key={installment.transactionId}
+                    title={entryTitle(installment)}
+                    className={`border-l-4 rounded px-1 py-0.5 text-xs truncate ${
+                      CALENDAR_RISK_BORDERS[installment.riskLevel]
+                    } ${CALENDAR_STATUS_STYLES[installment.status].chip}`}
+                  >
+                    ${installment.outstanding > 0 ? installment.outstanding.toLocaleString() : installment.amount.toLocaleString()}{' '}
+                    {entryLabel(installment)}
+                    {view === 'week' && (
+                      <div className="text-[11px] opacity-75">
+                        Payment {installment.paymentNumber} of {installment.numPayments}
+                      </div>
+                    )}
+                  </div>
+                ))}
+                {entries.length > shown.length && (
+                  <button
+                    onClick={() => {
+                      setCursor(day);
+                      setView('week');
+                    }}
+                    className="text-xs text-indigo-600 hover:text-indigo-700"
+                  >
+                    +{entries.length - shown.length} more
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mt-4 text-xs text-gray-600">
+        {(Object.keys(CALENDAR_STATUS_STYLES) as CalendarStatus[]).map(status => (
+          <span key={status} className="flex items-center">
+            <span className={`inline-block h-3 w-3 rounded mr-1 ${CALENDAR_STATUS_STYLES[status].chip}`} />
+            {CALENDAR_STATUS_STYLES[status].label}
+          </span>
+        ))}
+        <span className="text-gray-300">|</span>
+        {(Object.keys(CALENDAR_RISK_BORDERS) as RiskLevel[]).map(level => (
+          <span key={level} className="flex items-center">
+            <span className={`inline-block h-3 w-1 mr-1 border-l-4 ${CALENDAR_RISK_BORDERS[level]}`} />
+            {RISK_STYLES[level].label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,35 +1,172 @@
-import React, { useState } from 'react';
-import { motion } from 'framer-motion';
-import { DollarSign, Calendar, ArrowRight, Check, X, Edit2, Loader2, Sparkles } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { DollarSign, Calendar, ArrowRight, Check, X, Edit2, Loader2, Sparkles, Undo2, Clock } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import PaymentPlanCard from './PaymentPlanCard';
 import toast from 'react-hot-toast';
 import { PaymentPlan } from '../types/paymentPlan';
+import { getCRSResult } from '../lib/crs';
+import { usePermissions } from '../contexts/PermissionsContext';
+import {
+  getNegotiation,
+  counterNegotiation,
+  acceptNegotiation,
+  rejectNegotiation,
+  withdrawNegotiation,
+  diffPlans,
+  effectiveStatus,
+  isOpen,
+  Negotiation,
+  NegotiationStatus,
+  PlanChange,
+  NEGOTIATION_STATUS_STYLES,
+} from '../lib/negotiations';
 
 interface PaymentPlanMessageProps {
   currentPlan: PaymentPlan;
   newPlan: PaymentPlan;
-  messageId: string;
   liaisonId: string;
-  senderId: string;
   currentUserId: string | null;
+  negotiationId?: string;
+  revision?: number;
 }
 
-export default function PaymentPlanMessage({ 
-  currentPlan, 
-  newPlan, 
-  messageId,
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+};
+
+const formatChangeValue = (change: PlanChange, value: PlanChange['from']) => {
+  if (value === undefined) return '–';
+  switch (change.field) {
+    case 'totalAmount':
+    case 'paymentAmount':
+      return formatCurrency(Number(value));
+    case 'paymentPeriod':
+      return `${value} days`;
+    case 'type':
+      return value === 'installment' ? 'Installments' : 'Lump sum';
+    default:
+      return String(value);
+  }
+};
+
+function PlanSummary({ title, plan }: { title: string; plan: PaymentPlan }) {
+  return (
+    <>
+      <h4 className="text-sm font-medium text-gray-500 mb-3">{title}</h4>
+      <div className="space-y-3">
+        <div className="flex items-center text-gray-600">
+          <DollarSign className="h-5 w-5 mr-2 text-gray-400" />
+          <div>
+            <p className="text-sm">Total Amount</p>
+            <p className="font-medium text-gray-900">
+              {formatCurrency(plan.totalAmount)}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center text-gray-600">
+          <Calendar className="h-5 w-5 mr-2 text-gray-400" />
+          <div>
+            <p className="text-sm">Payment Schedule</p>
+            <p className="font-medium text-gray-900">
+              {plan.numberOfPayments} payments of{' '}
+              {formatCurrency(plan.paymentAmount || 0)}
+              <span className="text-sm text-gray-500">
+                {' '}every {plan.paymentPeriod} days
+              </span>
+            </p>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+function PlanDiff({ changes }: { changes: PlanChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-500">No changes to the terms</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {changes.map(change => (
+        <li key={change.field} className="flex flex-wrap items-center text-gray-700">
+          <span className="text-gray-500 mr-2">{change.label}:</span>
+          <span className="line-through text-red-600 mr-2">{formatChangeValue(change, change.from)}</span>
+          <ArrowRight className="h-3 w-3 mr-2 text-gray-400" />
+          <span className="font-medium text-green-700">{formatChangeValue(change, change.to)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function PaymentPlanMessage({
+  currentPlan,
+  newPlan,
   liaisonId,
-  senderId,
-  currentUserId
+  currentUserId,
+  negotiationId,
+  revision,
 }: PaymentPlanMessageProps) {
+  const [negotiation, setNegotiation] = useState<Negotiation | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [editedPlan, setEditedPlan] = useState(newPlan);
+  const [rejectReason, setRejectReason] = useState('');
+  const [isRejecting, setIsRejecting] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [status, setStatus] = useState<'pending' | 'accepted' | 'rejected'>('pending');
   const [generatingSuggestion, setGeneratingSuggestion] = useState(false);
+  const { can } = usePermissions();
+
+  useEffect(() => {
+    if (!negotiationId) return;
 
-  const isRecipient = currentUserId !== senderId;
+    const fetchNegotiation = async () => {
+      try {
+        setNegotiation(await getNegotiation(negotiationId));
+      } catch (error) {
+        console.error('Error fetching negotiation:', error);
+      }
+    };
+
+    fetchNegotiation();
+
+    // Counter-offers and responses from either side update the negotiation row
+    const subscription = supabase
+      .channel(`negotiation:${negotiationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'payment_plan_negotiations',
+          filter: `id=eq.${negotiationId}`
+        },
+        () => {
+          fetchNegotiation();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [negotiationId]);
+
+  const revisions = negotiation?.revisions ?? [];
+  const latest = revisions[revisions.length - 1];
+  const status: NegotiationStatus | null = negotiation ? effectiveStatus(negotiation) : null;
+  const isLatest = !!latest && latest.revision === revision;
+  const offeredPlan = isLatest ? latest.plan : newPlan;
+  const planInEffect = negotiation?.basePlan ?? currentPlan;
+
+  // Only the other side can answer an offer; its proposer can withdraw it
+  const canRespond = isLatest && !!status && isOpen(status) && latest.proposedBy !== currentUserId;
+  const canWithdraw = isLatest && !!status && isOpen(status) && latest.proposedBy === currentUserId;
 
   const handlePlanChange = (field: string, value: any) => {
     setEditedPlan(prev => {
@@ -51,80 +188,59 @@ export default function PaymentPlanMessage({
     try {
       setGeneratingSuggestion(true);
 
-      // Get liaison's CRS score and payment history
-      const { data: liaison, error: liaisonError } = await supabase
-        .from('liaisons')
-        .select('crs_score')
-        .eq('id', liaisonId)
-        .single();
+      // Score and payment behaviour come from the shared CRS engine
+      const { score: crsScore, risk_level: riskLevel, factors } = await getCRSResult(liaisonId);
+      const paymentReliability = factors.settled_count > 0
+        ? (factors.on_time_count / factors.settled_count) * 100
+        : 100;
+      const avgDelay = factors.average_delay;
 
-      if (liaisonError) throw liaisonError;
-
-      const crsScore = liaison.crs_score;
-
-      // Get transaction history for this liaison
+      // Get recent installment amounts for this liaison
       const { data: transactions, error: transactionError } = await supabase
         .from('transactions')
         .select(`
           amount,
-          due_date,
-          completion_date,
-          status,
-          impact_score,
-          days_to_payment,
-          payment_streak,
-          payment_consistency_score,
-          risk_level
+          payment_plan:payment_plan_id!inner (
+            liaison_id
+          )
         `)
-        .order('created_at', { ascending: false })
+        .eq('payment_plan.liaison_id', liaisonId)
+        .neq('status', 'cancelled')
+        .order('due_date', { ascending: false })
         .limit(10);
 
       if (transactionError) throw transactionError;
 
-      // Calculate metrics from transaction history
       const paymentHistory = transactions || [];
-      const onTimePayments = paymentHistory.filter(t => 
-        t.completion_date && new Date(t.completion_date) <= new Date(t.due_date)
-      ).length;
-      const totalPayments = paymentHistory.length || 1;
-      const paymentReliability = (onTimePayments / totalPayments) * 100;
-
-      // Get average payment amount and delay
-      const avgAmount = paymentHistory.reduce((sum, t) => sum + Number(t.amount), 0) / totalPayments;
-      const avgDelay = paymentHistory
-        .filter(t => t.days_to_payment)
-        .reduce((sum, t) => sum + t.days_to_payment, 0) / totalPayments;
-
-      // Calculate risk level based on payment consistency
-      const riskLevel = paymentHistory.length > 0 
-        ? paymentHistory[0].risk_level 
-        : 'medium';
+      const avgAmount = paymentHistory.length > 0
+        ? paymentHistory.reduce((sum, t) => sum + Number(t.amount), 0) / paymentHistory.length
+        : 0;
 
       // Generate suggested plan
-      let suggestedPlan = { ...newPlan };
+      const suggestedPlan = { ...offeredPlan };
 
       // Adjust number of payments based on CRS score and payment history
       if (crsScore >= 90 && paymentReliability >= 95) {
         // Excellent history - very flexible terms
-        suggestedPlan.numberOfPayments = Math.min(12, newPlan.numberOfPayments + 2);
+        suggestedPlan.numberOfPayments = Math.min(12, offeredPlan.numberOfPayments + 2);
         suggestedPlan.paymentPeriod = 90;
       } else if (crsScore >= 80 && paymentReliability >= 85) {
         // Good history - flexible terms
-        suggestedPlan.numberOfPayments = Math.min(8, newPlan.numberOfPayments + 1);
+        suggestedPlan.numberOfPayments = Math.min(8, offeredPlan.numberOfPayments + 1);
         suggestedPlan.paymentPeriod = 60;
       } else if (crsScore >= 70 && paymentReliability >= 75) {
         // Fair history - moderate terms
-        suggestedPlan.numberOfPayments = Math.min(6, newPlan.numberOfPayments);
+        suggestedPlan.numberOfPayments = Math.min(6, offeredPlan.numberOfPayments);
         suggestedPlan.paymentPeriod = 45;
       } else {
         // Poor history - conservative terms
-        suggestedPlan.numberOfPayments = Math.max(3, newPlan.numberOfPayments - 1);
+        suggestedPlan.numberOfPayments = Math.max(3, offeredPlan.numberOfPayments - 1);
         suggestedPlan.paymentPeriod = 30;
       }
 
       // Adjust payment amount based on history
       if (avgAmount > 0 && riskLevel !== 'high') {
-        const suggestedAmount = (avgAmount + newPlan.totalAmount) / 2;
+        const suggestedAmount = (avgAmount + offeredPlan.totalAmount) / 2;
         suggestedPlan.totalAmount = Math.round(suggestedAmount);
       }
 
@@ -165,192 +281,137 @@ This plan balances payment flexibility with risk management based on historical
     }
   };
 
-  const handleAccept = async () => {
+  // Runs a negotiation action; the realtime subscription refreshes the thread
+  const runAction = async (action: () => Promise<NegotiationStatus>, success: string) => {
     try {
       setLoading(true);
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('Not authenticated');
-
-      // Check for existing active payment plan
-      const { data: existingPlan, error: checkError } = await supabase
-        .from('Payment_plan')
-        .select('id')
-        .eq('liaison_id', liaisonId)
-        .eq('status', 'active')
-        .maybeSingle();
-
-      if (checkError) throw checkError;
-
-      // If there's an existing active plan, cancel it
-      if (existingPlan) {
-        const { error: updateError } = await supabase
-          .from('Payment_plan')
-          .update({ status: 'cancelled' })
-          .eq('id', existingPlan.id);
-
-        if (updateError) throw updateError;
+      const result = await action();
+
+      if (result === 'expired') {
+        toast.error('This offer has expired');
+      } else {
+        toast.success(success);
       }
 
-      // Create new payment plan entry
-      const { data: newPaymentPlan, error: planError } = await supabase
-        .from('Payment_plan')
-        .insert({
-          total_due: newPlan.totalAmount,
-          payment_rate: newPlan.paymentPeriod,
-          num_payment: newPlan.numberOfPayments,
-          liaison_id: liaisonId,
-          status: 'active',
-          modified_by: user.id
-        })
-        .select()
-        .single();
-
-      if (planError) throw planError;
-
-      // Send confirmation message
-      const { error: messageError } = await supabase
-        .from('messages')
-        .insert({
-          liaison_id: liaisonId,
-          sender_id: user.id,
-          content: "Payment plan accepted! The new payment schedule is now active.",
-          is_read: false
-        });
-
-      if (messageError) throw messageError;
-
-      setStatus('accepted');
+      if (negotiationId) {
+        setNegotiation(await getNegotiation(negotiationId));
+      }
+      return true;
     } catch (error) {
-      console.error('Error accepting payment plan:', error);
-      toast.error('Failed to accept payment plan');
+      console.error('Error updating negotiation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update the negotiation');
+      return false;
     } finally {
       setLoading(false);
     }
   };
 
+  const handleAccept = () => {
+    if (!negotiationId) return;
+    runAction(() => acceptNegotiation(negotiationId), 'Payment plan accepted');
+  };
+
   const handleReject = async () => {
-    try {
-      setLoading(true);
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('Not authenticated');
-
-      // Send rejection message
-      const { error: messageError } = await supabase
-        .from('messages')
-        .insert({
-          liaison_id: liaisonId,
-          sender_id: user.id,
-          content: "Payment plan rejected. The current payment schedule remains in effect.",
-          is_read: false
-        });
-
-      if (messageError) throw messageError;
-
-      setStatus('rejected');
-    } catch (error) {
-      console.error('Error rejecting payment plan:', error);
-      toast.error('Failed to reject payment plan');
-    } finally {
-      setLoading(false);
+    if (!negotiationId) return;
+    const done = await runAction(() => rejectNegotiation(negotiationId, rejectReason.trim()), 'Payment plan rejected');
+    if (done) {
+      setIsRejecting(false);
+      setRejectReason('');
     }
   };
 
+  const handleWithdraw = () => {
+    if (!negotiationId) return;
+    runAction(() => withdrawNegotiation(negotiationId), 'Offer withdrawn');
+  };
+
   const handleCounterOffer = async () => {
+    if (!negotiationId) return;
+
     if (editedPlan.totalAmount <= 0) {
       toast.error('Total amount must be greater than 0');
       return;
     }
 
-    try {
-      setLoading(true);
-
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('Not authenticated');
-
-      // Send counter offer message
-      const counterOfferMessage = {
-        type: 'payment_plan_request',
-        currentPlan: newPlan,
-        newPlan: {
-          ...editedPlan,
-          liaisonId,
-        },
-      };
-
-      const { error: messageError } = await supabase
-        .from('messages')
-        .insert({
-          liaison_id: liaisonId,
-          sender_id: user.id,
-          content: JSON.stringify(counterOfferMessage),
-          is_read: false
-        });
+    if (!Number.isInteger(editedPlan.totalAmount)) {
+      toast.error('Total amount must be a whole number of dollars');
+      return;
+    }
 
-      if (messageError) throw messageError;
+    const done = await runAction(() => counterNegotiation(negotiationId, editedPlan), 'Counter offer sent');
+    if (done) setIsEditing(false);
+  };
 
-      setIsEditing(false);
-      toast.success('Counter offer sent');
-    } catch (error) {
-      console.error('Error sending counter offer:', error);
-      toast.error('Failed to send counter offer');
-    } finally {
-      setLoading(false);
-    }
+  const startEditing = () => {
+    setEditedPlan(offeredPlan);
+    setIsEditing(true);
   };
 
   const handleCancel = () => {
     setIsEditing(false);
-    setEditedPlan(newPlan);
+    setEditedPlan(offeredPlan);
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(amount);
-  };
+  // Requests sent before negotiations were persisted can't be acted on
+  if (!negotiationId) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden text-gray-900">
+        <div className="p-4 bg-indigo-50 border-b border-indigo-100">
+          <h3 className="text-lg font-semibold text-indigo-900">Payment Plan Details</h3>
+        </div>
+        <div className="grid md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-gray-200">
+          <div className="p-4"><PlanSummary title="Current Plan" plan={currentPlan} /></div>
+          <div className="p-4"><PlanSummary title="New Plan" plan={newPlan} /></div>
+        </div>
+        <div className="p-4 border-t border-gray-200 bg-gray-50 text-sm text-gray-500">
+          This request is no longer open. Start a new renegotiation to propose different terms.
+        </div>
+      </div>
+    );
+  }
+
+  if (!negotiation || !status) {
+    return (
+      <div className="flex justify-center p-4">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  // Earlier revisions collapse into a pointer to the latest one
+  if (!isLatest) {
+    const previous = revisions.find(item => item.revision === (revision ?? 1) - 1)?.plan ?? planInEffect;
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 p-4 text-gray-900">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-gray-900">
+            {revision === 1 ? 'Payment plan proposal' : `Counter-offer (revision ${revision})`}
+          </h4>
+          <span className="text-xs text-gray-500">Superseded by revision {latest?.revision}</span>
+        </div>
+        <PlanDiff changes={diffPlans(previous, newPlan)} />
+      </div>
+    );
+  }
 
   return (
-    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
-      <div className="p-4 bg-indigo-50 border-b border-indigo-100">
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden text-gray-900">
+      <div className="p-4 bg-indigo-50 border-b border-indigo-100 flex items-center justify-between">
         <h3 className="text-lg font-semibold text-indigo-900">
           Payment Plan Details
         </h3>
+        <span className={`px-2 py-1 rounded-full text-xs font-medium ${NEGOTIATION_STATUS_STYLES[status].badge}`}>
+          {NEGOTIATION_STATUS_STYLES[status].label}
+        </span>
       </div>
 
       <div className="grid md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-gray-200">
         {/* Current Plan */}
         <div className="p-4">
-          <h4 className="text-sm font-medium text-gray-500 mb-3">Current Plan</h4>
-          <div className="space-y-3">
-            <div className="flex items-center text-gray-600">
-              <DollarSign className="h-5 w-5 mr-2 text-gray-400" />
-              <div>
-                <p className="text-sm">Total Amount</p>
-                <p className="font-medium text-gray-900">
-                  {formatCurrency(currentPlan.totalAmount)}
-                </p>
-              </div>
-            </div>
-            <div className="flex items-center text-gray-600">
-              <Calendar className="h-5 w-5 mr-2 text-gray-400" />
-              <div>
-                <p className="text-sm">Payment Schedule</p>
-                <p className="font-medium text-gray-900">
-                  {currentPlan.numberOfPayments} payments of{' '}
-                  {formatCurrency(currentPlan.paymentAmount || 0)}
-                  <span className="text-sm text-gray-500">
-                    {' '}every {currentPlan.paymentPeriod} days
-                  </span>
-                </p>
-              </div>
-            </div>
-          </div>
+          <PlanSummary title={status === 'accepted' ? 'Previous Plan' : 'Current Plan'} plan={planInEffect} />
         </div>
 
-        {/* New Plan */}
+        {/* Latest Offer */}
         <div className="p-4">
           {isEditing ? (
             <PaymentPlanCard
@@ -359,111 +420,175 @@ This plan balances payment flexibility with risk management based on historical
               onChange={handlePlanChange}
             />
           ) : (
-            <>
-              <h4 className="text-sm font-medium text-gray-500 mb-3">New Plan</h4>
-              <div className="space-y-3">
-                <div className="flex items-center text-gray-600">
-                  <DollarSign className="h-5 w-5 mr-2 text-gray-400" />
-                  <div>
-                    <p className="text-sm">Total Amount</p>
-                    <p className="font-medium text-gray-900">
-                      {formatCurrency(newPlan.totalAmount)}
-                    </p>
-                  </div>
-                </div>
-                <div className="flex items-center text-gray-600">
-                  <Calendar className="h-5 w-5 mr-2 text-gray-400" />
-                  <div>
-                    <p className="text-sm">Payment Schedule</p>
-                    <p className="font-medium text-gray-900">
-                      {newPlan.numberOfPayments} payments of{' '}
-                      {formatCurrency(newPlan.paymentAmount || 0)}
-                      <span className="text-sm text-gray-500">
-                        {' '}every {newPlan.paymentPeriod} days
-                      </span>
-                    </p>
-                  </div>
-                </div>
-              </div>
-            </>
+            <PlanSummary title={status === 'accepted' ? 'New Plan' : 'Proposed Plan'} plan={offeredPlan} />
           )}
         </div>
       </div>
 
-      {/* Comments */}
-      {(newPlan.reason || editedPlan.reason) && (
+      {/* Negotiation Thread */}
+      <div className="p-4 border-t border-gray-200">
+        <h4 className="text-sm font-medium text-gray-500 mb-3">Negotiation History</h4>
+        <ol className="space-y-4">
+          {revisions.map((item, index) => (
+            <li key={item.id} className="border-l-2 border-indigo-200 pl-3">
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-sm font-medium text-gray-900">
+                  {index === 0 ? 'Proposed' : 'Countered'} by {item.proposedBy === currentUserId ? 'you' : item.proposerName}
+                </p>
+                <span className="text-xs text-gray-500">{new Date(item.createdAt).toLocaleString()}</span>
+              </div>
+              <PlanDiff changes={diffPlans(index === 0 ? planInEffect : revisions[index - 1].plan, item.plan)} />
+              {item.plan.reason && (
+                <p className="mt-1 text-sm text-gray-600 whitespace-pre-wrap">{item.plan.reason}</p>
+              )}
+            </li>
+          ))}
+        </ol>
+        {negotiation.closeReason && (
+          <p className="mt-3 text-sm text-gray-600">
+            <span className="text-gray-500">Reason for rejection: </span>
+            {negotiation.closeReason}
+          </p>
+        )}
+        {isOpen(status) && (
+          <p className="mt-3 flex items-center text-xs text-gray-500">
+            <Clock className="h-3 w-3 mr-1" />
+            Open until {new Date(negotiation.expiresAt).toLocaleDateString()}
+          </p>
+        )}
+      </div>
+
+      {/* Comments on an edited counter offer */}
+      {isEditing && editedPlan.reason && (
         <div className="p-4 border-t border-gray-200 bg-gray-50">
           <h4 className="text-sm font-medium text-gray-500 mb-2">Comments</h4>
-          <p className="text-gray-700 whitespace-pre-wrap">{isEditing ? editedPlan.reason : newPlan.reason}</p>
+          <p className="text-gray-700 whitespace-pre-wrap">{editedPlan.reason}</p>
+        </div>
+      )}
+
+      {/* Withdraw */}
+      {canWithdraw && (
+        <div className="p-4 border-t border-gray-200 bg-gray-50 flex justify-between items-center">
+          <p className="text-sm text-gray-500">Waiting for the other party to respond</p>
+          <button
+            onClick={handleWithdraw}
+            disabled={loading}
+            className="flex items-center px-4 py-2 text-gray-600 hover:text-gray-900 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            {loading ? (
+              <Loader2 className="h-5 w-5 animate-spin" />
+            ) : (
+              <>
+                <Undo2 className="h-5 w-5 mr-2" />
+                Withdraw Offer
+              </>
+            )}
+          </button>
         </div>
       )}
 
       {/* Actions */}
-      {status === 'pending' && isRecipient && (
+      {canRespond && (
         <div className="p-4 border-t border-gray-200 bg-gray-50">
           <div className="space-y-4">
-            {/* Primary Actions Row */}
-            <div className="flex justify-end space-x-3">
-              {isEditing ? (
-                <>
+            {isRejecting ? (
+              <div className="space-y-3">
+                <textarea
+                  value={rejectReason}
+                  onChange={(e) => setRejectReason(e.target.value)}
+                  placeholder="Let them know why (optional)"
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <div className="flex justify-end space-x-3">
                   <button
-                    onClick={handleCancel}
+                    onClick={() => setIsRejecting(false)}
                     className="px-4 py-2 text-gray-600 hover:text-gray-900"
                   >
                     Cancel
                   </button>
-                  <button
-                    onClick={handleCounterOffer}
-                    disabled={loading}
-                    className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
-                  >
-                    {loading ? (
-                      <Loader2 className="h-5 w-5 animate-spin" />
-                    ) : (
-                      <>
-                        <ArrowRight className="h-5 w-5 mr-2" />
-                        Send Counter Offer
-                      </>
-                    )}
-                  </button>
-                </>
-              ) : (
-                <>
-                  <button
-                    onClick={() => setIsEditing(true)}
-                    className="flex items-center px-4 py-2 text-gray-600 hover:text-gray-900 border border-gray-300 rounded-lg hover:bg-gray-50"
-                  >
-                    <Edit2 className="h-5 w-5 mr-2" />
-                    Counter Offer
-                  </button>
                   <button
                     onClick={handleReject}
                     disabled={loading}
-                    className="flex items-center px-4 py-2 text-red-600 hover:text-red-700 border border-red-200 rounded-lg hover:bg-red-50"
-                  >
-                    <X className="h-5 w-5 mr-2" />
-                    Reject
-                  </button>
-                  <button
-                    onClick={handleAccept}
-                    disabled={loading}
-                    className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                    className="flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
                   >
                     {loading ? (
                       <Loader2 className="h-5 w-5 animate-spin" />
                     ) : (
                       <>
-                        <Check className="h-5 w-5 mr-2" />
-                        Accept
+                        <X className="h-5 w-5 mr-2" />
+                        Reject Offer
                       </>
                     )}
                   </button>
-                </>
-              )}
-            </div>
+                </div>
+              </div>
+            ) : (
+              /* Primary Actions Row */
+              <div className="flex justify-end space-x-3">
+                {isEditing ? (
+                  <>
+                    <button
+                      onClick={handleCancel}
+                      className="px-4 py-2 text-gray-600 hover:text-gray-900"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleCounterOffer}
+                      disabled={loading}
+                      className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      {loading ? (
+                        <Loader2 className="h-5 w-5 animate-spin" />
+                      ) : (
+                        <>
+                          <ArrowRight className="h-5 w-5 mr-2" />
+                          Send Counter Offer
+                        </>
+                      )}
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={startEditing}
+                      className="flex items-center px-4 py-2 text-gray-600 hover:text-gray-900 border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                      <Edit2 className="h-5 w-5 mr-2" />
+                      Counter Offer
+                    </button>
+                    <button
+                      onClick={() => setIsRejecting(true)}
+                      disabled={loading}
+                      className="flex items-center px-4 py-2 text-red-600 hover:text-red-700 border border-red-200 rounded-lg hover:bg-red-50"
+                    >
+                      <X className="h-5 w-5 mr-2" />
+                      Reject
+                    </button>
+                    {can('plans.accept') && (
+                      <button
+                        onClick={handleAccept}
+                        disabled={loading}
+                        className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                      >
+                        {loading ? (
+                          <Loader2 className="h-5 w-5 animate-spin" />
+                        ) : (
+                          <>
+                            <Check className="h-5 w-5 mr-2" />
+                            Accept
+                          </>
+                        )}
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
 
             {/* AI Suggestion Button */}
-            {!isEditing && (
+            {!isEditing && !isRejecting && (
               <button
                 onClick={generateSuggestedPlan}
                 disabled={generatingSuggestion}
@@ -484,4 +609,4 @@ This plan balances payment flexibility with risk management based on historical
       )}
     </div>
   );
-}
\ No newline at end of file
+}
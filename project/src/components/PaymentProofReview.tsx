@@ -0,0 +1,193 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CheckCircle, ExternalLink, Eye, Loader2, Receipt, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { PAYMENT_METHODS } from '../lib/payments';
+import {
+  getPendingPaymentProofs,
+  startPaymentProofReview,
+  confirmPaymentProof,
+  rejectPaymentProof,
+  RECORD_STATUS_STYLES,
+  PaymentProof,
+} from '../lib/clientRecords';
+
+interface PaymentProofReviewProps {
+  liaisonId: string;
+}
+
+const methodLabel = (method: string) =>
+  PAYMENT_METHODS.find(option => option.id === method)?.label ?? method;
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString();
+
+// Proofs of payment of one conversation waiting for the accountant's decision
+export default function PaymentProofReview({ liaisonId }: PaymentProofReviewProps) {
+  const [proofs, setProofs] = useState<PaymentProof[]>([]);
+  const [workingId, setWorkingId] = useState<string | null>(null);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+
+  const fetchProofs = useCallback(async () => {
+    try {
+      setProofs(await getPendingPaymentProofs(liaisonId));
+    } catch (err) {
+      console.error('Error fetching payment proofs:', err);
+      toast.error('Failed to load proofs of payment');
+    }
+  }, [liaisonId]);
+
+  useEffect(() => {
+    fetchProofs();
+
+    const subscription = supabase
+      .channel(`payment-proofs-${liaisonId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'client_records',
+        filter: `liaison_id=eq.${liaisonId}`,
+      }, () => {
+        fetchProofs();
+      })
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [liaisonId, fetchProofs]);
+
+  const run = async (proofId: string, action: () => Promise<unknown>, success: string) => {
+    try {
+      setWorkingId(proofId);
+      await action();
+      toast.success(success);
+      await fetchProofs();
+      return true;
+    } catch (err) {
+      console.error('Error reviewing payment proof:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to update the proof of payment');
+      return false;
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleConfirm = (proof: PaymentProof) => {
+    if (!window.confirm(`Record a payment of $${proof.amount.toLocaleString()} received on ${formatDate(proof.paymentDate)}?`)) {
+      return;
+    }
+    run(proof.id, () => confirmPaymentProof(proof.id), 'Payment confirmed and recorded');
+  };
+
+  const handleReject = async (proof: PaymentProof) => {
+    if (await run(proof.id, () => rejectPaymentProof(proof.id, reason), 'Proof of payment rejected')) {
+      setRejectingId(null);
+      setReason('');
+    }
+  };
+
+  if (proofs.length === 0) return null;
+
+  return (
+    <div className="bg-white border-b border-gray-200 px-4 py-3 space-y-3">
+      <h3 className="flex items-center text-sm font-semibold text-gray-900">
+        <Receipt className="h-4 w-4 mr-2 text-indigo-600" />
+        Proofs of payment to review ({proofs.length})
+      </h3>
+      {proofs.map(proof => (
+        <div key={proof.id} className="border border-gray-200 rounded-lg p-3">
+          <div className="flex items-start justify-between">
+            <div>
+              <div className="flex items-center space-x-2">
+                <span className="font-medium text-gray-900">${proof.amount.toLocaleString()}</span>
+                <span className={`px-2 py-0.5 text-xs rounded-full ${RECORD_STATUS_STYLES[proof.status].badge}`}>
+                  {RECORD_STATUS_STYLES[proof.status].label}
+                </span>
+              </div>
+              <p className="text-sm text-gray-600">
+                {methodLabel(proof.method)}, paid {formatDate(proof.paymentDate)}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                Covers{' '}
+                {proof.installments
+                  .map(installment => `payment ${installment.paymentNumber} due ${formatDate(installment.dueDate)}`)
+                  .join(', ')}
+              </p>
+            </div>
+            <a
+              href={proof.fileUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-900"
+            >
+              View proof
+              <ExternalLink className="h-4 w-4 ml-1" />
+            </a>
+          </div>
+
+          {rejectingId === proof.id ? (
+            <div className="mt-3 space-y-2">
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={2}
+                placeholder="Tell the client why the proof cannot be accepted"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <div className="flex justify-end space-x-2">
+                <button
+                  onClick={() => {
+                    setRejectingId(null);
+                    setReason('');
+                  }}
+                  className="px-3 py-1 text-sm text-gray-700 hover:bg-gray-100 rounded-lg"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => handleReject(proof)}
+                  disabled={!reason.trim() || workingId === proof.id}
+                  className="px-3 py-1 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                >
+                  Reject Proof
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-end space-x-2 mt-3">
+              {workingId === proof.id && <Loader2 className="h-4 w-4 animate-spin text-indigo-600 self-center" />}
+              {proof.status === 'submitted' && (
+                <button
+                  onClick={() => run(proof.id, () => startPaymentProofReview(proof.id), 'The client was told you are reviewing it')}
+                  disabled={workingId !== null}
+                  className="flex items-center px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <Eye className="h-4 w-4 mr-1" />
+                  Start Review
+                </button>
+              )}
+              <button
+                onClick={() => setRejectingId(proof.id)}
+                disabled={workingId !== null}
+                className="flex items-center px-3 py-1 text-sm border border-red-300 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50"
+              >
+                <XCircle className="h-4 w-4 mr-1" />
+                Reject
+              </button>
+              <button
+                onClick={() => handleConfirm(proof)}
+                disabled={workingId !== null}
+                className="flex items-center px-3 py-1 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+              >
+                <CheckCircle className="h-4 w-4 mr-1" />
+                Confirm
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { useState, useEffect } from 'react';
+import { X, Loader2, DollarSign, Calendar } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+import {
+  recordPayment,
+  getOpenInstallments,
+  getCreditBalance,
+  PAYMENT_METHODS,
+  PaymentMethod,
+  OpenInstallment,
+} from '../lib/payments';
+
+interface RecordPaymentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  liaisonId: string;
+  clientName: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+
+export default function RecordPaymentModal({
+  isOpen,
+  onClose,
+  onSuccess,
+  liaisonId,
+  clientName,
+}: RecordPaymentModalProps) {
+  const [installments, setInstallments] = useState<OpenInstallment[]>([]);
+  const [creditBalance, setCreditBalance] = useState(0);
+  const [amount, setAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState(today());
+  const [method, setMethod] = useState<PaymentMethod>('bank_transfer');
+  const [reference, setReference] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setAmount('');
+      setPaymentDate(today());
+      setMethod('bank_transfer');
+      setReference('');
+      setError(null);
+      return;
+    }
+
+    const fetchLedger = async () => {
+      try {
+        setLoading(true);
+        const [open, credit] = await Promise.all([
+          getOpenInstallments(liaisonId),
+          getCreditBalance(liaisonId),
+        ]);
+        setInstallments(open);
+        setCreditBalance(credit);
+      } catch (err) {
+        console.error('Error fetching installments:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load installments');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchLedger();
+  }, [isOpen, liaisonId]);
+
+  // Mirror the oldest-first allocation done by the database so the accountant
+  // can see where the money will land before saving
+  const previewAllocation = () => {
+    let remaining = Number(amount) || 0;
+    const allocation = installments.map(installment => {
+      const applied = Math.min(remaining, installment.outstanding);
+      remaining -= applied;
+      return { ...installment, applied };
+    });
+    return { allocation, credit: remaining };
+  };
+
+  const handleSubmit = async () => {
+    setError(null);
+
+    const parsedAmount = Number(amount);
+    if (!(parsedAmount > 0)) {
+      setError('Payment amount must be greater than 0');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await recordPayment({
+        liaisonId,
+        amount: parsedAmount,
+        paymentDate,
+        method,
+        reference,
+      });
+      toast.success('Payment recorded');
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error recording payment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record payment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const { allocation, credit } = previewAllocation();
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            transition={{ duration: 0.2 }}
+            className="bg-white rounded-xl max-w-lg w-full p-6"
+          >
+            <div className="flex justify-between items-center mb-6">
+              <div>
+                <h2 className="text-xl font-semibold">Record Payment</h2>
+                <p className="text-sm text-gray-500">{clientName}</p>
+              </div>
+              <button
+                onClick={onClose}
+                className="text-gray-500 hover:text-gray-700 transition-colors duration-200"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            {error && (
+              <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm"
+              >
+                {error}
+              </motion.div>
+            )}
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Amount Received
+                  </label>
+                  <div className="relative">
+                    <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      className="pl-8 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Payment Date
+                  </label>
+                  <div className="relative">
+                    <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                    <input
+                      type="date"
+                      value={paymentDate}
+                      max={today()}
+                      onChange={(e) => setPaymentDate(e.target.value)}
+                      className="pl-8 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Method
+                  </label>
+                  <select
+                    value={method}
+                    onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    {PAYMENT_METHODS.map(option => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Reference
+                  </label>
+                  <input
+                    type="text"
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                    placeholder="Optional"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                </div>
+              </div>
+
+              {/* Allocation Preview */}
+              <div className="border border-gray-200 rounded-lg">
+                <div className="px-4 py-2 bg-gray-50 border-b border-gray-200 flex justify-between text-sm">
+                  <span className="font-medium text-gray-700">Open Installments</span>
+                  {creditBalance > 0 && (
+                    <span className="text-green-700">Credit on file: {formatCurrency(creditBalance)}</span>
+                  )}
+                </div>
+                {loading ? (
+                  <div className="flex justify-center py-6">
+                    <Loader2 className="h-5 w-5 animate-spin text-indigo-600" />
+                  </div>
+                ) : installments.length === 0 ? (
+                  <p className="px-4 py-6 text-sm text-center text-gray-500">
+                    No open installments. The payment will be kept as credit.
+                  </p>
+                ) : (
+                  <div className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+                    {allocation.map(installment => (
+                      <div key={installment.id} className="px-4 py-2 flex justify-between items-center text-sm">
+                        <div>
+                          <p className="text-gray-900">{installment.description}</p>
+                          <p className={installment.status === 'overdue' ? 'text-red-600' : 'text-gray-500'}>
+                            Due {new Date(installment.dueDate).toLocaleDateString()} · {formatCurrency(installment.outstanding)} open
+                          </p>
+                        </div>
+                        {installment.applied > 0 && (
+                          <span className="font-medium text-indigo-600">
+                            +{formatCurrency(installment.applied)}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {credit > 0 && installments.length > 0 && (
+                  <div className="px-4 py-2 border-t border-gray-200 text-sm text-green-700">
+                    {formatCurrency(credit)} will be carried forward as credit
+                  </div>
+                )}
+              </div>
+
+              <button
+                onClick={handleSubmit}
+                disabled={saving || loading || !amount}
+                className="w-full bg-indigo-600 text-white py-2 rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors duration-200"
+              >
+                {saving ? (
+                  <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+                ) : (
+                  'Record Payment'
+                )}
+              </button>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,321 @@
+import { useState, useEffect, useRef } from 'react';
+import { Loader2, AlertCircle, RotateCcw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { REMINDER_LEVELS, REMINDER_LEVEL_STYLES, ReminderLevelId } from '../lib/reminders';
+import {
+  getReminderTemplates,
+  saveReminderTemplate,
+  resetReminderTemplate,
+  getReminderPreviewVariables,
+  renderReminderTemplate,
+  validateReminderTemplate,
+  DEFAULT_REMINDER_TEMPLATES,
+  SAMPLE_REMINDER_VARIABLES,
+  TEMPLATE_VARIABLES,
+  FirmReminderTemplate,
+  ReminderTemplate,
+  ReminderVariables,
+} from '../lib/reminderTemplates';
+
+interface ReminderTemplateSettingsProps {
+  companyId: string;
+}
+
+interface PreviewClient {
+  liaisonId: string;
+  label: string;
+}
+
+interface RelationshipRow {
+  client_firm: { name: string } | null;
+  liaisons: { id: string; client: { full_name: string } | null }[];
+}
+
+export default function ReminderTemplateSettings({ companyId }: ReminderTemplateSettingsProps) {
+  const [templates, setTemplates] = useState<Record<ReminderLevelId, FirmReminderTemplate> | null>(null);
+  const [drafts, setDrafts] = useState<Record<ReminderLevelId, ReminderTemplate> | null>(null);
+  const [activeLevel, setActiveLevel] = useState<ReminderLevelId>('friendly');
+  const [clients, setClients] = useState<PreviewClient[]>([]);
+  const [previewLiaisonId, setPreviewLiaisonId] = useState('');
+  const [previewVariables, setPreviewVariables] = useState<ReminderVariables | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const [firmTemplates, relationships] = await Promise.all([
+          getReminderTemplates(companyId),
+          supabase
+            .from('company_relationships')
+            .select(`
+              client_firm:client_firm_id(name),
+              liaisons(id, client:client_id(full_name))
+            `)
+            .eq('accounting_firm_id', companyId),
+        ]);
+
+        if (relationships.error) throw relationships.error;
+
+        setTemplates(firmTemplates);
+        setDrafts(Object.fromEntries(
+          Object.values(firmTemplates).map(template => [
+            template.level,
+            { subject: template.subject, body: template.body },
+          ])
+        ) as Record<ReminderLevelId, ReminderTemplate>);
+
+        // PostgREST returns the to-one embeds as objects
+        setClients((relationships.data as unknown as RelationshipRow[]).flatMap(relationship =>
+          relationship.liaisons.map(liaison => ({
+            liaisonId: liaison.id,
+            label: [relationship.client_firm?.name, liaison.client?.full_name].filter(Boolean).join(' · '),
+          }))
+        ));
+      } catch (err) {
+        console.error('Error fetching reminder templates:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load reminder templates');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTemplates();
+  }, [companyId]);
+
+  useEffect(() => {
+    if (!previewLiaisonId) {
+      setPreviewVariables(null);
+      return;
+    }
+
+    const fetchPreviewVariables = async () => {
+      try {
+        setLoadingPreview(true);
+        const variables = await getReminderPreviewVariables(previewLiaisonId);
+        setPreviewVariables(variables);
+        if (!variables) {
+          toast('This client has no open installments, showing sample values');
+        }
+      } catch (err) {
+        console.error('Error fetching preview values:', err);
+        toast.error('Failed to load client details for the preview');
+      } finally {
+        setLoadingPreview(false);
+      }
+    };
+
+    fetchPreviewVariables();
+  }, [previewLiaisonId]);
+
+  if (loading || !templates || !drafts) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+      </div>
+    );
+  }
+
+  const draft = drafts[activeLevel];
+  const saved = templates[activeLevel];
+  const isDirty = draft.subject !== saved.subject || draft.body !== saved.body;
+  const preview = renderReminderTemplate(draft, previewVariables ?? SAMPLE_REMINDER_VARIABLES);
+
+  const updateDraft = (changes: Partial<ReminderTemplate>) => {
+    setDrafts({ ...drafts, [activeLevel]: { ...draft, ...changes } });
+  };
+
+  const insertVariable = (key: string) => {
+    const textarea = bodyRef.current;
+    const token = `{{${key}}}`;
+    const start = textarea?.selectionStart ?? draft.body.length;
+    const end = textarea?.selectionEnd ?? draft.body.length;
+
+    updateDraft({ body: draft.body.slice(0, start) + token + draft.body.slice(end) });
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handleSave = async () => {
+    const validationError = validateReminderTemplate(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const updated = await saveReminderTemplate(companyId, activeLevel, draft);
+      setTemplates({ ...templates, [activeLevel]: updated });
+      setDrafts({ ...drafts, [activeLevel]: { subject: updated.subject, body: updated.body } });
+      toast.success('Reminder template saved');
+    } catch (err) {
+      console.error('Error saving reminder template:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save reminder template');
+      toast.error('Failed to save reminder template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    const confirmed = window.confirm('Go back to the built-in wording for this reminder?');
+    if (!confirmed) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      if (saved.isCustom) {
+        await resetReminderTemplate(companyId, activeLevel);
+      }
+
+      const defaults = DEFAULT_REMINDER_TEMPLATES[activeLevel];
+      setTemplates({ ...templates, [activeLevel]: { ...defaults, level: activeLevel, isCustom: false, updatedAt: null } });
+      setDrafts({ ...drafts, [activeLevel]: defaults });
+      toast.success('Reminder template reset to the default');
+    } catch (err) {
+      console.error('Error resetting reminder template:', err);
+      toast.error('Failed to reset reminder template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-2">Reminder Templates</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        The wording of payment reminders sent to your clients, in the chat and by email.
+        Levels you don't customize use the built-in templates.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center text-red-700">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {REMINDER_LEVELS.map(level => (
+          <button
+            key={level.id}
+            onClick={() => {
+              setActiveLevel(level.id);
+              setError(null);
+            }}
+            className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors duration-200 ${
+              activeLevel === level.id
+                ? `${REMINDER_LEVEL_STYLES[level.id]} border-transparent`
+                : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            {level.title}
+            {templates[level.id].isCustom && <span className="ml-1">•</span>}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Email subject
+            </label>
+            <input
+              type="text"
+              value={draft.subject}
+              onChange={(e) => updateDraft({ subject: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Message
+            </label>
+            <textarea
+              ref={bodyRef}
+              value={draft.body}
+              onChange={(e) => updateDraft({ body: e.target.value })}
+              rows={14}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Insert a variable</p>
+            <div className="flex flex-wrap gap-2">
+              {TEMPLATE_VARIABLES.map(variable => (
+                <button
+                  key={variable.key}
+                  onClick={() => insertVariable(variable.key)}
+                  title={variable.description}
+                  className="px-2 py-1 text-xs font-mono bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                >
+                  {`{{${variable.key}}}`}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <label className="block text-sm font-medium text-gray-700">Preview</label>
+            {loadingPreview && <Loader2 className="h-4 w-4 animate-spin text-indigo-600" />}
+          </div>
+          <select
+            value={previewLiaisonId}
+            onChange={(e) => setPreviewLiaisonId(e.target.value)}
+            className="w-full mb-3 px-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="">Sample client</option>
+            {clients.map(client => (
+              <option key={client.liaisonId} value={client.liaisonId}>
+                {client.label}
+              </option>
+            ))}
+          </select>
+          <div className="p-4 border border-gray-200 rounded-lg bg-gray-50">
+            <p className="text-sm font-medium text-gray-900 mb-3">{preview.subject}</p>
+            <p className="text-sm text-gray-700 whitespace-pre-wrap">{preview.body}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex gap-3 mt-6">
+        <button
+          onClick={handleSave}
+          disabled={saving || !isDirty}
+          className="flex-1 bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? (
+            <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+          ) : (
+            'Save Template'
+          )}
+        </button>
+        <button
+          onClick={handleReset}
+          disabled={saving || (!saved.isCustom && !isDirty)}
+          className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RotateCcw className="h-4 w-4 mr-2 text-gray-400" />
+          Use Default
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,397 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ChevronDown, ChevronRight, Copy, Loader2, Send, UserCheck, UserX, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { sendTemplatedEmail } from '../lib/emailService';
+import { ROLE_LABELS, rolesForCompany, UserRole } from '../lib/permissions';
+import { InvitationStatus } from '../lib/invitations';
+import { reassignLiaison } from '../lib/liaisons';
+import {
+  getTeamMembers,
+  getTeamLiaisons,
+  getTeamInvitations,
+  setMemberRole,
+  setMemberActive,
+  createTeamInvitation,
+  revokeTeamInvitation,
+  teamInvitationStatus,
+  teamInvitationUrl,
+  TeamMember,
+  TeamLiaison,
+  TeamInvitation,
+  TEAM_INVITATION_VALID_DAYS,
+} from '../lib/team';
+
+interface TeamSettingsProps {
+  companyId: string;
+  companyType: 'accounting_firm' | 'client';
+  currentUserId: string;
+}
+
+const STATUS_STYLES: Record<InvitationStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  redeemed: 'bg-green-100 text-green-800',
+  revoked: 'bg-gray-100 text-gray-600',
+  expired: 'bg-red-100 text-red-700',
+};
+
+const STATUS_LABELS: Record<InvitationStatus, string> = {
+  pending: 'Pending',
+  redeemed: 'Joined',
+  revoked: 'Revoked',
+  expired: 'Expired',
+};
+
+export default function TeamSettings({ companyId, companyType, currentUserId }: TeamSettingsProps) {
+  const roles = rolesForCompany(companyType);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [liaisons, setLiaisons] = useState<TeamLiaison[]>([]);
+  const [invitations, setInvitations] = useState<TeamInvitation[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [inviting, setInviting] = useState(false);
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [inviteForm, setInviteForm] = useState<{ email: string; name: string; role: UserRole }>({
+    email: '',
+    name: '',
+    role: roles[1],
+  });
+
+  const fetchTeam = useCallback(async () => {
+    try {
+      const [teamMembers, teamLiaisons, teamInvitations] = await Promise.all([
+        getTeamMembers(companyId),
+        getTeamLiaisons(),
+        getTeamInvitations(companyId),
+      ]);
+      setMembers(teamMembers);
+      setLiaisons(teamLiaisons);
+      setInvitations(teamInvitations);
+    } catch (err) {
+      console.error('Error fetching team:', err);
+      toast.error('Failed to load your team');
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId]);
+
+  useEffect(() => {
+    fetchTeam();
+  }, [fetchTeam]);
+
+  const handleRoleChange = async (member: TeamMember, role: UserRole) => {
+    try {
+      setUpdatingId(member.id);
+      await setMemberRole(member.id, role);
+      toast.success(`${member.full_name} is now ${ROLE_LABELS[role].toLowerCase()}`);
+      await fetchTeam();
+    } catch (err) {
+      console.error('Error changing role:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to change role');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleToggleActive = async (member: TeamMember) => {
+    if (member.is_active && !window.confirm(`Deactivate ${member.full_name}? They will no longer be able to sign in.`)) {
+      return;
+    }
+
+    try {
+      setUpdatingId(member.id);
+      await setMemberActive(member.id, !member.is_active);
+      toast.success(`${member.full_name} ${member.is_active ? 'deactivated' : 'reactivated'}`);
+      await fetchTeam();
+    } catch (err) {
+      console.error('Error updating member:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to update member');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleReassign = async (liaison: TeamLiaison, memberId: string) => {
+    const member = members.find(candidate => candidate.id === memberId);
+    if (!member) return;
+
+    const confirmed = window.confirm(
+      `Hand ${liaison.company_name} over to ${member.full_name}? Open plans, reminders and the conversation history move with it.`
+    );
+    if (!confirmed) return;
+
+    try {
+      setUpdatingId(liaison.liaison_id);
+      await reassignLiaison(liaison.liaison_id, memberId);
+      toast.success(`${liaison.company_name} handed over to ${member.full_name}`);
+      await fetchTeam();
+    } catch (err) {
+      console.error('Error reassigning liaison:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to reassign liaison');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setInviting(true);
+      const email = inviteForm.email.trim();
+      const token = await createTeamInvitation(email, inviteForm.name, inviteForm.role);
+      const link = teamInvitationUrl(token);
+      setInviteLink(link);
+
+      // The invitation stands even if the email fails; the link can be shared by hand
+      try {
+        const expiresAt = new Date(Date.now() + TEAM_INVITATION_VALID_DAYS * 24 * 60 * 60 * 1000);
+        await sendTemplatedEmail(email, 'team_invitation', {
+          recipientName: inviteForm.name || undefined,
+          role: ROLE_LABELS[inviteForm.role].toLowerCase(),
+          inviteToken: token,
+          expiresAt: expiresAt.toLocaleDateString(),
+        });
+        toast.success(`Invitation sent to ${email}`);
+      } catch (emailError) {
+        console.error('Error sending team invitation email:', emailError);
+        toast.error('The invitation was created but the email could not be sent. Share the link instead.');
+      }
+
+      setInviteForm(prev => ({ ...prev, email: '', name: '' }));
+      await fetchTeam();
+    } catch (err) {
+      console.error('Error inviting colleague:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to invite colleague');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!inviteLink) return;
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      toast.success('Invitation link copied');
+    } catch (err) {
+      console.error('Error copying invitation link:', err);
+      toast.error('Failed to copy the link');
+    }
+  };
+
+  const handleRevoke = async (invitation: TeamInvitation) => {
+    try {
+      setUpdatingId(invitation.id);
+      await revokeTeamInvitation(invitation.id);
+      toast.success(`Invitation for ${invitation.invitee_email} revoked`);
+      await fetchTeam();
+    } catch (err) {
+      console.error('Error revoking team invitation:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to revoke invitation');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <Loader2 className="h-6 w-6 animate-spin text-indigo-600 mx-auto" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-2">Team</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        Roles decide who can invite clients, accept plans and change company settings.
+        Deactivated members keep their history but can no longer sign in.
+      </p>
+
+      <div className="space-y-3">
+        {members.map(member => {
+          const memberLiaisons = liaisons.filter(liaison => liaison.member_id === member.id);
+          const expanded = expandedId === member.id;
+          return (
+            <div key={member.id} className="border border-gray-200 rounded-lg">
+              <div className="flex items-center justify-between p-4">
+                <button
+                  onClick={() => setExpandedId(expanded ? null : member.id)}
+                  className="flex items-center min-w-0 text-left"
+                >
+                  {expanded ? (
+                    <ChevronDown className="h-4 w-4 mr-2 text-gray-400 flex-shrink-0" />
+                  ) : (
+                    <ChevronRight className="h-4 w-4 mr-2 text-gray-400 flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <h4 className={`text-sm font-medium truncate ${member.is_active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                      {member.full_name}
+                      {member.id === currentUserId && ' (you)'}
+                    </h4>
+                    <p className="text-sm text-gray-500 truncate">
+                      {member.email} · {memberLiaisons.length} liaison{memberLiaisons.length === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                </button>
+                <div className="flex items-center space-x-3 ml-4">
+                  {updatingId === member.id && <Loader2 className="h-4 w-4 animate-spin text-indigo-600" />}
+                  <select
+                    value={member.role}
+                    onChange={(e) => handleRoleChange(member, e.target.value as UserRole)}
+                    disabled={updatingId === member.id || !member.is_active}
+                    className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-50"
+                  >
+                    {roles.map(role => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                  {member.id !== currentUserId && (
+                    <button
+                      onClick={() => handleToggleActive(member)}
+                      disabled={updatingId === member.id}
+                      title={member.is_active ? 'Deactivate' : 'Reactivate'}
+                      className={`${member.is_active ? 'text-red-600 hover:text-red-700' : 'text-green-600 hover:text-green-700'} disabled:opacity-50`}
+                    >
+                      {member.is_active ? <UserX className="h-5 w-5" /> : <UserCheck className="h-5 w-5" />}
+                    </button>
+                  )}
+                </div>
+              </div>
+              {expanded && (
+                <div className="px-4 pb-4 pl-10">
+                  {memberLiaisons.length === 0 ? (
+                    <p className="text-sm text-gray-500">No liaisons</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {memberLiaisons.map(liaison => (
+                        <li key={liaison.liaison_id} className="flex items-center justify-between text-sm text-gray-600">
+                          <span>
+                            {liaison.company_name} ({liaison.contact_name}) · {liaison.verification_status}
+                          </span>
+                          <span className="flex items-center space-x-2">
+                            {updatingId === liaison.liaison_id && <Loader2 className="h-4 w-4 animate-spin text-indigo-600" />}
+                            <select
+                              value=""
+                              onChange={(e) => handleReassign(liaison, e.target.value)}
+                              disabled={updatingId !== null}
+                              className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                            >
+                              <option value="">Reassign to...</option>
+                              {members
+                                .filter(candidate => candidate.is_active && candidate.id !== member.id)
+                                .map(candidate => (
+                                  <option key={candidate.id} value={candidate.id}>{candidate.full_name}</option>
+                                ))}
+                            </select>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-8 pt-6 border-t border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Invite a Colleague</h3>
+        <form onSubmit={handleInvite} className="grid grid-cols-12 gap-3">
+          <input
+            type="email"
+            value={inviteForm.email}
+            onChange={(e) => setInviteForm(prev => ({ ...prev, email: e.target.value }))}
+            placeholder="Email address"
+            className="col-span-5 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            required
+          />
+          <input
+            type="text"
+            value={inviteForm.name}
+            onChange={(e) => setInviteForm(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="Name (optional)"
+            className="col-span-3 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <select
+            value={inviteForm.role}
+            onChange={(e) => setInviteForm(prev => ({ ...prev, role: e.target.value as UserRole }))}
+            className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {roles.map(role => (
+              <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={inviting}
+            className="col-span-2 flex items-center justify-center px-3 py-2 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors duration-200"
+          >
+            {inviting ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Send className="h-4 w-4 mr-2" />Invite</>}
+          </button>
+        </form>
+
+        {inviteLink && (
+          <div className="mt-3 flex items-center p-3 bg-gray-50 border border-gray-200 rounded-lg">
+            <p className="flex-1 text-sm text-gray-600 truncate">{inviteLink}</p>
+            <button
+              onClick={handleCopyLink}
+              title="Copy link"
+              className="ml-3 text-indigo-600 hover:text-indigo-700"
+            >
+              <Copy className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+
+        {invitations.length > 0 && (
+          <div className="mt-4 space-y-3">
+            {invitations.map(invitation => {
+              const status = teamInvitationStatus(invitation);
+              return (
+                <div
+                  key={invitation.id}
+                  className="flex items-center justify-between p-4 border border-gray-200 rounded-lg"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center">
+                      <h4 className="text-sm font-medium text-gray-900 truncate">
+                        {invitation.invitee_name
+                          ? `${invitation.invitee_name} (${invitation.invitee_email})`
+                          : invitation.invitee_email}
+                      </h4>
+                      <span className={`ml-2 px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[status]}`}>
+                        {STATUS_LABELS[status]}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {ROLE_LABELS[invitation.role]}, invited by {invitation.inviter?.full_name || 'a former member'} on{' '}
+                      {new Date(invitation.created_at).toLocaleDateString()}
+                      {status === 'pending' && `, expires ${new Date(invitation.expires_at).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  {status === 'pending' && (
+                    <button
+                      onClick={() => handleRevoke(invitation)}
+                      disabled={updatingId === invitation.id}
+                      title="Revoke invitation"
+                      className="ml-4 text-red-600 hover:text-red-700 disabled:opacity-50"
+                    >
+                      {updatingId === invitation.id ? (
+                        <Loader2 className="h-5 w-5 animate-spin" />
+                      ) : (
+                        <XCircle className="h-5 w-5" />
+                      )}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
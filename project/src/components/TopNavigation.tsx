@@ -3,7 +3,8 @@ import { NavLink, useNavigate } from 'react-router-dom';
 import { Menu, X, LogOut, Settings } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { supabase } from '../lib/supabase';
-import { useUnreadMessages } from '../contexts/UnreadMessagesContext';
+import { useNotifications } from '../contexts/NotificationsContext';
+import NotificationBell from './NotificationBell';
 
 interface NavItem {
   path: string;
@@ -18,7 +19,7 @@ interface TopNavigationProps {
 export default function TopNavigation({ items, userType }: TopNavigationProps) {
   const [isOpen, setIsOpen] = useState(false);
   const navigate = useNavigate();
-  const { unreadCount } = useUnreadMessages();
+  const { unreadMessageCount } = useNotifications();
 
   const handleLogout = async () => {
     try {
@@ -68,9 +69,9 @@ export default function TopNavigation({ items, userType }: TopNavigationProps) {
                       ) : (
                         item.label
                       )}
-                      {item.label === 'Chat' && unreadCount > 0 && (
+                      {item.label === 'Chat' && unreadMessageCount > 0 && (
                         <span className="absolute -top-2 -right-6 bg-red-500 text-white text-xs px-1.5 py-0.5 rounded-full min-w-[1.25rem] text-center">
-                          {unreadCount}
+                          {unreadMessageCount}
                         </span>
                       )}
                       {isActive && (
@@ -83,6 +84,7 @@ export default function TopNavigation({ items, userType }: TopNavigationProps) {
                   )}
                 </NavLink>
               ))}
+              <NotificationBell />
               <button
                 onClick={handleLogout}
                 className="flex items-center px-3 py-2 text-sm font-medium text-gray-600 hover:text-red-600 transition-colors duration-200"
@@ -93,7 +95,8 @@ export default function TopNavigation({ items, userType }: TopNavigationProps) {
             </div>
 
             {/* Mobile menu button */}
-            <div className="md:hidden flex items-center">
+            <div className="md:hidden flex items-center space-x-2">
+              <NotificationBell />
               <button
                 onClick={() => setIsOpen(!isOpen)}
                 className="text-gray-600 hover:text-gray-900 focus:outline-none"
@@ -149,9 +152,9 @@ export default function TopNavigation({ items, userType }: TopNavigationProps) {
                       ) : (
                         item.label
                       )}
-                      {item.label === 'Chat' && unreadCount > 0 && (
+                      {item.label === 'Chat' && unreadMessageCount > 0 && (
                         <span className="absolute -top-2 -right-6 bg-red-500 text-white text-xs px-1.5 py-0.5 rounded-full min-w-[1.25rem] text-center">
-                          {unreadCount}
+                          {unreadMessageCount}
                         </span>
                       )}
                     </div>
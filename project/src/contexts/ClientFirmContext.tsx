@@ -0,0 +1,78 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { getClientFirms, ClientFirm } from '../lib/clientFirms';
+
+const SELECTED_FIRM_KEY = 'client-portal:selected-relationship';
+
+interface ClientFirmContextType {
+  firms: ClientFirm[];
+  selectedFirm: ClientFirm | null;
+  loading: boolean;
+  selectFirm: (relationshipId: string) => void;
+  refresh: () => Promise<void>;
+}
+
+const ClientFirmContext = createContext<ClientFirmContextType | undefined>(undefined);
+
+export function ClientFirmProvider({ children }: { children: React.ReactNode }) {
+  const [firms, setFirms] = useState<ClientFirm[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(() => localStorage.getItem(SELECTED_FIRM_KEY));
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      setFirms(user ? await getClientFirms(user.id) : []);
+    } catch (error) {
+      console.error('Error fetching accounting firms:', error);
+      setFirms([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+
+    const subscription = supabase
+      .channel('client_firm_relationships')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'company_relationships'
+        },
+        () => {
+          refresh();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [refresh]);
+
+  const selectFirm = useCallback((relationshipId: string) => {
+    localStorage.setItem(SELECTED_FIRM_KEY, relationshipId);
+    setSelectedId(relationshipId);
+  }, []);
+
+  // A remembered firm the company is no longer connected to falls back to the first one
+  const selectedFirm = firms.find(firm => firm.relationshipId === selectedId) ?? firms[0] ?? null;
+
+  return (
+    <ClientFirmContext.Provider value={{ firms, selectedFirm, loading, selectFirm, refresh }}>
+      {children}
+    </ClientFirmContext.Provider>
+  );
+}
+
+export function useClientFirm() {
+  const context = useContext(ClientFirmContext);
+  if (context === undefined) {
+    throw new Error('useClientFirm must be used within a ClientFirmProvider');
+  }
+  return context;
+}
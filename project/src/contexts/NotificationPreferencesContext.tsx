@@ -0,0 +1,74 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import {
+  getNotificationPreferences,
+  saveNotificationPreferences,
+  notificationAllowed,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationChannel,
+  NotificationEvent,
+  NotificationPreferences,
+} from '../lib/notifications';
+
+interface NotificationPreferencesContextType {
+  preferences: NotificationPreferences;
+  allows: (channel: NotificationChannel, event: NotificationEvent) => boolean;
+  savePreferences: (preferences: NotificationPreferences) => Promise<void>;
+}
+
+const NotificationPreferencesContext = createContext<NotificationPreferencesContextType | undefined>(undefined);
+
+export function NotificationPreferencesProvider({ children }: { children: React.ReactNode }) {
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [userId, setUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchPreferences = async (id: string | null) => {
+      setUserId(id);
+      if (!id) {
+        setPreferences(DEFAULT_NOTIFICATION_PREFERENCES);
+        return;
+      }
+
+      try {
+        setPreferences(await getNotificationPreferences(id));
+      } catch (error) {
+        console.error('Error fetching notification preferences:', error);
+      }
+    };
+
+    supabase.auth.getUser().then(({ data: { user } }) => fetchPreferences(user?.id ?? null));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      fetchPreferences(session?.user.id ?? null);
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const allows = useCallback(
+    (channel: NotificationChannel, event: NotificationEvent) => notificationAllowed(preferences, channel, event),
+    [preferences]
+  );
+
+  const savePreferences = async (updated: NotificationPreferences) => {
+    if (!userId) throw new Error('Not authenticated');
+    setPreferences(await saveNotificationPreferences(userId, updated));
+  };
+
+  return (
+    <NotificationPreferencesContext.Provider value={{ preferences, allows, savePreferences }}>
+      {children}
+    </NotificationPreferencesContext.Provider>
+  );
+}
+
+export function useNotificationPreferences() {
+  const context = useContext(NotificationPreferencesContext);
+  if (context === undefined) {
+    throw new Error('useNotificationPreferences must be used within a NotificationPreferencesProvider');
+  }
+  return context;
+}
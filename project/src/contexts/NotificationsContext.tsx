@@ -0,0 +1,180 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import {
+  getNotifications,
+  getUnreadNotificationCount,
+  markNotificationRead,
+  markAllNotificationsRead,
+  AppNotification,
+} from '../lib/notifications';
+
+interface NotificationsContextType {
+  notifications: AppNotification[];
+  unreadCount: number;
+  unreadMessageCount: number;
+  markRead: (notificationId: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const NotificationsContext = createContext<NotificationsContextType | undefined>(undefined);
+
+export function NotificationsProvider({ children }: { children: React.ReactNode }) {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [unreadMessageCount, setUnreadMessageCount] = useState(0);
+
+  // The Chat badge counts unread messages, whether or not they made it into the inbox
+  const fetchUnreadMessageCount = useCallback(async (id: string) => {
+    try {
+      // Get all liaisons where the current user is either the accountant or client
+      const { data: liaisons, error: liaisonsError } = await supabase
+        .from('liaisons')
+        .select('id, accountant_id, client_id')
+        .or(`accountant_id.eq.${id},client_id.eq.${id}`);
+
+      if (liaisonsError) {
+        console.error('Error fetching liaisons:', liaisonsError);
+        return;
+      }
+
+      if (!liaisons?.length) {
+        setUnreadMessageCount(0);
+        return;
+      }
+
+      // Get unread messages where the current user is the recipient
+      const { data: messages, error: messagesError } = await supabase
+        .from('messages')
+        .select('id, sender_id')
+        .in('liaison_id', liaisons.map(l => l.id))
+        .eq('is_read', false)
+        .neq('sender_id', id);
+
+      if (messagesError) {
+        console.error('Error fetching unread messages:', messagesError);
+        return;
+      }
+
+      // Filter messages to only count those where the current user is the intended recipient
+      const validUnreadMessages = messages.filter(msg => {
+        const liaison = liaisons.find(l =>
+          (l.accountant_id === id && l.client_id === msg.sender_id) ||
+          (l.client_id === id && l.accountant_id === msg.sender_id)
+        );
+        return liaison !== undefined;
+      });
+
+      setUnreadMessageCount(validUnreadMessages.length);
+    } catch (error) {
+      console.error('Error in fetchUnreadMessageCount:', error);
+    }
+  }, []);
+
+  const fetchNotifications = useCallback(async (id: string) => {
+    try {
+      const [latest, count] = await Promise.all([
+        getNotifications(id),
+        getUnreadNotificationCount(id),
+      ]);
+      setNotifications(latest);
+      setUnreadCount(count);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    await Promise.all([fetchNotifications(userId), fetchUnreadMessageCount(userId)]);
+  }, [userId, fetchNotifications, fetchUnreadMessageCount]);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setUserId(user?.id ?? null));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user.id ?? null);
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([]);
+      setUnreadCount(0);
+      setUnreadMessageCount(0);
+      return;
+    }
+
+    fetchNotifications(userId);
+    fetchUnreadMessageCount(userId);
+
+    const subscription = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`
+        },
+        () => fetchNotifications(userId)
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'messages'
+        },
+        (payload) => {
+          if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
+            fetchUnreadMessageCount(userId);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [userId, fetchNotifications, fetchUnreadMessageCount]);
+
+  const markRead = async (notificationId: string) => {
+    const notification = notifications.find(n => n.id === notificationId);
+    if (!notification || notification.is_read) return;
+
+    await markNotificationRead(notificationId);
+    setNotifications(prev => prev.map(n => n.id === notificationId ? { ...n, is_read: true } : n));
+    setUnreadCount(prev => Math.max(0, prev - 1));
+  };
+
+  const markAllRead = async () => {
+    if (!userId) return;
+
+    await markAllNotificationsRead(userId);
+    setNotifications(prev => prev.map(n => ({ ...n, is_read: true })));
+    setUnreadCount(0);
+  };
+
+  return (
+    <NotificationsContext.Provider
+      value={{ notifications, unreadCount, unreadMessageCount, markRead, markAllRead, refresh }}
+    >
+      {children}
+    </NotificationsContext.Provider>
+  );
+}
+
+export function useNotifications() {
+  const context = useContext(NotificationsContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationsProvider');
+  }
+  return context;
+}
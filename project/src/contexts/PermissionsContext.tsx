@@ -0,0 +1,82 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { getRolePermissions, Permission, UserRole } from '../lib/permissions';
+
+interface PermissionsContextType {
+  role: UserRole | null;
+  loading: boolean;
+  can: (permission: Permission) => boolean;
+  refresh: () => Promise<void>;
+}
+
+const PermissionsContext = createContext<PermissionsContextType | undefined>(undefined);
+
+export function PermissionsProvider({ children }: { children: React.ReactNode }) {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [role, setRole] = useState<UserRole | null>(null);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPermissions = useCallback(async (id: string | null) => {
+    if (!id) {
+      setRole(null);
+      setPermissions([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data: user, error } = await supabase
+        .from('users')
+        .select('role, is_active')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      // Deactivated users keep their role on record but may do nothing
+      setRole(user?.role ?? null);
+      setPermissions(user?.is_active ? await getRolePermissions(user.role) : []);
+    } catch (error) {
+      console.error('Error fetching permissions:', error);
+      setPermissions([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const refresh = useCallback(() => fetchPermissions(userId), [userId, fetchPermissions]);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setUserId(user?.id ?? null));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user.id ?? null);
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchPermissions(userId);
+  }, [userId, fetchPermissions]);
+
+  const can = useCallback((permission: Permission) => permissions.includes(permission), [permissions]);
+
+  return (
+    <PermissionsContext.Provider value={{ role, loading, can, refresh }}>
+      {children}
+    </PermissionsContext.Provider>
+  );
+}
+
+export function usePermissions() {
+  const context = useContext(PermissionsContext);
+  if (context === undefined) {
+    throw new Error('usePermissions must be used within a PermissionsProvider');
+  }
+  return context;
+}
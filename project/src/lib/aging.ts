@@ -0,0 +1,207 @@
+import { supabase } from './supabase';
+import { escapeHtml } from './export';
+
+export const AGING_BUCKETS = [
+  { id: 'current', label: 'Current' },
+  { id: '1_30', label: '1–30 days' },
+  { id: '31_60', label: '31–60 days' },
+  { id: '61_90', label: '61–90 days' },
+  { id: '90_plus', label: '90+ days' },
+] as const;
+
+export type AgingBucket = typeof AGING_BUCKETS[number]['id'];
+
+export type BucketTotals = Record<AgingBucket, number> & { total: number };
+
+export interface AgingInstallment {
+  id: string;
+  description: string;
+  paymentNumber: number;
+  dueDate: string;
+  amount: number;
+  outstanding: number;
+  status: 'pending' | 'partial' | 'overdue';
+  daysPastDue: number;
+  bucket: AgingBucket;
+}
+
+export interface AgingLiaison {
+  liaisonId: string;
+  clientName: string;
+  accountantName: string;
+  totals: BucketTotals;
+  installments: AgingInstallment[];
+}
+
+export interface AgingClient {
+  companyId: string;
+  companyName: string;
+  totals: BucketTotals;
+  liaisons: AgingLiaison[];
+}
+
+interface AgingRow {
+  client_company_id: string;
+  client_company_name: string;
+  liaison_id: string;
+  client_name: string | null;
+  accountant_name: string | null;
+  transaction_id: string;
+  description: string;
+  payment_number: number;
+  due_date: string;
+  amount: number | string;
+  outstanding: number | string;
+  status: AgingInstallment['status'];
+  days_past_due: number;
+  bucket: AgingBucket;
+}
+
+const emptyTotals = (): BucketTotals => ({
+  current: 0,
+  '1_30': 0,
+  '31_60': 0,
+  '61_90': 0,
+  '90_plus': 0,
+  total: 0,
+});
+
+const addToTotals = (totals: BucketTotals, bucket: AgingBucket, amount: number) => {
+  totals[bucket] += amount;
+  totals.total += amount;
+};
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Open installments of every client of the caller's firm, grouped by client
+// company and liaison, with bucket totals at each level
+export async function getReceivablesAging(asOf: string): Promise<{ clients: AgingClient[]; totals: BucketTotals }> {
+  const { data, error } = await supabase.rpc('firm_receivables_aging', { as_of: asOf });
+  if (error) throw error;
+
+  const totals = emptyTotals();
+  const clients = new Map<string, AgingClient>();
+
+  (data || []).forEach((row: AgingRow) => {
+    const outstanding = Number(row.outstanding);
+
+    let client = clients.get(row.client_company_id);
+    if (!client) {
+      client = {
+        companyId: row.client_company_id,
+        companyName: row.client_company_name,
+        totals: emptyTotals(),
+        liaisons: [],
+      };
+      clients.set(row.client_company_id, client);
+    }
+
+    let liaison = client.liaisons.find(item => item.liaisonId === row.liaison_id);
+    if (!liaison) {
+      liaison = {
+        liaisonId: row.liaison_id,
+        clientName: row.client_name || 'Unknown contact',
+        accountantName: row.accountant_name || 'Unassigned',
+        totals: emptyTotals(),
+        installments: [],
+      };
+      client.liaisons.push(liaison);
+    }
+
+    liaison.installments.push({
+      id: row.transaction_id,
+      description: row.description,
+      paymentNumber: row.payment_number,
+      dueDate: row.due_date,
+      amount: Number(row.amount),
+      outstanding,
+      status: row.status,
+      daysPastDue: row.days_past_due,
+      bucket: row.bucket,
+    });
+
+    addToTotals(liaison.totals, row.bucket, outstanding);
+    addToTotals(client.totals, row.bucket, outstanding);
+    addToTotals(totals, row.bucket, outstanding);
+  });
+
+  return { clients: Array.from(clients.values()), totals };
+}
+
+export function agingToCsvRows(clients: AgingClient[], totals: BucketTotals) {
+  const header = [
+    'Client Company',
+    'Client Contact',
+    'Accountant',
+    'Installment',
+    'Due Date',
+    'Days Past Due',
+    ...AGING_BUCKETS.map(bucket => bucket.label),
+    'Total',
+  ];
+
+  const rows: (string | number)[][] = [header];
+
+  clients.forEach(client => {
+    client.liaisons.forEach(liaison => {
+      liaison.installments.forEach(installment => {
+        rows.push([
+          client.companyName,
+          liaison.clientName,
+          liaison.accountantName,
+          installment.description,
+          installment.dueDate,
+          installment.daysPastDue,
+          ...AGING_BUCKETS.map(bucket =>
+            bucket.id === installment.bucket ? installment.outstanding.toFixed(2) : ''
+          ),
+          installment.outstanding.toFixed(2),
+        ]);
+      });
+    });
+  });
+
+  rows.push([
+    'Total', '', '', '', '', '',
+    ...AGING_BUCKETS.map(bucket => totals[bucket.id].toFixed(2)),
+    totals.total.toFixed(2),
+  ]);
+
+  return rows;
+}
+
+export function agingToHtml(clients: AgingClient[], totals: BucketTotals, firmName: string, asOf: string) {
+  const amountCells = (bucketTotals: BucketTotals) =>
+    [...AGING_BUCKETS.map(bucket => bucketTotals[bucket.id]), bucketTotals.total]
+      .map(amount => `<td class="number">${amount ? formatAmount(amount) : ''}</td>`)
+      .join('');
+
+  const body = clients.map(client => `
+    <tr class="group"><td colspan="2">${escapeHtml(client.companyName)}</td>${amountCells(client.totals)}</tr>
+    ${client.liaisons.map(liaison => `
+      <tr>
+        <td>${escapeHtml(liaison.clientName)}</td>
+        <td>${escapeHtml(liaison.accountantName)}</td>
+        ${amountCells(liaison.totals)}
+      </tr>`).join('')}
+  `).join('');
+
+  return `
+    <h1>Accounts Receivable Aging</h1>
+    <p class="subtitle">${escapeHtml(firmName)} · as of ${escapeHtml(new Date(asOf).toLocaleDateString())}</p>
+    <table>
+      <thead>
+        <tr>
+          <th>Client</th>
+          <th>Accountant</th>
+          ${AGING_BUCKETS.map(bucket => `<th class="number">${escapeHtml(bucket.label)}</th>`).join('')}
+          <th class="number">Total</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${body}
+        <tr class="total"><td colspan="2">Total</td>${amountCells(totals)}</tr>
+      </tbody>
+    </table>`;
+}
@@ -0,0 +1,248 @@
+import { supabase } from './supabase';
+import { RiskLevel } from './crs';
+
+export interface PaymentTimingPoint {
+  month: string;
+  averageDaysFromDue: number | null;
+  payments: number;
+}
+
+export interface DistributionBuckets {
+  onTimeDays: number;
+  lateDays: number;
+}
+
+export interface PaymentDistribution {
+  bucket: 'on_time' | 'late' | 'very_late';
+  installments: number;
+}
+
+export type ActivityType = 'payment' | 'installment' | 'message' | 'document' | 'plan_change';
+
+export interface Activity {
+  occurredAt: string;
+  type: ActivityType;
+  description: string;
+}
+
+export interface NextInstallment {
+  liaisonId: string;
+  description: string;
+  outstanding: number;
+  dueDate: string;
+  status: 'pending' | 'partial' | 'overdue';
+}
+
+export interface ForecastInstallment {
+  weekStart: string;
+  clientCompanyId: string;
+  clientCompanyName: string;
+  liaisonId: string;
+  riskLevel: RiskLevel;
+  crsScore: number;
+  onTimeProbability: number;
+  transactionId: string;
+  dueDate: string;
+  outstanding: number;
+}
+
+export interface ForecastWeek {
+  weekStart: string;
+  scheduled: number;
+  expected: number;
+  best: number;
+  worst: number;
+}
+
+export const FORECAST_WEEKS = 12;
+
+// z-score of the two-sided 90% interval used for the best/worst case band
+const FORECAST_BAND_Z = 1.645;
+
+export const DEFAULT_BUCKETS: DistributionBuckets = {
+  onTimeDays: 0,
+  lateDays: 30,
+};
+
+export const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  payment: 'Payment',
+  installment: 'Installment',
+  message: 'Message',
+  document: 'Document',
+  plan_change: 'Plan Change',
+};
+
+interface TimingRow {
+  month: string;
+  average_days_from_due: number | string | null;
+  payments: number;
+}
+
+interface ForecastRow {
+  week_start: string;
+  client_company_id: string;
+  client_company_name: string;
+  liaison_id: string;
+  risk_level: RiskLevel;
+  crs_score: number;
+  on_time_probability: number | string;
+  transaction_id: string;
+  due_date: string;
+  outstanding: number | string;
+}
+
+interface ActivityRow {
+  occurred_at: string;
+  activity_type: ActivityType;
+  description: string;
+}
+
+interface NextInstallmentRow {
+  liaison_id: string;
+  description: string;
+  outstanding: number | string;
+  due_date: string;
+  status: NextInstallment['status'];
+}
+
+// Average days from due date of the installments paid in each recent month
+export async function getPaymentTiming(liaisonId: string, months = 12): Promise<PaymentTimingPoint[]> {
+  const { data, error } = await supabase.rpc('liaison_payment_timing', {
+    target_liaison_id: liaisonId,
+    months,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((row: TimingRow) => ({
+    month: row.month,
+    averageDaysFromDue: row.average_days_from_due === null ? null : Number(row.average_days_from_due),
+    payments: row.payments,
+  }));
+}
+
+export async function getPaymentDistribution(
+  liaisonId: string,
+  buckets: DistributionBuckets = DEFAULT_BUCKETS
+): Promise<PaymentDistribution[]> {
+  const { data, error } = await supabase.rpc('liaison_payment_distribution', {
+    target_liaison_id: liaisonId,
+    on_time_days: buckets.onTimeDays,
+    late_days: buckets.lateDays,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getActivityFeed(liaisonId: string, limit = 20): Promise<Activity[]> {
+  const { data, error } = await supabase.rpc('liaison_activity_feed', {
+    target_liaison_id: liaisonId,
+    max_items: limit,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((row: ActivityRow) => ({
+    occurredAt: row.occurred_at,
+    type: row.activity_type,
+    description: row.description,
+  }));
+}
+
+// Earliest open installment of each liaison, keyed by liaison id
+export async function getNextInstallments(liaisonIds: string[]): Promise<Record<string, NextInstallment>> {
+  if (liaisonIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('liaison_next_installments')
+    .select('liaison_id, description, outstanding, due_date, status')
+    .in('liaison_id', liaisonIds);
+
+  if (error) throw error;
+
+  return Object.fromEntries((data || []).map((row: NextInstallmentRow) => [
+    row.liaison_id,
+    {
+      liaisonId: row.liaison_id,
+      description: row.description,
+      outstanding: Number(row.outstanding),
+      dueDate: row.due_date,
+      status: row.status,
+    },
+  ]));
+}
+
+// Open installments of the firm's active payment plans due within the forecast
+// window, each with its liaison's probability of paying on time. Weeks are
+// counted from the local date so they match the ones buildForecast draws.
+export async function getCashFlowForecast(
+  weeks = FORECAST_WEEKS,
+  from = new Date()
+): Promise<ForecastInstallment[]> {
+  const { data, error } = await supabase.rpc('firm_cash_flow_forecast', {
+    weeks,
+    as_of: toLocalDate(from),
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((row: ForecastRow) => ({
+    weekStart: row.week_start,
+    clientCompanyId: row.client_company_id,
+    clientCompanyName: row.client_company_name,
+    liaisonId: row.liaison_id,
+    riskLevel: row.risk_level,
+    crsScore: row.crs_score,
+    onTimeProbability: Number(row.on_time_probability),
+    transactionId: row.transaction_id,
+    dueDate: row.due_date,
+    outstanding: Number(row.outstanding),
+  }));
+}
+
+// YYYY-MM-DD of the given moment in the browser's time zone
+function toLocalDate(date: Date) {
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate())).toISOString().split('T')[0];
+}
+
+// Weekly receipts expected from the given installments. Each installment is
+// treated as an independent chance of being paid in its week, so the expected
+// amount is weighted by its on-time probability and the best/worst case band
+// is the 90% interval around it, capped by what is actually scheduled.
+export function buildForecast(
+  installments: ForecastInstallment[],
+  weeks = FORECAST_WEEKS,
+  from = new Date()
+): ForecastWeek[] {
+  const monday = new Date(Date.UTC(from.getFullYear(), from.getMonth(), from.getDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+
+  return Array.from({ length: weeks }, (_, index) => {
+    const start = new Date(monday);
+    start.setUTCDate(monday.getUTCDate() + index * 7);
+    const weekStart = start.toISOString().split('T')[0];
+
+    let scheduled = 0;
+    let expected = 0;
+    let variance = 0;
+
+    installments
+      .filter(installment => installment.weekStart === weekStart)
+      .forEach(({ outstanding, onTimeProbability: p }) => {
+        scheduled += outstanding;
+        expected += outstanding * p;
+        variance += outstanding * outstanding * p * (1 - p);
+      });
+
+    const spread = FORECAST_BAND_Z * Math.sqrt(variance);
+
+    return {
+      weekStart,
+      scheduled,
+      expected,
+      best: Math.min(scheduled, expected + spread),
+      worst: Math.max(0, expected - spread),
+    };
+  });
+}
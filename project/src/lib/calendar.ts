@@ -0,0 +1,107 @@
+import { supabase } from './supabase';
+import { RiskLevel } from './crs';
+
+export type CalendarStatus = 'pending' | 'partial' | 'paid' | 'overdue';
+
+export interface CalendarInstallment {
+  transactionId: string;
+  liaisonId: string;
+  relationshipId: string;
+  counterpartName: string;
+  description: string;
+  paymentNumber: number;
+  numPayments: number;
+  dueDate: string;
+  amount: number;
+  outstanding: number;
+  status: CalendarStatus;
+  riskLevel: RiskLevel;
+}
+
+export interface CalendarFeed {
+  token: string;
+  createdAt: string;
+  lastFetchedAt: string | null;
+}
+
+interface CalendarInstallmentRow {
+  transaction_id: string;
+  liaison_id: string;
+  relationship_id: string;
+  counterpart_name: string;
+  description: string;
+  payment_number: number;
+  num_payments: number;
+  due_date: string;
+  amount: number | string;
+  outstanding: number | string;
+  status: CalendarStatus;
+  risk_level: RiskLevel;
+}
+
+export const CALENDAR_STATUS_STYLES: Record<CalendarStatus, { label: string; chip: string }> = {
+  pending: { label: 'Upcoming', chip: 'bg-blue-50 text-blue-800' },
+  partial: { label: 'Partially paid', chip: 'bg-yellow-50 text-yellow-800' },
+  paid: { label: 'Paid', chip: 'bg-green-50 text-green-800' },
+  overdue: { label: 'Overdue', chip: 'bg-red-50 text-red-800' },
+};
+
+// Left border of a calendar entry, by the liaison's CRS risk
+export const CALENDAR_RISK_BORDERS: Record<RiskLevel, string> = {
+  low: 'border-green-500',
+  medium: 'border-yellow-500',
+  high: 'border-red-500',
+};
+
+export const calendarFeedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+
+// Installments due between the two dates (inclusive) that the user's company
+// can see: every client of an accounting firm, every firm of a client company
+export async function getCalendarInstallments(from: string, to: string): Promise<CalendarInstallment[]> {
+  const { data, error } = await supabase.rpc('calendar_installments', { from_date: from, to_date: to });
+  if (error) throw error;
+
+  return (data || []).map((row: CalendarInstallmentRow) => ({
+    transactionId: row.transaction_id,
+    liaisonId: row.liaison_id,
+    relationshipId: row.relationship_id,
+    counterpartName: row.counterpart_name,
+    description: row.description,
+    paymentNumber: row.payment_number,
+    numPayments: row.num_payments,
+    dueDate: row.due_date,
+    amount: Number(row.amount),
+    outstanding: Number(row.outstanding),
+    status: row.status,
+    riskLevel: row.risk_level,
+  }));
+}
+
+export async function getCalendarFeed(): Promise<CalendarFeed | null> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select('token, created_at, last_fetched_at')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return {
+    token: data.token,
+    createdAt: data.created_at,
+    lastFetchedAt: data.last_fetched_at,
+  };
+}
+
+// Creates the feed, or replaces the token of an existing one
+export async function regenerateCalendarFeed(): Promise<string> {
+  const { data, error } = await supabase.rpc('regenerate_calendar_feed');
+  if (error) throw error;
+  return data as string;
+}
+
+export async function revokeCalendarFeed(): Promise<void> {
+  const { error } = await supabase.rpc('revoke_calendar_feed');
+  if (error) throw error;
+}
@@ -0,0 +1,104 @@
+import { supabase } from './supabase';
+import { pickLiaison } from './liaisons';
+
+// A client company can work with several accounting firms. The client portal
+// is scoped to one of them at a time; the home page shows all of them.
+
+export interface ClientFirm {
+  relationshipId: string;
+  firmId: string;
+  firmName: string;
+  verificationStatus: 'verified' | 'established';
+  liaisonId: string | null;
+}
+
+export interface ClientFirmOverview {
+  relationshipId: string;
+  firmId: string;
+  firmName: string;
+  openPlans: number;
+  outstanding: number;
+  overdue: number;
+  nextDueDate: string | null;
+  nextDueAmount: number | null;
+}
+
+interface ClientFirmRow {
+  id: string;
+  verification_status: ClientFirm['verificationStatus'];
+  accounting_firm: { id: string; name: string };
+  liaisons: {
+    id: string;
+    is_primary: boolean;
+    client_id: string;
+  }[];
+}
+
+interface OverviewRow {
+  relationship_id: string;
+  accounting_firm_id: string;
+  accounting_firm_name: string;
+  open_plans: number;
+  outstanding: number | string;
+  overdue: number | string;
+  next_due_date: string | null;
+  next_due_amount: number | string | null;
+}
+
+// The connected firms of the user's company, each with the liaison the user works with
+export async function getClientFirms(userId: string): Promise<ClientFirm[]> {
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('company_id')
+    .eq('id', userId)
+    .single();
+
+  if (userError) throw userError;
+
+  const { data, error } = await supabase
+    .from('company_relationships')
+    .select(`
+      id,
+      verification_status,
+      accounting_firm:accounting_firm_id (
+        id,
+        name
+      ),
+      liaisons (
+        id,
+        is_primary,
+        client_id
+      )
+    `)
+    .eq('client_firm_id', user.company_id)
+    .in('verification_status', ['verified', 'established']);
+
+  if (error) throw error;
+
+  // PostgREST returns the to-one embed as an object
+  return ((data || []) as unknown as ClientFirmRow[])
+    .map(rel => ({
+      relationshipId: rel.id,
+      firmId: rel.accounting_firm.id,
+      firmName: rel.accounting_firm.name,
+      verificationStatus: rel.verification_status,
+      liaisonId: pickLiaison(rel.liaisons, userId)?.id ?? null,
+    }))
+    .sort((a, b) => a.firmName.localeCompare(b.firmName));
+}
+
+export async function getClientFirmOverview(): Promise<ClientFirmOverview[]> {
+  const { data, error } = await supabase.rpc('client_firm_overview');
+  if (error) throw error;
+
+  return (data || []).map((row: OverviewRow) => ({
+    relationshipId: row.relationship_id,
+    firmId: row.accounting_firm_id,
+    firmName: row.accounting_firm_name,
+    openPlans: row.open_plans,
+    outstanding: Number(row.outstanding),
+    overdue: Number(row.overdue),
+    nextDueDate: row.next_due_date,
+    nextDueAmount: row.next_due_amount === null ? null : Number(row.next_due_amount),
+  }));
+}
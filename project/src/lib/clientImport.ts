@@ -0,0 +1,152 @@
+import { z } from 'zod';
+import { supabase } from './supabase';
+import { downloadCsv } from './export';
+import { SpreadsheetRows } from './spreadsheet';
+
+// Bulk client import for accounting firms. Rows are validated here first;
+// import_clients() in the database then checks them against existing
+// companies and users (dry run) and creates them.
+
+export const IMPORT_COLUMNS = [
+  { key: 'companyName', label: 'Company Name', required: true, aliases: ['company', 'client', 'client name'] },
+  { key: 'domainEmail', label: 'Domain Email', required: true, aliases: ['domain', 'company domain', 'email domain'] },
+  { key: 'liaisonName', label: 'Liaison Name', required: true, aliases: ['contact', 'contact name', 'liaison'] },
+  { key: 'liaisonEmail', label: 'Liaison Email', required: true, aliases: ['email', 'contact email'] },
+  { key: 'liaisonPhone', label: 'Liaison Phone', required: false, aliases: ['phone', 'contact phone'] },
+  { key: 'openingBalance', label: 'Opening Balance', required: false, aliases: ['balance', 'amount due'] },
+  { key: 'paymentRate', label: 'Payment Period (days)', required: false, aliases: ['payment period', 'payment rate', 'period'] },
+  { key: 'numPayments', label: 'Number of Payments', required: false, aliases: ['payments', 'installments'] },
+] as const;
+
+type ImportColumnKey = typeof IMPORT_COLUMNS[number]['key'];
+
+export const MAX_IMPORT_ROWS = 1000;
+
+const optionalNumber = (schema: z.ZodNumber) =>
+  z.preprocess(
+    value => {
+      if (typeof value !== 'string') return value;
+      const cleaned = value.replace(/[$,\s]/g, '');
+      return cleaned === '' ? undefined : Number(cleaned);
+    },
+    schema.optional()
+  );
+
+export const clientImportRowSchema = z.object({
+  companyName: z.string().trim().min(1, 'Company name is required').max(200),
+  domainEmail: z.string().trim()
+    .regex(/^@?[a-z0-9-]+(\.[a-z0-9-]+)+$/i, 'Domain email must look like @company.com')
+    .transform(domain => (domain.startsWith('@') ? domain : `@${domain}`).toLowerCase()),
+  liaisonName: z.string().trim().min(1, 'Liaison name is required').max(200),
+  liaisonEmail: z.string().trim().toLowerCase().email('Liaison email is not a valid email address'),
+  liaisonPhone: z.string().trim().max(50).optional(),
+  openingBalance: optionalNumber(z.number({ invalid_type_error: 'Opening balance must be a number' }).int('Opening balance must be a whole number of dollars').nonnegative('Opening balance cannot be negative')),
+  paymentRate: optionalNumber(z.number({ invalid_type_error: 'Payment period must be a number' }).int('Payment period must be whole days').positive('Payment period must be positive')),
+  numPayments: optionalNumber(z.number({ invalid_type_error: 'Number of payments must be a number' }).int('Number of payments must be a whole number').positive('Number of payments must be positive')),
+}).refine(
+  row => row.openingBalance !== undefined || (row.paymentRate === undefined && row.numPayments === undefined),
+  { message: 'Plan terms need an opening balance', path: ['openingBalance'] }
+);
+
+export type ClientImportRow = z.infer<typeof clientImportRowSchema> & { rowNumber: number };
+
+export type ClientImportStatus = 'ready' | 'created' | 'duplicate' | 'error';
+
+export interface ClientImportResult {
+  rowNumber: number;
+  companyName: string;
+  liaisonEmail: string;
+  status: ClientImportStatus;
+  message: string | null;
+}
+
+export interface ParsedClientImport {
+  rows: ClientImportRow[];
+  invalid: ClientImportResult[];
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+function mapColumns(header: string[]): Partial<Record<ImportColumnKey, number>> {
+  const normalized = header.map(normalizeHeader);
+  const columns: Partial<Record<ImportColumnKey, number>> = {};
+
+  IMPORT_COLUMNS.forEach(column => {
+    const names = [normalizeHeader(column.label), normalizeHeader(column.key), ...column.aliases];
+    const index = normalized.findIndex(name => names.includes(name));
+    if (index >= 0) columns[column.key] = index;
+  });
+
+  return columns;
+}
+
+// The first non-blank row must be a header row; the row numbers reported back
+// are the ones the rows have in the file.
+export function parseClientImport(sheet: SpreadsheetRows): ParsedClientImport {
+  if (sheet.length < 2) {
+    throw new Error('The file has no client rows below its header row');
+  }
+  if (sheet.length - 1 > MAX_IMPORT_ROWS) {
+    throw new Error(`Import at most ${MAX_IMPORT_ROWS} clients at a time`);
+  }
+
+  const columns = mapColumns(sheet[0].cells);
+  const missing = IMPORT_COLUMNS.filter(column => column.required && columns[column.key] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Missing columns: ${missing.map(column => column.label).join(', ')}`);
+  }
+
+  const rows: ClientImportRow[] = [];
+  const invalid: ClientImportResult[] = [];
+
+  sheet.slice(1).forEach(({ rowNumber, cells }) => {
+    const raw = Object.fromEntries(
+      Object.entries(columns).map(([key, column]) => [key, cells[column] ?? ''])
+    );
+
+    const result = clientImportRowSchema.safeParse(raw);
+    if (result.success) {
+      rows.push({ ...result.data, rowNumber });
+    } else {
+      invalid.push({
+        rowNumber,
+        companyName: raw.companyName ?? '',
+        liaisonEmail: raw.liaisonEmail ?? '',
+        status: 'error',
+        message: result.error.issues.map(issue => issue.message).join('; '),
+      });
+    }
+  });
+
+  return { rows, invalid };
+}
+
+// Dry runs report 'ready' for rows that would be created
+export async function runClientImport(rows: ClientImportRow[], dryRun: boolean): Promise<ClientImportResult[]> {
+  const { data, error } = await supabase.rpc('import_clients', { rows, dry_run: dryRun });
+  if (error) throw error;
+
+  const byRow = new Map(rows.map(row => [row.rowNumber, row]));
+  return (data as { rowNumber: number; status: ClientImportStatus; message: string | null }[]).map(result => ({
+    ...result,
+    companyName: byRow.get(result.rowNumber)?.companyName ?? '',
+    liaisonEmail: byRow.get(result.rowNumber)?.liaisonEmail ?? '',
+  }));
+}
+
+export function downloadImportTemplate() {
+  downloadCsv('client-import-template.csv', [
+    IMPORT_COLUMNS.map(column => column.label),
+    ['Acme Corp', '@acme.com', 'Jane Doe', 'jane@acme.com', '+1 555 0100', '12000', '30', '12'],
+  ]);
+}
+
+export function downloadImportReport(results: ClientImportResult[]) {
+  downloadCsv('client-import-report.csv', [
+    ['Row', 'Company Name', 'Liaison Email', 'Status', 'Message'],
+    ...results
+      .filter(result => result.status === 'error' || result.status === 'duplicate')
+      .sort((a, b) => a.rowNumber - b.rowNumber)
+      .map(result => [result.rowNumber, result.companyName, result.liaisonEmail, result.status, result.message]),
+  ]);
+}
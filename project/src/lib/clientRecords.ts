@@ -0,0 +1,291 @@
+import { supabase } from './supabase';
+import { PaymentMethod } from './payments';
+
+export type RecordType = 'invoice' | 'payment_proof';
+
+export type RecordStatus = 'submitted' | 'under_review' | 'confirmed' | 'rejected';
+
+// Records waiting this many days or more are flagged in the review queue.
+// Each reviewer picks their own SLA; it is kept in this browser.
+const DEFAULT_REVIEW_SLA_DAYS = 3;
+export const REVIEW_SLA_OPTIONS = [1, 2, 3, 5, 7, 10, 14];
+
+const REVIEW_SLA_KEY = 'review-queue:sla-days';
+
+export function getReviewSlaDays(): number {
+  const stored = Number(localStorage.getItem(REVIEW_SLA_KEY));
+  return REVIEW_SLA_OPTIONS.includes(stored) ? stored : DEFAULT_REVIEW_SLA_DAYS;
+}
+
+export function saveReviewSlaDays(days: number) {
+  localStorage.setItem(REVIEW_SLA_KEY, String(days));
+}
+
+export const RECORD_STATUS_STYLES: Record<RecordStatus, { label: string; badge: string }> = {
+  submitted: { label: 'Submitted', badge: 'bg-blue-100 text-blue-800' },
+  under_review: { label: 'Under review', badge: 'bg-yellow-100 text-yellow-800' },
+  confirmed: { label: 'Confirmed', badge: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Rejected', badge: 'bg-red-100 text-red-800' },
+};
+
+export interface ProofInstallment {
+  id: string;
+  description: string;
+  paymentNumber: number;
+  dueDate: string;
+}
+
+export interface PaymentProof {
+  id: string;
+  liaisonId: string;
+  fileUrl: string;
+  amount: number;
+  paymentDate: string;
+  method: PaymentMethod;
+  status: RecordStatus;
+  reviewNote: string | null;
+  createdAt: string;
+  installments: ProofInstallment[];
+}
+
+export interface ReviewQueueItem {
+  id: string;
+  type: RecordType;
+  status: RecordStatus;
+  fileUrl: string;
+  // The proof of payment an invoice uploaded before proofs were matched to
+  // installments may carry
+  attachmentUrl: string | null;
+  amount: number | null;
+  paymentDate: string | null;
+  method: PaymentMethod | null;
+  createdAt: string;
+  liaisonId: string;
+  clientCompanyId: string;
+  clientCompanyName: string;
+  uploadedBy: string | null;
+  accountantName: string | null;
+  installments: ProofInstallment[];
+}
+
+export type ReviewDecision = 'approve' | 'reject';
+
+export interface ReviewResult {
+  recordId: string;
+  newStatus: RecordStatus | null;
+  errorMessage: string | null;
+}
+
+interface ReviewQueueRow {
+  record_id: string;
+  record_type: RecordType;
+  status: RecordStatus;
+  invoice_file_url: string | null;
+  verification_file_url: string | null;
+  payment_amount: number | string | null;
+  payment_date: string | null;
+  payment_method: PaymentMethod | null;
+  created_at: string;
+  liaison_id: string;
+  client_company_id: string;
+  client_company_name: string;
+  uploaded_by_name: string | null;
+  accountant_name: string | null;
+  installments: ProofInstallment[];
+}
+
+interface PaymentProofRow {
+  id: string;
+  liaison_id: string;
+  verification_file_url: string;
+  payment_amount: number | string;
+  payment_date: string;
+  payment_method: PaymentMethod;
+  status: RecordStatus;
+  review_note: string | null;
+  created_at: string;
+  payment_proof_installments: {
+    transaction: {
+      id: string;
+      description: string;
+      payment_number: number;
+      due_date: string;
+    };
+  }[];
+}
+
+interface SubmitPaymentProofData {
+  liaisonId: string;
+  fileUrl: string;
+  amount: number;
+  paymentDate: string;
+  method: PaymentMethod;
+  installmentIds: string[];
+}
+
+// Files a client's proof of payment for the accountant to confirm
+export async function submitPaymentProof({
+  liaisonId,
+  fileUrl,
+  amount,
+  paymentDate,
+  method,
+  installmentIds,
+}: SubmitPaymentProofData): Promise<string> {
+  if (installmentIds.length === 0) {
+    throw new Error('Choose the installments this payment covers');
+  }
+
+  if (!(amount > 0)) {
+    throw new Error('Amount paid must be greater than 0');
+  }
+
+  const { data, error } = await supabase.rpc('submit_payment_proof', {
+    target_liaison_id: liaisonId,
+    file_url: fileUrl,
+    amount,
+    paid_on: paymentDate,
+    method,
+    installment_ids: installmentIds,
+  });
+
+  if (error) throw error;
+  return data as string;
+}
+
+// Proofs of a liaison still waiting for a decision, oldest first
+export async function getPendingPaymentProofs(liaisonId: string): Promise<PaymentProof[]> {
+  const { data, error } = await supabase
+    .from('client_records')
+    .select(`
+      id,
+      liaison_id,
+      verification_file_url,
+      payment_amount,
+      payment_date,
+      payment_method,
+      status,
+      review_note,
+      created_at,
+      payment_proof_installments (
+        transaction:transaction_id (
+          id,
+          description,
+          payment_number,
+          due_date
+        )
+      )
+    `)
+    .eq('liaison_id', liaisonId)
+    .eq('record_type', 'payment_proof')
+    .in('status', ['submitted', 'under_review'])
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  // PostgREST returns the to-one embeds as objects
+  return ((data || []) as unknown as PaymentProofRow[]).map(toPaymentProof);
+}
+
+function toPaymentProof(row: PaymentProofRow): PaymentProof {
+  return {
+    id: row.id,
+    liaisonId: row.liaison_id,
+    fileUrl: row.verification_file_url,
+    amount: Number(row.payment_amount),
+    paymentDate: row.payment_date,
+    method: row.payment_method,
+    status: row.status,
+    reviewNote: row.review_note,
+    createdAt: row.created_at,
+    installments: row.payment_proof_installments
+      .map(({ transaction }) => ({
+        id: transaction.id,
+        description: transaction.description,
+        paymentNumber: transaction.payment_number,
+        dueDate: transaction.due_date,
+      }))
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.paymentNumber - b.paymentNumber),
+  };
+}
+
+export async function startPaymentProofReview(recordId: string) {
+  const { error } = await supabase.rpc('start_payment_proof_review', { target_record_id: recordId });
+  if (error) throw error;
+}
+
+// Records the payment and allocates it to the installments the proof covers.
+// Returns the new payment's id.
+export async function confirmPaymentProof(recordId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('confirm_payment_proof', { target_record_id: recordId });
+  if (error) throw error;
+  return data as string;
+}
+
+export async function rejectPaymentProof(recordId: string, reason: string) {
+  if (!reason.trim()) {
+    throw new Error('Give the client a reason for rejecting the proof');
+  }
+
+  const { error } = await supabase.rpc('reject_payment_proof', {
+    target_record_id: recordId,
+    reason: reason.trim(),
+  });
+
+  if (error) throw error;
+}
+
+// Whole days a record has been waiting for a decision
+export function waitingDays(createdAt: string) {
+  return Math.floor((Date.now() - new Date(createdAt).getTime()) / 86400000);
+}
+
+// Invoices and proofs of payment the user may decide on, oldest first
+export async function getReviewQueue(): Promise<ReviewQueueItem[]> {
+  const { data, error } = await supabase.rpc('client_record_review_queue');
+  if (error) throw error;
+
+  return (data || []).map((row: ReviewQueueRow) => ({
+    id: row.record_id,
+    type: row.record_type,
+    status: row.status,
+    fileUrl: (row.record_type === 'payment_proof' ? row.verification_file_url : row.invoice_file_url) ?? '',
+    attachmentUrl: row.record_type === 'invoice' ? row.verification_file_url : null,
+    amount: row.payment_amount === null ? null : Number(row.payment_amount),
+    paymentDate: row.payment_date,
+    method: row.payment_method,
+    createdAt: row.created_at,
+    liaisonId: row.liaison_id,
+    clientCompanyId: row.client_company_id,
+    clientCompanyName: row.client_company_name,
+    uploadedBy: row.uploaded_by_name,
+    accountantName: row.accountant_name,
+    installments: row.installments,
+  }));
+}
+
+// Approves or rejects records one by one; a record that cannot be decided
+// comes back with its error and leaves the others untouched
+export async function reviewClientRecords(
+  recordIds: string[],
+  decision: ReviewDecision,
+  comment: string
+): Promise<ReviewResult[]> {
+  if (decision === 'reject' && !comment.trim()) {
+    throw new Error('Give the client a reason for rejecting the record');
+  }
+
+  const { data, error } = await supabase.rpc('review_client_records', {
+    record_ids: recordIds,
+    decision,
+    comment: comment.trim() || null,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((row: { record_id: string; new_status: RecordStatus | null; error_message: string | null }) => ({
+    recordId: row.record_id,
+    newStatus: row.new_status,
+    errorMessage: row.error_message,
+  }));
+}
@@ -0,0 +1,238 @@
+import { supabase } from './supabase';
+
+// The score itself is computed by the database (`calculate_crs_score`), so
+// everyone looking at a client sees the same number. This module only reads it.
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface CRSPolicy {
+  policy_id: string | null;
+  version: number;
+  base_score: number;
+  base_penalty: number;
+  penalty_multiplier: number;
+  late_payment_weight: number;
+  recovery_increment: number;
+  recovery_bonus: number;
+  bonus_period: number;
+  grace_days: number;
+  min_score: number;
+  max_score: number;
+  risk_thresholds: {
+    low: number;
+    medium: number;
+  };
+}
+
+export interface CRSFactors {
+  base_score: number;
+  settled_count: number;
+  on_time_count: number;
+  late_count: number;
+  missed_count: number;
+  current_streak: number;
+  consecutive_misses: number;
+  payments_until_bonus: number;
+  recovery_points: number;
+  bonus_points: number;
+  penalty_points: number;
+  average_delay: number;
+}
+
+export interface CRSTrajectoryPoint {
+  transaction_id: string | null;
+  due_date: string;
+  outcome: 'on_time' | 'late' | 'missed';
+  days_late: number;
+  change: number;
+  score: number;
+}
+
+export interface CRSResult {
+  score: number;
+  risk_level: RiskLevel;
+  projected_score: number;
+  factors: CRSFactors;
+  trajectory: CRSTrajectoryPoint[];
+  policy: CRSPolicy;
+}
+
+export type CRSSimulationResult = Omit<CRSResult, 'projected_score'>;
+
+export type SimulatedOutcome = 'early' | 'on_time' | 'late' | 'miss';
+
+export interface CRSScenario {
+  transaction_id: string;
+  outcome: SimulatedOutcome;
+  days: number;
+}
+
+export interface CRSHistoryEntry {
+  id: string;
+  previous_score: number | null;
+  new_score: number;
+  risk_level: RiskLevel;
+  factors: CRSFactors;
+  reason: string;
+  created_at: string;
+  policy: { version: number } | null;
+}
+
+// A published version of a firm's scoring policy, as stored in `crs_policies`
+export interface CRSPolicyVersion {
+  id: string;
+  version: number;
+  base_score: number;
+  base_penalty: number;
+  penalty_multiplier: number;
+  late_payment_weight: number;
+  recovery_increment: number;
+  recovery_bonus: number;
+  bonus_period: number;
+  grace_days: number;
+  low_risk_threshold: number;
+  medium_risk_threshold: number;
+  notes: string | null;
+  created_at: string;
+  author: { full_name: string } | null;
+}
+
+export type CRSPolicyInput = Omit<CRSPolicyVersion, 'id' | 'version' | 'created_at' | 'author'>;
+
+export const RISK_STYLES: Record<RiskLevel, { label: string; badge: string; text: string; stroke: string }> = {
+  low: {
+    label: 'Low Risk',
+    badge: 'bg-green-100 text-green-800',
+    text: 'text-green-600',
+    stroke: '#059669',
+  },
+  medium: {
+    label: 'Medium Risk',
+    badge: 'bg-yellow-100 text-yellow-800',
+    text: 'text-yellow-600',
+    stroke: '#D97706',
+  },
+  high: {
+    label: 'High Risk',
+    badge: 'bg-red-100 text-red-800',
+    text: 'text-red-600',
+    stroke: '#DC2626',
+  },
+};
+
+export async function getCRSResult(liaisonId: string): Promise<CRSResult> {
+  const { data, error } = await supabase.rpc('calculate_crs_score', {
+    target_liaison_id: liaisonId,
+  });
+
+  if (error) throw error;
+  return data as CRSResult;
+}
+
+// Projects the score if upcoming installments are paid as described. Runs the
+// real engine on top of the settled history without storing anything.
+export async function simulateCRSScore(
+  liaisonId: string,
+  scenarios: CRSScenario[]
+): Promise<CRSSimulationResult> {
+  const { data, error } = await supabase.rpc('simulate_crs_score', {
+    target_liaison_id: liaisonId,
+    scenarios,
+  });
+
+  if (error) throw error;
+  return data as CRSSimulationResult;
+}
+
+export async function getCRSHistory(liaisonId: string, limit = 20): Promise<CRSHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from('crs_score_history')
+    .select('id, previous_score, new_score, risk_level, factors, reason, created_at, policy:policy_id(version)')
+    .eq('liaison_id', liaisonId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  // `policy` is a many-to-one embed, so PostgREST returns a single object
+  return (data || []) as unknown as CRSHistoryEntry[];
+}
+
+// Built-in policy used by firms that never published their own
+export async function getDefaultCRSPolicy(): Promise<CRSPolicyInput> {
+  const { data, error } = await supabase.rpc('crs_default_policy');
+  if (error) throw error;
+
+  const policy = data as CRSPolicy;
+  return {
+    base_score: policy.base_score,
+    base_penalty: policy.base_penalty,
+    penalty_multiplier: policy.penalty_multiplier,
+    late_payment_weight: policy.late_payment_weight,
+    recovery_increment: policy.recovery_increment,
+    recovery_bonus: policy.recovery_bonus,
+    bonus_period: policy.bonus_period,
+    grace_days: policy.grace_days,
+    low_risk_threshold: policy.risk_thresholds.low,
+    medium_risk_threshold: policy.risk_thresholds.medium,
+    notes: null,
+  };
+}
+
+// Every published version of a firm's policy, newest first
+export async function getCRSPolicyVersions(companyId: string): Promise<CRSPolicyVersion[]> {
+  const { data, error } = await supabase
+    .from('crs_policies')
+    .select('*, author:created_by(full_name)')
+    .eq('company_id', companyId)
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export function validateCRSPolicy(policy: CRSPolicyInput): string | null {
+  if (policy.base_score < 0 || policy.base_score > 100) return 'Starting score must be between 0 and 100';
+  if (policy.base_penalty < 0) return 'Missed payment penalty cannot be negative';
+  if (policy.penalty_multiplier < 1) return 'Penalty multiplier must be at least 1';
+  if (policy.late_payment_weight < 0 || policy.late_payment_weight > 1) {
+    return 'Late payment weight must be between 0 and 1';
+  }
+  if (policy.recovery_increment < 0 || policy.recovery_bonus < 0) return 'Recovery points cannot be negative';
+  if (!Number.isInteger(policy.bonus_period) || policy.bonus_period < 1) {
+    return 'Bonus cadence must be a whole number of payments';
+  }
+  if (!Number.isInteger(policy.grace_days) || policy.grace_days < 0) {
+    return 'Grace period must be a whole number of days';
+  }
+  if (policy.medium_risk_threshold >= policy.low_risk_threshold) {
+    return 'The medium risk threshold must be below the low risk threshold';
+  }
+  if (policy.low_risk_threshold > 100 || policy.medium_risk_threshold < 0) {
+    return 'Risk thresholds must be between 0 and 100';
+  }
+  return null;
+}
+
+// Publishes a new policy version; the database makes it current and rescores
+// every client of the firm
+export async function publishCRSPolicy(companyId: string, policy: CRSPolicyInput) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const validationError = validateCRSPolicy(policy);
+  if (validationError) throw new Error(validationError);
+
+  const { data, error } = await supabase
+    .from('crs_policies')
+    .insert({
+      ...policy,
+      notes: policy.notes?.trim() || null,
+      company_id: companyId,
+      created_by: user.id,
+    })
+    .select('*, author:created_by(full_name)')
+    .single();
+
+  if (error) throw error;
+  return data as CRSPolicyVersion;
+}
@@ -1,57 +1,51 @@
 import { supabase } from './supabase';
+import { EmailRequestData, EmailTemplateName } from '../../supabase/functions/_shared/emailTemplateData.ts';
+
+export type { EmailRequestData, EmailTemplateData, EmailTemplateName } from '../../supabase/functions/_shared/emailTemplateData.ts';
 
 interface EmailData {
   recipientEmail: string;
-  senderCompany: string;
-  senderName: string;
   message: string;
-  senderEmail: string;
-  senderPhone: string;
 }
 
+// The sender is always the signed-in user; send-email fills in their details
+export const sendTemplatedEmail = async <T extends EmailTemplateName>(
+  to: string,
+  template: T,
+  data: EmailRequestData<T>
+) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) {
+    throw new Error('Not authenticated');
+  }
+
+  const functionUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/send-email`;
+
+  const response = await fetch(functionUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`
+    },
+    body: JSON.stringify({ to, template, data })
+  });
+
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+
+  return await response.json();
+};
+
 export const sendChatNotificationEmail = async ({
   recipientEmail,
-  senderCompany,
-  senderName,
-  message,
-  senderEmail,
-  senderPhone
+  message
 }: EmailData) => {
   try {
-    const { data: { session } } = await supabase.auth.getSession();
-    if (!session?.access_token) {
-      throw new Error('Not authenticated');
-    }
-
-    const functionUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/send-email`;
-    
-    const response = await fetch(functionUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${session.access_token}`
-      },
-      body: JSON.stringify({
-        to: recipientEmail,
-        subject: `New message from ${senderCompany}`,
-        senderCompany,
-        senderName,
-        message,
-        senderEmail,
-        senderPhone
-      })
-    });
-
-    if (!response.ok) {
-      // For now, just log the error but don't block the message from being sent
-      console.error('Failed to send email notification:', await response.text());
-      return;
-    }
-
-    return await response.json();
+    return await sendTemplatedEmail(recipientEmail, 'new_message', { message });
   } catch (error) {
     // Log the error but don't block the message from being sent
     console.error('Error sending email notification:', error);
     return;
   }
-};
\ No newline at end of file
+};
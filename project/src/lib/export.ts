@@ -0,0 +1,61 @@
+// Client-side helpers to hand report data to the user as files
+
+const escapeCsvCell = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const escapeHtml = (value: string | number | null | undefined) =>
+  (value === null || value === undefined ? '' : String(value))
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadCsv(filename: string, rows: (string | number | null | undefined)[][]) {
+  const csv = rows.map(row => row.map(escapeCsvCell).join(',')).join('\n');
+  downloadFile(filename, csv, 'text/csv;charset=utf-8');
+}
+
+// Opens a print-ready copy of a report so the browser can save it as PDF.
+// `body` must already be escaped HTML.
+export function printAsPdf(title: string, body: string) {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Allow pop-ups to export the report as PDF');
+  }
+
+  printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #111827; margin: 32px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    p.subtitle { color: #6b7280; font-size: 12px; margin: 0 0 24px; }
+    table { width: 100%; border-collapse: collapse; font-size: 11px; }
+    th, td { border-bottom: 1px solid #e5e7eb; padding: 6px 8px; text-align: left; }
+    th { background: #f9fafb; font-weight: 600; }
+    td.number, th.number { text-align: right; }
+    tr.group td { background: #eef2ff; font-weight: 600; }
+    tr.total td { font-weight: 700; border-top: 2px solid #111827; }
+  </style>
+</head>
+<body>${body}</body>
+</html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
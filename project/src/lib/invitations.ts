@@ -0,0 +1,107 @@
+import { supabase } from './supabase';
+
+// Connection invitations. The token is only ever returned by create_invitation()
+// and is signed in the database, so links can't be guessed or extended.
+
+export type InvitationStatus = 'pending' | 'redeemed' | 'revoked' | 'expired';
+
+export interface InvitationPaymentPlan {
+  total_due: number;
+  payment_rate: number;
+  num_payment: number;
+}
+
+export interface Invitation {
+  id: string;
+  inviter_id: string;
+  invitee_email: string;
+  invitee_name: string | null;
+  initiated_by: 'client' | 'accountant';
+  expires_at: string;
+  revoked_at: string | null;
+  redeemed_at: string | null;
+  created_at: string;
+  inviter: { full_name: string } | null;
+}
+
+export interface InvitationDetails {
+  status: InvitationStatus;
+  inviteeEmail: string;
+  inviteeName: string | null;
+  inviterName: string;
+  inviterCompany: string;
+  initiatedBy: 'client' | 'accountant';
+  expiresAt: string;
+}
+
+export const INVITATION_VALID_DAYS = 14;
+
+export const invitationUrl = (token: string) => `${window.location.origin}/invite/${token}`;
+
+export function invitationStatus(invitation: Invitation, at = new Date()): InvitationStatus {
+  if (invitation.redeemed_at) return 'redeemed';
+  if (invitation.revoked_at) return 'revoked';
+  if (new Date(invitation.expires_at) <= at) return 'expired';
+  return 'pending';
+}
+
+// Accepts a pasted link as well as a bare code
+export const parseInvitationToken = (input: string) => input.trim().split('/invite/').pop()?.split(/[?#]/)[0] ?? '';
+
+export async function createInvitation(
+  email: string,
+  name: string,
+  paymentPlan: InvitationPaymentPlan | null,
+  validDays = INVITATION_VALID_DAYS
+): Promise<string> {
+  const { data, error } = await supabase.rpc('create_invitation', {
+    email,
+    name,
+    payment_plan: paymentPlan,
+    valid_days: validDays,
+  });
+
+  if (error) throw error;
+  return data as string;
+}
+
+export async function getInvitations(companyId: string): Promise<Invitation[]> {
+  const { data, error } = await supabase
+    .from('invitations')
+    .select(`
+      id,
+      inviter_id,
+      invitee_email,
+      invitee_name,
+      initiated_by,
+      expires_at,
+      revoked_at,
+      redeemed_at,
+      created_at,
+      inviter:inviter_id(full_name)
+    `)
+    .eq('company_id', companyId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  // PostgREST returns the to-one embeds as objects
+  return (data || []) as unknown as Invitation[];
+}
+
+export async function revokeInvitation(invitationId: string): Promise<void> {
+  const { error } = await supabase.rpc('revoke_invitation', { invitation_id: invitationId });
+  if (error) throw error;
+}
+
+export async function getInvitationDetails(token: string): Promise<InvitationDetails | null> {
+  const { data, error } = await supabase.rpc('invitation_details', { token });
+  if (error) throw error;
+  return data as InvitationDetails | null;
+}
+
+// Returns the new liaison's id
+export async function redeemInvitation(token: string): Promise<string> {
+  const { data, error } = await supabase.rpc('redeem_invitation', { token });
+  if (error) throw error;
+  return data as string;
+}
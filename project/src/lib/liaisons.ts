@@ -0,0 +1,78 @@
+import { supabase } from './supabase';
+
+// A relationship can have several liaisons (backup accountants, more client
+// contacts); exactly one of them is primary. Pages show the signed-in user's
+// own liaison and fall back to the primary one.
+
+export interface LiaisonMember {
+  id: string;
+  full_name: string;
+  email: string;
+}
+
+export interface RelationshipLiaison {
+  id: string;
+  is_primary: boolean;
+  created_at: string;
+  accountant: LiaisonMember | null;
+  client: LiaisonMember | null;
+}
+
+interface PickableLiaison {
+  is_primary?: boolean;
+  accountant_id?: string;
+  client_id?: string;
+}
+
+export function pickLiaison<T extends PickableLiaison>(liaisons: T[] | null | undefined, userId: string): T | undefined {
+  if (!liaisons?.length) return undefined;
+
+  const own = liaisons.filter(liaison => liaison.accountant_id === userId || liaison.client_id === userId);
+  return own.find(liaison => liaison.is_primary)
+    ?? own[0]
+    ?? liaisons.find(liaison => liaison.is_primary)
+    ?? liaisons[0];
+}
+
+export async function getRelationshipLiaisons(relationshipId: string): Promise<RelationshipLiaison[]> {
+  const { data, error } = await supabase
+    .from('liaisons')
+    .select(`
+      id,
+      is_primary,
+      created_at,
+      accountant:accountant_id(id, full_name, email),
+      client:client_id(id, full_name, email)
+    `)
+    .eq('company_relationship_id', relationshipId)
+    .order('is_primary', { ascending: false })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  // PostgREST returns the to-one embeds as objects
+  return (data || []) as unknown as RelationshipLiaison[];
+}
+
+export async function addLiaison(relationshipId: string, accountantId: string, clientId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('add_liaison', {
+    target_relationship_id: relationshipId,
+    target_accountant_id: accountantId,
+    target_client_id: clientId,
+  });
+
+  if (error) throw error;
+  return data as string;
+}
+
+export async function setPrimaryLiaison(liaisonId: string): Promise<void> {
+  const { error } = await supabase.rpc('set_primary_liaison', { target_liaison_id: liaisonId });
+  if (error) throw error;
+}
+
+export async function reassignLiaison(liaisonId: string, newMemberId: string): Promise<void> {
+  const { error } = await supabase.rpc('reassign_liaison', {
+    target_liaison_id: liaisonId,
+    new_member_id: newMemberId,
+  });
+  if (error) throw error;
+}
@@ -0,0 +1,114 @@
+import { z } from 'zod';
+
+// Structured chat messages. `message_type` says how a message is rendered and
+// `payload` carries its body; `content` always holds a plain-text summary so
+// notifications and emails never have to understand the payload.
+
+const paymentPlanSchema = z.object({
+  type: z.enum(['installment', 'lumpsum']),
+  totalAmount: z.number(),
+  paymentPeriod: z.number(),
+  numberOfPayments: z.number().int().positive(),
+  paymentAmount: z.number().optional(),
+  reason: z.string().optional(),
+});
+
+export const messagePayloadSchemas = {
+  text: z.null(),
+  payment_plan_request: z.object({
+    currentPlan: paymentPlanSchema,
+    newPlan: paymentPlanSchema.extend({
+      liaisonId: z.string().uuid(),
+    }),
+    // Absent on requests sent before negotiations were persisted
+    negotiationId: z.string().uuid().optional(),
+    revision: z.number().int().positive().optional(),
+  }),
+  payment_plan_response: z.object({
+    status: z.enum(['accepted', 'rejected', 'withdrawn']),
+    planId: z.number().int().optional(),
+    negotiationId: z.string().uuid().optional(),
+  }),
+  reminder: z.object({
+    level: z.enum(['friendly', 'approaching', 'overdue', 'urgent']),
+    transactionId: z.string().uuid().optional(),
+    amount: z.number(),
+    dueDate: z.string(),
+  }),
+  document: z.object({
+    url: z.string().url(),
+    name: z.string(),
+  }),
+  system_event: z.object({
+    event: z.string(),
+    description: z.string(),
+    data: z.record(z.unknown()).optional(),
+  }),
+};
+
+export type MessageType = keyof typeof messagePayloadSchemas;
+
+export type MessagePayload<T extends MessageType> = z.infer<typeof messagePayloadSchemas[T]>;
+
+export type TypedMessage = {
+  [T in MessageType]: { type: T; payload: MessagePayload<T> };
+}[MessageType];
+
+const SUMMARIES: { [T in MessageType]: (payload: MessagePayload<T>) => string } = {
+  text: () => '',
+  payment_plan_request: () => 'Payment plan request',
+  payment_plan_response: ({ status }) => ({
+    accepted: 'Payment plan accepted! The new payment schedule is now active.',
+    rejected: 'Payment plan rejected. The current payment schedule remains in effect.',
+    withdrawn: 'Payment plan offer withdrawn. The current payment schedule remains in effect.',
+  })[status],
+  reminder: ({ amount, dueDate }) =>
+    `Payment reminder: $${amount.toLocaleString()} due on ${new Date(dueDate).toLocaleDateString()}`,
+  document: ({ name }) => `Shared document: ${name}`,
+  system_event: ({ description }) => description,
+};
+
+const isMessageType = (value: string): value is MessageType =>
+  Object.prototype.hasOwnProperty.call(messagePayloadSchemas, value);
+
+export type ParsedMessage =
+  | { success: true; message: TypedMessage }
+  | { success: false; error: string };
+
+// Validates a stored message. Unknown types and payloads that don't match
+// their schema come back as a failure with the reason, so callers can fall
+// back to `content` and decide how to report it.
+export function parseMessage(type: string | null | undefined, payload: unknown): ParsedMessage {
+  const messageType = type || 'text';
+  if (!isMessageType(messageType)) {
+    return { success: false, error: `Unknown message type ${messageType}` };
+  }
+
+  const result = messagePayloadSchemas[messageType].safeParse(payload ?? null);
+  if (!result.success) {
+    return {
+      success: false,
+      error: `Invalid ${messageType} message payload: ${result.error.issues
+        .map(issue => `${issue.path.join('.') || 'payload'}: ${issue.message}`)
+        .join('; ')}`,
+    };
+  }
+
+  return { success: true, message: { type: messageType, payload: result.data } as TypedMessage };
+}
+
+// Columns for inserting a structured message. Throws if the payload doesn't
+// match its schema so malformed messages never reach the database.
+export function buildMessage<T extends Exclude<MessageType, 'text'>>(
+  type: T,
+  payload: MessagePayload<T>,
+  content?: string
+) {
+  const parsed = messagePayloadSchemas[type].parse(payload) as MessagePayload<T>;
+
+  return {
+    message_type: type,
+    payload: parsed,
+    content: content ?? SUMMARIES[type](parsed),
+  };
+}
@@ -0,0 +1,220 @@
+import { supabase } from './supabase';
+import { PaymentPlan } from '../types/paymentPlan';
+
+export type NegotiationStatus = 'proposed' | 'countered' | 'accepted' | 'rejected' | 'expired' | 'withdrawn';
+
+export interface PlanRevision {
+  id: string;
+  revision: number;
+  proposedBy: string;
+  proposerName: string;
+  plan: PaymentPlan;
+  createdAt: string;
+}
+
+export interface Negotiation {
+  id: string;
+  liaisonId: string;
+  status: NegotiationStatus;
+  basePlan: PaymentPlan | null;
+  acceptedPlanId: number | null;
+  closeReason: string | null;
+  expiresAt: string;
+  revisions: PlanRevision[];
+}
+
+export interface PlanChange {
+  field: keyof PaymentPlan;
+  label: string;
+  from: PaymentPlan[keyof PaymentPlan];
+  to: PaymentPlan[keyof PaymentPlan];
+}
+
+export const NEGOTIATION_STATUS_STYLES: Record<NegotiationStatus, { label: string; badge: string }> = {
+  proposed: { label: 'Awaiting response', badge: 'bg-yellow-100 text-yellow-800' },
+  countered: { label: 'Counter-offer pending', badge: 'bg-blue-100 text-blue-800' },
+  accepted: { label: 'Accepted', badge: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Rejected', badge: 'bg-red-100 text-red-800' },
+  expired: { label: 'Expired', badge: 'bg-gray-100 text-gray-700' },
+  withdrawn: { label: 'Withdrawn', badge: 'bg-gray-100 text-gray-700' },
+};
+
+const COMPARED_FIELDS: { field: keyof PaymentPlan; label: string }[] = [
+  { field: 'type', label: 'Plan type' },
+  { field: 'totalAmount', label: 'Total amount' },
+  { field: 'numberOfPayments', label: 'Number of payments' },
+  { field: 'paymentPeriod', label: 'Days between payments' },
+  { field: 'paymentAmount', label: 'Payment amount' },
+];
+
+interface RevisionRow {
+  id: string;
+  revision: number;
+  proposed_by: string;
+  plan_type: PaymentPlan['type'];
+  total_amount: number | string;
+  number_of_payments: number;
+  payment_period: number;
+  reason: string | null;
+  created_at: string;
+  proposer: { full_name: string } | null;
+}
+
+interface NegotiationRow {
+  id: string;
+  liaison_id: string;
+  status: NegotiationStatus;
+  accepted_plan_id: number | null;
+  close_reason: string | null;
+  expires_at: string;
+  base_plan: { total_due: number; payment_rate: number; num_payment: number } | null;
+  revisions: RevisionRow[];
+}
+
+export const isOpen = (status: NegotiationStatus) => status === 'proposed' || status === 'countered';
+
+// Open offers past their deadline are expired even before the next action
+// marks them so in the database
+export const effectiveStatus = (negotiation: Negotiation): NegotiationStatus =>
+  isOpen(negotiation.status) && new Date(negotiation.expiresAt) < new Date()
+    ? 'expired'
+    : negotiation.status;
+
+export function diffPlans(previous: PaymentPlan, next: PaymentPlan): PlanChange[] {
+  return COMPARED_FIELDS
+    .filter(({ field }) => {
+      const from = previous[field];
+      const to = next[field];
+      return typeof from === 'number' && typeof to === 'number'
+        ? Math.abs(from - to) >= 0.01
+        : from !== to;
+    })
+    .map(({ field, label }) => ({ field, label, from: previous[field], to: next[field] }));
+}
+
+export async function getNegotiation(negotiationId: string): Promise<Negotiation> {
+  const { data, error } = await supabase
+    .from('payment_plan_negotiations')
+    .select(`
+      id,
+      liaison_id,
+      status,
+      accepted_plan_id,
+      close_reason,
+      expires_at,
+      base_plan:base_plan_id(total_due, payment_rate, num_payment),
+      revisions:payment_plan_revisions(
+        id,
+        revision,
+        proposed_by,
+        plan_type,
+        total_amount,
+        number_of_payments,
+        payment_period,
+        reason,
+        created_at,
+        proposer:proposed_by(full_name)
+      )
+    `)
+    .eq('id', negotiationId)
+    .single();
+
+  if (error) throw error;
+
+  // PostgREST returns the to-one embeds as objects
+  const row = data as unknown as NegotiationRow;
+
+  return {
+    id: row.id,
+    liaisonId: row.liaison_id,
+    status: row.status,
+    basePlan: row.base_plan
+      ? {
+          type: row.base_plan.num_payment > 1 ? 'installment' : 'lumpsum',
+          totalAmount: Number(row.base_plan.total_due),
+          paymentPeriod: row.base_plan.payment_rate,
+          numberOfPayments: row.base_plan.num_payment,
+          paymentAmount: Number(row.base_plan.total_due) / row.base_plan.num_payment,
+        }
+      : null,
+    acceptedPlanId: row.accepted_plan_id,
+    closeReason: row.close_reason,
+    expiresAt: row.expires_at,
+    revisions: row.revisions
+      .map(revision => ({
+        id: revision.id,
+        revision: revision.revision,
+        proposedBy: revision.proposed_by,
+        proposerName: revision.proposer?.full_name || 'Unknown',
+        plan: {
+          type: revision.plan_type,
+          totalAmount: Number(revision.total_amount),
+          paymentPeriod: revision.payment_period,
+          numberOfPayments: revision.number_of_payments,
+          paymentAmount: Number(revision.total_amount) / revision.number_of_payments,
+          reason: revision.reason || undefined,
+        },
+        createdAt: revision.created_at,
+      }))
+      .sort((a, b) => a.revision - b.revision),
+  };
+}
+
+const toPlanArgs = (plan: PaymentPlan) => ({
+  type: plan.type,
+  totalAmount: plan.totalAmount,
+  numberOfPayments: plan.numberOfPayments,
+  paymentPeriod: plan.paymentPeriod,
+  reason: plan.reason || null,
+});
+
+// Starts a negotiation and posts its first offer to the liaison's chat
+export async function openNegotiation(liaisonId: string, plan: PaymentPlan): Promise<string> {
+  const { data, error } = await supabase.rpc('open_plan_negotiation', {
+    target_liaison_id: liaisonId,
+    plan: toPlanArgs(plan),
+  });
+
+  if (error) throw error;
+  return data as string;
+}
+
+// The actions below return the negotiation's resulting status, which is
+// 'expired' if the offer lapsed before the action reached the database
+export async function counterNegotiation(negotiationId: string, plan: PaymentPlan): Promise<NegotiationStatus> {
+  const { data, error } = await supabase.rpc('counter_plan_negotiation', {
+    target_negotiation_id: negotiationId,
+    plan: toPlanArgs(plan),
+  });
+
+  if (error) throw error;
+  return data as NegotiationStatus;
+}
+
+export async function acceptNegotiation(negotiationId: string): Promise<NegotiationStatus> {
+  const { data, error } = await supabase.rpc('accept_plan_negotiation', {
+    target_negotiation_id: negotiationId,
+  });
+
+  if (error) throw error;
+  return data as NegotiationStatus;
+}
+
+export async function rejectNegotiation(negotiationId: string, reason?: string): Promise<NegotiationStatus> {
+  const { data, error } = await supabase.rpc('reject_plan_negotiation', {
+    target_negotiation_id: negotiationId,
+    reason: reason || null,
+  });
+
+  if (error) throw error;
+  return data as NegotiationStatus;
+}
+
+export async function withdrawNegotiation(negotiationId: string): Promise<NegotiationStatus> {
+  const { data, error } = await supabase.rpc('withdraw_plan_negotiation', {
+    target_negotiation_id: negotiationId,
+  });
+
+  if (error) throw error;
+  return data as NegotiationStatus;
+}
@@ -0,0 +1,210 @@
+import { supabase } from './supabase';
+
+// Per-user notification preferences, as stored in `notification_preferences`.
+// Emails are checked by the send-email function (notification_allowed() in the
+// database); toasts are checked here with the same rules.
+
+export type NotificationChannel = 'in_app' | 'email';
+export type NotificationEvent = 'message' | 'reminder' | 'plan' | 'connection';
+export type EmailDigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface NotificationPreferences {
+  in_app_message: boolean;
+  in_app_reminder: boolean;
+  in_app_plan: boolean;
+  in_app_connection: boolean;
+  email_message: boolean;
+  email_reminder: boolean;
+  email_plan: boolean;
+  email_connection: boolean;
+  email_digest: EmailDigestFrequency;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string;
+}
+
+export const NOTIFICATION_EVENTS: { id: NotificationEvent; label: string; description: string }[] = [
+  { id: 'message', label: 'New Messages', description: 'Chat messages from your contacts' },
+  { id: 'reminder', label: 'Payment Reminders', description: 'Reminders about upcoming and overdue payments' },
+  { id: 'plan', label: 'Payment Plans', description: 'Plan proposals, counter-offers and answers' },
+  { id: 'connection', label: 'Connection Requests', description: 'New connection requests' },
+];
+
+export const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  in_app_message: true,
+  in_app_reminder: true,
+  in_app_plan: true,
+  in_app_connection: true,
+  email_message: true,
+  email_reminder: true,
+  email_plan: true,
+  email_connection: true,
+  email_digest: 'daily',
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  timezone: 'UTC',
+};
+
+// Which preference an incoming chat message falls under
+export const messageNotificationEvent = (messageType: string): NotificationEvent => {
+  switch (messageType) {
+    case 'reminder':
+      return 'reminder';
+    case 'payment_plan_request':
+    case 'payment_plan_response':
+      return 'plan';
+    default:
+      return 'message';
+  }
+};
+
+// Minutes since midnight of an 'HH:MM' or 'HH:MM:SS' time
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export function isInQuietHours(preferences: NotificationPreferences, at = new Date()): boolean {
+  const { quiet_hours_start: start, quiet_hours_end: end } = preferences;
+  if (!start || !end || toMinutes(start) === toMinutes(end)) return false;
+
+  const [hours, minutes] = new Intl.DateTimeFormat('en-GB', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZone: preferences.timezone,
+  }).format(at).split(':').map(Number);
+  const now = hours * 60 + minutes;
+
+  // The range wraps midnight, e.g. 22:00 to 07:00
+  return toMinutes(start) < toMinutes(end)
+    ? now >= toMinutes(start) && now < toMinutes(end)
+    : now >= toMinutes(start) || now < toMinutes(end);
+}
+
+export function notificationAllowed(
+  preferences: NotificationPreferences,
+  channel: NotificationChannel,
+  event: NotificationEvent,
+  at = new Date()
+): boolean {
+  return preferences[`${channel}_${event}`] && !isInQuietHours(preferences, at);
+}
+
+export function validateNotificationPreferences(preferences: NotificationPreferences): string | null {
+  if (!!preferences.quiet_hours_start !== !!preferences.quiet_hours_end) {
+    return 'Quiet hours need both a start and an end time';
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: preferences.timezone });
+  } catch {
+    return `Unknown time zone "${preferences.timezone}"`;
+  }
+  return null;
+}
+
+const PREFERENCE_COLUMNS = `
+  in_app_message,
+  in_app_reminder,
+  in_app_plan,
+  in_app_connection,
+  email_message,
+  email_reminder,
+  email_plan,
+  email_connection,
+  email_digest,
+  quiet_hours_start,
+  quiet_hours_end,
+  timezone
+`;
+
+// Users who never saved their preferences get the defaults in their own time zone
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select(PREFERENCE_COLUMNS)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as NotificationPreferences | null) ?? { ...DEFAULT_NOTIFICATION_PREFERENCES, timezone: browserTimezone() };
+}
+
+export async function saveNotificationPreferences(
+  userId: string,
+  preferences: NotificationPreferences
+): Promise<NotificationPreferences> {
+  const validationError = validateNotificationPreferences(preferences);
+  if (validationError) throw new Error(validationError);
+
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .upsert({
+      ...preferences,
+      user_id: userId,
+      updated_at: new Date().toISOString(),
+    })
+    .select(PREFERENCE_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data as NotificationPreferences;
+}
+
+// The notification inbox. Rows are created by database triggers on messages,
+// liaisons and company_relationships; the client only reads and marks them.
+
+export interface AppNotification {
+  id: string;
+  event: NotificationEvent;
+  title: string;
+  body: string | null;
+  link: string;
+  liaison_id: string | null;
+  is_read: boolean;
+  created_at: string;
+}
+
+export async function getNotifications(userId: string, limit = 30): Promise<AppNotification[]> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('id, event, title, body, link, liaison_id, is_read, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as AppNotification[];
+}
+
+export async function getUnreadNotificationCount(userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('is_read', false);
+
+  if (error) throw error;
+  return count ?? 0;
+}
+
+export async function markNotificationRead(notificationId: string): Promise<void> {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ is_read: true, read_at: new Date().toISOString() })
+    .eq('id', notificationId);
+
+  if (error) throw error;
+}
+
+export async function markAllNotificationsRead(userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ is_read: true, read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('is_read', false);
+
+  if (error) throw error;
+}
@@ -0,0 +1,196 @@
+import { supabase } from './supabase';
+
+export const PAYMENT_METHODS = [
+  { id: 'bank_transfer', label: 'Bank Transfer' },
+  { id: 'card', label: 'Card' },
+  { id: 'cash', label: 'Cash' },
+  { id: 'cheque', label: 'Cheque' },
+  { id: 'other', label: 'Other' },
+] as const;
+
+export type PaymentMethod = typeof PAYMENT_METHODS[number]['id'];
+
+export interface OpenInstallment {
+  id: string;
+  description: string;
+  paymentNumber: number;
+  dueDate: string;
+  status: 'pending' | 'partial' | 'overdue';
+  amount: number;
+  amountPaid: number;
+  outstanding: number;
+}
+
+export interface UpcomingInstallment extends OpenInstallment {
+  liaisonId: string;
+  planId: number;
+  planTotal: number;
+  planPayments: number;
+}
+
+export const INSTALLMENT_STATUS_STYLES: Record<OpenInstallment['status'], { label: string; badge: string }> = {
+  pending: { label: 'Upcoming', badge: 'bg-blue-100 text-blue-800' },
+  partial: { label: 'Partially paid', badge: 'bg-yellow-100 text-yellow-800' },
+  overdue: { label: 'Overdue', badge: 'bg-red-100 text-red-800' },
+};
+
+interface InstallmentRow {
+  id: string;
+  amount: number | string;
+  amount_paid: number | string | null;
+  due_date: string;
+  status: OpenInstallment['status'];
+  payment_number: number;
+  description: string;
+}
+
+interface UpcomingInstallmentRow extends InstallmentRow {
+  payment_plan: {
+    id: number;
+    liaison_id: string;
+    total_due: number | string;
+    num_payment: number;
+  };
+}
+
+interface RecordPaymentData {
+  liaisonId: string;
+  amount: number;
+  paymentDate: string;
+  method: PaymentMethod;
+  reference?: string;
+}
+
+// Records money received from a client. Allocation across open installments
+// (oldest due date first, surplus kept as credit) happens in the database.
+export async function recordPayment({
+  liaisonId,
+  amount,
+  paymentDate,
+  method,
+  reference,
+}: RecordPaymentData) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  if (!(amount > 0)) {
+    throw new Error('Payment amount must be greater than 0');
+  }
+
+  const { data, error } = await supabase
+    .from('payments')
+    .insert({
+      liaison_id: liaisonId,
+      amount,
+      payment_date: paymentDate,
+      method,
+      reference: reference?.trim() || null,
+      recorded_by: user.id,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Unallocated money the client has paid in advance
+export async function getCreditBalance(liaisonId: string) {
+  const { data, error } = await supabase
+    .from('liaison_credit_balances')
+    .select('credit_balance')
+    .eq('liaison_id', liaisonId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return Number(data?.credit_balance || 0);
+}
+
+// Open installments of a liaison with what is still owed on each
+export async function getOpenInstallments(liaisonId: string): Promise<OpenInstallment[]> {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select(`
+      id,
+      amount,
+      amount_paid,
+      due_date,
+      status,
+      payment_number,
+      description,
+      payment_plan:payment_plan_id!inner (
+        id,
+        liaison_id
+      )
+    `)
+    .eq('payment_plan.liaison_id', liaisonId)
+    .in('status', ['pending', 'partial', 'overdue'])
+    .order('due_date', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map((installment: InstallmentRow) => ({
+    id: installment.id,
+    description: installment.description,
+    paymentNumber: installment.payment_number,
+    dueDate: installment.due_date,
+    status: installment.status,
+    amount: Number(installment.amount),
+    amountPaid: Number(installment.amount_paid || 0),
+    outstanding: Number(installment.amount) - Number(installment.amount_paid || 0),
+  }));
+}
+
+// Whole days from today to a due date, negative once it has passed
+export function daysUntilDue(dueDate: string) {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return Math.round((new Date(`${dueDate}T00:00:00`).getTime() - today.getTime()) / 86400000);
+}
+
+// Open installments of the active plans of the given liaisons, soonest due first
+export async function getUpcomingInstallments(liaisonIds: string[]): Promise<UpcomingInstallment[]> {
+  if (liaisonIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('transactions')
+    .select(`
+      id,
+      amount,
+      amount_paid,
+      due_date,
+      status,
+      payment_number,
+      description,
+      payment_plan:payment_plan_id!inner (
+        id,
+        liaison_id,
+        total_due,
+        num_payment
+      )
+    `)
+    .in('payment_plan.liaison_id', liaisonIds)
+    .eq('payment_plan.status', 'active')
+    .in('status', ['pending', 'partial', 'overdue'])
+    .order('due_date', { ascending: true })
+    .order('payment_number', { ascending: true });
+
+  if (error) throw error;
+
+  // PostgREST returns the to-one embed as an object
+  return ((data || []) as unknown as UpcomingInstallmentRow[]).map(installment => ({
+    id: installment.id,
+    description: installment.description,
+    paymentNumber: installment.payment_number,
+    dueDate: installment.due_date,
+    // Past their due date they are overdue, even before mark_overdue_installments() flags them
+    status: daysUntilDue(installment.due_date) < 0 ? 'overdue' : installment.status,
+    amount: Number(installment.amount),
+    amountPaid: Number(installment.amount_paid || 0),
+    outstanding: Number(installment.amount) - Number(installment.amount_paid || 0),
+    liaisonId: installment.payment_plan.liaison_id,
+    planId: installment.payment_plan.id,
+    planTotal: Number(installment.payment_plan.total_due),
+    planPayments: installment.payment_plan.num_payment,
+  }));
+}
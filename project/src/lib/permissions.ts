@@ -0,0 +1,46 @@
+import { supabase } from './supabase';
+
+// What each role may do inside its company. The map lives in the
+// role_permissions table so the app and the database (has_permission())
+// agree; the UI only hides what the database would refuse anyway.
+
+export type UserRole = 'manager' | 'accountant' | 'client_user';
+
+export type Permission =
+  | 'clients.create'
+  | 'plans.accept'
+  | 'connections.delete'
+  | 'crs_policy.manage'
+  | 'reminders.manage'
+  | 'team.manage'
+  | 'liaisons.view_all';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  manager: 'Manager',
+  accountant: 'Accountant',
+  client_user: 'Member',
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'clients.create': 'Invite and import clients',
+  'plans.accept': 'Accept payment plans',
+  'connections.delete': 'Remove connections',
+  'crs_policy.manage': 'Change the CRS policy',
+  'reminders.manage': 'Edit reminder templates',
+  'team.manage': 'Manage the team',
+  'liaisons.view_all': "See every colleague's liaisons",
+};
+
+// Mirrors role_allowed_for_company()
+export const rolesForCompany = (companyType: 'accounting_firm' | 'client'): UserRole[] =>
+  companyType === 'accounting_firm' ? ['manager', 'accountant'] : ['manager', 'client_user'];
+
+export async function getRolePermissions(role: UserRole): Promise<Permission[]> {
+  const { data, error } = await supabase
+    .from('role_permissions')
+    .select('permission')
+    .eq('role', role);
+
+  if (error) throw error;
+  return (data || []).map(row => row.permission as Permission);
+}
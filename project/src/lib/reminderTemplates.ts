@@ -0,0 +1,142 @@
+import { supabase } from './supabase';
+import { ReminderLevelId } from './reminders';
+import {
+  DEFAULT_REMINDER_TEMPLATES,
+  validateReminderTemplate,
+  ReminderDetails,
+  ReminderTemplate,
+} from '../../supabase/functions/_shared/reminderTemplates.ts';
+
+// Reminder wording per level. Firms can replace the built-in templates in
+// Settings; the defaults and the renderer live in a module shared with the
+// scheduled payment-reminders job, so both always render the same text.
+
+export {
+  DEFAULT_REMINDER_TEMPLATES,
+  TEMPLATE_VARIABLES,
+  findUnknownVariables,
+  formatTemplateVariables,
+  renderReminderTemplate,
+  renderTemplate,
+  validateReminderTemplate,
+} from '../../supabase/functions/_shared/reminderTemplates.ts';
+export type { ReminderTemplate, ReminderTemplateVariable } from '../../supabase/functions/_shared/reminderTemplates.ts';
+
+export interface FirmReminderTemplate extends ReminderTemplate {
+  level: ReminderLevelId;
+  isCustom: boolean;
+  updatedAt: string | null;
+}
+
+// Values behind the variables, as returned by reminder_preview_variables()
+export interface ReminderVariables extends ReminderDetails {
+  transactionId: string;
+  daysUntilDue: number;
+  firstName: string;
+  firmId: string;
+}
+
+// Used by the preview when a client has nothing left to pay
+export const SAMPLE_REMINDER_VARIABLES: Omit<ReminderVariables, 'transactionId' | 'firmId'> = {
+  daysUntilDue: -3,
+  firstName: 'Alex',
+  clientName: 'Alex Morgan',
+  amount: 1250,
+  dueDate: new Date().toISOString().split('T')[0],
+  daysOverdue: 3,
+  crsScore: 78,
+  planRemaining: 7500,
+  firmName: 'Your Firm',
+  accountantName: 'Your Accountant',
+};
+
+interface ReminderTemplateRow {
+  level: ReminderLevelId;
+  subject: string;
+  body: string;
+  updated_at: string;
+}
+
+// The firm's template for every level, falling back to the built-in wording
+export async function getReminderTemplates(
+  companyId: string
+): Promise<Record<ReminderLevelId, FirmReminderTemplate>> {
+  const { data, error } = await supabase
+    .from('reminder_templates')
+    .select('level, subject, body, updated_at')
+    .eq('company_id', companyId);
+
+  if (error) throw error;
+
+  const custom = new Map(((data || []) as ReminderTemplateRow[]).map(row => [row.level, row]));
+  const levels = Object.keys(DEFAULT_REMINDER_TEMPLATES) as ReminderLevelId[];
+
+  return Object.fromEntries(levels.map(level => {
+    const row = custom.get(level);
+    return [level, {
+      level,
+      subject: row?.subject ?? DEFAULT_REMINDER_TEMPLATES[level].subject,
+      body: row?.body ?? DEFAULT_REMINDER_TEMPLATES[level].body,
+      isCustom: !!row,
+      updatedAt: row?.updated_at ?? null,
+    }];
+  })) as Record<ReminderLevelId, FirmReminderTemplate>;
+}
+
+export async function saveReminderTemplate(
+  companyId: string,
+  level: ReminderLevelId,
+  template: ReminderTemplate
+): Promise<FirmReminderTemplate> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const validationError = validateReminderTemplate(template);
+  if (validationError) throw new Error(validationError);
+
+  const { data, error } = await supabase
+    .from('reminder_templates')
+    .upsert({
+      company_id: companyId,
+      level,
+      subject: template.subject.trim(),
+      body: template.body.trim(),
+      updated_by: user.id,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'company_id,level' })
+    .select('level, subject, body, updated_at')
+    .single();
+
+  if (error) throw error;
+
+  const row = data as ReminderTemplateRow;
+  return { level, subject: row.subject, body: row.body, isCustom: true, updatedAt: row.updated_at };
+}
+
+// Drops the firm's template so the level goes back to the built-in wording
+export async function resetReminderTemplate(companyId: string, level: ReminderLevelId) {
+  const { error } = await supabase
+    .from('reminder_templates')
+    .delete()
+    .eq('company_id', companyId)
+    .eq('level', level);
+
+  if (error) throw error;
+}
+
+// Variables for the liaison's next open installment, or null if nothing is due
+export async function getReminderPreviewVariables(liaisonId: string): Promise<ReminderVariables | null> {
+  const { data, error } = await supabase.rpc('reminder_preview_variables', {
+    target_liaison_id: liaisonId,
+  });
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const variables = data as ReminderVariables;
+  return {
+    ...variables,
+    amount: Number(variables.amount),
+    planRemaining: Number(variables.planRemaining),
+  };
+}
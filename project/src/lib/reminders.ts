@@ -0,0 +1,191 @@
+import { supabase } from './supabase';
+
+// The reminder ladder shared by the chat's reminder generator and the
+// scheduled payment-reminders job (see reminder_level() in the database)
+export interface ReminderLevel {
+  id: 'friendly' | 'approaching' | 'overdue' | 'urgent';
+  title: string;
+  description: string;
+  color: string;
+  icon: string;
+  daysBeforeDue: number;
+  crsThreshold: number;
+}
+
+export const REMINDER_LEVELS: ReminderLevel[] = [
+  {
+    id: 'friendly',
+    title: 'Friendly Reminder',
+    description: 'For high CRS clients, sent well in advance',
+    color: 'green',
+    icon: '✓',
+    daysBeforeDue: 7,
+    crsThreshold: 85
+  },
+  {
+    id: 'approaching',
+    title: 'Payment Approaching',
+    description: 'Standard reminder for good standing clients',
+    color: 'blue',
+    icon: '📅',
+    daysBeforeDue: 5,
+    crsThreshold: 75
+  },
+  {
+    id: 'overdue',
+    title: 'Payment Overdue',
+    description: 'For missed payments, professional tone',
+    color: 'orange',
+    icon: '⚠️',
+    daysBeforeDue: 0,
+    crsThreshold: 65
+  },
+  {
+    id: 'urgent',
+    title: 'Urgent Action Required',
+    description: 'For significantly overdue payments',
+    color: 'red',
+    icon: '❗',
+    daysBeforeDue: -7,
+    crsThreshold: 0
+  }
+];
+
+export type ReminderLevelId = ReminderLevel['id'];
+
+export const REMINDER_LEVEL_STYLES: Record<ReminderLevelId, string> = {
+  friendly: 'bg-green-100 text-green-800',
+  approaching: 'bg-blue-100 text-blue-800',
+  overdue: 'bg-orange-100 text-orange-800',
+  urgent: 'bg-red-100 text-red-800',
+};
+
+export const getReminderLevel = (id: ReminderLevelId) =>
+  REMINDER_LEVELS.find(level => level.id === id) ?? REMINDER_LEVELS[0];
+
+// The level the scheduled job would send, from reminder_level() in the
+// database. Reminders sent before the ladder starts get its first step's tone.
+export async function reminderLevelFor(daysUntilDue: number, crsScore: number): Promise<ReminderLevel> {
+  const { data, error } = await supabase.rpc('reminder_level', {
+    days_until_due: Math.min(daysUntilDue, REMINDER_LEVELS[0].daysBeforeDue),
+    crs_score: crsScore,
+  });
+
+  if (error) throw error;
+  return getReminderLevel(data as ReminderLevelId);
+}
+
+export interface UpcomingReminder {
+  transactionId: string;
+  liaisonId: string;
+  level: ReminderLevelId;
+  daysUntilDue: number;
+  crsScore: number;
+  amount: number;
+  dueDate: string;
+  description: string;
+  clientName: string;
+}
+
+export interface SentReminder {
+  id: string;
+  liaisonId: string;
+  level: ReminderLevelId;
+  daysUntilDue: number;
+  sentAt: string;
+  emailedAt: string | null;
+  emailError: string | null;
+  clientName: string;
+  description: string;
+  amount: number;
+  dueDate: string;
+}
+
+interface UpcomingReminderRow {
+  transaction_id: string;
+  liaison_id: string;
+  level: ReminderLevelId;
+  days_until_due: number;
+  crs_score: number;
+  amount: number | string;
+  due_date: string;
+  description: string;
+  client_name: string | null;
+}
+
+interface SentReminderRow {
+  id: string;
+  liaison_id: string;
+  level: ReminderLevelId;
+  days_until_due: number;
+  sent_at: string;
+  emailed_at: string | null;
+  email_error: string | null;
+  liaison: { client: { full_name: string } | null } | null;
+  transaction: { description: string; amount: number | string; due_date: string } | null;
+}
+
+// What the next scheduled run will send for the accountant's clients
+export async function getUpcomingReminders(accountantId: string): Promise<UpcomingReminder[]> {
+  const { data, error } = await supabase
+    .rpc('due_payment_reminders')
+    .eq('accountant_id', accountantId);
+
+  if (error) throw error;
+
+  return (data || []).map((row: UpcomingReminderRow) => ({
+    transactionId: row.transaction_id,
+    liaisonId: row.liaison_id,
+    level: row.level,
+    daysUntilDue: row.days_until_due,
+    crsScore: row.crs_score,
+    amount: Number(row.amount),
+    dueDate: row.due_date,
+    description: row.description,
+    clientName: row.client_name || 'Unknown client',
+  }));
+}
+
+export async function getSentReminders(limit = 50): Promise<SentReminder[]> {
+  const { data, error } = await supabase
+    .from('payment_reminders')
+    .select(`
+      id,
+      liaison_id,
+      level,
+      days_until_due,
+      sent_at,
+      emailed_at,
+      email_error,
+      liaison:liaison_id(client:client_id(full_name)),
+      transaction:transaction_id(description, amount, due_date)
+    `)
+    .order('sent_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  // PostgREST returns the to-one embeds as objects
+  return ((data || []) as unknown as SentReminderRow[]).map(row => ({
+    id: row.id,
+    liaisonId: row.liaison_id,
+    level: row.level,
+    daysUntilDue: row.days_until_due,
+    sentAt: row.sent_at,
+    emailedAt: row.emailed_at,
+    emailError: row.email_error,
+    clientName: row.liaison?.client?.full_name || 'Unknown client',
+    description: row.transaction?.description || '',
+    amount: Number(row.transaction?.amount ?? 0),
+    dueDate: row.transaction?.due_date || '',
+  }));
+}
+
+export async function setRemindersPaused(liaisonId: string, paused: boolean) {
+  const { error } = await supabase.rpc('set_reminders_paused', {
+    target_liaison_id: liaisonId,
+    paused,
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,178 @@
+// Reads the first sheet of a CSV or XLSX file into rows of trimmed cells.
+// XLSX files are zip archives of XML; they are unpacked with the browser's
+// DecompressionStream and parsed with DOMParser.
+
+// Blank rows are dropped, so each row keeps the number it has in the file
+export interface SpreadsheetRow {
+  rowNumber: number;
+  cells: string[];
+}
+
+export type SpreadsheetRows = SpreadsheetRow[];
+
+export function parseCsv(text: string): SpreadsheetRows {
+  const rows: SpreadsheetRows = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Excel prefixes UTF-8 CSVs with a byte order mark
+  const input = text.replace(/^\uFEFF/, '');
+  // Excel writes semicolons in locales that use a decimal comma
+  const firstLine = input.split(/\r?\n/, 1)[0];
+  const delimiter = firstLine.includes(';') && !firstLine.includes(',') ? ';' : ',';
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push({ rowNumber: rows.length + 1, cells: row });
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    rows.push({ rowNumber: rows.length + 1, cells: row });
+  }
+
+  return rows.filter(({ cells }) => cells.some(Boolean));
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipEntries(view: DataView): Map<string, ZipEntry> {
+  // The end of central directory record sits in the last 64KB + 22 bytes
+  let end = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('The file is not a valid XLSX workbook');
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function readZipText(view: DataView, entry: ZipEntry): Promise<string> {
+  const header = entry.localHeaderOffset;
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + start, entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error('The workbook uses an unsupported compression method');
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+const elements = (parent: Document | Element, name: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', name));
+
+// 'C12' -> 2
+const columnIndex = (reference: string) =>
+  reference
+    .replace(/\d+$/, '')
+    .split('')
+    .reduce((index, letter) => index * 26 + letter.toUpperCase().charCodeAt(0) - 64, 0) - 1;
+
+export async function parseXlsx(buffer: ArrayBuffer): Promise<SpreadsheetRows> {
+  const view = new DataView(buffer);
+  const entries = readZipEntries(view);
+
+  const sheetName = entries.has('xl/worksheets/sheet1.xml')
+    ? 'xl/worksheets/sheet1.xml'
+    : Array.from(entries.keys()).filter(name => /^xl\/worksheets\/[^/]+\.xml$/.test(name)).sort()[0];
+  if (!sheetName) throw new Error('The workbook has no worksheets');
+
+  const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsEntry
+    ? elements(parseXml(await readZipText(view, sharedStringsEntry)), 'si')
+      .map(item => elements(item, 't').map(text => text.textContent ?? '').join(''))
+    : [];
+
+  const sheet = parseXml(await readZipText(view, entries.get(sheetName)!));
+  let previousRowNumber = 0;
+  const rows: SpreadsheetRows = elements(sheet, 'row').map(row => {
+    // Rows left empty in Excel are not written out, so `r` gives the number;
+    // a row without it follows the previous one
+    const rowNumber = Number(row.getAttribute('r')) || previousRowNumber + 1;
+    previousRowNumber = rowNumber;
+
+    const cells: string[] = [];
+    elements(row, 'c').forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const value = elements(cell, 'v')[0]?.textContent ?? '';
+
+      switch (cell.getAttribute('t')) {
+        case 's':
+          cells[index] = sharedStrings[Number(value)] ?? '';
+          break;
+        case 'inlineStr':
+          cells[index] = elements(cell, 't').map(text => text.textContent ?? '').join('');
+          break;
+        default:
+          cells[index] = value;
+      }
+    });
+    return { rowNumber, cells: Array.from(cells, cell => (cell ?? '').trim()) };
+  });
+
+  return rows.filter(({ cells }) => cells.some(Boolean));
+}
+
+export async function readSpreadsheet(file: File): Promise<SpreadsheetRows> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  if (extension === 'xlsx') return parseXlsx(await file.arrayBuffer());
+  if (extension === 'csv' || extension === 'txt') return parseCsv(await file.text());
+
+  throw new Error('Upload a .csv or .xlsx file');
+}
@@ -13,6 +13,7 @@ export async function getUserRoleAndCompanyType(userId: string) {
       .from('users')
       .select(`
         role,
+        is_active,
         companies (
           type
         )
@@ -24,7 +25,8 @@ export async function getUserRoleAndCompanyType(userId: string) {
 
     return {
       role: userData.role,
-      companyType: userData.companies?.type
+      companyType: userData.companies?.type,
+      isActive: userData.is_active !== false
     };
   } catch (error) {
     console.error('Error fetching user role and company type:', error);
@@ -0,0 +1,147 @@
+import { supabase } from './supabase';
+import { UserRole } from './permissions';
+import { InvitationStatus } from './invitations';
+
+// Colleagues inside a company. Roles and activation only change through the
+// set_member_* functions, which keep at least one active manager; colleagues
+// join through signed team invitations, like connection invitations.
+
+export interface TeamMember {
+  id: string;
+  full_name: string;
+  email: string;
+  role: UserRole;
+  is_active: boolean;
+  deactivated_at: string | null;
+}
+
+export interface TeamLiaison {
+  liaison_id: string;
+  member_id: string;
+  contact_name: string;
+  company_name: string;
+  verification_status: string;
+}
+
+export interface TeamInvitation {
+  id: string;
+  invitee_email: string;
+  invitee_name: string | null;
+  role: UserRole;
+  expires_at: string;
+  revoked_at: string | null;
+  accepted_at: string | null;
+  created_at: string;
+  inviter: { full_name: string } | null;
+}
+
+export interface TeamInvitationDetails {
+  status: InvitationStatus;
+  inviteeEmail: string;
+  inviteeName: string | null;
+  role: UserRole;
+  inviterName: string;
+  companyName: string;
+  companyType: 'accounting_firm' | 'client';
+  expiresAt: string;
+}
+
+export const TEAM_INVITATION_VALID_DAYS = 14;
+
+export const teamInvitationUrl = (token: string) => `${window.location.origin}/join/${token}`;
+
+export function teamInvitationStatus(invitation: TeamInvitation, at = new Date()): InvitationStatus {
+  if (invitation.accepted_at) return 'redeemed';
+  if (invitation.revoked_at) return 'revoked';
+  if (new Date(invitation.expires_at) <= at) return 'expired';
+  return 'pending';
+}
+
+export async function getTeamMembers(companyId: string): Promise<TeamMember[]> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, full_name, email, role, is_active, deactivated_at')
+    .eq('company_id', companyId)
+    .order('full_name');
+
+  if (error) throw error;
+  return (data || []) as TeamMember[];
+}
+
+export async function setMemberRole(memberId: string, role: UserRole): Promise<void> {
+  const { error } = await supabase.rpc('set_member_role', { member_id: memberId, new_role: role });
+  if (error) throw error;
+}
+
+export async function setMemberActive(memberId: string, active: boolean): Promise<void> {
+  const { error } = await supabase.rpc('set_member_active', { member_id: memberId, active });
+  if (error) throw error;
+}
+
+export async function getTeamLiaisons(): Promise<TeamLiaison[]> {
+  const { data, error } = await supabase.rpc('team_liaisons');
+  if (error) throw error;
+  return (data || []) as TeamLiaison[];
+}
+
+export async function createTeamInvitation(
+  email: string,
+  name: string,
+  role: UserRole,
+  validDays = TEAM_INVITATION_VALID_DAYS
+): Promise<string> {
+  const { data, error } = await supabase.rpc('create_team_invitation', {
+    email,
+    name,
+    role,
+    valid_days: validDays,
+  });
+
+  if (error) throw error;
+  return data as string;
+}
+
+export async function getTeamInvitations(companyId: string): Promise<TeamInvitation[]> {
+  const { data, error } = await supabase
+    .from('team_invitations')
+    .select(`
+      id,
+      invitee_email,
+      invitee_name,
+      role,
+      expires_at,
+      revoked_at,
+      accepted_at,
+      created_at,
+      inviter:inviter_id(full_name)
+    `)
+    .eq('company_id', companyId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  // PostgREST returns the to-one embed as an object
+  return (data || []) as unknown as TeamInvitation[];
+}
+
+export async function revokeTeamInvitation(invitationId: string): Promise<void> {
+  const { error } = await supabase.rpc('revoke_team_invitation', { invitation_id: invitationId });
+  if (error) throw error;
+}
+
+export async function getTeamInvitationDetails(token: string): Promise<TeamInvitationDetails | null> {
+  const { data, error } = await supabase.rpc('team_invitation_details', { token });
+  if (error) throw error;
+  return data as TeamInvitationDetails | null;
+}
+
+// Creates the signed-up user's profile; returns the company type to route them
+export async function acceptTeamInvitation(token: string, fullName: string, phoneNumber: string): Promise<'accounting_firm' | 'client'> {
+  const { data, error } = await supabase.rpc('accept_team_invitation', {
+    token,
+    full_name: fullName,
+    phone_number: phoneNumber,
+  });
+
+  if (error) throw error;
+  return data as 'accounting_firm' | 'client';
+}
@@ -0,0 +1,298 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Loader2, AlertCircle, ChevronDown, ChevronRight, FileText, Download } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../../lib/supabase';
+import {
+  getReceivablesAging,
+  agingToCsvRows,
+  agingToHtml,
+  AGING_BUCKETS,
+  AgingClient,
+  BucketTotals,
+} from '../../lib/aging';
+import { downloadCsv, printAsPdf } from '../../lib/export';
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+
+const BUCKET_COLORS: Record<string, string> = {
+  current: 'text-gray-900',
+  '1_30': 'text-yellow-600',
+  '31_60': 'text-orange-600',
+  '61_90': 'text-red-600',
+  '90_plus': 'text-red-800',
+};
+
+export default function AgingReportPage() {
+  const [asOf, setAsOf] = useState(today());
+  const [firmName, setFirmName] = useState('');
+  const [clients, setClients] = useState<AgingClient[]>([]);
+  const [totals, setTotals] = useState<BucketTotals | null>(null);
+  const [expandedClients, setExpandedClients] = useState<Set<string>>(new Set());
+  const [expandedLiaisons, setExpandedLiaisons] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchFirm = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+
+        const { data, error } = await supabase
+          .from('users')
+          .select('company:company_id(name)')
+          .eq('id', user.id)
+          .single();
+
+        if (error) throw error;
+        setFirmName((data?.company as unknown as { name: string } | null)?.name || '');
+      } catch (err) {
+        console.error('Error fetching firm:', err);
+      }
+    };
+
+    fetchFirm();
+  }, []);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const report = await getReceivablesAging(asOf);
+        setClients(report.clients);
+        setTotals(report.totals);
+      } catch (err) {
+        console.error('Error fetching aging report:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load aging report');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, [asOf]);
+
+  const toggle = (set: Set<string>, id: string, update: (next: Set<string>) => void) => {
+    const next = new Set(set);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    update(next);
+  };
+
+  const handleExportCsv = () => {
+    if (!totals) return;
+    downloadCsv(`ar-aging-${asOf}.csv`, agingToCsvRows(clients, totals));
+  };
+
+  const handleExportPdf = () => {
+    if (!totals) return;
+    try {
+      printAsPdf(`AR Aging ${asOf}`, agingToHtml(clients, totals, firmName, asOf));
+    } catch (err) {
+      console.error('Error exporting aging report:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to export PDF');
+    }
+  };
+
+  const amountCells = (bucketTotals: BucketTotals) => (
+    <>
+      {AGING_BUCKETS.map(bucket => (
+        <td key={bucket.id} className={`px-4 py-3 text-right ${BUCKET_COLORS[bucket.id]}`}>
+          {bucketTotals[bucket.id] ? formatCurrency(bucketTotals[bucket.id]) : '–'}
+        </td>
+      ))}
+      <td className="px-4 py-3 text-right font-medium text-gray-900">
+        {formatCurrency(bucketTotals.total)}
+      </td>
+    </>
+  );
+
+  return (
+    <div className="py-8">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Receivables Aging</h1>
+          <p className="text-gray-600">Open installments across all client relationships</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <input
+            type="date"
+            value={asOf}
+            onChange={(e) => setAsOf(e.target.value || today())}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={handleExportCsv}
+            disabled={loading || clients.length === 0}
+            className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors duration-200 disabled:opacity-50"
+          >
+            <Download className="h-5 w-5 mr-2" />
+            CSV
+          </motion.button>
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={handleExportPdf}
+            disabled={loading || clients.length === 0}
+            className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors duration-200 shadow-sm disabled:opacity-50"
+          >
+            <FileText className="h-5 w-5 mr-2" />
+            PDF
+          </motion.button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center text-red-700">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+        </div>
+      ) : (
+        <>
+          {/* Bucket Summary */}
+          {totals && (
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-8">
+              {AGING_BUCKETS.map((bucket, index) => (
+                <motion.div
+                  key={bucket.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                  className="bg-white rounded-xl shadow-sm p-4"
+                >
+                  <p className="text-sm text-gray-500">{bucket.label}</p>
+                  <p className={`text-xl font-bold ${BUCKET_COLORS[bucket.id]}`}>
+                    {formatCurrency(totals[bucket.id])}
+                  </p>
+                </motion.div>
+              ))}
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.25 }}
+                className="bg-indigo-50 rounded-xl shadow-sm p-4"
+              >
+                <p className="text-sm text-indigo-700">Total Outstanding</p>
+                <p className="text-xl font-bold text-indigo-700">{formatCurrency(totals.total)}</p>
+              </motion.div>
+            </div>
+          )}
+
+          {clients.length === 0 ? (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 text-center text-gray-500">
+              No open installments
+            </div>
+          ) : (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-medium text-gray-700">Client</th>
+                    {AGING_BUCKETS.map(bucket => (
+                      <th key={bucket.id} className="px-4 py-3 text-right font-medium text-gray-700">
+                        {bucket.label}
+                      </th>
+                    ))}
+                    <th className="px-4 py-3 text-right font-medium text-gray-700">Total</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {clients.map(client => {
+                    const clientOpen = expandedClients.has(client.companyId);
+                    return [
+                      <tr
+                        key={client.companyId}
+                        onClick={() => toggle(expandedClients, client.companyId, setExpandedClients)}
+                        className="cursor-pointer hover:bg-gray-50"
+                      >
+                        <td className="px-4 py-3 font-medium text-gray-900">
+                          <div className="flex items-center">
+                            {clientOpen
+                              ? <ChevronDown className="h-4 w-4 mr-2 text-gray-400" />
+                              : <ChevronRight className="h-4 w-4 mr-2 text-gray-400" />}
+                            {client.companyName}
+                          </div>
+                        </td>
+                        {amountCells(client.totals)}
+                      </tr>,
+                      ...(clientOpen ? client.liaisons.flatMap(liaison => {
+                        const liaisonOpen = expandedLiaisons.has(liaison.liaisonId);
+                        return [
+                          <tr
+                            key={liaison.liaisonId}
+                            onClick={() => toggle(expandedLiaisons, liaison.liaisonId, setExpandedLiaisons)}
+                            className="cursor-pointer bg-gray-50 hover:bg-gray-100"
+                          >
+                            <td className="px-4 py-3 pl-10 text-gray-700">
+                              <div className="flex items-center">
+                                {liaisonOpen
+                                  ? <ChevronDown className="h-4 w-4 mr-2 text-gray-400" />
+                                  : <ChevronRight className="h-4 w-4 mr-2 text-gray-400" />}
+                                <div>
+                                  <p>{liaison.clientName}</p>
+                                  <p className="text-xs text-gray-500">Accountant: {liaison.accountantName}</p>
+                                </div>
+                              </div>
+                            </td>
+                            {amountCells(liaison.totals)}
+                          </tr>,
+                          ...(liaisonOpen ? liaison.installments.map(installment => (
+                            <tr key={installment.id} className="bg-white">
+                              <td className="px-4 py-2 pl-16 text-gray-600">
+                                <p>{installment.description}</p>
+                                <p className="text-xs text-gray-500">
+                                  Due {new Date(installment.dueDate).toLocaleDateString()}
+                                  {installment.daysPastDue > 0 && ` · ${installment.daysPastDue} days past due`}
+                                  {installment.status === 'partial' && ' · partially paid'}
+                                </p>
+                              </td>
+                              {AGING_BUCKETS.map(bucket => (
+                                <td key={bucket.id} className={`px-4 py-2 text-right ${BUCKET_COLORS[bucket.id]}`}>
+                                  {bucket.id === installment.bucket ? formatCurrency(installment.outstanding) : ''}
+                                </td>
+                              ))}
+                              <td className="px-4 py-2 text-right text-gray-700">
+                                {formatCurrency(installment.outstanding)}
+                              </td>
+                            </tr>
+                          )) : []),
+                        ];
+                      }) : []),
+                    ];
+                  })}
+                  {totals && (
+                    <tr className="bg-gray-50 font-semibold border-t-2 border-gray-300">
+                      <td className="px-4 py-3 text-gray-900">Total</td>
+                      {amountCells(totals)}
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
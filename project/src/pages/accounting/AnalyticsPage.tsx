@@ -3,6 +3,17 @@ import { motion } from 'framer-motion';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts';
 import { Loader2, AlertCircle, DollarSign, Calendar, TrendingUp, Clock } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { RISK_STYLES, RiskLevel } from '../../lib/crs';
+import CashFlowForecast from '../../components/CashFlowForecast';
+import {
+  getPaymentTiming,
+  getPaymentDistribution,
+  getActivityFeed,
+  ACTIVITY_LABELS,
+  DEFAULT_BUCKETS,
+  DistributionBuckets,
+  PaymentDistribution,
+} from '../../lib/analytics';
 
 interface Client {
   id: string;
@@ -11,34 +22,91 @@ interface Client {
     id: string;
     fullName: string;
     crsScore: number;
+    riskLevel: RiskLevel;
   };
-  analytics: {
-    paymentHistory: {
-      month: string;
-      daysFromDue: number;
-    }[];
-    paymentDistribution: {
-      status: string;
-      count: number;
-    }[];
-    recentActivity: {
-      date: string;
-      type: string;
-      description: string;
-    }[];
-  };
 }
 
+interface ClientAnalytics {
+  paymentHistory: {
+    month: string;
+    daysFromDue: number | null;
+  }[];
+  paymentDistribution: {
+    status: string;
+    count: number;
+  }[];
+  recentActivity: {
+    date: string;
+    type: string;
+    description: string;
+  }[];
+}
+
+const BUCKET_LABELS: Record<PaymentDistribution['bucket'], string> = {
+  on_time: 'On Time',
+  late: 'Late',
+  very_late: 'Very Late',
+};
+
 export default function AnalyticsPage() {
   const [clients, setClients] = useState<Client[]>([]);
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
+  const [analytics, setAnalytics] = useState<ClientAnalytics | null>(null);
+  const [buckets, setBuckets] = useState<DistributionBuckets>(DEFAULT_BUCKETS);
   const [loading, setLoading] = useState(true);
+  const [analyticsLoading, setAnalyticsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchClients();
   }, []);
 
+  useEffect(() => {
+    if (!selectedClient) return;
+
+    let cancelled = false;
+
+    const fetchAnalytics = async () => {
+      try {
+        setAnalyticsLoading(true);
+        const liaisonId = selectedClient.liaison.id;
+        const [timing, distribution, activity] = await Promise.all([
+          getPaymentTiming(liaisonId),
+          getPaymentDistribution(liaisonId, buckets),
+          getActivityFeed(liaisonId, 10),
+        ]);
+
+        if (cancelled) return;
+
+        setAnalytics({
+          paymentHistory: timing.map(point => ({
+            month: new Date(point.month).toLocaleString('default', { month: 'short', year: '2-digit' }),
+            daysFromDue: point.averageDaysFromDue,
+          })),
+          paymentDistribution: distribution.map(item => ({
+            status: BUCKET_LABELS[item.bucket],
+            count: item.installments,
+          })),
+          recentActivity: activity.map(item => ({
+            date: new Date(item.occurredAt).toLocaleDateString(),
+            type: ACTIVITY_LABELS[item.type],
+            description: item.description,
+          })),
+        });
+      } catch (err) {
+        console.error('Error fetching analytics:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch analytics');
+      } finally {
+        if (!cancelled) setAnalyticsLoading(false);
+      }
+    };
+
+    fetchAnalytics();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedClient, buckets]);
+
   const fetchClients = async () => {
     try {
       setLoading(true);
@@ -50,6 +118,7 @@ export default function AnalyticsPage() {
         .select(`
           id,
           crs_score,
+          risk_level,
           company_relationship:company_relationships(
             client_firm:client_firm_id(id, name),
             verification_status
@@ -72,28 +141,8 @@ export default function AnalyticsPage() {
           liaison: {
             id: liaison.id,
             fullName: liaison.client.full_name,
-            crsScore: liaison.crs_score
-          },
-          analytics: {
-            paymentHistory: Array.from({ length: 12 }, (_, i) => ({
-              month: new Date(2024, i, 1).toLocaleString('default', { month: 'short' }),
-              daysFromDue: Math.floor(Math.random() * 7) - 3,
-            })),
-            paymentDistribution: [
-              { status: 'On Time', count: Math.floor(Math.random() * 20) + 30 },
-              { status: 'Late', count: Math.floor(Math.random() * 10) + 5 },
-              { status: 'Very Late', count: Math.floor(Math.random() * 5) },
-            ],
-            recentActivity: Array.from({ length: 5 }, (_, i) => ({
-              date: new Date(Date.now() - i * 24 * 60 * 60 * 1000).toLocaleDateString(),
-              type: ['Payment', 'Message', 'Document', 'Plan Change'][Math.floor(Math.random() * 4)],
-              description: [
-                'Payment received',
-                'New message sent',
-                'Document uploaded',
-                'Payment plan updated'
-              ][Math.floor(Math.random() * 4)],
-            })),
+            crsScore: liaison.crs_score,
+            riskLevel: liaison.risk_level
           },
         }));
 
@@ -109,6 +158,22 @@ export default function AnalyticsPage() {
     }
   };
 
+  const updateBucket = (key: keyof DistributionBuckets, value: string) => {
+    const days = Math.max(0, Math.floor(Number(value) || 0));
+    setBuckets(prev => {
+      const next = { ...prev, [key]: days };
+      // Keep the late bucket at least one day wide
+      if (next.lateDays <= next.onTimeDays) {
+        if (key === 'onTimeDays') next.lateDays = next.onTimeDays + 1;
+        else next.onTimeDays = Math.max(0, next.lateDays - 1);
+      }
+      return next;
+    });
+  };
+
+  const bucketCount = (status: string) =>
+    analytics?.paymentDistribution.find(item => item.status === status)?.count ?? 0;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -149,11 +214,7 @@ export default function AnalyticsPage() {
                   <h3 className="font-medium text-gray-900">{client.name}</h3>
                   <p className="text-sm text-gray-500">{client.liaison.fullName}</p>
                 </div>
-                <span className={`px-2 py-1 rounded-full text-sm ${
-                  client.liaison.crsScore >= 80 ? 'bg-green-100 text-green-800' :
-                  client.liaison.crsScore >= 70 ? 'bg-yellow-100 text-yellow-800' :
-                  'bg-red-100 text-red-800'
-                }`}>
+                <span className={`px-2 py-1 rounded-full text-sm ${RISK_STYLES[client.liaison.riskLevel].badge}`}>
                   CRS: {client.liaison.crsScore}
                 </span>
               </div>
@@ -164,6 +225,11 @@ export default function AnalyticsPage() {
 
       {/* Analytics Area */}
       <div className="flex-1 bg-gray-50 overflow-y-auto">
+        {/* Firm-wide forecast, independent of the selected client */}
+        <div className="p-6 pb-0">
+          <CashFlowForecast />
+        </div>
+
         {selectedClient ? (
           <div className="p-6">
             <div className="mb-6">
@@ -182,11 +248,7 @@ export default function AnalyticsPage() {
                   <h3 className="text-lg font-semibold text-gray-900">CRS Score</h3>
                   <TrendingUp className="h-5 w-5 text-gray-400" />
                 </div>
-                <div className={`text-3xl font-bold ${
-                  selectedClient.liaison.crsScore >= 80 ? 'text-green-600' :
-                  selectedClient.liaison.crsScore >= 70 ? 'text-yellow-600' :
-                  'text-red-600'
-                }`}>
+                <div className={`text-3xl font-bold ${RISK_STYLES[selectedClient.liaison.riskLevel].text}`}>
                   {selectedClient.liaison.crsScore}
                 </div>
               </motion.div>
@@ -202,7 +264,7 @@ export default function AnalyticsPage() {
                   <DollarSign className="h-5 w-5 text-gray-400" />
                 </div>
                 <div className="text-3xl font-bold text-indigo-600">
-                  {selectedClient.analytics.paymentDistribution[0].count}
+                  {bucketCount('On Time')}
                 </div>
               </motion.div>
 
@@ -217,7 +279,7 @@ export default function AnalyticsPage() {
                   <Calendar className="h-5 w-5 text-gray-400" />
                 </div>
                 <div className="text-3xl font-bold text-yellow-600">
-                  {selectedClient.analytics.paymentDistribution[1].count}
+                  {bucketCount('Late')}
                 </div>
               </motion.div>
 
@@ -232,7 +294,7 @@ export default function AnalyticsPage() {
                   <Clock className="h-5 w-5 text-gray-400" />
                 </div>
                 <div className="text-3xl font-bold text-red-600">
-                  {selectedClient.analytics.paymentDistribution[2].count}
+                  {bucketCount('Very Late')}
                 </div>
               </motion.div>
             </div>
@@ -248,7 +310,7 @@ export default function AnalyticsPage() {
                 <h3 className="text-lg font-semibold text-gray-900 mb-6">Payment Timeline</h3>
                 <div className="h-64">
                   <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={selectedClient.analytics.paymentHistory}>
+                    <LineChart data={analytics?.paymentHistory || []}>
                       <CartesianGrid strokeDasharray="3 3" />
                       <XAxis dataKey="month" />
                       <YAxis
@@ -263,6 +325,7 @@ export default function AnalyticsPage() {
                       <Line
                         type="monotone"
                         dataKey="daysFromDue"
+                        connectNulls
                         stroke="#6366f1"
                         strokeWidth={2}
                         dot={{ fill: '#6366f1' }}
@@ -278,10 +341,36 @@ export default function AnalyticsPage() {
                 animate={{ opacity: 1, x: 0 }}
                 className="bg-white rounded-xl shadow-sm p-6"
               >
-                <h3 className="text-lg font-semibold text-gray-900 mb-6">Payment Distribution</h3>
+                <div className="flex items-center justify-between mb-6">
+                  <h3 className="text-lg font-semibold text-gray-900">Payment Distribution</h3>
+                  <div className="flex items-center space-x-3 text-sm text-gray-500">
+                    <label className="flex items-center">
+                      On time ≤
+                      <input
+                        type="number"
+                        min="0"
+                        value={buckets.onTimeDays}
+                        onChange={(e) => updateBucket('onTimeDays', e.target.value)}
+                        className="w-14 mx-1 px-2 py-1 border border-gray-300 rounded-md"
+                      />
+                      days
+                    </label>
+                    <label className="flex items-center">
+                      Late ≤
+                      <input
+                        type="number"
+                        min="1"
+                        value={buckets.lateDays}
+                        onChange={(e) => updateBucket('lateDays', e.target.value)}
+                        className="w-14 mx-1 px-2 py-1 border border-gray-300 rounded-md"
+                      />
+                      days
+                    </label>
+                  </div>
+                </div>
                 <div className="h-64">
                   <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={selectedClient.analytics.paymentDistribution}>
+                    <BarChart data={analytics?.paymentDistribution || []}>
                       <CartesianGrid strokeDasharray="3 3" />
                       <XAxis dataKey="status" />
                       <YAxis />
@@ -299,9 +388,15 @@ export default function AnalyticsPage() {
               animate={{ opacity: 1, y: 0 }}
               className="bg-white rounded-xl shadow-sm p-6"
             >
-              <h3 className="text-lg font-semibold text-gray-900 mb-6">Recent Activity</h3>
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-lg font-semibold text-gray-900">Recent Activity</h3>
+                {analyticsLoading && <Loader2 className="h-4 w-4 animate-spin text-indigo-600" />}
+              </div>
               <div className="space-y-4">
-                {selectedClient.analytics.recentActivity.map((activity, index) => (
+                {analytics?.recentActivity.length === 0 && (
+                  <p className="text-center text-gray-500 py-4">No activity yet</p>
+                )}
+                {analytics?.recentActivity.map((activity, index) => (
                   <div
                     key={index}
                     className="flex items-center justify-between py-3 border-b border-gray-100 last:border-0"
@@ -317,7 +412,7 @@ export default function AnalyticsPage() {
             </motion.div>
           </div>
         ) : (
-          <div className="flex items-center justify-center h-full text-gray-500">
+          <div className="flex items-center justify-center py-12 text-gray-500">
             Select a client to view analytics
           </div>
         )}
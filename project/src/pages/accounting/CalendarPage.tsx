@@ -0,0 +1,20 @@
+import { Link } from 'react-router-dom';
+import PaymentCalendar from '../../components/PaymentCalendar';
+
+export default function CalendarPage() {
+  return (
+    <div className="py-8">
+      <div className="flex items-end justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Payment Calendar</h1>
+          <p className="text-gray-600 mt-1">Installments of all your clients</p>
+        </div>
+        <Link to="/settings" state={{ section: 'calendar' }} className="text-sm text-indigo-600 hover:text-indigo-700">
+          Subscribe in your calendar app
+        </Link>
+      </div>
+
+      <PaymentCalendar showCounterpart />
+    </div>
+  );
+}
@@ -2,9 +2,14 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useLocation } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { Send, Paperclip, Phone, Mail, Loader2, AlertCircle, Sparkles } from 'lucide-react';
-import { sendChatNotificationEmail } from '../../lib/emailService';
 import ChatMessage from '../../components/ChatMessage';
+import PaymentProofReview from '../../components/PaymentProofReview';
+import { buildMessage, MessagePayload } from '../../lib/messages';
+import { reminderLevelFor } from '../../lib/reminders';
+import { getReminderPreviewVariables, getReminderTemplates, renderReminderTemplate } from '../../lib/reminderTemplates';
 import { showChatNotification } from '../../components/ChatNotification';
+import { useNotificationPreferences } from '../../contexts/NotificationPreferencesContext';
+import { messageNotificationEvent } from '../../lib/notifications';
 import { uploadFile, STORAGE_BUCKETS, generateFilePath, MAX_FILE_SIZE } from '../../lib/storage';
 import toast from 'react-hot-toast';
 
@@ -27,60 +32,11 @@ interface Message {
   senderId: string;
   isRead: boolean;
   createdAt: string;
-  documentUrl?: string;
-  documentName?: string;
+  messageType: string;
+  payload: unknown;
   liaisonId: string;
 }
 
-interface ReminderLevel {
-  id: 'friendly' | 'approaching' | 'overdue' | 'urgent';
-  title: string;
-  description: string;
-  color: string;
-  icon: string;
-  daysBeforeDue: number;
-  crsThreshold: number;
-}
-
-const REMINDER_LEVELS: ReminderLevel[] = [
-  {
-    id: 'friendly',
-    title: 'Friendly Reminder',
-    description: 'For high CRS clients, sent well in advance',
-    color: 'green',
-    icon: '✓',
-    daysBeforeDue: 7,
-    crsThreshold: 85
-  },
-  {
-    id: 'approaching',
-    title: 'Payment Approaching',
-    description: 'Standard reminder for good standing clients',
-    color: 'blue',
-    icon: '📅',
-    daysBeforeDue: 5,
-    crsThreshold: 75
-  },
-  {
-    id: 'overdue',
-    title: 'Payment Overdue',
-    description: 'For missed payments, professional tone',
-    color: 'orange',
-    icon: '⚠️',
-    daysBeforeDue: 0,
-    crsThreshold: 65
-  },
-  {
-    id: 'urgent',
-    title: 'Urgent Action Required',
-    description: 'For significantly overdue payments',
-    color: 'red',
-    icon: '❗',
-    daysBeforeDue: -7,
-    crsThreshold: 0
-  }
-];
-
 export default function ChatPage() {
   const location = useLocation();
   const [clients, setClients] = useState<Client[]>([]);
@@ -92,9 +48,11 @@ export default function ChatPage() {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const { allows } = useNotificationPreferences();
   const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
   const [isReminderOpen, setIsReminderOpen] = useState(false);
   const [generatingReminder, setGeneratingReminder] = useState(false);
+  const [pendingReminder, setPendingReminder] = useState<MessagePayload<'reminder'> | null>(null);
 
   useEffect(() => {
     const fetchCurrentUser = async () => {
@@ -116,9 +74,11 @@ export default function ChatPage() {
         }
       }
     });
-  }, []);
+  }, [location.key]);
 
   useEffect(() => {
+    setPendingReminder(null);
+
     if (selectedClient) {
       fetchMessages(selectedClient.contact.id);
 
@@ -140,14 +100,17 @@ export default function ChatPage() {
                 senderId: payload.new.sender_id,
                 isRead: payload.new.is_read,
                 createdAt: payload.new.created_at,
-                documentUrl: payload.new.document_url,
-                documentName: payload.new.document_name,
+                messageType: payload.new.message_type,
+                payload: payload.new.payload,
                 liaisonId: payload.new.liaison_id,
               };
               setMessages(prev => [...prev, newMessage]);
               scrollToBottom();
 
-              if (payload.new.sender_id !== currentUserId) {
+              if (
+                payload.new.sender_id !== currentUserId
+                && allows('in_app', messageNotificationEvent(payload.new.message_type))
+              ) {
                 showChatNotification({
                   senderName: selectedClient.name,
                   message: payload.new.content,
@@ -168,7 +131,7 @@ export default function ChatPage() {
         messageSubscription.unsubscribe();
       };
     }
-  }, [selectedClient, currentUserId]);
+  }, [selectedClient, currentUserId, allows]);
 
   useEffect(() => {
     scrollToBottom();
@@ -294,8 +257,8 @@ export default function ChatPage() {
         senderId: msg.sender_id,
         isRead: msg.is_read,
         createdAt: msg.created_at,
-        documentUrl: msg.document_url,
-        documentName: msg.document_name,
+        messageType: msg.message_type,
+        payload: msg.payload,
         liaisonId: msg.liaison_id,
       }));
 
@@ -321,10 +284,13 @@ export default function ChatPage() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      // A generated reminder is sent as a reminder message with the edited text
       const messageData = {
         liaison_id: selectedClient.contact.id,
         sender_id: user.id,
-        content: newMessage.trim(),
+        ...(pendingReminder
+          ? buildMessage('reminder', pendingReminder, newMessage.trim())
+          : { content: newMessage.trim() }),
         is_read: false,
       };
 
@@ -335,6 +301,7 @@ export default function ChatPage() {
       if (error) throw error;
 
       setNewMessage('');
+      setPendingReminder(null);
     } catch (error) {
       console.error('Error sending message:', error);
       toast.error('Failed to send message');
@@ -366,7 +333,7 @@ export default function ChatPage() {
         .insert({
           liaison_id: selectedClient.contact.id,
           sender_id: user.id,
-          content: `Shared document: ${file.name}`,
+          ...buildMessage('document', { url: fileUrl, name: file.name }),
           document_url: fileUrl,
           document_name: file.name,
           is_read: false,
@@ -387,66 +354,28 @@ export default function ChatPage() {
     try {
       setGeneratingReminder(true);
 
-      // Get client's payment data
-      const { data: transactions, error: transactionError } = await supabase
-        .from('transactions')
-        .select(`
-          amount,
-          due_date,
-          status,
-          payment_type,
-          payment_number,
-          payment_consistency_score,
-          risk_level
-        `)
-        .eq('status', 'pending')
-        .order('due_date', { ascending: true })
-        .limit(1);
-
-      if (transactionError) throw transactionError;
-
-      // Get client's CRS score
-      const { data: liaison, error: liaisonError } = await supabase
-        .from('liaisons')
-        .select('crs_score')
-        .eq('id', client.contact.id)
-        .single();
-
-      if (liaisonError) throw liaisonError;
+      // Client's next open installment and the values the templates use
+      const variables = await getReminderPreviewVariables(client.contact.id);
 
-      const crsScore = liaison.crs_score;
-      const transaction = transactions?.[0];
-
-      if (!transaction) {
+      if (!variables) {
         toast.error('No pending payments found');
         return;
       }
 
-      // Determine reminder level based on CRS score and due date
-      const daysUntilDue = Math.ceil(
-        (new Date(transaction.due_date).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)
-      );
-
-      let reminderLevel: ReminderLevel;
-      if (daysUntilDue > 5 && crsScore >= 85) {
-        reminderLevel = REMINDER_LEVELS[0]; // Friendly
-      } else if (daysUntilDue > 0 && crsScore >= 75) {
-        reminderLevel = REMINDER_LEVELS[1]; // Approaching
-      } else if (daysUntilDue > -7) {
-        reminderLevel = REMINDER_LEVELS[2]; // Overdue
-      } else {
-        reminderLevel = REMINDER_LEVELS[3]; // Urgent
-      }
+      // Same level the scheduled job would pick
+      const reminderLevel = await reminderLevelFor(variables.daysUntilDue, variables.crsScore);
 
-      // Generate personalized message
-      const message = generatePersonalizedMessage(
-        client.contact.fullName,
-        transaction,
-        reminderLevel,
-        crsScore
-      );
+      // Render the firm's wording for the level
+      const templates = await getReminderTemplates(variables.firmId);
+      const { body } = renderReminderTemplate(templates[reminderLevel.id], variables);
 
-      setNewMessage(message);
+      setNewMessage(body);
+      setPendingReminder({
+        level: reminderLevel.id,
+        transactionId: variables.transactionId,
+        amount: variables.amount,
+        dueDate: variables.dueDate,
+      });
       setIsReminderOpen(false);
     } catch (error) {
       console.error('Error generating reminder:', error);
@@ -456,82 +385,6 @@ export default function ChatPage() {
     }
   };
 
-  const generatePersonalizedMessage = (
-    clientName: string,
-    transaction: any,
-    level: ReminderLevel,
-    crsScore: number
-  ): string => {
-    const dueDate = new Date(transaction.due_date).toLocaleDateString();
-    const amount = transaction.amount.toLocaleString();
-    const isOverdue = new Date(transaction.due_date) < new Date();
-
-    const greetings = [
-      'Hi',
-      'Hello',
-      'Good day',
-      'Greetings'
-    ];
-
-    const greeting = greetings[Math.floor(Math.random() * greetings.length)];
-    const firstName = clientName.split(' ')[0];
-
-    switch (level.id) {
-      case 'friendly':
-        return `${greeting} ${firstName},
-
-I hope this message finds you well! Just a friendly reminder about the upcoming payment of $${amount} due on ${dueDate}. 
-
-Your excellent payment history is greatly appreciated, and we're happy to continue providing our services to valued clients like you.
-
-Best regards`;
-
-      case 'approaching':
-        return `${greeting} ${firstName},
-
-This is a courtesy reminder that a payment of $${amount} is due on ${dueDate}.
-
-Please ensure the payment is processed before the due date to maintain your good standing. If you have any questions, don't hesitate to reach out.
-
-Thank you for your attention to this matter.
-
-Best regards`;
-
-      case 'overdue':
-        return `${greeting} ${firstName},
-
-I'm writing to bring to your attention that the payment of $${amount} was due on ${dueDate}. 
-
-Please process this payment as soon as possible to avoid any impact on your credit score. If you're experiencing any difficulties, we're happy to discuss payment arrangements.
-
-Thank you for your prompt attention to this matter.
-
-Regards`;
-
-      case 'urgent':
-        return `Dear ${clientName},
-
-This is an urgent notice regarding the overdue payment of $${amount} from ${dueDate}.
-
-Immediate action is required to process this payment and prevent any further impact on your account standing. If you're facing any challenges, please contact us immediately to discuss payment options.
-
-Your immediate attention to this matter is greatly appreciated.
-
-Regards`;
-
-      default:
-        return `${greeting} ${firstName},
-
-This is a reminder about the payment of $${amount} due on ${dueDate}.
-
-Please ensure timely payment to maintain your account in good standing.
-
-Thank you for your attention to this matter.
-
-Best regards`;
-    }
-  };
-
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -563,10 +416,10 @@ Best regards`;
         <div className="overflow-y-auto h-[calc(100%-4rem)]">
           {clients.map(client => (
             <button
-              key={client.id}
+              key={client.contact.id}
               onClick={() => setSelectedClient(client)}
               className={`w-full p-4 text-left hover:bg-gray-50 transition-colors duration-200 ${
-                selectedClient?.id === client.id ? 'bg-indigo-50' : ''
+                selectedClient?.contact.id === client.contact.id ? 'bg-indigo-50' : ''
               }`}
             >
               <div className="flex justify-between items-start">
@@ -619,6 +472,8 @@ Best regards`;
               </div>
             </div>
 
+            <PaymentProofReview liaisonId={selectedClient.contact.id} />
+
             {/* Messages */}
             <div className="flex-1 overflow-y-auto p-4">
               <div className="space-y-4">
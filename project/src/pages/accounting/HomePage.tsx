@@ -1,10 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { Calendar, DollarSign, MessageSquare, AlertCircle, UserPlus } from 'lucide-react';
+import { Calendar, DollarSign, MessageSquare, AlertCircle, UserPlus, Upload } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import AddClientModal from '../../components/AddClientModal';
+import ClientImportWizard from '../../components/ClientImportWizard';
 import ConnectButton from '../../components/ConnectButton';
+import RecordPaymentModal from '../../components/RecordPaymentModal';
+import { RISK_STYLES, RiskLevel } from '../../lib/crs';
+import { getNextInstallments, NextInstallment } from '../../lib/analytics';
+import { pickLiaison } from '../../lib/liaisons';
+import { usePermissions } from '../../contexts/PermissionsContext';
 
 interface Client {
   id: string;
@@ -16,17 +22,16 @@ interface Client {
   initiatedBy: 'client' | 'accountant';
   liaisonId?: string;
   crsScore: number;
-  payment: {
-    amount: number;
-    dueDate: string;
-    description: string;
-    status: 'pending' | 'paid' | 'overdue';
-  };
+  riskLevel: RiskLevel;
+  payment: NextInstallment | null;
 }
 
 export default function HomePage() {
   const navigate = useNavigate();
+  const { can } = usePermissions();
   const [isAddClientModalOpen, setIsAddClientModalOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [paymentClient, setPaymentClient] = useState<Client | null>(null);
   const [clients, setClients] = useState<Client[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -91,7 +96,11 @@ export default function HomePage() {
           ),
           liaisons (
             id,
-            crs_score
+            is_primary,
+            accountant_id,
+            client_id,
+            crs_score,
+            risk_level
           )
         `)
         .eq('accounting_firm_id', accountantData.company_id);
@@ -103,8 +112,13 @@ export default function HomePage() {
         return;
       }
 
+      const nextInstallments = await getNextInstallments(
+        relationships.flatMap(rel => rel.liaisons.map(liaison => liaison.id))
+      );
+
       const formattedClients = relationships.map((rel: any) => {
         const primaryContact = rel.client_firm?.users?.[0] || {};
+        const liaison = pickLiaison(rel.liaisons as { id: string; is_primary: boolean; accountant_id: string; crs_score: number; risk_level: RiskLevel }[], user.id);
         return {
           id: rel.client_firm?.id,
           companyName: rel.client_firm?.name || 'Unknown Company',
@@ -113,14 +127,10 @@ export default function HomePage() {
           relationshipId: rel.id,
           verificationStatus: rel.verification_status || 'pending',
           initiatedBy: rel.initiated_by || 'accountant',
-          liaisonId: rel.liaisons[0]?.id,
-          crsScore: rel.liaisons[0]?.crs_score || 85,
-          payment: {
-            amount: Math.floor(Math.random() * 3000) + 1000,
-            dueDate: new Date(Date.now() + Math.random() * 10 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-            status: Math.random() > 0.3 ? 'pending' : 'overdue',
-            description: 'Monthly Services',
-          },
+          liaisonId: liaison?.id,
+          crsScore: liaison?.crs_score ?? 85,
+          riskLevel: liaison?.risk_level || 'low',
+          payment: (liaison && nextInstallments[liaison.id]) || null,
         };
       }).filter(client => client.id && client.companyName !== 'Unknown Company');
 
@@ -182,15 +192,28 @@ export default function HomePage() {
         <h1 className="text-3xl font-bold text-gray-900">
           {clients.length > 0 ? 'Client Payments' : 'Welcome to AccountFlow'}
         </h1>
-        <motion.button
-          whileHover={{ scale: 1.02 }}
-          whileTap={{ scale: 0.98 }}
-          onClick={() => setIsAddClientModalOpen(true)}
-          className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors duration-200 shadow-sm"
-        >
-          <UserPlus className="h-5 w-5 mr-2" />
-          Add New Client
-        </motion.button>
+        {can('clients.create') && (
+          <div className="flex space-x-3">
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => setIsImportOpen(true)}
+              className="flex items-center px-4 py-2 bg-white text-indigo-600 border border-indigo-600 rounded-lg hover:bg-indigo-50 transition-colors duration-200 shadow-sm"
+            >
+              <Upload className="h-5 w-5 mr-2" />
+              Import Clients
+            </motion.button>
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => setIsAddClientModalOpen(true)}
+              className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors duration-200 shadow-sm"
+            >
+              <UserPlus className="h-5 w-5 mr-2" />
+              Add New Client
+            </motion.button>
+          </div>
+        )}
       </div>
 
       {clients.length === 0 ? (
@@ -202,7 +225,7 @@ export default function HomePage() {
           <UserPlus className="h-12 w-12 mx-auto text-gray-400 mb-4" />
           <h2 className="text-xl font-semibold text-gray-900 mb-2">No Clients Yet</h2>
           <p className="text-gray-600 mb-6">
-            Get started by adding your first client using the button above.
+            Get started by adding your first client, or import your client list, using the buttons above.
           </p>
         </motion.div>
       ) : (
@@ -221,11 +244,7 @@ export default function HomePage() {
                     <h3 className="text-xl font-semibold text-gray-900">
                       {client.companyName}
                     </h3>
-                    <span className={`px-3 py-1 rounded-full text-sm ${
-                      client.crsScore >= 80 ? 'bg-green-100 text-green-800' :
-                      client.crsScore >= 70 ? 'bg-yellow-100 text-yellow-800' :
-                      'bg-red-100 text-red-800'
-                    }`}>
+                    <span className={`px-3 py-1 rounded-full text-sm ${RISK_STYLES[client.riskLevel].badge}`}>
                       CRS: {client.crsScore}
                     </span>
                   </div>
@@ -256,25 +275,32 @@ export default function HomePage() {
                     <>
                       <div className="flex items-center justify-between mb-4">
                         <h4 className="text-lg font-medium text-gray-900">Payment Details</h4>
-                        <span className={`flex items-center ${
-                          client.payment.status === 'overdue' ? 'text-red-600' : 'text-gray-600'
-                        }`}>
-                          {client.payment.status === 'overdue' && <AlertCircle className="h-4 w-4 mr-1" />}
-                          {client.payment.status.charAt(0).toUpperCase() + client.payment.status.slice(1)}
-                        </span>
-                      </div>
-                      <div className="space-y-3">
-                        <div className="flex items-center text-gray-600">
-                          <DollarSign className="h-5 w-5 mr-2" />
-                          <span className="text-lg font-medium">
-                            ${client.payment.amount.toLocaleString()}
+                        {client.payment && (
+                          <span className={`flex items-center ${
+                            client.payment.status === 'overdue' ? 'text-red-600' : 'text-gray-600'
+                          }`}>
+                            {client.payment.status === 'overdue' && <AlertCircle className="h-4 w-4 mr-1" />}
+                            {client.payment.status.charAt(0).toUpperCase() + client.payment.status.slice(1)}
                           </span>
-                        </div>
-                        <div className="flex items-center text-gray-600">
-                          <Calendar className="h-5 w-5 mr-2" />
-                          <span>Due: {new Date(client.payment.dueDate).toLocaleDateString()}</span>
-                        </div>
+                        )}
                       </div>
+                      {client.payment ? (
+                        <div className="space-y-3">
+                          <div className="flex items-center text-gray-600">
+                            <DollarSign className="h-5 w-5 mr-2" />
+                            <span className="text-lg font-medium">
+                              ${client.payment.outstanding.toLocaleString()}
+                            </span>
+                            <span className="ml-2 text-sm text-gray-500">{client.payment.description}</span>
+                          </div>
+                          <div className="flex items-center text-gray-600">
+                            <Calendar className="h-5 w-5 mr-2" />
+                            <span>Due: {new Date(client.payment.dueDate).toLocaleDateString()}</span>
+                          </div>
+                        </div>
+                      ) : (
+                        <p className="text-sm text-gray-500">No open installments</p>
+                      )}
                       <div className="mt-4 flex space-x-3">
                         <motion.button
                           whileHover={{ scale: 1.02 }}
@@ -284,6 +310,15 @@ export default function HomePage() {
                         >
                           Send Reminder
                         </motion.button>
+                        <motion.button
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.98 }}
+                          onClick={() => setPaymentClient(client)}
+                          disabled={!client.liaisonId}
+                          className="flex-1 px-4 py-2 border border-indigo-200 text-indigo-600 rounded-lg hover:bg-indigo-50 transition-colors duration-200 disabled:opacity-50"
+                        >
+                          Record Payment
+                        </motion.button>
                         <motion.button
                           whileHover={{ scale: 1.02 }}
                           whileTap={{ scale: 0.98 }}
@@ -313,6 +348,22 @@ export default function HomePage() {
         onClose={() => setIsAddClientModalOpen(false)}
         onSuccess={handleAddClientSuccess}
       />
+
+      <ClientImportWizard
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onSuccess={fetchClients}
+      />
+
+      {paymentClient?.liaisonId && (
+        <RecordPaymentModal
+          isOpen={true}
+          onClose={() => setPaymentClient(null)}
+          onSuccess={fetchClients}
+          liaisonId={paymentClient.liaisonId}
+          clientName={paymentClient.companyName}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,276 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Loader2, AlertCircle, Bell, BellOff, Mail, Clock } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../../lib/supabase';
+import {
+  getUpcomingReminders,
+  getSentReminders,
+  setRemindersPaused,
+  getReminderLevel,
+  REMINDER_LEVEL_STYLES,
+  ReminderLevelId,
+  UpcomingReminder,
+  SentReminder,
+} from '../../lib/reminders';
+
+interface ClientReminderSettings {
+  liaisonId: string;
+  companyName: string;
+  clientName: string;
+  paused: boolean;
+}
+
+interface LiaisonRow {
+  id: string;
+  reminders_paused: boolean;
+  company_relationship: { client_firm: { name: string } | null } | null;
+  client: { full_name: string } | null;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+
+const formatTiming = (daysUntilDue: number) => {
+  if (daysUntilDue > 0) return `Due in ${daysUntilDue} day${daysUntilDue === 1 ? '' : 's'}`;
+  if (daysUntilDue === 0) return 'Due today';
+  return `${-daysUntilDue} day${daysUntilDue === -1 ? '' : 's'} overdue`;
+};
+
+function LevelBadge({ level }: { level: ReminderLevelId }) {
+  return (
+    <span className={`px-2 py-1 rounded-full text-xs font-medium ${REMINDER_LEVEL_STYLES[level]}`}>
+      {getReminderLevel(level).title}
+    </span>
+  );
+}
+
+export default function RemindersPage() {
+  const [upcoming, setUpcoming] = useState<UpcomingReminder[]>([]);
+  const [sent, setSent] = useState<SentReminder[]>([]);
+  const [clients, setClients] = useState<ClientReminderSettings[]>([]);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchReminders = async () => {
+      try {
+        setLoading(true);
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+
+        const [upcomingReminders, sentReminders, liaisons] = await Promise.all([
+          getUpcomingReminders(user.id),
+          getSentReminders(),
+          supabase
+            .from('liaisons')
+            .select(`
+              id,
+              reminders_paused,
+              company_relationship:company_relationships(
+                client_firm:client_firm_id(name)
+              ),
+              client:client_id(full_name)
+            `)
+            .eq('accountant_id', user.id),
+        ]);
+
+        if (liaisons.error) throw liaisons.error;
+
+        setUpcoming(upcomingReminders);
+        setSent(sentReminders);
+        // PostgREST returns the to-one embeds as objects
+        setClients((liaisons.data as unknown as LiaisonRow[]).map(liaison => ({
+          liaisonId: liaison.id,
+          companyName: liaison.company_relationship?.client_firm?.name || 'Unknown company',
+          clientName: liaison.client?.full_name || 'Unknown contact',
+          paused: liaison.reminders_paused,
+        })));
+      } catch (err) {
+        console.error('Error fetching reminders:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load reminders');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReminders();
+  }, []);
+
+  const togglePaused = async (client: ClientReminderSettings) => {
+    try {
+      setUpdating(client.liaisonId);
+      await setRemindersPaused(client.liaisonId, !client.paused);
+
+      setClients(prev => prev.map(item =>
+        item.liaisonId === client.liaisonId ? { ...item, paused: !client.paused } : item
+      ));
+      // Paused clients drop out of the next run
+      if (!client.paused) {
+        setUpcoming(prev => prev.filter(item => item.liaisonId !== client.liaisonId));
+      }
+
+      toast.success(client.paused
+        ? `Reminders resumed for ${client.companyName}`
+        : `Reminders paused for ${client.companyName}`);
+    } catch (err) {
+      console.error('Error updating reminder settings:', err);
+      toast.error('Failed to update reminder settings');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Payment Reminders</h1>
+        <p className="text-gray-600">Reminders are posted to your clients' chats automatically every day</p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center text-red-700">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Next Run */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white rounded-xl shadow-sm p-6"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">Going Out Next</h2>
+              <Clock className="h-5 w-5 text-gray-400" />
+            </div>
+            {upcoming.length === 0 ? (
+              <p className="text-center text-gray-500 py-4">No reminders due</p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {upcoming.map(reminder => (
+                  <div key={`${reminder.transactionId}-${reminder.level}`} className="flex items-center justify-between py-3">
+                    <div>
+                      <p className="font-medium text-gray-900">{reminder.clientName}</p>
+                      <p className="text-sm text-gray-500">
+                        {reminder.description} · {formatCurrency(reminder.amount)} · {formatTiming(reminder.daysUntilDue)}
+                      </p>
+                    </div>
+                    <LevelBadge level={reminder.level} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </motion.div>
+
+          {/* Sent */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+            className="bg-white rounded-xl shadow-sm p-6"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">Sent</h2>
+              <Bell className="h-5 w-5 text-gray-400" />
+            </div>
+            {sent.length === 0 ? (
+              <p className="text-center text-gray-500 py-4">No reminders sent yet</p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {sent.map(reminder => (
+                  <div key={reminder.id} className="flex items-center justify-between py-3">
+                    <div>
+                      <p className="font-medium text-gray-900">{reminder.clientName}</p>
+                      <p className="text-sm text-gray-500">
+                        {reminder.description} · {formatCurrency(reminder.amount)} · {formatTiming(reminder.daysUntilDue)}
+                      </p>
+                      <p className="text-xs text-gray-400 flex items-center mt-1">
+                        {new Date(reminder.sentAt).toLocaleString()}
+                        {reminder.emailedAt && (
+                          <span className="flex items-center ml-2 text-green-600">
+                            <Mail className="h-3 w-3 mr-1" />
+                            Emailed
+                          </span>
+                        )}
+                        {reminder.emailError && (
+                          <span className="flex items-center ml-2 text-red-600" title={reminder.emailError}>
+                            <Mail className="h-3 w-3 mr-1" />
+                            Email failed
+                          </span>
+                        )}
+                      </p>
+                    </div>
+                    <LevelBadge level={reminder.level} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </motion.div>
+        </div>
+
+        {/* Per-client Settings */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+          className="bg-white rounded-xl shadow-sm p-6 h-fit"
+        >
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Clients</h2>
+          {clients.length === 0 ? (
+            <p className="text-center text-gray-500 py-4">No clients yet</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {clients.map(client => (
+                <div key={client.liaisonId} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className="font-medium text-gray-900">{client.companyName}</p>
+                    <p className="text-sm text-gray-500">{client.clientName}</p>
+                  </div>
+                  <button
+                    onClick={() => togglePaused(client)}
+                    disabled={updating === client.liaisonId}
+                    className={`flex items-center px-3 py-1.5 rounded-lg text-sm border transition-colors duration-200 disabled:opacity-50 ${
+                      client.paused
+                        ? 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                        : 'border-indigo-200 text-indigo-700 bg-indigo-50 hover:bg-indigo-100'
+                    }`}
+                  >
+                    {client.paused ? (
+                      <>
+                        <BellOff className="h-4 w-4 mr-1" />
+                        Paused
+                      </>
+                    ) : (
+                      <>
+                        <Bell className="h-4 w-4 mr-1" />
+                        Active
+                      </>
+                    )}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </motion.div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,454 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle, ExternalLink, FileText, Loader2, Receipt, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../../lib/supabase';
+import { PAYMENT_METHODS } from '../../lib/payments';
+import {
+  getReviewQueue,
+  reviewClientRecords,
+  waitingDays,
+  getReviewSlaDays,
+  saveReviewSlaDays,
+  REVIEW_SLA_OPTIONS,
+  RECORD_STATUS_STYLES,
+  RecordType,
+  ReviewDecision,
+  ReviewQueueItem,
+} from '../../lib/clientRecords';
+
+const TYPE_LABELS: Record<RecordType, string> = {
+  invoice: 'Invoice',
+  payment_proof: 'Proof of payment',
+};
+
+// Minimum days waiting, for the age filter; the SLA replaces a fixed step it equals
+const ageFilters = (slaDays: number) => [
+  { minDays: 0, label: 'Any age' },
+  ...[1, 7]
+    .filter(days => days !== slaDays)
+    .map(days => ({ minDays: days, label: `Waiting ${days}+ days` })),
+  { minDays: slaDays, label: `Past SLA (${slaDays}+ days)` },
+].sort((a, b) => a.minDays - b.minDays);
+
+const methodLabel = (method: string | null) =>
+  PAYMENT_METHODS.find(option => option.id === method)?.label ?? 'Unknown method';
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString();
+
+function previewKind(url: string) {
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase();
+  if (extension && ['png', 'jpg', 'jpeg'].includes(extension)) return 'image';
+  if (extension === 'pdf') return 'pdf';
+  return 'none';
+}
+
+function FilePreview({ url }: { url: string }) {
+  const kind = previewKind(url);
+
+  if (kind === 'image') {
+    return <img src={url} alt="Uploaded record" className="w-full max-h-96 object-contain rounded-lg bg-gray-50" />;
+  }
+
+  if (kind === 'pdf') {
+    return <iframe src={url} title="Uploaded record" className="w-full h-96 rounded-lg border border-gray-200" />;
+  }
+
+  return (
+    <div className="h-32 flex items-center justify-center rounded-lg bg-gray-50 text-sm text-gray-500">
+      No preview for this file type
+    </div>
+  );
+}
+
+export default function ReviewQueuePage() {
+  const [items, setItems] = useState<ReviewQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [clientFilter, setClientFilter] = useState('all');
+  const [typeFilter, setTypeFilter] = useState<RecordType | 'all'>('all');
+  const [minDays, setMinDays] = useState(0);
+  const [slaDays, setSlaDays] = useState(getReviewSlaDays);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [comment, setComment] = useState('');
+  const [deciding, setDeciding] = useState(false);
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      setError(null);
+      const queue = await getReviewQueue();
+      setItems(queue);
+      setSelectedIds(current => new Set(queue.filter(item => current.has(item.id)).map(item => item.id)));
+    } catch (err) {
+      console.error('Error fetching review queue:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load the review queue');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchQueue();
+
+    const subscription = supabase
+      .channel('record-review-queue')
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'client_records',
+      }, () => {
+        fetchQueue();
+      })
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [fetchQueue]);
+
+  const clients = Array.from(
+    new Map(items.map(item => [item.clientCompanyId, item.clientCompanyName])).entries()
+  ).sort((a, b) => a[1].localeCompare(b[1]));
+
+  const visible = items.filter(item =>
+    (clientFilter === 'all' || item.clientCompanyId === clientFilter)
+    && (typeFilter === 'all' || item.type === typeFilter)
+    && waitingDays(item.createdAt) >= minDays
+  );
+
+  const overdueCount = items.filter(item => waitingDays(item.createdAt) >= slaDays).length;
+  const preview = items.find(item => item.id === previewId) ?? null;
+  const allVisibleSelected = visible.length > 0 && visible.every(item => selectedIds.has(item.id));
+
+  const changeSlaDays = (days: number) => {
+    saveReviewSlaDays(days);
+    if (minDays === slaDays) {
+      setMinDays(days);
+    }
+    setSlaDays(days);
+  };
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const toggleAllVisible = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(visible.map(item => item.id)));
+  };
+
+  const decide = async (recordIds: string[], decision: ReviewDecision) => {
+    if (decision === 'reject' && !comment.trim()) {
+      toast.error('Add a comment telling the client why');
+      return;
+    }
+
+    try {
+      setDeciding(true);
+      const results = await reviewClientRecords(recordIds, decision, comment);
+      const failed = results.filter(result => result.errorMessage);
+      const decided = results.length - failed.length;
+
+      if (decided > 0) {
+        toast.success(`${decided} record${decided === 1 ? '' : 's'} ${decision === 'approve' ? 'approved' : 'rejected'}`);
+        setComment('');
+      }
+      failed.forEach(result => toast.error(result.errorMessage ?? 'Failed to review a record'));
+
+      if (previewId && results.some(result => result.recordId === previewId && !result.errorMessage)) {
+        setPreviewId(null);
+      }
+      await fetchQueue();
+    } catch (err) {
+      console.error('Error reviewing records:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to review the records');
+    } finally {
+      setDeciding(false);
+    }
+  };
+
+  const waitingBadge = (item: ReviewQueueItem) => {
+    const days = waitingDays(item.createdAt);
+    const late = days >= slaDays;
+    return (
+      <span className={`inline-flex items-center px-2 py-0.5 text-xs rounded-full ${
+        late ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-700'
+      }`}>
+        {late && <AlertTriangle className="h-3 w-3 mr-1" />}
+        {days === 0 ? 'Today' : `${days} day${days === 1 ? '' : 's'}`}
+      </span>
+    );
+  };
+
+  return (
+    <div className="py-8">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Review Queue</h1>
+          <p className="text-gray-600">Invoices and proofs of payment uploaded by your clients</p>
+        </div>
+        <div className="flex space-x-4 text-sm">
+          <div className="bg-white rounded-xl shadow-sm px-4 py-2">
+            <p className="text-gray-500">Waiting</p>
+            <p className="text-xl font-bold text-gray-900">{items.length}</p>
+          </div>
+          <div className={`rounded-xl shadow-sm px-4 py-2 ${overdueCount > 0 ? 'bg-red-50' : 'bg-white'}`}>
+            <p className={overdueCount > 0 ? 'text-red-700' : 'text-gray-500'}>Past {slaDays}-day SLA</p>
+            <p className={`text-xl font-bold ${overdueCount > 0 ? 'text-red-700' : 'text-gray-900'}`}>{overdueCount}</p>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center text-red-700">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <select
+          value={clientFilter}
+          onChange={(e) => setClientFilter(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          <option value="all">All clients</option>
+          {clients.map(([id, name]) => (
+            <option key={id} value={id}>{name}</option>
+          ))}
+        </select>
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value as RecordType | 'all')}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          <option value="all">Invoices and proofs</option>
+          <option value="invoice">Invoices</option>
+          <option value="payment_proof">Proofs of payment</option>
+        </select>
+        <select
+          value={minDays}
+          onChange={(e) => setMinDays(Number(e.target.value))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          {ageFilters(slaDays).map(filter => (
+            <option key={filter.minDays} value={filter.minDays}>{filter.label}</option>
+          ))}
+        </select>
+        <select
+          value={slaDays}
+          onChange={(e) => changeSlaDays(Number(e.target.value))}
+          title="Records waiting this long are flagged"
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          {REVIEW_SLA_OPTIONS.map(days => (
+            <option key={days} value={days}>SLA: {days} day{days === 1 ? '' : 's'}</option>
+          ))}
+        </select>
+      </div>
+
+      {selectedIds.size > 0 && (
+        <div className="mb-4 p-4 bg-indigo-50 border border-indigo-200 rounded-lg flex flex-wrap items-center gap-3">
+          <span className="text-sm font-medium text-indigo-900">{selectedIds.size} selected</span>
+          <input
+            type="text"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Comment for the clients (required to reject)"
+            className="flex-1 min-w-[16rem] px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <button
+            onClick={() => decide(Array.from(selectedIds), 'reject')}
+            disabled={deciding}
+            className="flex items-center px-3 py-2 text-sm border border-red-300 text-red-600 bg-white rounded-lg hover:bg-red-50 disabled:opacity-50"
+          >
+            <XCircle className="h-4 w-4 mr-1" />
+            Reject Selected
+          </button>
+          <button
+            onClick={() => decide(Array.from(selectedIds), 'approve')}
+            disabled={deciding}
+            className="flex items-center px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+          >
+            {deciding ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-1" />}
+            Approve Selected
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+        </div>
+      ) : (
+        <div className="grid lg:grid-cols-5 gap-6">
+          <div className="lg:col-span-3 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="px-4 py-3 text-left">
+                    <input
+                      type="checkbox"
+                      checked={allVisibleSelected}
+                      onChange={toggleAllVisible}
+                      aria-label="Select all"
+                      className="rounded text-indigo-600 focus:ring-indigo-500"
+                    />
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Record</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Client</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Waiting</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {visible.map(item => (
+                  <tr
+                    key={item.id}
+                    onClick={() => setPreviewId(item.id)}
+                    className={`cursor-pointer ${previewId === item.id ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <td className="px-4 py-3" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(item.id)}
+                        onChange={() => toggleSelected(item.id)}
+                        aria-label="Select record"
+                        className="rounded text-indigo-600 focus:ring-indigo-500"
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      <div className="flex items-center">
+                        {item.type === 'payment_proof'
+                          ? <Receipt className="h-4 w-4 mr-2 text-gray-400" />
+                          : <FileText className="h-4 w-4 mr-2 text-gray-400" />}
+                        {TYPE_LABELS[item.type]}
+                        {item.amount !== null && (
+                          <span className="ml-1 font-medium">${item.amount.toLocaleString()}</span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <p className="text-gray-900">{item.clientCompanyName}</p>
+                      <p className="text-gray-500">{item.uploadedBy}</p>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-0.5 text-xs rounded-full ${RECORD_STATUS_STYLES[item.status].badge}`}>
+                        {RECORD_STATUS_STYLES[item.status].label}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">{waitingBadge(item)}</td>
+                  </tr>
+                ))}
+                {visible.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                      {items.length === 0 ? 'Nothing waiting for review.' : 'No records match these filters.'}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            {preview ? (
+              <div className="space-y-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">{TYPE_LABELS[preview.type]}</h2>
+                    <p className="text-sm text-gray-500">
+                      {preview.clientCompanyName}, uploaded by {preview.uploadedBy ?? 'unknown'} on{' '}
+                      {new Date(preview.createdAt).toLocaleDateString()}
+                    </p>
+                    {preview.accountantName && (
+                      <p className="text-sm text-gray-500">Liaison: {preview.accountantName}</p>
+                    )}
+                  </div>
+                  {waitingBadge(preview)}
+                </div>
+
+                {preview.fileUrl && <FilePreview url={preview.fileUrl} />}
+
+                <div className="flex space-x-4 text-sm">
+                  {preview.fileUrl && (
+                    <a
+                      href={preview.fileUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center text-indigo-600 hover:text-indigo-900"
+                    >
+                      Open file
+                      <ExternalLink className="h-4 w-4 ml-1" />
+                    </a>
+                  )}
+                  {preview.attachmentUrl && (
+                    <a
+                      href={preview.attachmentUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center text-indigo-600 hover:text-indigo-900"
+                    >
+                      Attached proof
+                      <ExternalLink className="h-4 w-4 ml-1" />
+                    </a>
+                  )}
+                </div>
+
+                {preview.type === 'payment_proof' && (
+                  <div className="text-sm text-gray-700 space-y-1">
+                    <p>
+                      ${preview.amount?.toLocaleString()} by {methodLabel(preview.method)}
+                      {preview.paymentDate && `, paid ${formatDate(preview.paymentDate)}`}
+                    </p>
+                    <ul className="list-disc list-inside text-gray-500">
+                      {preview.installments.map(installment => (
+                        <li key={installment.id}>
+                          {installment.description}: payment {installment.paymentNumber}, due {formatDate(installment.dueDate)}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <textarea
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  rows={3}
+                  placeholder="Comment for the client (required to reject)"
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <div className="flex justify-end space-x-2">
+                  <button
+                    onClick={() => decide([preview.id], 'reject')}
+                    disabled={deciding}
+                    className="flex items-center px-4 py-2 text-sm border border-red-300 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Reject
+                  </button>
+                  <button
+                    onClick={() => decide([preview.id], 'approve')}
+                    disabled={deciding}
+                    className="flex items-center px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                  >
+                    {deciding ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-1" />}
+                    {preview.type === 'payment_proof' ? 'Confirm Payment' : 'Approve'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 text-center py-12">Select a record to preview it.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
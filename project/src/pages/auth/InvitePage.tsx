@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { AlertCircle, Loader2, Mail } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase, getUserRoleAndCompanyType } from '../../lib/supabase';
+import { getInvitationDetails, redeemInvitation, InvitationDetails } from '../../lib/invitations';
+
+const STATUS_MESSAGES = {
+  redeemed: 'This invitation has already been used.',
+  revoked: 'This invitation has been revoked. Ask the sender for a new one.',
+  expired: 'This invitation has expired. Ask the sender for a new one.',
+};
+
+export default function InvitePage() {
+  const { token = '' } = useParams();
+  const navigate = useNavigate();
+  const [details, setDetails] = useState<InvitationDetails | null>(null);
+  const [signedInEmail, setSignedInEmail] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      try {
+        const [invitation, { data: { user } }] = await Promise.all([
+          getInvitationDetails(token),
+          supabase.auth.getUser(),
+        ]);
+        setDetails(invitation);
+        setSignedInEmail(user?.email ?? null);
+      } catch (err) {
+        console.error('Error fetching invitation:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load the invitation');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInvitation();
+  }, [token]);
+
+  const handleAccept = async () => {
+    try {
+      setAccepting(true);
+      setError(null);
+
+      const liaisonId = await redeemInvitation(token);
+      const { data: { user } } = await supabase.auth.getUser();
+      const userInfo = user ? await getUserRoleAndCompanyType(user.id) : null;
+
+      toast.success(`You are now connected with ${details?.inviterCompany}`);
+      navigate(
+        userInfo?.companyType === 'accounting_firm' ? '/accounting/chat' : '/client/chat',
+        { state: { selectedLiaisonId: liaisonId } }
+      );
+    } catch (err) {
+      console.error('Error accepting invitation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to accept the invitation');
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  const wrongAccount = signedInEmail && details
+    && signedInEmail.toLowerCase() !== details.inviteeEmail;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 to-blue-100 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-8">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-blue-600">Yero</h1>
+          <p className="text-gray-600 mt-2">Connection invitation</p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center text-red-700">
+            <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <Loader2 className="h-8 w-8 animate-spin text-indigo-600 mx-auto" />
+        ) : !details ? (
+          <p className="text-center text-gray-600">This invitation link is not valid.</p>
+        ) : details.status !== 'pending' ? (
+          <p className="text-center text-gray-600">{STATUS_MESSAGES[details.status]}</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="text-center">
+              <p className="text-gray-900">
+                <span className="font-medium">{details.inviterName}</span> from{' '}
+                <span className="font-medium">{details.inviterCompany}</span> invited you to connect
+                {details.initiatedBy === 'accountant' ? ' as their client.' : ' as their accountant.'}
+              </p>
+              <p className="mt-2 text-sm text-gray-500 flex items-center justify-center">
+                <Mail className="h-4 w-4 mr-1" />
+                For {details.inviteeEmail}, until {new Date(details.expiresAt).toLocaleDateString()}
+              </p>
+            </div>
+
+            {signedInEmail ? (
+              <>
+                {wrongAccount && (
+                  <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                    You are signed in as {signedInEmail}. Sign in as {details.inviteeEmail} to accept this invitation.
+                  </p>
+                )}
+                <button
+                  onClick={handleAccept}
+                  disabled={accepting || !!wrongAccount}
+                  className="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {accepting ? <Loader2 className="h-5 w-5 animate-spin mx-auto" /> : 'Accept Invitation'}
+                </button>
+              </>
+            ) : (
+              <div className="flex space-x-4">
+                <Link
+                  to={`/signin?invite=${encodeURIComponent(token)}`}
+                  className="flex-1 text-center bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors duration-200"
+                >
+                  Sign In
+                </Link>
+                <Link
+                  to={`/signup?invite=${encodeURIComponent(token)}`}
+                  className="flex-1 text-center bg-white text-indigo-600 py-2 px-4 rounded-lg border border-indigo-600 hover:bg-indigo-50 transition-colors duration-200"
+                >
+                  Create Account
+                </Link>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
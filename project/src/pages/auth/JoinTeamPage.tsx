@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { AlertCircle, Loader2, Lock, Mail, Phone, User } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../../lib/supabase';
+import { ROLE_LABELS } from '../../lib/permissions';
+import { getTeamInvitationDetails, acceptTeamInvitation, TeamInvitationDetails } from '../../lib/team';
+import { usePermissions } from '../../contexts/PermissionsContext';
+
+const STATUS_MESSAGES = {
+  redeemed: 'This invitation has already been used.',
+  revoked: 'This invitation has been revoked. Ask your manager for a new one.',
+  expired: 'This invitation has expired. Ask your manager for a new one.',
+};
+
+export default function JoinTeamPage() {
+  const { token = '' } = useParams();
+  const navigate = useNavigate();
+  const { refresh: refreshPermissions } = usePermissions();
+  const [details, setDetails] = useState<TeamInvitationDetails | null>(null);
+  const [signedInEmail, setSignedInEmail] = useState<string | null>(null);
+  const [form, setForm] = useState({ fullName: '', phoneNumber: '', password: '' });
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      try {
+        const [invitation, { data: { user } }] = await Promise.all([
+          getTeamInvitationDetails(token),
+          supabase.auth.getUser(),
+        ]);
+        setDetails(invitation);
+        setSignedInEmail(user?.email ?? null);
+        setForm(prev => ({ ...prev, fullName: invitation?.inviteeName ?? '' }));
+      } catch (err) {
+        console.error('Error fetching team invitation:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load the invitation');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInvitation();
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!details) return;
+
+    try {
+      setJoining(true);
+      setError(null);
+
+      const { data: authData, error: authError } = await supabase.auth.signUp({
+        email: details.inviteeEmail,
+        password: form.password,
+      });
+
+      if (authError) throw authError;
+      if (!authData.user) throw new Error('No user data returned');
+
+      const companyType = await acceptTeamInvitation(token, form.fullName, form.phoneNumber);
+      await refreshPermissions();
+
+      toast.success(`Welcome to ${details.companyName}`);
+      navigate(companyType === 'accounting_firm' ? '/accounting' : '/client');
+    } catch (err) {
+      console.error('Error joining team:', err);
+      setError(err instanceof Error ? err.message : 'Failed to join the team');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 to-blue-100 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-8">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-blue-600">Yero</h1>
+          <p className="text-gray-600 mt-2">Team invitation</p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center text-red-700">
+            <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <Loader2 className="h-8 w-8 animate-spin text-indigo-600 mx-auto" />
+        ) : !details ? (
+          <p className="text-center text-gray-600">This invitation link is not valid.</p>
+        ) : details.status !== 'pending' ? (
+          <p className="text-center text-gray-600">{STATUS_MESSAGES[details.status]}</p>
+        ) : signedInEmail ? (
+          <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+            You are signed in as {signedInEmail}. Team invitations create a new account for{' '}
+            {details.inviteeEmail}; sign out first to accept it.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <p className="text-center text-gray-900">
+              <span className="font-medium">{details.inviterName}</span> invited you to join{' '}
+              <span className="font-medium">{details.companyName}</span> as{' '}
+              {ROLE_LABELS[details.role].toLowerCase()}.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Email Address
+              </label>
+              <div className="relative">
+                <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+                <input
+                  type="email"
+                  value={details.inviteeEmail}
+                  disabled
+                  className="pl-10 w-full px-4 py-2 border border-gray-300 rounded-lg bg-gray-50"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Full Name
+              </label>
+              <div className="relative">
+                <User className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+                <input
+                  type="text"
+                  value={form.fullName}
+                  onChange={(e) => setForm(prev => ({ ...prev, fullName: e.target.value }))}
+                  className="pl-10 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Phone Number
+              </label>
+              <div className="relative">
+                <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+                <input
+                  type="tel"
+                  value={form.phoneNumber}
+                  onChange={(e) => setForm(prev => ({ ...prev, phoneNumber: e.target.value }))}
+                  className="pl-10 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Password
+              </label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+                <input
+                  type="password"
+                  value={form.password}
+                  onChange={(e) => setForm(prev => ({ ...prev, password: e.target.value }))}
+                  className="pl-10 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  minLength={6}
+                  required
+                />
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={joining}
+              className="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {joining ? <Loader2 className="h-5 w-5 animate-spin mx-auto" /> : 'Create Account and Join'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
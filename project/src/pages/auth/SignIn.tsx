@@ -1,10 +1,12 @@
 import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { Mail, Lock, AlertCircle } from 'lucide-react';
 import { supabase, getUserRoleAndCompanyType } from '../../lib/supabase';
 
 export default function SignIn() {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
@@ -19,9 +21,20 @@ export default function SignIn() {
       return;
     }
 
+    // Deactivated team members keep their account but lose access
+    if (!userInfo.isActive) {
+      await supabase.auth.signOut();
+      setError('Your account has been deactivated. Contact a manager at your company.');
+      setLoading(false);
+      return;
+    }
+
     setSignInSuccess(true);
 
-    if (userInfo.companyType === 'accounting_firm') {
+    // Back to the invitation they signed in to accept
+    if (inviteToken) {
+      navigate(`/invite/${inviteToken}`);
+    } else if (userInfo.companyType === 'accounting_firm') {
       navigate('/accounting');
     } else {
       navigate('/client');
@@ -121,7 +134,7 @@ export default function SignIn() {
 
         <p className="mt-6 text-center text-sm text-gray-600">
           Don't have an account?{' '}
-          <Link to="/signup" className="text-indigo-600 hover:text-indigo-500 font-medium">
+          <Link to={inviteToken ? `/signup?invite=${encodeURIComponent(inviteToken)}` : '/signup'} className="text-indigo-600 hover:text-indigo-500 font-medium">
             Sign up here
           </Link>
         </p>
@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { Building2, Mail, Phone, User, Lock, AlertCircle } from 'lucide-react';
 import { supabase, testDatabaseOperations, getUserRoleAndCompanyType } from '../../lib/supabase';
 import AddClientModal from '../../components/AddClientModal';
+import { getInvitationDetails } from '../../lib/invitations';
 
 type SignUpStep = 'initial' | 'existing_company' | 'new_company' | 'user_details';
 
@@ -22,11 +23,12 @@ interface UserData {
 
 export default function SignUp() {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
   const [step, setStep] = useState<SignUpStep>('initial');
   const [isNewCompany, setIsNewCompany] = useState<boolean | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const [companyId, setCompanyId] = useState<string | null>(null);
   const [registrationSuccess, setRegistrationSuccess] = useState(false);
   const [showAddClientModal, setShowAddClientModal] = useState(false);
 
@@ -48,6 +50,19 @@ export default function SignUp() {
     testDatabaseOperations();
   }, []);
 
+  // Invitations can only be accepted with the address they were sent to
+  useEffect(() => {
+    if (!inviteToken) return;
+
+    getInvitationDetails(inviteToken)
+      .then(invitation => {
+        if (invitation) {
+          setUserData(prev => ({ ...prev, email: invitation.inviteeEmail }));
+        }
+      })
+      .catch(err => console.error('Error fetching invitation:', err));
+  }, [inviteToken]);
+
   const handleRedirect = async (userId: string) => {
     const userInfo = await getUserRoleAndCompanyType(userId);
     
@@ -58,7 +73,9 @@ export default function SignUp() {
 
     setRegistrationSuccess(true);
 
-    if (userInfo.companyType === 'client') {
+    if (inviteToken) {
+      navigate(`/invite/${inviteToken}`);
+    } else if (userInfo.companyType === 'client') {
       setShowAddClientModal(true);
     } else {
       navigate('/accounting');
@@ -70,31 +87,12 @@ export default function SignUp() {
     setStep(usingApp ? 'existing_company' : 'new_company');
   };
 
-  const handleCompanyRegistration = async (e: React.FormEvent) => {
+  // The company is created with the account, once the user has signed up
+  const handleCompanyRegistration = (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
-    setLoading(true);
-
-    try {
-      const { data: company, error: companyError } = await supabase
-        .from('companies')
-        .insert([{
-          name: companyData.name,
-          domain_email: companyData.domainEmail,
-          type: companyData.type,
-        }])
-        .select()
-        .single();
-
-      if (companyError) throw companyError;
-
-      setCompanyId(company.id);
-      setStep('user_details');
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
-    } finally {
-      setLoading(false);
-    }
+    setUserData(prev => ({ ...prev, role: companyData.type === 'client' ? 'client_user' : 'accountant' }));
+    setStep('user_details');
   };
 
   const handleUserRegistration = async (e: React.FormEvent) => {
@@ -111,16 +109,15 @@ export default function SignUp() {
       if (authError) throw authError;
       if (!authData.user) throw new Error('No user data returned');
 
-      const { error: profileError } = await supabase
-        .from('users')
-        .insert([{
-          id: authData.user.id,
-          company_id: companyId,
-          full_name: userData.fullName,
-          email: userData.email,
-          phone_number: userData.phoneNumber,
-          role: userData.role,
-        }]);
+      // Liaisons a firm imported join the company they were imported with
+      const { error: profileError } = await supabase.rpc('create_account', {
+        company_name: companyData.name,
+        company_domain_email: companyData.domainEmail,
+        company_type: companyData.type,
+        full_name: userData.fullName,
+        phone_number: userData.phoneNumber,
+        role: userData.role,
+      });
 
       if (profileError) throw profileError;
 
@@ -167,7 +164,7 @@ export default function SignUp() {
 
           <p className="mt-6 text-center text-sm text-gray-600">
             Already have an account?{' '}
-            <Link to="/signin" className="text-indigo-600 hover:text-indigo-500 font-medium">
+            <Link to={inviteToken ? `/signin?invite=${encodeURIComponent(inviteToken)}` : '/signin'} className="text-indigo-600 hover:text-indigo-500 font-medium">
               Sign in here
             </Link>
           </p>
@@ -183,7 +180,7 @@ export default function SignUp() {
           }}
           onSuccess={handleAddClientSuccess}
           title="Connect with Your Accountant"
-          description="To get started, Does your Accountant use Yero?"
+          description="To get started, invite your accountant or enter the invitation code they sent you."
         />
       )}
     </>
@@ -280,7 +277,7 @@ export default function SignUp() {
               disabled={loading}
               className="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {loading ? 'Creating Company...' : 'Continue'}
+              Continue
             </button>
           </form>
         );
@@ -366,8 +363,9 @@ export default function SignUp() {
                 required
               >
                 <option value="manager">Manager</option>
-                <option value="accountant">Accountant</option>
-                <option value="client_user">Client User</option>
+                {companyData.type === 'accounting_firm'
+                  ? <option value="accountant">Accountant</option>
+                  : <option value="client_user">Client User</option>}
               </select>
             </div>
 
@@ -1,8 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts';
-import { supabase } from '../../lib/supabase';
+import { getCRSResult, getCRSHistory, RISK_STYLES, CRSPolicy, CRSHistoryEntry, RiskLevel } from '../../lib/crs';
+import { useClientFirm } from '../../contexts/ClientFirmContext';
+import CRSSimulator from '../../components/CRSSimulator';
 import { Loader2, TrendingUp, TrendingDown, AlertCircle, CheckCircle, Clock, HandshakeIcon } from 'lucide-react';
 
 interface TransactionMetrics {
@@ -10,8 +12,7 @@ interface TransactionMetrics {
   onTimePayments: number;
   averageDelay: number;
   currentStreak: number;
-  riskLevel: 'low' | 'medium' | 'high';
-  predictedScore: number;
+  riskLevel: RiskLevel;
   recommendations: string[];
   impactFactors: {
     factor: string;
@@ -20,137 +21,71 @@ interface TransactionMetrics {
   }[];
 }
 
-// CRS Algorithm Constants
-const CRS_CONSTANTS = {
-  BASE_PENALTY: 10,
-  PENALTY_MULTIPLIER: 1.5,
-  RECOVERY_INCREMENT: 5,
-  RECOVERY_BONUS: 10,
-  MAX_SCORE: 100,
-  MIN_SCORE: 0,
-  RISK_THRESHOLDS: {
-    HIGH: 60,
-    MEDIUM: 75,
-    LOW: 85
-  }
+const HISTORY_REASONS: Record<string, string> = {
+  transaction_insert: 'New installment',
+  transaction_update: 'Installment updated',
+  transaction_delete: 'Installment removed',
+  scheduled_recalculation: 'Grace period ended',
+  engine_backfill: 'Initial calculation',
+  policy_change: 'Scoring policy updated',
 };
 
 export default function CRSAnalysisPage() {
   const navigate = useNavigate();
+  const { selectedFirm, loading: firmsLoading } = useClientFirm();
   const [loading, setLoading] = useState(true);
+  const [liaisonId, setLiaisonId] = useState<string | null>(null);
   const [crsScore, setCrsScore] = useState<number>(0);
+  const [policy, setPolicy] = useState<CRSPolicy | null>(null);
   const [metrics, setMetrics] = useState<TransactionMetrics | null>(null);
   const [paymentHistory, setPaymentHistory] = useState<any[]>([]);
+  const [scoreHistory, setScoreHistory] = useState<CRSHistoryEntry[]>([]);
 
-  useEffect(() => {
-    fetchCRSData();
-  }, []);
-
-  const calculatePenalty = (consecutiveMisses: number): number => {
-    return CRS_CONSTANTS.BASE_PENALTY * Math.pow(CRS_CONSTANTS.PENALTY_MULTIPLIER, consecutiveMisses - 1);
-  };
-
-  const calculateRecoveryBonus = (monthsOnTime: number): number => {
-    const baseRecovery = CRS_CONSTANTS.RECOVERY_INCREMENT;
-    const bonusPeriods = Math.floor(monthsOnTime / 6); // Bonus every 6 months
-    return baseRecovery + (bonusPeriods * CRS_CONSTANTS.RECOVERY_BONUS);
-  };
-
-  const fetchCRSData = async () => {
+  const fetchCRSData = useCallback(async () => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
+      setLoading(true);
 
-      // Get liaison data
-      const { data: liaison, error: liaisonError } = await supabase
-        .from('liaisons')
-        .select('id, crs_score')
-        .eq('client_id', user.id)
-        .single();
+      // Nothing from the previously selected firm may linger
+      setLiaisonId(null);
+      setMetrics(null);
+      setScoreHistory([]);
+      setPaymentHistory([]);
 
-      if (liaisonError) throw liaisonError;
-      
-      const currentScore = liaison.crs_score || 85; // Default to 85 if no score
-      setCrsScore(currentScore);
+      const clientLiaisonId = selectedFirm?.liaisonId;
+      if (!clientLiaisonId) throw new Error('Connect with your accountant to see your CRS analysis');
 
-      // Get transaction history
-      const { data: transactions, error: transactionError } = await supabase
-        .from('transactions')
-        .select(`
-          amount,
-          due_date,
-          completion_date,
-          status,
-          impact_score,
-          days_to_payment,
-          payment_streak,
-          payment_consistency_score,
-          risk_level
-        `)
-        .order('due_date', { ascending: true });
+      const [result, history] = await Promise.all([
+        getCRSResult(clientLiaisonId),
+        getCRSHistory(clientLiaisonId, 10),
+      ]);
 
-      if (transactionError) throw transactionError;
+      const { factors } = result;
+      const currentScore = result.score;
+      const hasTransactions = factors.settled_count > 0;
 
-      const hasTransactions = transactions && transactions.length > 0;
-
-      // Calculate metrics
-      const completedTransactions = transactions?.filter(t => t.status !== 'pending') || [];
-      const onTimePayments = completedTransactions.filter(t => 
-        t.completion_date && new Date(t.completion_date) <= new Date(t.due_date)
-      ).length;
-
-      const averageDelay = completedTransactions.length > 0
-        ? completedTransactions
-            .filter(t => t.days_to_payment)
-            .reduce((sum, t) => sum + t.days_to_payment, 0) / completedTransactions.length
-        : 0;
-
-      const currentStreak = hasTransactions 
-        ? transactions[transactions.length - 1]?.payment_streak || 0
-        : 0;
-      
-      const riskLevel = hasTransactions
-        ? transactions[transactions.length - 1]?.risk_level || 'medium'
-        : currentScore >= 80 ? 'low' : currentScore >= 70 ? 'medium' : 'high';
-
-      // Calculate predicted score
-      let predictedScore = currentScore;
-      
-      if (hasTransactions) {
-        const missedPayments = completedTransactions.length - onTimePayments;
-        
-        if (missedPayments > 0) {
-          const penalty = calculatePenalty(missedPayments);
-          predictedScore = Math.max(CRS_CONSTANTS.MIN_SCORE, predictedScore - penalty);
-        } else if (currentStreak > 0) {
-          const bonus = calculateRecoveryBonus(currentStreak);
-          predictedScore = Math.min(CRS_CONSTANTS.MAX_SCORE, predictedScore + bonus);
-        }
-      } else {
-        // No transaction history - predict based on current score
-        predictedScore = currentScore;
-      }
+      setLiaisonId(clientLiaisonId);
+      setCrsScore(currentScore);
+      setPolicy(result.policy);
+      setScoreHistory(history);
 
       // Generate impact factors
       const impactFactors = hasTransactions ? [
         {
-          factor: 'Consecutive Payments',
-          impact: currentStreak * CRS_CONSTANTS.RECOVERY_INCREMENT,
-          description: `${currentStreak} consecutive on-time payments`
+          factor: 'On-time Payments',
+          impact: factors.recovery_points,
+          description: `${factors.on_time_count} on-time payments at +${result.policy.recovery_increment} points each`
         },
         {
-          factor: 'Payment Timing',
-          impact: averageDelay <= 0 ? 5 : -calculatePenalty(Math.ceil(Math.abs(averageDelay) / 7)),
-          description: averageDelay <= 0 
-            ? 'Early payments boost your score'
-            : `Late payments (avg. ${Math.abs(averageDelay).toFixed(1)} days) reduce score exponentially`
+          factor: 'Streak Bonuses',
+          impact: factors.bonus_points,
+          description: `${factors.payments_until_bonus} more on-time payments until the next +${result.policy.recovery_bonus} bonus`
         },
         {
-          factor: 'Recovery Potential',
-          impact: currentStreak >= 6 ? CRS_CONSTANTS.RECOVERY_BONUS : CRS_CONSTANTS.RECOVERY_INCREMENT,
-          description: currentStreak >= 6 
-            ? 'Eligible for recovery bonus'
-            : `${6 - (currentStreak % 6)} more on-time payments until bonus`
+          factor: 'Late & Missed Payments',
+          impact: -factors.penalty_points,
+          description: factors.late_count + factors.missed_count > 0
+            ? `${factors.late_count} late and ${factors.missed_count} missed payments, penalties grow ${result.policy.penalty_multiplier}x with each consecutive miss`
+            : 'No late or missed payments'
         }
       ] : [
         {
@@ -160,56 +95,55 @@ export default function CRSAnalysisPage() {
         },
         {
           factor: 'Future Potential',
-          impact: CRS_CONSTANTS.RECOVERY_INCREMENT,
+          impact: result.policy.recovery_increment,
           description: 'Make on-time payments to increase your score'
         },
         {
           factor: 'Bonus Opportunity',
-          impact: CRS_CONSTANTS.RECOVERY_BONUS,
-          description: 'Earn bonus points after 6 consecutive on-time payments'
+          impact: result.policy.recovery_bonus,
+          description: `Earn bonus points after ${result.policy.bonus_period} consecutive on-time payments`
         }
       ];
 
       // Generate recommendations
       const recommendations = hasTransactions ? [
-        currentStreak < 3 && 'Build a streak of on-time payments to start score recovery',
-        averageDelay > 0 && `Paying ${Math.abs(averageDelay).toFixed(1)} days late leads to exponential penalties`,
-        currentStreak >= 5 && 'Maintain your payment streak for bonus points',
-        completedTransactions.length - onTimePayments > 0 && 
-          `Recent missed payments have a ${CRS_CONSTANTS.PENALTY_MULTIPLIER}x multiplier effect`,
-        predictedScore > currentScore && 
-          `Continue current behavior to gain ${(predictedScore - currentScore).toFixed(1)} points`,
-      ].filter(Boolean) : [
+        factors.current_streak < 3 && 'Build a streak of on-time payments to start score recovery',
+        factors.average_delay > 0 && `Paying ${factors.average_delay.toFixed(1)} days late on average leads to exponential penalties`,
+        factors.current_streak >= 5 && 'Maintain your payment streak for bonus points',
+        factors.consecutive_misses > 0 &&
+          `Another missed payment costs ${result.policy.penalty_multiplier}x the last penalty`,
+        result.projected_score > currentScore &&
+          `Pay your next installment on time to gain ${result.projected_score - currentScore} points`,
+      ].filter((recommendation): recommendation is string => Boolean(recommendation)) : [
         'Welcome to the CRS system! Your initial score is based on our assessment',
         'Make your first payment on time to start building your payment history',
         'Consistent on-time payments will improve your score',
-        'You can earn bonus points after 6 consecutive on-time payments',
-        'Early payments can boost your score faster'
+        `You can earn bonus points after ${result.policy.bonus_period} consecutive on-time payments`,
+        'Paying late costs fewer points than missing a payment entirely'
       ];
 
       setMetrics({
-        totalTransactions: completedTransactions.length,
-        onTimePayments,
-        averageDelay,
-        currentStreak,
-        riskLevel,
-        predictedScore,
+        totalTransactions: factors.settled_count,
+        onTimePayments: factors.on_time_count,
+        averageDelay: factors.average_delay,
+        currentStreak: factors.current_streak,
+        riskLevel: result.risk_level,
         recommendations,
         impactFactors
       });
 
       // Format payment history for chart
-      const historyData = hasTransactions ? transactions.map(t => ({
-        date: new Date(t.due_date).toLocaleDateString('default', { month: 'short', day: 'numeric' }),
-        daysFromDue: t.days_to_payment || 0,
-        status: t.status,
-        consistency: t.payment_consistency_score
+      const historyData = hasTransactions ? result.trajectory.map(point => ({
+        date: new Date(point.due_date).toLocaleDateString('default', { month: 'short', day: 'numeric' }),
+        daysFromDue: point.days_late,
+        status: point.outcome,
+        score: point.score
       })) : Array.from({ length: 6 }, (_, i) => ({
         date: new Date(Date.now() + (i * 30 * 24 * 60 * 60 * 1000))
           .toLocaleDateString('default', { month: 'short', day: 'numeric' }),
         daysFromDue: 0,
         status: 'pending',
-        consistency: currentScore
+        score: currentScore
       }));
 
       setPaymentHistory(historyData);
@@ -218,7 +152,12 @@ export default function CRSAnalysisPage() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [selectedFirm?.liaisonId]);
+
+  useEffect(() => {
+    if (firmsLoading) return;
+    fetchCRSData();
+  }, [firmsLoading, fetchCRSData]);
 
   if (loading) {
     return (
@@ -228,6 +167,9 @@ export default function CRSAnalysisPage() {
     );
   }
 
+  const riskStyle = RISK_STYLES[metrics?.riskLevel || 'medium'];
+  const maxScore = policy?.max_score ?? 100;
+
   return (
     <div className="min-h-[calc(100vh-4rem)] bg-gray-50 py-8">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -236,29 +178,27 @@ export default function CRSAnalysisPage() {
           <div className="lg:col-span-2">
             <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
               <div className="flex items-center justify-between mb-6">
-                <h2 className="text-xl font-semibold text-gray-900">Client Reputation Score</h2>
-                <div className="flex items-center space-x-2">
-                  {metrics?.predictedScore !== undefined && (
-                    <div className={`flex items-center ${
-                      metrics.predictedScore > crsScore ? 'text-green-600' : 'text-red-600'
-                    }`}>
-                     </div>
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">Client Reputation Score</h2>
+                  {selectedFirm && (
+                    <p className="text-sm text-gray-500 mt-1">With {selectedFirm.firmName}</p>
                   )}
                 </div>
+                {metrics && (
+                  <span className={`px-3 py-1 rounded-full text-sm ${riskStyle.badge}`}>
+                    {riskStyle.label}
+                  </span>
+                )}
               </div>
 
               <div className="relative w-full h-32">
                 {/* Score Display */}
                 <div className="absolute inset-0 flex items-center justify-center">
                   <div className="text-center">
-                    <div className={`text-5xl font-bold mb-2 ${
-                      crsScore >= CRS_CONSTANTS.RISK_THRESHOLDS.LOW ? 'text-green-600' :
-                      crsScore >= CRS_CONSTANTS.RISK_THRESHOLDS.MEDIUM ? 'text-yellow-600' :
-                      'text-red-600'
-                    }`}>
+                    <div className={`text-5xl font-bold mb-2 ${riskStyle.text}`}>
                       {crsScore}
                     </div>
-                    <div className="text-gray-500">out of {CRS_CONSTANTS.MAX_SCORE}</div>
+                    <div className="text-gray-500">out of {maxScore}</div>
                   </div>
                 </div>
 
@@ -278,27 +218,34 @@ export default function CRSAnalysisPage() {
                       a 15.9155 15.9155 0 0 1 0 31.831
                       a 15.9155 15.9155 0 0 1 0 -31.831"
                     fill="none"
-                    stroke={
-                      crsScore >= CRS_CONSTANTS.RISK_THRESHOLDS.LOW ? '#059669' :
-                      crsScore >= CRS_CONSTANTS.RISK_THRESHOLDS.MEDIUM ? '#D97706' :
-                      '#DC2626'
-                    }
+                    stroke={riskStyle.stroke}
                     strokeWidth="3"
                     strokeLinecap="round"
-                    strokeDasharray={`${(crsScore / CRS_CONSTANTS.MAX_SCORE) * 100}, 100`}
+                    strokeDasharray={`${(crsScore / maxScore) * 100}, 100`}
                   />
                 </svg>
               </div>
 
               {/* Algorithm Explanation */}
               <div className="mt-6 p-4 bg-gray-50 rounded-lg">
-                <h3 className="text-sm font-medium text-gray-900 mb-2">How Your Score is Calculated</h3>
-                <div className="space-y-2 text-sm text-gray-600">
-                  <p>• Missed payments result in exponential penalties (base: -{CRS_CONSTANTS.BASE_PENALTY} points)</p>
-                  <p>• Each consecutive miss multiplies the penalty by {CRS_CONSTANTS.PENALTY_MULTIPLIER}x</p>
-                  <p>• Recovery occurs in +{CRS_CONSTANTS.RECOVERY_INCREMENT} point increments</p>
-                  <p>• Bonus +{CRS_CONSTANTS.RECOVERY_BONUS} points every 6 months of consistent payments</p>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-medium text-gray-900">How Your Score is Calculated</h3>
+                  {policy && policy.version > 0 && (
+                    <span className="text-xs text-gray-500">Policy v{policy.version}</span>
+                  )}
                 </div>
+                {policy && (
+                  <div className="space-y-2 text-sm text-gray-600">
+                    <p>• Missed payments result in exponential penalties (base: -{policy.base_penalty} points)</p>
+                    <p>• Each consecutive miss multiplies the penalty by {policy.penalty_multiplier}x</p>
+                    <p>• Late payments cost {policy.late_payment_weight * 100}% of a missed payment penalty</p>
+                    {policy.grace_days > 0 && (
+                      <p>• Payments within {policy.grace_days} days of the due date still count as on time</p>
+                    )}
+                    <p>• Recovery occurs in +{policy.recovery_increment} point increments</p>
+                    <p>• Bonus +{policy.recovery_bonus} points every {policy.bonus_period} consecutive on-time payments</p>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -331,6 +278,11 @@ export default function CRSAnalysisPage() {
               </div>
             </div>
 
+            {/* What-If Simulator */}
+            {liaisonId && policy && (
+              <CRSSimulator liaisonId={liaisonId} currentScore={crsScore} policy={policy} />
+            )}
+
             {/* Payment Renegotiation Card */}
             <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
               <div className="flex items-center justify-between">
@@ -423,6 +375,41 @@ export default function CRSAnalysisPage() {
                 ))}
               </div>
             </div>
+
+            {/* Score History */}
+            <div className="bg-white rounded-xl shadow-sm p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Score History</h3>
+              {scoreHistory.length === 0 ? (
+                <p className="text-sm text-gray-500">No score changes yet</p>
+              ) : (
+                <div className="space-y-3">
+                  {scoreHistory.map(entry => {
+                    const change = entry.new_score - (entry.previous_score ?? entry.new_score);
+                    return (
+                      <div key={entry.id} className="flex items-center justify-between text-sm">
+                        <div>
+                          <p className="text-gray-900">{HISTORY_REASONS[entry.reason] || entry.reason}</p>
+                          <p className="text-gray-500">
+                            {new Date(entry.created_at).toLocaleDateString()}
+                            {entry.policy && ` · Policy v${entry.policy.version}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center">
+                          {change > 0 ? (
+                            <TrendingUp className="h-4 w-4 text-green-500 mr-1" />
+                          ) : change < 0 ? (
+                            <TrendingDown className="h-4 w-4 text-red-500 mr-1" />
+                          ) : null}
+                          <span className="font-medium">
+                            {entry.previous_score ?? '–'} → {entry.new_score}
+                          </span>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,25 @@
+import { Link } from 'react-router-dom';
+import PaymentCalendar from '../../components/PaymentCalendar';
+import { useClientFirm } from '../../contexts/ClientFirmContext';
+
+export default function CalendarPage() {
+  const { selectedFirm } = useClientFirm();
+
+  return (
+    <div className="py-8">
+      <div className="flex items-end justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Payment Calendar</h1>
+          {selectedFirm && (
+            <p className="text-gray-600 mt-1">Installments with {selectedFirm.firmName}</p>
+          )}
+        </div>
+        <Link to="/settings" state={{ section: 'calendar' }} className="text-sm text-indigo-600 hover:text-indigo-700">
+          Subscribe in your calendar app
+        </Link>
+      </div>
+
+      <PaymentCalendar relationshipId={selectedFirm?.relationshipId} />
+    </div>
+  );
+}
@@ -2,15 +2,19 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useLocation } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { Send, Paperclip, Phone, Mail, Loader2 } from 'lucide-react';
-import { sendChatNotificationEmail } from '../../lib/emailService';
 import ChatMessage from '../../components/ChatMessage';
+import { buildMessage } from '../../lib/messages';
 import { showChatNotification } from '../../components/ChatNotification';
+import { useNotificationPreferences } from '../../contexts/NotificationPreferencesContext';
+import { useClientFirm } from '../../contexts/ClientFirmContext';
+import { messageNotificationEvent } from '../../lib/notifications';
 import { uploadFile, STORAGE_BUCKETS, generateFilePath, MAX_FILE_SIZE } from '../../lib/storage';
 import toast from 'react-hot-toast';
 
 interface Accountant {
   id: string;
   name: string;
+  relationshipId: string;
   contact: {
     id: string;
     fullName: string;
@@ -21,14 +25,25 @@ interface Accountant {
   unreadCount: number;
 }
 
+interface RelationshipRow {
+  id: string;
+  verification_status: Accountant['relationshipStatus'];
+  accounting_firm: { id: string; name: string };
+  liaisons: {
+    id: string;
+    client_id: string;
+    accountant: { id: string; full_name: string; email: string; phone_number: string };
+  }[];
+}
+
 interface Message {
   id: string;
   content: string;
   senderId: string;
   isRead: boolean;
   createdAt: string;
-  documentUrl?: string;
-  documentName?: string;
+  messageType: string;
+  payload: unknown;
   liaisonId: string;
 }
 
@@ -43,6 +58,8 @@ export default function ChatPage() {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const { allows } = useNotificationPreferences();
+  const { selectedFirm, selectFirm } = useClientFirm();
   const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
 
   useEffect(() => {
@@ -66,7 +83,22 @@ export default function ChatPage() {
         }
       }
     });
-  }, []);
+  }, [location.key]);
+
+  // Only the conversations with the firm picked in the firm switcher
+  const firmAccountants = accountants.filter(accountant =>
+    !selectedFirm || accountant.relationshipId === selectedFirm.relationshipId
+  );
+
+  useEffect(() => {
+    if (!selectedFirm) return;
+
+    setSelectedAccountant(current =>
+      current?.relationshipId === selectedFirm.relationshipId
+        ? current
+        : accountants.find(accountant => accountant.relationshipId === selectedFirm.relationshipId) ?? null
+    );
+  }, [selectedFirm, accountants]);
 
   useEffect(() => {
     if (selectedAccountant) {
@@ -90,14 +122,17 @@ export default function ChatPage() {
                 senderId: payload.new.sender_id,
                 isRead: payload.new.is_read,
                 createdAt: payload.new.created_at,
-                documentUrl: payload.new.document_url,
-                documentName: payload.new.document_name,
+                messageType: payload.new.message_type,
+                payload: payload.new.payload,
                 liaisonId: payload.new.liaison_id,
               };
               setMessages(prev => [...prev, newMessage]);
               scrollToBottom();
 
-              if (payload.new.sender_id !== currentUserId) {
+              if (
+                payload.new.sender_id !== currentUserId
+                && allows('in_app', messageNotificationEvent(payload.new.message_type))
+              ) {
                 showChatNotification({
                   senderName: selectedAccountant.name,
                   message: payload.new.content,
@@ -118,7 +153,7 @@ export default function ChatPage() {
         messageSubscription.unsubscribe();
       };
     }
-  }, [selectedAccountant, currentUserId]);
+  }, [selectedAccountant, currentUserId, allows]);
 
   useEffect(() => {
     scrollToBottom();
@@ -176,6 +211,7 @@ export default function ChatPage() {
           ),
           liaisons (
             id,
+            client_id,
             accountant:accountant_id (
               id,
               full_name,
@@ -195,17 +231,25 @@ export default function ChatPage() {
         return;
       }
 
+      // One conversation per liaison the user is the client contact of
+      // PostgREST returns the to-one embeds as objects
+      const conversations = (relationships as unknown as RelationshipRow[]).flatMap(rel =>
+        rel.liaisons
+          .filter(liaison => liaison.client_id === user.id)
+          .map(liaison => ({ rel, liaison }))
+      );
+
       // Get unread counts for each liaison
-      const unreadCountsPromises = relationships.map(async (rel: any) => {
+      const unreadCountsPromises = conversations.map(async ({ liaison }) => {
         const { data: unreadMessages, error: countError } = await supabase
           .from('messages')
           .select('id', { count: 'exact' })
-          .eq('liaison_id', rel.liaisons[0].id)
+          .eq('liaison_id', liaison.id)
           .eq('is_read', false)
           .neq('sender_id', user.id);
 
         if (countError) throw countError;
-        return { liaisonId: rel.liaisons[0].id, count: unreadMessages.length };
+        return { liaisonId: liaison.id, count: unreadMessages.length };
       });
 
       const unreadCountsResults = await Promise.all(unreadCountsPromises);
@@ -216,18 +260,19 @@ export default function ChatPage() {
 
       setUnreadCounts(newUnreadCounts);
 
-      const formattedAccountants = relationships
-        .map((rel: any) => ({
+      const formattedAccountants = conversations
+        .map(({ rel, liaison }) => ({
           id: rel.accounting_firm.id,
           name: rel.accounting_firm.name,
+          relationshipId: rel.id,
           contact: {
-            id: rel.liaisons[0].id,
-            fullName: rel.liaisons[0].accountant.full_name,
-            email: rel.liaisons[0].accountant.email,
-            phoneNumber: rel.liaisons[0].accountant.phone_number,
+            id: liaison.id,
+            fullName: liaison.accountant.full_name,
+            email: liaison.accountant.email,
+            phoneNumber: liaison.accountant.phone_number,
           },
           relationshipStatus: rel.verification_status,
-          unreadCount: newUnreadCounts[rel.liaisons[0].id] || 0,
+          unreadCount: newUnreadCounts[liaison.id] || 0,
         }));
 
       setAccountants(formattedAccountants);
@@ -237,6 +282,8 @@ export default function ChatPage() {
       if (selectedLiaisonId) {
         const accountant = formattedAccountants.find(acc => acc.contact.id === selectedLiaisonId);
         if (accountant) {
+          // A conversation opened from elsewhere switches to its firm
+          selectFirm(accountant.relationshipId);
           setSelectedAccountant(accountant);
         }
       } else if (formattedAccountants.length > 0 && !selectedAccountant) {
@@ -267,8 +314,8 @@ export default function ChatPage() {
         senderId: msg.sender_id,
         isRead: msg.is_read,
         createdAt: msg.created_at,
-        documentUrl: msg.document_url,
-        documentName: msg.document_name,
+        messageType: msg.message_type,
+        payload: msg.payload,
         liaisonId: msg.liaison_id,
       }));
 
@@ -340,7 +387,7 @@ export default function ChatPage() {
         .insert({
           liaison_id: selectedAccountant.contact.id,
           sender_id: user.id,
-          content: `Shared document: ${file.name}`,
+          ...buildMessage('document', { url: fileUrl, name: file.name }),
           document_url: fileUrl,
           document_name: file.name,
           is_read: false,
@@ -365,13 +412,15 @@ export default function ChatPage() {
     );
   }
 
-  if (accountants.length === 0) {
+  if (firmAccountants.length === 0) {
     return (
       <div className="flex items-center justify-center h-[calc(100vh-4rem)]">
         <div className="text-center">
           <h2 className="text-xl font-semibold text-gray-900 mb-2">No Active Connections</h2>
           <p className="text-gray-600">
-            You'll be able to chat with your accountant once they verify the connection.
+            {accountants.length === 0
+              ? "You'll be able to chat with your accountant once they verify the connection."
+              : `You have no conversations with ${selectedFirm?.firmName ?? 'this firm'} yet.`}
           </p>
         </div>
       </div>
@@ -386,12 +435,12 @@ export default function ChatPage() {
           <h2 className="text-lg font-semibold text-gray-800">Your Accountants</h2>
         </div>
         <div className="overflow-y-auto h-[calc(100%-4rem)]">
-          {accountants.map(accountant => (
+          {firmAccountants.map(accountant => (
             <button
-              key={accountant.id}
+              key={accountant.contact.id}
               onClick={() => setSelectedAccountant(accountant)}
               className={`w-full p-4 text-left hover:bg-gray-50 transition-colors duration-200 ${
-                selectedAccountant?.id === accountant.id ? 'bg-indigo-50' : ''
+                selectedAccountant?.contact.id === accountant.contact.id ? 'bg-indigo-50' : ''
               }`}
             >
               <div className="flex justify-between items-start">
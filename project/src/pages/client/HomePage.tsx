@@ -1,10 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { Calendar, DollarSign, MessageSquare, AlertCircle, UserPlus, TrendingUp } from 'lucide-react';
+import { Calendar, DollarSign, MessageSquare, AlertCircle, UserPlus, TrendingUp, Upload, RefreshCw } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import AddClientModal from '../../components/AddClientModal';
 import ConnectButton from '../../components/ConnectButton';
+import { pickLiaison } from '../../lib/liaisons';
+import { usePermissions } from '../../contexts/PermissionsContext';
+import { useClientFirm } from '../../contexts/ClientFirmContext';
+import { getClientFirmOverview, ClientFirmOverview } from '../../lib/clientFirms';
+import { getUpcomingInstallments, daysUntilDue, INSTALLMENT_STATUS_STYLES, UpcomingInstallment } from '../../lib/payments';
 
 interface AccountingFirm {
   id: string;
@@ -16,18 +21,19 @@ interface AccountingFirm {
   crsScore: number;
 }
 
-interface Payment {
-  id: string;
-  amount: number;
-  dueDate: string;
-  description: string;
-  status: 'pending' | 'paid' | 'overdue';
-}
+const formatTiming = (days: number) => {
+  if (days > 0) return `Due in ${days} day${days === 1 ? '' : 's'}`;
+  if (days === 0) return 'Due today';
+  return `${-days} day${days === -1 ? '' : 's'} overdue`;
+};
 
 export default function HomePage() {
   const navigate = useNavigate();
+  const { can } = usePermissions();
+  const { selectFirm } = useClientFirm();
   const [accountingFirms, setAccountingFirms] = useState<AccountingFirm[]>([]);
-  const [payments, setPayments] = useState<Payment[]>([]);
+  const [overview, setOverview] = useState<ClientFirmOverview[]>([]);
+  const [installments, setInstallments] = useState<UpcomingInstallment[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isAddClientModalOpen, setIsAddClientModalOpen] = useState(false);
@@ -84,6 +90,8 @@ export default function HomePage() {
           ),
           liaisons (
             id,
+            is_primary,
+            client_id,
             crs_score
           )
         `)
@@ -91,35 +99,30 @@ export default function HomePage() {
 
       if (relationshipError) throw relationshipError;
 
-      if (relationships) {
-        const firms = relationships.map(rel => ({
+      const firms: AccountingFirm[] = (relationships || []).map(rel => {
+        const liaison = pickLiaison(rel.liaisons, user.id);
+        return {
           id: rel.accounting_firm.id,
           name: rel.accounting_firm.name,
           relationshipId: rel.id,
           verificationStatus: rel.verification_status,
           initiatedBy: rel.initiated_by,
-          liaisonId: rel.liaisons[0]?.id,
-          crsScore: rel.liaisons[0]?.crs_score || 85,
-        }));
-        setAccountingFirms(firms);
-      }
+          liaisonId: liaison?.id,
+          crsScore: liaison?.crs_score || 85,
+        };
+      });
+      setAccountingFirms(firms);
 
-      setPayments([
-        {
-          id: '1',
-          amount: 1500,
-          dueDate: '2024-03-25',
-          description: 'Monthly Accounting Services',
-          status: 'pending',
-        },
-        {
-          id: '2',
-          amount: 800,
-          dueDate: '2024-04-01',
-          description: 'Tax Preparation',
-          status: 'pending',
-        },
+      const liaisonIds = firms
+        .map(firm => firm.liaisonId)
+        .filter((id): id is string => Boolean(id));
+
+      const [firmOverview, upcoming] = await Promise.all([
+        getClientFirmOverview(),
+        getUpcomingInstallments(liaisonIds),
       ]);
+      setOverview(firmOverview);
+      setInstallments(upcoming);
 
       setLoading(false);
     } catch (err) {
@@ -128,6 +131,21 @@ export default function HomePage() {
     }
   };
 
+  const handleViewCRS = (firm: AccountingFirm) => {
+    selectFirm(firm.relationshipId);
+    navigate('/client/crs');
+  };
+
+  const handleUploadProof = (firm: AccountingFirm, installment: UpcomingInstallment) => {
+    selectFirm(firm.relationshipId);
+    navigate('/client/records', { state: { proofForInstallment: installment } });
+  };
+
+  const handleRenegotiate = (firm: AccountingFirm, installment: UpcomingInstallment) => {
+    selectFirm(firm.relationshipId);
+    navigate('/client/payment/renegotiate', { state: { installment } });
+  };
+
   const handleSendReminder = (firm: AccountingFirm) => {
     if (firm.liaisonId) {
       navigate('/client/chat', { 
@@ -171,15 +189,19 @@ export default function HomePage() {
             <p className="text-gray-600 mb-6">
               To get started, connect with your accountant or invite them to join Yero.
             </p>
-            <motion.button
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-              onClick={() => setIsAddClientModalOpen(true)}
-              className="inline-flex items-center px-6 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors duration-200"
-            >
-              <UserPlus className="h-5 w-5 mr-2" />
-              Connect with Accountant
-            </motion.button>
+            {can('clients.create') ? (
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => setIsAddClientModalOpen(true)}
+                className="inline-flex items-center px-6 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors duration-200"
+              >
+                <UserPlus className="h-5 w-5 mr-2" />
+                Connect with Accountant
+              </motion.button>
+            ) : (
+              <p className="text-sm text-gray-500">Ask a manager at your company to connect with your accountant.</p>
+            )}
           </motion.div>
         </div>
 
@@ -199,6 +221,12 @@ export default function HomePage() {
     firm.verificationStatus === 'verified' || firm.verificationStatus === 'established'
   );
 
+  const totalOutstanding = overview.reduce((sum, row) => sum + row.outstanding, 0);
+  const totalOverdue = overview.reduce((sum, row) => sum + row.overdue, 0);
+  const nextDue = overview
+    .filter(row => row.nextDueDate)
+    .sort((a, b) => (a.nextDueDate as string).localeCompare(b.nextDueDate as string))[0];
+
   return (
     <div className="py-8">
       {pendingFirms.length > 0 && (
@@ -239,132 +267,257 @@ export default function HomePage() {
         </div>
       )}
 
-      {activeFirms.map((firm) => (
-        <div key={firm.id} className="mb-8">
+      {overview.length > 0 && (
+        <div className="mb-8">
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-              <div className="flex items-center justify-between mb-4">
-                <div>
-                  <h2 className="text-xl font-semibold text-gray-900">
-                    {firm.name}
-                  </h2>
-                  <div className="flex items-center mt-1">
-                    <p className="text-sm text-gray-600">Your Accounting Firm</p>
-                  </div>
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Overview</h2>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-sm text-gray-600">Outstanding</p>
+                  <p className="text-2xl font-bold text-gray-900">${totalOutstanding.toLocaleString()}</p>
                 </div>
-                <div className="w-48">
-                  <motion.button
-                    whileHover={{ scale: 1.02 }}
-                    whileTap={{ scale: 0.98 }}
-                    onClick={() => setIsAddClientModalOpen(true)}
-                    className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors duration-200 shadow-sm"
-                  >
-                    <UserPlus className="h-5 w-5 mr-2" />
-                    Change Accountant
-                  </motion.button>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-sm text-gray-600">Overdue</p>
+                  <p className={`text-2xl font-bold ${totalOverdue > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    ${totalOverdue.toLocaleString()}
+                  </p>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-sm text-gray-600">Next Due</p>
+                  {nextDue ? (
+                    <>
+                      <p className="text-2xl font-bold text-gray-900">${(nextDue.nextDueAmount ?? 0).toLocaleString()}</p>
+                      <p className="text-sm text-gray-500">
+                        {new Date(`${nextDue.nextDueDate}T00:00:00`).toLocaleDateString()} · {nextDue.firmName}
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-2xl font-bold text-gray-400">—</p>
+                  )}
                 </div>
               </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
-                {/* CRS Score Card */}
-                <div className="bg-gray-50 rounded-lg p-4">
-                  <div className="flex items-center justify-between mb-2">
-                    <h3 className="text-sm font-medium text-gray-700">Your Client Reputation Score</h3>
-                    <motion.button
-                      whileHover={{ scale: 1.05 }}
-                      onClick={() => navigate('/client/crs')}
-                      className="text-indigo-600 hover:text-indigo-700"
-                    >
-                      <TrendingUp className="h-5 w-5" />
-                    </motion.button>
-                  </div>
-                  <div className="flex items-center">
-                    <div className={`text-2xl font-bold ${
-                      firm.crsScore >= 80 ? 'text-green-600' :
-                      firm.crsScore >= 70 ? 'text-yellow-600' :
-                      'text-red-600'
-                    }`}>
-                      {firm.crsScore}
-                    </div>
-                    <div className="ml-2 text-sm text-gray-500">
-                      / 100
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead>
+                  <tr>
+                    <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Accounting Firm</th>
+                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Open Plans</th>
+                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Outstanding</th>
+                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Overdue</th>
+                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Next Due</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {overview.map(row => (
+                    <tr key={row.relationshipId}>
+                      <td className="py-3 text-sm font-medium text-gray-900">{row.firmName}</td>
+                      <td className="py-3 text-sm text-right text-gray-600">{row.openPlans}</td>
+                      <td className="py-3 text-sm text-right text-gray-900">${row.outstanding.toLocaleString()}</td>
+                      <td className={`py-3 text-sm text-right ${row.overdue > 0 ? 'text-red-600' : 'text-gray-600'}`}>
+                        ${row.overdue.toLocaleString()}
+                      </td>
+                      <td className="py-3 text-sm text-right text-gray-600">
+                        {row.nextDueDate
+                          ? `$${(row.nextDueAmount ?? 0).toLocaleString()} on ${new Date(`${row.nextDueDate}T00:00:00`).toLocaleDateString()}`
+                          : 'Nothing due'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {activeFirms.map((firm) => {
+        const firmInstallments = installments.filter(installment => installment.liaisonId === firm.liaisonId);
+        const nextInstallment = firmInstallments[0];
+
+        return (
+          <div key={firm.id} className="mb-8">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <div>
+                    <h2 className="text-xl font-semibold text-gray-900">
+                      {firm.name}
+                    </h2>
+                    <div className="flex items-center mt-1">
+                      <p className="text-sm text-gray-600">Your Accounting Firm</p>
                     </div>
                   </div>
-                  <p className="text-sm text-gray-600 mt-1">
-                    {firm.crsScore >= 80 ? 'Excellent payment history' :
-                     firm.crsScore >= 70 ? 'Good standing' :
-                     'Needs improvement'}
-                  </p>
+                  {can('clients.create') && (
+                    <div className="w-48">
+                      <motion.button
+                        whileHover={{ scale: 1.02 }}
+                        whileTap={{ scale: 0.98 }}
+                        onClick={() => setIsAddClientModalOpen(true)}
+                        className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors duration-200 shadow-sm"
+                      >
+                        <UserPlus className="h-5 w-5 mr-2" />
+                        Change Accountant
+                      </motion.button>
+                    </div>
+                  )}
                 </div>
 
-                {/* Payment Summary */}
-                <div className="bg-gray-50 rounded-lg p-4">
-                  <h3 className="text-sm font-medium text-gray-700 mb-2">Payment Summary</h3>
-                  <div className="space-y-2">
-                    <div className="flex justify-between items-center">
-                      <span className="text-sm text-gray-600">Next Payment</span>
-                      <span className="font-medium">${payments[0]?.amount.toLocaleString()}</span>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                  {/* CRS Score Card */}
+                  <div className="bg-gray-50 rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="text-sm font-medium text-gray-700">Your Client Reputation Score</h3>
+                      <motion.button
+                        whileHover={{ scale: 1.05 }}
+                        onClick={() => handleViewCRS(firm)}
+                        className="text-indigo-600 hover:text-indigo-700"
+                      >
+                        <TrendingUp className="h-5 w-5" />
+                      </motion.button>
                     </div>
-                    <div className="flex justify-between items-center">
-                      <span className="text-sm text-gray-600">Due Date</span>
-                      <span className="font-medium">
-                        {new Date(payments[0]?.dueDate).toLocaleDateString()}
-                      </span>
+                    <div className="flex items-center">
+                      <div className={`text-2xl font-bold ${
+                        firm.crsScore >= 80 ? 'text-green-600' :
+                        firm.crsScore >= 70 ? 'text-yellow-600' :
+                        'text-red-600'
+                      }`}>
+                        {firm.crsScore}
+                      </div>
+                      <div className="ml-2 text-sm text-gray-500">
+                        / 100
+                      </div>
                     </div>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {firm.crsScore >= 80 ? 'Excellent payment history' :
+                       firm.crsScore >= 70 ? 'Good standing' :
+                       'Needs improvement'}
+                    </p>
                   </div>
-                </div>
-              </div>
 
-              {/* Payment Details */}
-              <div className="mt-6">
-                <h3 className="text-lg font-semibold text-gray-900 mb-4">Upcoming Payments</h3>
-                <div className="space-y-4">
-                  {payments.map((payment) => (
-                    <motion.div
-                      key={payment.id}
-                      initial={{ opacity: 0, y: 20 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      className="bg-gray-50 rounded-lg p-4"
-                    >
-                      <div className="flex justify-between items-start">
-                        <div>
-                          <h4 className="text-base font-medium text-gray-900">
-                            {payment.description}
-                          </h4>
-                          <div className="mt-2 flex items-center text-gray-600">
-                            <Calendar className="h-4 w-4 mr-2" />
-                            <span>Due: {new Date(payment.dueDate).toLocaleDateString()}</span>
-                          </div>
-                          <div className="mt-1 flex items-center text-gray-600">
-                            <DollarSign className="h-4 w-4 mr-2" />
-                            <span>${payment.amount.toLocaleString()}</span>
-                          </div>
+                  {/* Payment Summary */}
+                  <div className="bg-gray-50 rounded-lg p-4">
+                    <h3 className="text-sm font-medium text-gray-700 mb-2">Payment Summary</h3>
+                    {nextInstallment ? (
+                      <div className="space-y-2">
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm text-gray-600">Next Payment</span>
+                          <span className="font-medium">${nextInstallment.outstanding.toLocaleString()}</span>
+                        </div>
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm text-gray-600">Due Date</span>
+                          <span className="font-medium">
+                            {new Date(`${nextInstallment.dueDate}T00:00:00`).toLocaleDateString()}
+                          </span>
                         </div>
-                        <motion.button
-                          whileHover={{ scale: 1.02 }}
-                          whileTap={{ scale: 0.98 }}
-                          onClick={() => handleSendReminder(firm)}
-                          className="flex items-center px-3 py-1 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100 transition-colors duration-200"
-                        >
-                          <MessageSquare className="h-4 w-4 mr-1" />
-                          Contact
-                        </motion.button>
                       </div>
-                    </motion.div>
-                  ))}
+                    ) : (
+                      <p className="text-sm text-gray-600">No payments due</p>
+                    )}
+                  </div>
+                </div>
+
+                {/* Payment Details */}
+                <div className="mt-6">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">Upcoming Payments</h3>
+                  {firmInstallments.length === 0 ? (
+                    <p className="text-sm text-gray-600">You're all caught up with {firm.name}.</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {firmInstallments.map((installment) => {
+                        const days = daysUntilDue(installment.dueDate);
+                        const statusStyle = INSTALLMENT_STATUS_STYLES[installment.status];
+
+                        return (
+                          <motion.div
+                            key={installment.id}
+                            initial={{ opacity: 0, y: 20 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            className="bg-gray-50 rounded-lg p-4"
+                          >
+                            <div className="flex justify-between items-start">
+                              <div>
+                                <div className="flex items-center">
+                                  <h4 className="text-base font-medium text-gray-900">
+                                    {installment.description}
+                                  </h4>
+                                  <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${statusStyle.badge}`}>
+                                    {statusStyle.label}
+                                  </span>
+                                </div>
+                                <p className="text-sm text-gray-500 mt-1">
+                                  Payment {installment.paymentNumber} of {installment.planPayments} · ${installment.planTotal.toLocaleString()} plan
+                                </p>
+                                <div className="mt-2 flex items-center text-gray-600">
+                                  <Calendar className="h-4 w-4 mr-2" />
+                                  <span>
+                                    Due: {new Date(`${installment.dueDate}T00:00:00`).toLocaleDateString()}
+                                    <span className={`ml-2 text-sm ${days < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                                      {formatTiming(days)}
+                                    </span>
+                                  </span>
+                                </div>
+                                <div className="mt-1 flex items-center text-gray-600">
+                                  <DollarSign className="h-4 w-4 mr-2" />
+                                  <span>
+                                    ${installment.outstanding.toLocaleString()}
+                                    {installment.amountPaid > 0 && (
+                                      <span className="ml-1 text-sm text-gray-500">
+                                        of ${installment.amount.toLocaleString()}
+                                      </span>
+                                    )}
+                                  </span>
+                                </div>
+                              </div>
+                              <div className="flex flex-col space-y-2">
+                                <motion.button
+                                  whileHover={{ scale: 1.02 }}
+                                  whileTap={{ scale: 0.98 }}
+                                  onClick={() => handleUploadProof(firm, installment)}
+                                  className="flex items-center px-3 py-1 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors duration-200"
+                                >
+                                  <Upload className="h-4 w-4 mr-1" />
+                                  Upload Proof
+                                </motion.button>
+                                <motion.button
+                                  whileHover={{ scale: 1.02 }}
+                                  whileTap={{ scale: 0.98 }}
+                                  onClick={() => handleRenegotiate(firm, installment)}
+                                  className="flex items-center px-3 py-1 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100 transition-colors duration-200"
+                                >
+                                  <RefreshCw className="h-4 w-4 mr-1" />
+                                  Renegotiate
+                                </motion.button>
+                                <motion.button
+                                  whileHover={{ scale: 1.02 }}
+                                  whileTap={{ scale: 0.98 }}
+                                  onClick={() => handleSendReminder(firm)}
+                                  className="flex items-center px-3 py-1 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100 transition-colors duration-200"
+                                >
+                                  <MessageSquare className="h-4 w-4 mr-1" />
+                                  Contact
+                                </motion.button>
+                              </div>
+                            </div>
+                          </motion.div>
+                        );
+                      })}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
           </div>
-        </div>
-      ))}
+        );
+      })}
 
       <AddClientModal
         isOpen={isAddClientModalOpen}
         onClose={() => setIsAddClientModalOpen(false)}
         onSuccess={fetchData}
         title="Change Your Accountant"
-        description="Connect with a different accounting firm."
+        description="Invite a different accounting firm by email, or enter their invitation code."
       />
     </div>
   );
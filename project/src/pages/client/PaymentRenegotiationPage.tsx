@@ -1,13 +1,24 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { AlertCircle, Loader2, Send } from 'lucide-react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import PaymentPlanCard from '../../components/PaymentPlanCard';
 import { PaymentPlan } from '../../types/paymentPlan';
+import { openNegotiation } from '../../lib/negotiations';
+import { useClientFirm } from '../../contexts/ClientFirmContext';
+import { UpcomingInstallment } from '../../lib/payments';
+
+const installmentReason = (installment: UpcomingInstallment) =>
+  `Regarding payment ${installment.paymentNumber} of ${installment.planPayments} ` +
+  `($${installment.outstanding.toLocaleString()} due ${new Date(`${installment.dueDate}T00:00:00`).toLocaleDateString()}): `;
 
 export default function PaymentRenegotiationPage() {
   const navigate = useNavigate();
+  const location = useLocation();
+  // Set when the client asked to renegotiate a specific installment
+  const installment: UpcomingInstallment | undefined = location.state?.installment;
+  const { selectedFirm, loading: firmsLoading } = useClientFirm();
   const [currentPlan, setCurrentPlan] = useState<PaymentPlan>({
     type: 'lumpsum',
     totalAmount: 0,
@@ -28,27 +39,16 @@ export default function PaymentRenegotiationPage() {
   const [error, setError] = useState<string | null>(null);
   const [liaisonId, setLiaisonId] = useState<string | null>(null);
 
-  useEffect(() => {
-    fetchCurrentPlan();
-  }, []);
-
-  const fetchCurrentPlan = async () => {
+  const fetchCurrentPlan = useCallback(async () => {
     try {
       setLoading(true);
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('Not authenticated');
-
-      // Step 1: Retrieve liaison_id using user.id
-      const { data: liaisonEntry, error: liaisonError } = await supabase
-        .from('liaisons')
-        .select('id')
-        .eq('client_id', user.id)
-        .maybeSingle();
+      setError(null);
+      setLiaisonId(null);
 
-      if (liaisonError) throw liaisonError;
-      if (!liaisonEntry) throw new Error('Liaison not found for this user');
+      // Step 1: The liaison the user works with at the selected firm
+      const liaisonId = selectedFirm?.liaisonId;
+      if (!liaisonId) throw new Error('Liaison not found for this user');
 
-      const liaisonId = liaisonEntry.id;
       setLiaisonId(liaisonId);
 
       // Step 2: Fetch the active payment plan using liaison_id
@@ -81,7 +81,7 @@ export default function PaymentRenegotiationPage() {
       setCurrentPlan(formattedPlan);
       setNewPlan({
         ...formattedPlan,
-        reason: '',
+        reason: installment && installment.liaisonId === liaisonId ? installmentReason(installment) : '',
       });
 
     } catch (err) {
@@ -90,7 +90,12 @@ export default function PaymentRenegotiationPage() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [selectedFirm?.liaisonId, installment]);
+
+  useEffect(() => {
+    if (firmsLoading) return;
+    fetchCurrentPlan();
+  }, [firmsLoading, fetchCurrentPlan]);
 
   const handleNewPlanChange = (field: string, value: any) => {
     setNewPlan(prev => {
@@ -119,33 +124,17 @@ export default function PaymentRenegotiationPage() {
       return;
     }
 
+    if (!Number.isInteger(newPlan.totalAmount)) {
+      setError('Total amount must be a whole number of dollars');
+      return;
+    }
+
     try {
       setSaving(true);
       setError(null);
 
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('Not authenticated');
-
-      // Send the payment plan as a message
-      const messageContent = {
-        type: 'payment_plan_request',
-        currentPlan,
-        newPlan: {
-          ...newPlan,
-          liaisonId,
-        },
-      };
-
-      const { error: messageError } = await supabase
-        .from('messages')
-        .insert({
-          liaison_id: liaisonId,
-          sender_id: user.id,
-          content: JSON.stringify(messageContent),
-          is_read: false,
-        });
-
-      if (messageError) throw messageError;
+      // Opens the negotiation and posts the offer to the chat
+      await openNegotiation(liaisonId, newPlan);
 
       // Navigate to chat with state
       navigate('/client/chat', { 
@@ -173,7 +162,8 @@ export default function PaymentRenegotiationPage() {
   return (
     <div className="py-8">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        <h1 className="text-3xl font-bold text-gray-900 mb-8">Renegotiate Payment Plan</h1>
+        <h1 className="text-3xl font-bold text-gray-900">Renegotiate Payment Plan</h1>
+        <p className="text-gray-600 mt-1 mb-8">{selectedFirm ? `With ${selectedFirm.firmName}` : 'No accounting firm connected'}</p>
 
         {error && (
           <div className="mb-8 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center text-red-700">
@@ -1,14 +1,30 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Upload, FileText, AlertCircle, Loader2, ExternalLink } from 'lucide-react';
+import { useLocation } from 'react-router-dom';
+import { Upload, FileText, AlertCircle, Loader2, ExternalLink, DollarSign, Calendar } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { uploadFile, STORAGE_BUCKETS, generateFilePath, MAX_FILE_SIZE } from '../../lib/storage';
 import toast from 'react-hot-toast';
+import { useClientFirm } from '../../contexts/ClientFirmContext';
+import {
+  getUpcomingInstallments,
+  INSTALLMENT_STATUS_STYLES,
+  PAYMENT_METHODS,
+  PaymentMethod,
+  UpcomingInstallment,
+} from '../../lib/payments';
+import { submitPaymentProof, RECORD_STATUS_STYLES, RecordStatus, RecordType } from '../../lib/clientRecords';
 
 interface Record {
   id: string;
-  invoice_file_url: string;
+  record_type: RecordType;
+  status: RecordStatus;
+  invoice_file_url: string | null;
   verification_file_url: string | null;
+  company_relationship_id: string | null;
+  payment_amount: number | null;
+  payment_date: string | null;
+  review_note: string | null;
   created_at: string;
 }
 
@@ -24,19 +40,35 @@ interface UploadError {
   };
 }
 
+// A firm's records, plus those uploaded before records were tied to a firm
+const firmFilter = (relationshipId: string) =>
+  `company_relationship_id.eq.${relationshipId},company_relationship_id.is.null`;
+
+const INVOICE_TYPES = ['.pdf', '.docx', '.xlsx'];
+const PROOF_TYPES = ['.png', '.jpg', '.jpeg', '.pdf'];
+
+const today = () => new Date().toISOString().split('T')[0];
+
 export default function RecordsPage() {
+  const location = useLocation();
+  // Set when the client came here to pay a specific installment
+  const proofForInstallment: UpcomingInstallment | undefined = location.state?.proofForInstallment;
+  const { selectedFirm, loading: firmsLoading } = useClientFirm();
   const [records, setRecords] = useState<Record[]>([]);
   const [loading, setLoading] = useState(true);
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [installments, setInstallments] = useState<UpcomingInstallment[]>([]);
+  const [coveredIds, setCoveredIds] = useState<string[]>(proofForInstallment ? [proofForInstallment.id] : []);
+  const [amount, setAmount] = useState(proofForInstallment ? String(proofForInstallment.outstanding) : '');
+  const [paymentDate, setPaymentDate] = useState(today());
+  const [method, setMethod] = useState<PaymentMethod>('bank_transfer');
+  const [proofFile, setProofFile] = useState<File | null>(null);
   const invoiceInputRef = useRef<HTMLInputElement>(null);
   const verificationInputRef = useRef<HTMLInputElement>(null);
+  const liaisonId = selectedFirm?.liaisonId ?? null;
 
-  useEffect(() => {
-    fetchRecords();
-  }, []);
-
-  const fetchRecords = async () => {
+  const fetchRecords = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
@@ -44,119 +76,196 @@ export default function RecordsPage() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      const { data, error } = await supabase
+      let query = supabase
         .from('client_records')
         .select('*')
         .order('created_at', { ascending: false });
 
+      if (selectedFirm) {
+        query = query.or(firmFilter(selectedFirm.relationshipId));
+      }
+
+      const { data, error } = await query;
+
       if (error) throw error;
 
       setRecords(data);
     } catch (err) {
+      console.error('Error fetching records:', err);
+      setError('Failed to load records');
     } finally {
       setLoading(false);
     }
+  }, [selectedFirm]);
+
+  useEffect(() => {
+    if (firmsLoading) return;
+    fetchRecords();
+  }, [firmsLoading, fetchRecords]);
+
+  const fetchInstallments = useCallback(async () => {
+    if (!liaisonId) {
+      setInstallments([]);
+      return;
+    }
+
+    try {
+      setInstallments(await getUpcomingInstallments([liaisonId]));
+    } catch (err) {
+      console.error('Error fetching installments:', err);
+      setError('Failed to load your open installments');
+    }
+  }, [liaisonId]);
+
+  useEffect(() => {
+    if (firmsLoading) return;
+    fetchInstallments();
+  }, [firmsLoading, fetchInstallments]);
+
+  // Validates the file and stores it, returning its URL
+  const uploadRecordFile = async (file: File, allowedTypes: string[]) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    // Validate file size
+    if (file.size > MAX_FILE_SIZE) {
+      throw new Error('File size exceeds maximum limit of 50MB');
+    }
+
+    // Validate file type
+    const fileExtension = `.${file.name.split('.').pop()?.toLowerCase()}`;
+    if (!allowedTypes.includes(fileExtension)) {
+      throw new Error(`Invalid file type. Allowed types: ${allowedTypes.join(', ')}`);
+    }
+
+    // Generate unique file path
+    const filePath = generateFilePath(user.id, file.name);
+
+    // Upload file to storage
+    const { url } = await uploadFile(
+      STORAGE_BUCKETS.CLIENT_RECORDS,
+      file,
+      filePath
+    );
+
+    return { url, userId: user.id };
+  };
+
+  const reportUploadError = (err: unknown, file: File, type: 'invoice' | 'verification') => {
+    console.error('Upload error:', {
+      error: err,
+      file: {
+        name: file.name,
+        type: file.type,
+        size: file.size,
+      },
+      uploadType: type,
+      timestamp: new Date().toISOString(),
+    });
+
+    // Handle specific upload errors
+    if ((err as UploadError).code) {
+      const uploadError = err as UploadError;
+      const errorMessage = `Upload failed during ${uploadError.stage} stage: ${uploadError.message}`;
+      toast.error(errorMessage);
+      setError(errorMessage);
+    } else {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to upload file';
+      toast.error(errorMessage);
+      setError(errorMessage);
+    }
   };
 
-  const handleFileUpload = async (
-    file: File,
-    type: 'invoice' | 'verification'
-  ) => {
+  const handleInvoiceUpload = async (file: File) => {
     try {
       setUploading(true);
       setError(null);
 
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('Not authenticated');
-
-      // Validate file size
-      if (file.size > MAX_FILE_SIZE) {
-        throw new Error('File size exceeds maximum limit of 50MB');
-      }
+      const { url, userId } = await uploadRecordFile(file, INVOICE_TYPES);
 
-      // Validate file type
-      const allowedTypes = type === 'invoice' 
-        ? ['.pdf', '.docx', '.xlsx']
-        : ['.png', '.jpg', '.jpeg', '.pdf'];
-      
-      const fileExtension = `.${file.name.split('.').pop()?.toLowerCase()}`;
-      if (!allowedTypes.includes(fileExtension)) {
-        throw new Error(`Invalid file type. Allowed types: ${allowedTypes.join(', ')}`);
-      }
+      const { error: insertError } = await supabase
+        .from('client_records')
+        .insert([{
+          invoice_file_url: url,
+          user_id: userId,
+          company_relationship_id: selectedFirm?.relationshipId ?? null,
+        }]);
 
-      // Generate unique file path
-      const filePath = generateFilePath(user.id, file.name);
-
-      // Upload file to storage
-      const { url: fileUrl } = await uploadFile(
-        STORAGE_BUCKETS.CLIENT_RECORDS,
-        file,
-        filePath
-      );
-      
-      // Create or update record in database
-      const recordData = type === 'invoice'
-        ? { invoice_file_url: fileUrl, user_id: user.id }
-        : { verification_file_url: fileUrl };
-
-      if (type === 'invoice') {
-        const { error: insertError } = await supabase
-          .from('client_records')
-          .insert([recordData]);
-
-        if (insertError) throw insertError;
-      } else {
-        // For verification, update the latest record without verification
-        const { data: latestRecord } = await supabase
-          .from('client_records')
-          .select('id')
-          .is('verification_file_url', null)
-          .order('created_at', { ascending: false })
-          .limit(1)
-          .single();
-
-        if (latestRecord) {
-          const { error: updateError } = await supabase
-            .from('client_records')
-            .update(recordData)
-            .eq('id', latestRecord.id);
-
-          if (updateError) throw updateError;
-        }
-      }
+      if (insertError) throw insertError;
 
-      toast.success(`${type === 'invoice' ? 'Invoice' : 'Verification'} file uploaded successfully`);
+      toast.success('Invoice file uploaded successfully');
       fetchRecords();
 
       // Reset file input
-      if (type === 'invoice' && invoiceInputRef.current) {
+      if (invoiceInputRef.current) {
         invoiceInputRef.current.value = '';
-      } else if (type === 'verification' && verificationInputRef.current) {
-        verificationInputRef.current.value = '';
       }
     } catch (err) {
-      console.error('Upload error:', {
-        error: err,
-        file: {
-          name: file.name,
-          type: file.type,
-          size: file.size,
-        },
-        uploadType: type,
-        timestamp: new Date().toISOString(),
+      reportUploadError(err, file, 'invoice');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // Ticking installments suggests paying what is still owed on them
+  const toggleInstallment = (installmentId: string) => {
+    const next = coveredIds.includes(installmentId)
+      ? coveredIds.filter(id => id !== installmentId)
+      : [...coveredIds, installmentId];
+
+    setCoveredIds(next);
+    const outstanding = installments
+      .filter(installment => next.includes(installment.id))
+      .reduce((sum, installment) => sum + installment.outstanding, 0);
+    setAmount(outstanding > 0 ? String(Math.round(outstanding * 100) / 100) : '');
+  };
+
+  const handleProofSubmit = async () => {
+    if (!liaisonId) return;
+
+    setError(null);
+
+    if (coveredIds.length === 0) {
+      setError('Choose the installments this payment covers');
+      return;
+    }
+
+    const parsedAmount = Number(amount);
+    if (!(parsedAmount > 0)) {
+      setError('Amount paid must be greater than 0');
+      return;
+    }
+
+    if (!proofFile) {
+      setError('Attach your proof of payment');
+      return;
+    }
+
+    try {
+      setUploading(true);
+
+      const { url } = await uploadRecordFile(proofFile, PROOF_TYPES);
+
+      await submitPaymentProof({
+        liaisonId,
+        fileUrl: url,
+        amount: parsedAmount,
+        paymentDate,
+        method,
+        installmentIds: coveredIds,
       });
 
-      // Handle specific upload errors
-      if ((err as UploadError).code) {
-        const uploadError = err as UploadError;
-        const errorMessage = `Upload failed during ${uploadError.stage} stage: ${uploadError.message}`;
-        toast.error(errorMessage);
-        setError(errorMessage);
-      } else {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to upload file';
-        toast.error(errorMessage);
-        setError(errorMessage);
+      toast.success('Proof of payment sent to your accountant');
+      setCoveredIds([]);
+      setAmount('');
+      setPaymentDate(today());
+      setProofFile(null);
+      if (verificationInputRef.current) {
+        verificationInputRef.current.value = '';
       }
+      fetchRecords();
+    } catch (err) {
+      reportUploadError(err, proofFile, 'verification');
     } finally {
       setUploading(false);
     }
@@ -189,7 +298,7 @@ export default function RecordsPage() {
           <p>Please follow these guidelines when uploading your records:</p>
           <ul className="list-disc list-inside space-y-2">
             <li>Upload invoice files (proof of transaction) under Invoice Upload</li>
-            <li>Upload verification files (proof of payment) under Verification Upload</li>
+            <li>Send proof of payment under Proof of Payment, with the installments it covers</li>
             <li>Accepted formats for invoices: PDF, DOCX, XLSX</li>
             <li>Accepted formats for verification: PNG, JPG, PDF</li>
             <li>Maximum file size: 50MB</li>
@@ -219,7 +328,7 @@ export default function RecordsPage() {
               accept=".pdf,.docx,.xlsx"
               onChange={(e) => {
                 const file = e.target.files?.[0];
-                if (file) handleFileUpload(file, 'invoice');
+                if (file) handleInvoiceUpload(file);
               }}
               className="hidden"
             />
@@ -242,37 +351,118 @@ export default function RecordsPage() {
           </div>
         </div>
 
-        {/* Verification Upload */}
+        {/* Proof of Payment */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">Verification Upload</h3>
-          <div className="relative">
-            <input
-              ref={verificationInputRef}
-              type="file"
-              accept=".png,.jpg,.jpeg,.pdf"
-              onChange={(e) => {
-                const file = e.target.files?.[0];
-                if (file) handleFileUpload(file, 'verification');
-              }}
-              className="hidden"
-            />
-            <motion.button
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-              onClick={() => verificationInputRef.current?.click()}
-              disabled={uploading}
-              className="w-full flex items-center justify-center px-4 py-3 border-2 border-dashed border-gray-300 rounded-lg hover:border-indigo-500 transition-colors duration-200"
-            >
-              {uploading ? (
-                <Loader2 className="h-5 w-5 animate-spin text-indigo-600" />
-              ) : (
-                <>
-                  <Upload className="h-5 w-5 text-gray-400 mr-2" />
-                  <span className="text-gray-600">Upload Verification</span>
-                </>
-              )}
-            </motion.button>
-          </div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Proof of Payment</h3>
+          {!liaisonId ? (
+            <p className="text-sm text-gray-500">
+              Proofs of payment are sent to your accountant. Connect with an accounting firm first.
+            </p>
+          ) : installments.length === 0 ? (
+            <p className="text-sm text-gray-500">You have no open installments{selectedFirm ? ` with ${selectedFirm.firmName}` : ''}.</p>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Installments Covered
+                </label>
+                <div className="max-h-40 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                  {installments.map(installment => (
+                    <label key={installment.id} className="flex items-center px-3 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                      <input
+                        type="checkbox"
+                        checked={coveredIds.includes(installment.id)}
+                        onChange={() => toggleInstallment(installment.id)}
+                        className="mr-3 rounded text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <span className="flex-1 text-gray-700">
+                        Payment {installment.paymentNumber} of {installment.planPayments}, due{' '}
+                        {new Date(`${installment.dueDate}T00:00:00`).toLocaleDateString()}
+                      </span>
+                      <span className={`px-2 py-0.5 text-xs rounded-full mr-3 ${INSTALLMENT_STATUS_STYLES[installment.status].badge}`}>
+                        {INSTALLMENT_STATUS_STYLES[installment.status].label}
+                      </span>
+                      <span className="font-medium text-gray-900">${installment.outstanding.toLocaleString()}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Amount Paid
+                  </label>
+                  <div className="relative">
+                    <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      className="pl-8 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Payment Date
+                  </label>
+                  <div className="relative">
+                    <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                    <input
+                      type="date"
+                      value={paymentDate}
+                      max={today()}
+                      onChange={(e) => setPaymentDate(e.target.value)}
+                      className="pl-8 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Method
+                  </label>
+                  <select
+                    value={method}
+                    onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    {PAYMENT_METHODS.map(option => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <input
+                ref={verificationInputRef}
+                type="file"
+                accept=".png,.jpg,.jpeg,.pdf"
+                onChange={(e) => setProofFile(e.target.files?.[0] ?? null)}
+                className="hidden"
+              />
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => verificationInputRef.current?.click()}
+                disabled={uploading}
+                className="w-full flex items-center justify-center px-4 py-3 border-2 border-dashed border-gray-300 rounded-lg hover:border-indigo-500 transition-colors duration-200"
+              >
+                <Upload className="h-5 w-5 text-gray-400 mr-2" />
+                <span className="text-gray-600 truncate">{proofFile ? proofFile.name : 'Attach Proof'}</span>
+              </motion.button>
+
+              <button
+                onClick={handleProofSubmit}
+                disabled={uploading || coveredIds.length === 0 || !proofFile}
+                className="w-full flex items-center justify-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors duration-200"
+              >
+                {uploading ? <Loader2 className="h-5 w-5 animate-spin" /> : 'Send to Accountant'}
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
@@ -289,10 +479,13 @@ export default function RecordsPage() {
                   Date
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Invoice
+                  Record
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Documents
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Verification
+                  Status
                 </th>
               </tr>
             </thead>
@@ -302,39 +495,59 @@ export default function RecordsPage() {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
                     {formatDate(record.created_at)}
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <a
-                      href={record.invoice_file_url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="inline-flex items-center text-indigo-600 hover:text-indigo-900"
-                    >
-                      <FileText className="h-4 w-4 mr-1" />
-                      <span>View Invoice</span>
-                      <ExternalLink className="h-4 w-4 ml-1" />
-                    </a>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {record.record_type === 'payment_proof' ? (
+                      <>
+                        Proof of payment: ${Number(record.payment_amount).toLocaleString()}
+                        {record.payment_date && (
+                          <span className="block text-gray-500">
+                            Paid {new Date(`${record.payment_date}T00:00:00`).toLocaleDateString()}
+                          </span>
+                        )}
+                      </>
+                    ) : (
+                      'Invoice'
+                    )}
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    {record.verification_file_url ? (
+                  <td className="px-6 py-4 whitespace-nowrap space-y-1">
+                    {record.invoice_file_url && (
+                      <a
+                        href={record.invoice_file_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center text-indigo-600 hover:text-indigo-900"
+                      >
+                        <FileText className="h-4 w-4 mr-1" />
+                        <span>View Invoice</span>
+                        <ExternalLink className="h-4 w-4 ml-1" />
+                      </a>
+                    )}
+                    {record.verification_file_url && (
                       <a
                         href={record.verification_file_url}
                         target="_blank"
                         rel="noopener noreferrer"
-                        className="inline-flex items-center text-indigo-600 hover:text-indigo-900"
+                        className="flex items-center text-indigo-600 hover:text-indigo-900"
                       >
                         <FileText className="h-4 w-4 mr-1" />
-                        <span>View Verification</span>
+                        <span>View Proof</span>
                         <ExternalLink className="h-4 w-4 ml-1" />
                       </a>
-                    ) : (
-                      <span className="text-gray-400">Not uploaded</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    <span className={`px-2 py-1 text-xs rounded-full ${RECORD_STATUS_STYLES[record.status].badge}`}>
+                      {RECORD_STATUS_STYLES[record.status].label}
+                    </span>
+                    {record.status === 'rejected' && record.review_note && (
+                      <p className="text-red-600 mt-1">{record.review_note}</p>
                     )}
                   </td>
                 </tr>
               ))}
               {records.length === 0 && (
                 <tr>
-                  <td colSpan={3} className="px-6 py-8 text-center text-gray-500">
+                  <td colSpan={4} className="px-6 py-8 text-center text-gray-500">
                     No records found. Upload your first invoice to get started.
                   </td>
                 </tr>
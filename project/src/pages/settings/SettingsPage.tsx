@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
+import { useLocation } from 'react-router-dom';
 import {
   User,
   Mail,
@@ -13,37 +14,51 @@ import {
   Loader2,
   AlertCircle,
   Camera,
+  Gauge,
+  FileText,
+  UserCog,
+  CalendarDays,
 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import toast from 'react-hot-toast';
+import CRSPolicySettings from '../../components/CRSPolicySettings';
+import ReminderTemplateSettings from '../../components/ReminderTemplateSettings';
+import NotificationPreferencesSettings from '../../components/NotificationPreferencesSettings';
+import InvitationSettings from '../../components/InvitationSettings';
+import TeamSettings from '../../components/TeamSettings';
+import ConnectionLiaisons from '../../components/ConnectionLiaisons';
+import CalendarFeedSettings from '../../components/CalendarFeedSettings';
+import { usePermissions } from '../../contexts/PermissionsContext';
 
 interface UserProfile {
+  id: string;
   full_name: string;
   email: string;
   phone_number: string;
   avatar_url?: string;
+  role: 'manager' | 'accountant' | 'client_user';
+  company_id: string;
+  company?: {
+    type: 'accounting_firm' | 'client';
+  };
 }
 
-interface NotificationSettings {
-  emailNotifications: boolean;
-  paymentReminders: boolean;
-  newMessages: boolean;
-  connectionRequests: boolean;
+interface Connection {
+  id: string;
+  verification_status: string;
+  client_firm?: { id: string; name: string } | null;
+  accounting_firm?: { id: string; name: string } | null;
 }
 
 export default function SettingsPage() {
+  const { can } = usePermissions();
+  const location = useLocation();
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [activeSection, setActiveSection] = useState('profile');
-  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings>({
-    emailNotifications: true,
-    paymentReminders: true,
-    newMessages: true,
-    connectionRequests: true,
-  });
-  const [connections, setConnections] = useState<any[]>([]);
+  const [activeSection, setActiveSection] = useState<string>(location.state?.section ?? 'profile');
+  const [connections, setConnections] = useState<Connection[]>([]);
   const [passwordForm, setPasswordForm] = useState({
     currentPassword: '',
     newPassword: '',
@@ -62,7 +77,7 @@ export default function SettingsPage() {
 
       const { data: profile, error } = await supabase
         .from('users')
-        .select('*')
+        .select('*, company:company_id(type)')
         .eq('id', user.id)
         .single();
 
@@ -83,13 +98,15 @@ export default function SettingsPage() {
 
       const { data: userDetails } = await supabase
         .from('users')
-        .select('company_id, role')
+        .select('company_id, company:company_id(type)')
         .eq('id', user.id)
         .single();
 
       if (!userDetails) return;
 
-      const isAccountingFirm = userDetails.role.includes('accountant');
+      // PostgREST returns the to-one embed as an object
+      const company = userDetails.company as unknown as { type: string } | null;
+      const isAccountingFirm = company?.type === 'accounting_firm';
 
       const { data: relationships, error } = await supabase
         .from('company_relationships')
@@ -101,7 +118,8 @@ export default function SettingsPage() {
         .eq(isAccountingFirm ? 'accounting_firm_id' : 'client_firm_id', userDetails.company_id);
 
       if (error) throw error;
-      setConnections(relationships);
+      // PostgREST returns the to-one embeds as objects
+      setConnections((relationships || []) as unknown as Connection[]);
     } catch (err) {
       console.error('Error fetching connections:', err);
     }
@@ -156,11 +174,6 @@ export default function SettingsPage() {
     }
   };
 
-  const handleNotificationUpdate = async () => {
-    // In a real app, this would update the notification settings in the database
-    toast.success('Notification settings updated');
-  };
-
   const handleRemoveConnection = async (connectionId: string) => {
     try {
       setSaving(true);
@@ -214,6 +227,10 @@ export default function SettingsPage() {
     }
   };
 
+  const isFirm = profile?.company?.type === 'accounting_firm';
+  const canManageCrsPolicy = isFirm && can('crs_policy.manage');
+  const canManageReminders = isFirm && can('reminders.manage');
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -236,7 +253,11 @@ export default function SettingsPage() {
                   { id: 'profile', icon: User, label: 'Profile' },
                   { id: 'security', icon: Lock, label: 'Security' },
                   { id: 'notifications', icon: Bell, label: 'Notifications' },
+                  { id: 'calendar', icon: CalendarDays, label: 'Calendar Feed' },
                   { id: 'connections', icon: Users, label: 'Connections' },
+                  ...(can('team.manage') ? [{ id: 'team', icon: UserCog, label: 'Team' }] : []),
+                  ...(canManageCrsPolicy ? [{ id: 'crs-policy', icon: Gauge, label: 'CRS Policy' }] : []),
+                  ...(canManageReminders ? [{ id: 'reminder-templates', icon: FileText, label: 'Reminder Templates' }] : []),
                 ].map((item) => (
                   <button
                     key={item.id}
@@ -414,138 +435,88 @@ export default function SettingsPage() {
               )}
 
               {/* Notifications Section */}
-              {activeSection === 'notifications' && (
-                <div className="p-6">
-                  <h2 className="text-xl font-semibold text-gray-900 mb-6">Notification Settings</h2>
-                  <div className="space-y-4">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <h3 className="text-sm font-medium text-gray-900">Email Notifications</h3>
-                        <p className="text-sm text-gray-500">Receive notifications via email</p>
-                      </div>
-                      <label className="relative inline-flex items-center cursor-pointer">
-                        <input
-                          type="checkbox"
-                          checked={notificationSettings.emailNotifications}
-                          onChange={(e) =>
-                            setNotificationSettings(prev => ({
-                              ...prev,
-                              emailNotifications: e.target.checked,
-                            }))
-                          }
-                          className="sr-only peer"
-                        />
-                        <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-indigo-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600"></div>
-                      </label>
-                    </div>
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <h3 className="text-sm font-medium text-gray-900">Payment Reminders</h3>
-                        <p className="text-sm text-gray-500">Get notified about upcoming payments</p>
-                      </div>
-                      <label className="relative inline-flex items-center cursor-pointer">
-                        <input
-                          type="checkbox"
-                          checked={notificationSettings.paymentReminders}
-                          onChange={(e) =>
-                            setNotificationSettings(prev => ({
-                              ...prev,
-                              paymentReminders: e.target.checked,
-                            }))
-                          }
-                          className="sr-only peer"
-                        />
-                        <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-indigo-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600"></div>
-                      </label>
-                    </div>
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <h3 className="text-sm font-medium text-gray-900">New Messages</h3>
-                        <p className="text-sm text-gray-500">Get notified about new messages</p>
-                      </div>
-                      <label className="relative inline-flex items-center cursor-pointer">
-                        <input
-                          type="checkbox"
-                          checked={notificationSettings.newMessages}
-                          onChange={(e) =>
-                            setNotificationSettings(prev => ({
-                              ...prev,
-                              newMessages: e.target.checked,
-                            }))
-                          }
-                          className="sr-only peer"
-                        />
-                        <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-indigo-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600"></div>
-                      </label>
-                    </div>
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <h3 className="text-sm font-medium text-gray-900">Connection Requests</h3>
-                        <p className="text-sm text-gray-500">Get notified about new connection requests</p>
-                      </div>
-                      <label className="relative inline-flex items-center cursor-pointer">
-                        <input
-                          type="checkbox"
-                          checked={notificationSettings.connectionRequests}
-                          onChange={(e) =>
-                            setNotificationSettings(prev => ({
-                              ...prev,
-                              connectionRequests: e.target.checked,
-                            }))
-                          }
-                          className="sr-only peer"
-                        />
-                        <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-indigo-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600"></div>
-                      </label>
-                    </div>
-                    <button
-                      onClick={handleNotificationUpdate}
-                      disabled={saving}
-                      className="w-full mt-6 bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                      {saving ? (
-                        <Loader2 className="h-5 w-5 animate-spin mx-auto" />
-                      ) : (
-                        'Save Notification Settings'
-                      )}
-                    </button>
-                  </div>
-                </div>
-              )}
+              {activeSection === 'notifications' && <NotificationPreferencesSettings />}
+
+              {/* Calendar Feed Section */}
+              {activeSection === 'calendar' && <CalendarFeedSettings />}
 
               {/* Connections Section */}
               {activeSection === 'connections' && (
                 <div className="p-6">
                   <h2 className="text-xl font-semibold text-gray-900 mb-6">Manage Connections</h2>
                   <div className="space-y-4">
-                    {connections.map((connection) => (
-                      <div
-                        key={connection.id}
-                        className="flex items-center justify-between p-4 border border-gray-200 rounded-lg"
-                      >
-                        <div>
-                          <h3 className="text-sm font-medium text-gray-900">
-                            {connection.client_firm?.name || connection.accounting_firm?.name}
-                          </h3>
-                          <p className="text-sm text-gray-500">
-                            Status: {connection.verification_status}
-                          </p>
-                        </div>
-                        <button
-                          onClick={() => handleRemoveConnection(connection.id)}
-                          className="text-red-600 hover:text-red-700"
+                    {connections.map((connection) => {
+                      const otherCompany = connection.client_firm || connection.accounting_firm;
+                      return (
+                        <div
+                          key={connection.id}
+                          className="p-4 border border-gray-200 rounded-lg"
                         >
-                          <Trash2 className="h-5 w-5" />
-                        </button>
-                      </div>
-                    ))}
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <h3 className="text-sm font-medium text-gray-900">
+                                {otherCompany?.name}
+                              </h3>
+                              <p className="text-sm text-gray-500">
+                                Status: {connection.verification_status}
+                              </p>
+                            </div>
+                            {can('connections.delete') && (
+                              <button
+                                onClick={() => handleRemoveConnection(connection.id)}
+                                className="text-red-600 hover:text-red-700"
+                              >
+                                <Trash2 className="h-5 w-5" />
+                              </button>
+                            )}
+                          </div>
+                          {profile && otherCompany && (
+                            <ConnectionLiaisons
+                              relationshipId={connection.id}
+                              companyId={profile.company_id}
+                              otherCompanyId={otherCompany.id}
+                              isAccountingFirm={isFirm}
+                              canManage={can('team.manage')}
+                            />
+                          )}
+                        </div>
+                      );
+                    })}
                     {connections.length === 0 && (
                       <p className="text-center text-gray-500 py-4">No active connections</p>
                     )}
                   </div>
+                  {profile && (
+                    <InvitationSettings
+                      companyId={profile.company_id}
+                      currentUserId={profile.id}
+                      canInvite={can('clients.create')}
+                      canRevokeAll={can('team.manage')}
+                      isClient={profile.company?.type === 'client'}
+                    />
+                  )}
                 </div>
               )}
 
+              {/* Team Section */}
+              {activeSection === 'team' && can('team.manage') && profile?.company && (
+                <TeamSettings
+                  companyId={profile.company_id}
+                  companyType={profile.company.type}
+                  currentUserId={profile.id}
+                />
+              )}
+
+              {/* CRS Policy Section */}
+              {activeSection === 'crs-policy' && canManageCrsPolicy && profile && (
+                <CRSPolicySettings companyId={profile.company_id} />
+              )}
+
+              {/* Reminder Templates Section */}
+              {activeSection === 'reminder-templates' && canManageReminders && profile && (
+                <ReminderTemplateSettings companyId={profile.company_id} />
+              )}
+
               {/* Account Actions */}
               <div className="p-6 border-t border-gray-200">
                 <div className="space-y-4">
@@ -12,6 +12,8 @@ export interface Database {
           updated_at: string;
           document_url: string | null;
           document_name: string | null;
+          message_type: string;
+          payload: unknown;
         };
         Insert: {
           id?: string;
@@ -23,6 +25,8 @@ export interface Database {
           updated_at?: string;
           document_url?: string | null;
           document_name?: string | null;
+          message_type?: string;
+          payload?: unknown;
         };
         Update: {
           id?: string;
@@ -34,6 +38,8 @@ export interface Database {
           updated_at?: string;
           document_url?: string | null;
           document_name?: string | null;
+          message_type?: string;
+          payload?: unknown;
         };
       };
     };
@@ -0,0 +1,44 @@
+// Data each send-email template expects. Shared by the send-email function,
+// the jobs that call it and the app's emailService, so it must not import
+// anything.
+
+export interface SenderDetails {
+  senderName: string;
+  senderCompany: string;
+  senderEmail?: string;
+  senderPhone?: string;
+}
+
+export interface PlanDetails {
+  planType?: string;
+  totalAmount: number;
+  numberOfPayments: number;
+  paymentPeriod: string;
+}
+
+export interface DigestItem {
+  title: string;
+  detail: string;
+}
+
+export interface EmailTemplateData {
+  new_message: SenderDetails & { message: string };
+  reminder: SenderDetails & { subject: string; message: string };
+  plan_proposed: SenderDetails & PlanDetails & { reason?: string };
+  plan_accepted: SenderDetails & PlanDetails;
+  connection_request: SenderDetails & { message?: string };
+  invitation: SenderDetails & { recipientName?: string; inviteUrl: string; expiresAt: string };
+  team_invitation: SenderDetails & { recipientName?: string; role: string; inviteUrl: string; expiresAt: string };
+  digest: { recipientName: string; period: 'daily' | 'weekly'; items: DigestItem[] };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+// What a signed-in user sends. send-email fills in the sender from the
+// caller's profile and builds invitation links from the invitation token, so
+// neither can be forged; the scheduled jobs send EmailTemplateData as is.
+export type ServerFilledField = keyof SenderDetails | 'inviteUrl';
+
+export type EmailRequestData<T extends EmailTemplateName> =
+  Omit<EmailTemplateData[T], ServerFilledField>
+  & (T extends 'invitation' | 'team_invitation' ? { inviteToken: string } : unknown);
@@ -0,0 +1,145 @@
+// Built-in reminder wording and the renderer for firm templates. Shared by the
+// app's template settings and the scheduled payment-reminders job, so it must
+// not import anything.
+
+export type ReminderLevel = 'friendly' | 'approaching' | 'overdue' | 'urgent';
+
+export type ReminderTemplateVariable =
+  | 'firstName'
+  | 'clientName'
+  | 'amount'
+  | 'dueDate'
+  | 'daysOverdue'
+  | 'crsScore'
+  | 'planRemaining'
+  | 'firmName'
+  | 'accountantName';
+
+export const TEMPLATE_VARIABLES: { key: ReminderTemplateVariable; description: string }[] = [
+  { key: 'firstName', description: "Client contact's first name" },
+  { key: 'clientName', description: "Client contact's full name" },
+  { key: 'amount', description: 'Amount still due on the installment' },
+  { key: 'dueDate', description: 'Due date of the installment' },
+  { key: 'daysOverdue', description: 'Days past the due date, 0 if not yet due' },
+  { key: 'crsScore', description: "Client's current CRS score" },
+  { key: 'planRemaining', description: 'Total left to pay on the payment plan' },
+  { key: 'firmName', description: 'Your firm name' },
+  { key: 'accountantName', description: "The client's accountant" },
+];
+
+export interface ReminderTemplate {
+  subject: string;
+  body: string;
+}
+
+// What a reminder is about; `firstName` defaults to the first word of `clientName`
+export interface ReminderDetails {
+  firstName?: string;
+  clientName: string;
+  amount: number;
+  dueDate: string;
+  daysOverdue: number;
+  crsScore: number;
+  planRemaining: number;
+  firmName: string;
+  accountantName: string;
+}
+
+export const DEFAULT_REMINDER_TEMPLATES: Record<ReminderLevel, ReminderTemplate> = {
+  friendly: {
+    subject: 'Friendly Reminder',
+    body: `Hi {{firstName}},
+
+I hope this message finds you well! Just a friendly reminder about the upcoming payment of {{amount}} due on {{dueDate}}.
+
+Your excellent payment history is greatly appreciated, and we're happy to continue providing our services to valued clients like you.
+
+Best regards`,
+  },
+  approaching: {
+    subject: 'Payment Approaching',
+    body: `Hi {{firstName}},
+
+This is a courtesy reminder that a payment of {{amount}} is due on {{dueDate}}.
+
+Please ensure the payment is processed before the due date to maintain your good standing. If you have any questions, don't hesitate to reach out.
+
+Thank you for your attention to this matter.
+
+Best regards`,
+  },
+  overdue: {
+    subject: 'Payment Overdue',
+    body: `Hi {{firstName}},
+
+I'm writing to bring to your attention that the payment of {{amount}} was due on {{dueDate}}.
+
+Please process this payment as soon as possible to avoid any impact on your credit score. If you're experiencing any difficulties, we're happy to discuss payment arrangements.
+
+Thank you for your prompt attention to this matter.
+
+Regards`,
+  },
+  urgent: {
+    subject: 'Urgent Action Required',
+    body: `Dear {{clientName}},
+
+This is an urgent notice regarding the overdue payment of {{amount}} from {{dueDate}}.
+
+Immediate action is required to process this payment and prevent any further impact on your account standing. If you're facing any challenges, please contact us immediately to discuss payment options.
+
+Your immediate attention to this matter is greatly appreciated.
+
+Regards`,
+  },
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const formatCurrency = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export function formatTemplateVariables(details: ReminderDetails): Record<ReminderTemplateVariable, string> {
+  return {
+    firstName: details.firstName || details.clientName.split(' ')[0] || 'there',
+    clientName: details.clientName || 'Client',
+    amount: formatCurrency(details.amount),
+    dueDate: new Date(`${details.dueDate}T00:00:00`).toLocaleDateString('en-US'),
+    daysOverdue: String(details.daysOverdue),
+    crsScore: String(details.crsScore),
+    planRemaining: formatCurrency(details.planRemaining),
+    firmName: details.firmName,
+    accountantName: details.accountantName,
+  };
+}
+
+// Unknown variables are left as typed so mistakes show up in the preview
+export function renderTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(VARIABLE_PATTERN, (match, key: string) => values[key] ?? match);
+}
+
+export function renderReminderTemplate(template: ReminderTemplate, details: ReminderDetails): ReminderTemplate {
+  const values = formatTemplateVariables(details);
+  return {
+    subject: renderTemplate(template.subject, values),
+    body: renderTemplate(template.body, values),
+  };
+}
+
+export function findUnknownVariables(text: string): string[] {
+  const known = new Set<string>(TEMPLATE_VARIABLES.map(variable => variable.key));
+  const unknown = Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1])
+    .filter(key => !known.has(key));
+  return Array.from(new Set(unknown));
+}
+
+export function validateReminderTemplate(template: ReminderTemplate): string | null {
+  if (!template.subject.trim()) return 'Subject cannot be empty';
+  if (!template.body.trim()) return 'Message cannot be empty';
+
+  const unknown = findUnknownVariables(`${template.subject}\n${template.body}`);
+  if (unknown.length > 0) {
+    return `Unknown variable${unknown.length === 1 ? '' : 's'}: ${unknown.map(key => `{{${key}}}`).join(', ')}`;
+  }
+  return null;
+}
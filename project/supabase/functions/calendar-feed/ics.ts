@@ -0,0 +1,105 @@
+// Builds the iCalendar (RFC 5545) file of a calendar feed: one all-day event
+// per installment.
+
+export interface FeedInstallment {
+  transaction_id: string;
+  counterpart_name: string;
+  description: string;
+  payment_number: number;
+  num_payments: number;
+  due_date: string;
+  amount: number | string;
+  outstanding: number | string;
+  status: 'pending' | 'partial' | 'paid' | 'overdue';
+  updated_at: string;
+}
+
+const STATUS_LABELS: Record<FeedInstallment['status'], string> = {
+  pending: 'Upcoming',
+  partial: 'Partially paid',
+  paid: 'Paid',
+  overdue: 'Overdue',
+};
+
+const formatCurrency = (amount: number | string) =>
+  `$${Number(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: string) => date.replaceAll('-', '');
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const nextDay = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+};
+
+const escapeText = (text: string) =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Content lines are folded at 75 octets, continuation lines start with a space
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+export function buildCalendar(name: string, installments: FeedInstallment[], generatedAt = new Date()) {
+  const stamp = formatTimestamp(generatedAt.toISOString());
+
+  const events = installments.flatMap(installment => {
+    const settled = installment.status === 'paid';
+    const summary = settled
+      ? `Paid: ${installment.description} (${installment.counterpart_name})`
+      : `${formatCurrency(installment.outstanding)} due: ${installment.description} (${installment.counterpart_name})`;
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${installment.transaction_id}@yero`,
+      `DTSTAMP:${stamp}`,
+      `LAST-MODIFIED:${formatTimestamp(installment.updated_at)}`,
+      `DTSTART;VALUE=DATE:${formatDate(installment.due_date)}`,
+      `DTEND;VALUE=DATE:${formatDate(nextDay(installment.due_date))}`,
+      `SUMMARY:${escapeText(summary)}`,
+      `DESCRIPTION:${escapeText([
+        `Payment ${installment.payment_number} of ${installment.num_payments} with ${installment.counterpart_name}`,
+        `Amount: ${formatCurrency(installment.amount)}`,
+        `Outstanding: ${formatCurrency(installment.outstanding)}`,
+        `Status: ${STATUS_LABELS[installment.status]}`,
+      ].join('\n'))}`,
+      `CATEGORIES:${escapeText(STATUS_LABELS[installment.status])}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Yero//Payment Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events,
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,108 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { buildCalendar, FeedInstallment } from './ics.ts';
+
+// Serves a user's installments as an iCalendar feed:
+// GET /functions/v1/calendar-feed?token=<calendar_feeds.token>.
+// Calendar apps cannot send an Authorization header, so the secret token in the
+// URL is the only credential; deploy with --no-verify-jwt.
+// The feed covers the last 90 days and the next year. Its ETag follows
+// calendar_feeds.changed_at and today's date, so polling apps get 304 until a
+// plan changes or the day rolls over and the window and overdue statuses move.
+
+const PAST_DAYS = 90;
+const FUTURE_DAYS = 365;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, if-none-match',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS'
+};
+
+const textResponse = (body: string, status: number) =>
+  new Response(body, {
+    status,
+    headers: {
+      'Content-Type': 'text/plain',
+      ...corsHeaders
+    }
+  });
+
+const offsetDate = (days: number) => {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token') ?? '';
+    if (!/^[0-9a-f]{48}$/.test(token)) {
+      return textResponse('Not found', 404);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: feed, error: feedError } = await supabase
+      .from('calendar_feeds')
+      .select('user_id, changed_at, user:user_id(full_name, is_active)')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (feedError) throw feedError;
+
+    // Revoked, regenerated and deactivated users' feeds look the same as unknown ones
+    if (!feed || !feed.user?.is_active) {
+      return textResponse('Not found', 404);
+    }
+
+    const etag = `"${new Date(feed.changed_at).getTime()}-${offsetDate(0)}"`;
+    const cacheHeaders = {
+      'ETag': etag,
+      'Last-Modified': new Date(feed.changed_at).toUTCString(),
+      'Cache-Control': 'private, max-age=0, must-revalidate',
+    };
+
+    await supabase
+      .from('calendar_feeds')
+      .update({ last_fetched_at: new Date().toISOString() })
+      .eq('user_id', feed.user_id);
+
+    if (req.headers.get('If-None-Match') === etag) {
+      return new Response(null, { status: 304, headers: { ...cacheHeaders, ...corsHeaders } });
+    }
+
+    const { data: installments, error: installmentsError } = await supabase.rpc('user_calendar_installments', {
+      target_user_id: feed.user_id,
+      from_date: offsetDate(-PAST_DAYS),
+      to_date: offsetDate(FUTURE_DAYS),
+    });
+
+    if (installmentsError) throw installmentsError;
+
+    const calendar = buildCalendar(
+      `Yero payments (${feed.user.full_name})`,
+      (installments || []) as FeedInstallment[]
+    );
+
+    return new Response(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="yero-payments.ics"',
+        ...cacheHeaders,
+        ...corsHeaders
+      }
+    });
+  } catch (error) {
+    console.error('Error serving calendar feed:', error);
+    return textResponse('Calendar feed unavailable', 500);
+  }
+});
@@ -0,0 +1,141 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DigestItem } from '../_shared/emailTemplateData.ts';
+
+type DigestFrequency = 'daily' | 'weekly';
+
+interface DigestRecipient {
+  user_id: string;
+  email: string;
+  full_name: string;
+  frequency: DigestFrequency;
+  since: string;
+}
+
+interface DigestContent {
+  messages: { liaisonId: string; counterpart: string; count: number; latest: string }[];
+  installments: { liaisonId: string; counterpart: string; description: string; amount: number | string; dueDate: string }[];
+  proposals: {
+    liaisonId: string;
+    counterpart: string;
+    totalAmount: number | string;
+    numberOfPayments: number;
+    paymentPeriod: number;
+    expiresAt: string;
+  }[];
+}
+
+export interface DigestRunOptions {
+  asOf?: string;
+}
+
+export interface DigestRunResult {
+  asOf: string;
+  recipients: number;
+  sent: number;
+  empty: number;
+  failed: { userId: string; error: string }[];
+}
+
+// How far ahead upcoming installments are listed
+const HORIZON_DAYS: Record<DigestFrequency, number> = {
+  daily: 7,
+  weekly: 14,
+};
+
+const formatCurrency = (amount: number | string) =>
+  `$${Number(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: string) =>
+  new Date(date.length === 10 ? `${date}T00:00:00` : date).toLocaleDateString('en-US');
+
+export function buildDigestItems(content: DigestContent, today: string): DigestItem[] {
+  return [
+    ...content.messages.map(thread => ({
+      title: thread.counterpart,
+      detail: `${thread.count} unread message${thread.count === 1 ? '' : 's'}`,
+    })),
+    ...content.proposals.map(proposal => ({
+      title: 'Payment plan proposal',
+      detail: `${proposal.counterpart} proposed ${formatCurrency(proposal.totalAmount)} in ${proposal.numberOfPayments} payments every ${proposal.paymentPeriod} days, open until ${formatDate(proposal.expiresAt)}`,
+    })),
+    ...content.installments.map(installment => ({
+      title: installment.dueDate < today ? 'Overdue payment' : 'Upcoming payment',
+      detail: `${installment.description} (${installment.counterpart}): ${formatCurrency(installment.amount)} due ${formatDate(installment.dueDate)}`,
+    })),
+  ];
+}
+
+async function emailDigest(recipient: DigestRecipient, items: DigestItem[]) {
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/send-email`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+    },
+    body: JSON.stringify({
+      to: recipient.email,
+      template: 'digest',
+      data: {
+        recipientName: recipient.full_name.split(' ')[0] || recipient.full_name,
+        period: recipient.frequency,
+        items
+      }
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+}
+
+// Sends every user whose digest is due one email with what they haven't seen
+// yet. A user is only marked as sent once the email went out, so a failed
+// digest is retried on the next run.
+export async function runDigests(
+  supabase: SupabaseClient,
+  { asOf = new Date().toISOString() }: DigestRunOptions = {}
+): Promise<DigestRunResult> {
+  const { data, error } = await supabase.rpc('due_digest_recipients', { as_of: asOf });
+  if (error) throw error;
+
+  const recipients = (data || []) as DigestRecipient[];
+  const today = asOf.split('T')[0];
+  const result: DigestRunResult = { asOf, recipients: recipients.length, sent: 0, empty: 0, failed: [] };
+
+  for (const recipient of recipients) {
+    try {
+      const { data: content, error: contentError } = await supabase.rpc('digest_content', {
+        target_user_id: recipient.user_id,
+        since: recipient.since,
+        horizon_days: HORIZON_DAYS[recipient.frequency],
+        as_of: asOf,
+      });
+
+      if (contentError) throw contentError;
+
+      const items = buildDigestItems(content as DigestContent, today);
+
+      if (items.length === 0) {
+        result.empty++;
+      } else {
+        await emailDigest(recipient, items);
+        result.sent++;
+      }
+
+      const { error: updateError } = await supabase
+        .from('users')
+        .update({ last_digest_sent_at: asOf })
+        .eq('id', recipient.user_id);
+
+      if (updateError) throw updateError;
+    } catch (err) {
+      console.error(`Error sending digest to ${recipient.user_id}:`, err);
+      result.failed.push({
+        userId: recipient.user_id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,28 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { runDigests } from './digest.ts';
+
+// Runs the digest job on a timer outside the edge runtime:
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno run --allow-net --allow-env supabase/functions/email-digest/local.ts
+//
+// DIGEST_INTERVAL_MINUTES (default 60) sets how often it checks for due digests.
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const intervalMinutes = Number(Deno.env.get('DIGEST_INTERVAL_MINUTES') ?? 60);
+
+const run = async () => {
+  try {
+    const result = await runDigests(supabase);
+    console.log(JSON.stringify(result));
+  } catch (error) {
+    console.error('Digest run failed:', error);
+  }
+};
+
+await run();
+setInterval(run, intervalMinutes * 60 * 1000);
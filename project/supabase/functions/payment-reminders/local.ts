@@ -0,0 +1,31 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { runReminders } from './reminders.ts';
+
+// Runs the reminder job on a timer outside the edge runtime:
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno run --allow-net --allow-env supabase/functions/payment-reminders/local.ts
+//
+// REMINDER_INTERVAL_MINUTES (default 1440) sets how often it runs and
+// REMINDER_EMAILS=true also emails urgent reminders right away.
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const intervalMinutes = Number(Deno.env.get('REMINDER_INTERVAL_MINUTES') ?? 24 * 60);
+
+const run = async () => {
+  try {
+    const result = await runReminders(supabase, {
+      sendEmail: Deno.env.get('REMINDER_EMAILS') === 'true',
+    });
+    console.log(JSON.stringify(result));
+  } catch (error) {
+    console.error('Reminder run failed:', error);
+  }
+};
+
+await run();
+setInterval(run, intervalMinutes * 60 * 1000);
@@ -0,0 +1,171 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  renderReminderTemplate,
+  DEFAULT_REMINDER_TEMPLATES,
+  ReminderLevel,
+  ReminderTemplate,
+} from '../_shared/reminderTemplates.ts';
+
+interface DueReminder {
+  transaction_id: string;
+  liaison_id: string;
+  level: ReminderLevel;
+  days_until_due: number;
+  crs_score: number;
+  amount: number | string;
+  due_date: string;
+  description: string;
+  plan_remaining: number | string;
+  client_name: string | null;
+  client_email: string | null;
+  accountant_id: string;
+  accountant_name: string | null;
+  accounting_firm_id: string | null;
+  accounting_firm_name: string | null;
+}
+
+interface TemplateRow {
+  company_id: string;
+  level: ReminderLevel;
+  subject: string;
+  body: string;
+}
+
+export interface ReminderRunOptions {
+  asOf?: string;
+  sendEmail?: boolean;
+}
+
+export interface ReminderRunResult {
+  asOf: string;
+  due: number;
+  sent: number;
+  skipped: number;
+  emailed: number;
+  failed: { transactionId: string; level: ReminderLevel; error: string }[];
+}
+
+async function emailReminder(reminder: DueReminder, message: ReminderTemplate) {
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/send-email`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+    },
+    body: JSON.stringify({
+      to: reminder.client_email,
+      template: 'reminder',
+      data: {
+        subject: message.subject,
+        message: message.body,
+        senderCompany: reminder.accounting_firm_name || 'Your accountant',
+        senderName: reminder.accountant_name || ''
+      }
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+
+  // false when the client opted out of reminder emails or is in quiet hours
+  const { skipped } = await response.json();
+  return !skipped;
+}
+
+// Posts the reminder each open installment is due for today. Safe to run any
+// number of times a day: a level already sent for an installment is skipped.
+export async function runReminders(
+  supabase: SupabaseClient,
+  { asOf = new Date().toISOString().split('T')[0], sendEmail = false }: ReminderRunOptions = {}
+): Promise<ReminderRunResult> {
+  const { data, error } = await supabase.rpc('due_payment_reminders', { as_of: asOf });
+  if (error) throw error;
+
+  const due = (data || []) as DueReminder[];
+
+  // Firms' own wording, keyed by firm and level
+  const firmIds = [...new Set(due.map(reminder => reminder.accounting_firm_id).filter(Boolean))];
+  const templates = new Map<string, ReminderTemplate>();
+
+  if (firmIds.length > 0) {
+    const { data: templateRows, error: templateError } = await supabase
+      .from('reminder_templates')
+      .select('company_id, level, subject, body')
+      .in('company_id', firmIds);
+
+    if (templateError) throw templateError;
+
+    for (const row of (templateRows || []) as TemplateRow[]) {
+      templates.set(`${row.company_id}:${row.level}`, { subject: row.subject, body: row.body });
+    }
+  }
+
+  const result: ReminderRunResult = { asOf, due: due.length, sent: 0, skipped: 0, emailed: 0, failed: [] };
+
+  for (const reminder of due) {
+    try {
+      const amount = Number(reminder.amount);
+      const template = templates.get(`${reminder.accounting_firm_id}:${reminder.level}`)
+        ?? DEFAULT_REMINDER_TEMPLATES[reminder.level];
+      const message = renderReminderTemplate(template, {
+        clientName: reminder.client_name || '',
+        amount,
+        dueDate: reminder.due_date,
+        daysOverdue: Math.max(-reminder.days_until_due, 0),
+        crsScore: reminder.crs_score,
+        planRemaining: Number(reminder.plan_remaining),
+        firmName: reminder.accounting_firm_name || '',
+        accountantName: reminder.accountant_name || '',
+      });
+
+      const { data: reminderId, error: recordError } = await supabase.rpc('record_payment_reminder', {
+        target_transaction_id: reminder.transaction_id,
+        target_level: reminder.level,
+        reminder_content: message.body,
+        reminder_amount: amount,
+        reminder_due_date: reminder.due_date,
+        reminder_days_until_due: reminder.days_until_due,
+      });
+
+      if (recordError) throw recordError;
+
+      if (!reminderId) {
+        result.skipped++;
+        continue;
+      }
+
+      result.sent++;
+
+      // Only urgent reminders are emailed right away, the others reach the
+      // client through their email digest as unread chat messages
+      if (sendEmail && reminder.level === 'urgent' && reminder.client_email) {
+        try {
+          if (await emailReminder(reminder, message)) {
+            await supabase
+              .from('payment_reminders')
+              .update({ emailed_at: new Date().toISOString() })
+              .eq('id', reminderId);
+            result.emailed++;
+          }
+        } catch (emailError) {
+          // The chat reminder stands even if the email copy fails
+          console.error('Error emailing reminder:', emailError);
+          await supabase
+            .from('payment_reminders')
+            .update({ email_error: emailError instanceof Error ? emailError.message : String(emailError) })
+            .eq('id', reminderId);
+        }
+      }
+    } catch (err) {
+      console.error(`Error sending ${reminder.level} reminder for ${reminder.transaction_id}:`, err);
+      result.failed.push({
+        transactionId: reminder.transaction_id,
+        level: reminder.level,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return result;
+}
@@ -1,5 +1,19 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
-import { SmtpClient } from 'https://deno.land/x/smtp@v0.7.0/mod.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { isEmailTemplateName, missingFields, renderEmail, EmailRecipients, EMAIL_TEMPLATES } from './templates.ts';
+import { createTransport } from './transport.ts';
+import { SenderDetails } from '../_shared/emailTemplateData.ts';
+
+// Sends one templated email: POST {"to": "...", "template": "new_message", "data": {...}}.
+// See templates.ts for the templates and their data, transport.ts for configuration.
+// Every email goes through here, so this is where recipients' notification
+// preferences are enforced: an email they opted out of, or one that falls in
+// their quiet hours, is skipped and reported as {"skipped": true}.
+// Signed-in users may only email the people a template is meant for (see
+// recipientAuthorized()); the scheduled jobs call it with the service role key.
+// For signed-in users the sender details come from their own profile, and
+// invitation links are built from the invitation token under APP_URL (the
+// app's public address), whatever the request says.
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -7,6 +21,189 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS'
 };
 
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const appUrl = (Deno.env.get('APP_URL') ?? '').replace(/\/+$/, '');
+
+// 'service' for the scheduled jobs, the user's id for a valid session, null otherwise
+async function authenticate(supabase: SupabaseClient, req: Request): Promise<string | null> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+  if (serviceRoleKey && token === serviceRoleKey) return 'service';
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) return null;
+  return user.id;
+}
+
+async function userByEmail(supabase: SupabaseClient, email: string) {
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, company_id')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as { id: string; company_id: string } | null;
+}
+
+// Open invitations the caller sent to the address
+async function invitedBy(supabase: SupabaseClient, table: 'invitations' | 'team_invitations', callerId: string, to: string) {
+  const { data, error } = await supabase
+    .from(table)
+    .select('invitee_email')
+    .eq('inviter_id', callerId)
+    .is('revoked_at', null)
+    .is(table === 'invitations' ? 'redeemed_at' : 'accepted_at', null)
+    .gt('expires_at', new Date().toISOString());
+
+  if (error) throw error;
+  return (data || []).some(row => row.invitee_email.trim().toLowerCase() === to.trim().toLowerCase());
+}
+
+async function recipientAuthorized(
+  supabase: SupabaseClient,
+  callerId: string,
+  to: string,
+  recipients: EmailRecipients
+): Promise<boolean> {
+  switch (recipients) {
+    case 'jobs':
+      return false;
+    case 'invitee':
+      return invitedBy(supabase, 'invitations', callerId, to);
+    case 'team_invitee':
+      return invitedBy(supabase, 'team_invitations', callerId, to);
+    case 'counterpart': {
+      // The other side of one of the caller's liaisons
+      const recipient = await userByEmail(supabase, to);
+      if (!recipient) return false;
+
+      const { data, error } = await supabase
+        .from('liaisons')
+        .select('id')
+        .or(
+          `and(accountant_id.eq.${callerId},client_id.eq.${recipient.id}),` +
+          `and(client_id.eq.${callerId},accountant_id.eq.${recipient.id})`
+        )
+        .limit(1);
+
+      if (error) throw error;
+      return (data || []).length > 0;
+    }
+    case 'connected_company': {
+      // A member of a company related to the caller's
+      const recipient = await userByEmail(supabase, to);
+      if (!recipient) return false;
+
+      const { data: caller, error: callerError } = await supabase
+        .from('users')
+        .select('company_id')
+        .eq('id', callerId)
+        .single();
+
+      if (callerError) throw callerError;
+
+      const { data, error } = await supabase
+        .from('company_relationships')
+        .select('id')
+        .or(
+          `and(accounting_firm_id.eq.${caller.company_id},client_firm_id.eq.${recipient.company_id}),` +
+          `and(client_firm_id.eq.${caller.company_id},accounting_firm_id.eq.${recipient.company_id})`
+        )
+        .limit(1);
+
+      if (error) throw error;
+      return (data || []).length > 0;
+    }
+  }
+}
+
+async function senderDetails(supabase: SupabaseClient, callerId: string): Promise<SenderDetails> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('full_name, email, phone_number, company:company_id(name)')
+    .eq('id', callerId)
+    .single();
+
+  if (error) throw error;
+
+  // PostgREST returns the to-one embed as an object
+  const company = data.company as unknown as { name: string } | null;
+  return {
+    senderName: data.full_name,
+    senderCompany: company?.name ?? '',
+    senderEmail: data.email,
+    senderPhone: data.phone_number ?? undefined,
+  };
+}
+
+// The link of an open invitation the caller sent to the address, or null
+async function invitationLink(
+  supabase: SupabaseClient,
+  template: 'invitation' | 'team_invitation',
+  callerId: string,
+  to: string,
+  token: unknown
+): Promise<string | null> {
+  if (typeof token !== 'string') return null;
+  if (!appUrl) throw new Error('APP_URL is not configured');
+
+  const { data: invitation, error } = await supabase.rpc(
+    template === 'invitation' ? 'invitation_from_token' : 'team_invitation_from_token',
+    { token }
+  );
+
+  if (error) throw error;
+
+  // Forged tokens come back as a row of nulls
+  if (!invitation?.id
+    || invitation.inviter_id !== callerId
+    || invitation.invitee_email.trim().toLowerCase() !== to.trim().toLowerCase()
+    || invitation.revoked_at
+    || (template === 'invitation' ? invitation.redeemed_at : invitation.accepted_at)
+    || new Date(invitation.expires_at) <= new Date()) {
+    return null;
+  }
+
+  return `${appUrl}/${template === 'invitation' ? 'invite' : 'join'}/${token}`;
+}
+
+// Recipients without an account have no preferences and always get the email
+async function recipientAllows(supabase: SupabaseClient, to: string, template: keyof typeof EMAIL_TEMPLATES) {
+  const event = EMAIL_TEMPLATES[template].event;
+  if (!event) return true;
+
+  const { data: recipient, error } = await supabase
+    .from('users')
+    .select('id')
+    .eq('email', to)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!recipient) return true;
+
+  const { data: allowed, error: allowedError } = await supabase.rpc('notification_allowed', {
+    target_user_id: recipient.id,
+    channel: 'email',
+    event,
+  });
+
+  if (allowedError) throw allowedError;
+  return allowed === true;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    }
+  );
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -14,91 +211,67 @@ serve(async (req) => {
   }
 
   try {
-    const client = new SmtpClient();
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
 
-    // Configure SMTP connection
-    await client.connectTLS({
-      hostname: 'smtp.gmail.com',
-      port: 465,
-      username: 'yeroccountingservice@gmail.com',
-      password: 'qwerty12345' // Note: Use app-specific password in production
-    });
+    const callerId = await authenticate(supabase, req);
+    if (!callerId) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
 
-    const { to, subject, senderCompany, senderName, message, senderEmail, senderPhone } = await req.json();
+    const { to, template, data = {} } = await req.json();
 
     // Validate required fields
-    if (!to || !subject || !message) {
-      throw new Error('Missing required fields');
+    if (!to || !template) {
+      return jsonResponse({ error: 'Missing required fields' }, 400);
     }
 
-    // Create HTML email content
-    const htmlBody = `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <h2 style="color: #4F46E5;">New Message from ${senderCompany}</h2>
-        <p style="color: #374151; font-size: 16px; line-height: 1.5;">
-          ${message}
-        </p>
-        <div style="margin-top: 24px; padding-top: 24px; border-top: 1px solid #E5E7EB;">
-          <h3 style="color: #111827; font-size: 18px;">Sender Details:</h3>
-          <p style="color: #374151; margin: 8px 0;">
-            <strong>Name:</strong> ${senderName}<br>
-            <strong>Email:</strong> ${senderEmail}<br>
-            <strong>Phone:</strong> ${senderPhone}<br>
-            <strong>Company:</strong> ${senderCompany}
-          </p>
-        </div>
-      </div>
-    `;
+    if (!isEmailTemplateName(template)) {
+      return jsonResponse({
+        error: `Unknown template "${template}", expected one of ${Object.keys(EMAIL_TEMPLATES).join(', ')}`
+      }, 400);
+    }
 
-    try {
-      // Send email
-      await client.send({
-        from: 'yeroccountingservice@gmail.com',
-        to: to,
-        subject: subject,
-        content: 'This is a HTML email.',
-        html: htmlBody,
-      });
-
-      await client.close();
-
-      return new Response(
-        JSON.stringify({ message: 'Email sent successfully' }),
-        { 
-          headers: { 
-            'Content-Type': 'application/json',
-            ...corsHeaders
-          } 
+    let templateData = data;
+
+    if (callerId !== 'service') {
+      if (!await recipientAuthorized(supabase, callerId, to, EMAIL_TEMPLATES[template].recipients)) {
+        return jsonResponse({ error: `You cannot send ${template} emails to ${to}` }, 403);
+      }
+
+      templateData = { ...data, ...await senderDetails(supabase, callerId) };
+
+      if (template === 'invitation' || template === 'team_invitation') {
+        const inviteUrl = await invitationLink(supabase, template, callerId, to, data.inviteToken);
+        if (!inviteUrl) {
+          return jsonResponse({ error: `No open invitation to ${to} matches this token` }, 403);
         }
-      );
+        templateData = { ...templateData, inviteUrl };
+      }
+    }
+
+    const missing = missingFields(template, templateData);
+    if (missing.length > 0) {
+      return jsonResponse({ error: `Missing template data: ${missing.join(', ')}` }, 400);
+    }
+
+    if (!await recipientAllows(supabase, to, template)) {
+      return jsonResponse({ message: 'Email skipped by recipient preferences', skipped: true });
+    }
+
+    const email = renderEmail(template, templateData);
+    const transport = createTransport();
+
+    try {
+      await transport.send({ to, ...email });
+      return jsonResponse({ message: 'Email sent successfully', transport: transport.name });
     } catch (emailError) {
-      console.error('SMTP Error:', emailError);
-      return new Response(
-        JSON.stringify({ 
-          error: 'Failed to send email. SMTP error occurred.' 
-        }),
-        { 
-          status: 500,
-          headers: {
-            'Content-Type': 'application/json',
-            ...corsHeaders
-          }
-        }
-      );
+      console.error(`${transport.name} transport error:`, emailError);
+      return jsonResponse({ error: `Failed to send email. ${transport.name} transport error occurred.` }, 500);
     }
   } catch (error) {
     console.error('General Error:', error);
-    return new Response(
-      JSON.stringify({ 
-        error: error instanceof Error ? error.message : 'Failed to send email' 
-      }),
-      { 
-        status: 500,
-        headers: {
-          'Content-Type': 'application/json',
-          ...corsHeaders
-        }
-      }
-    );
+    return jsonResponse({
+      error: error instanceof Error ? error.message : 'Failed to send email'
+    }, 500);
   }
-});
\ No newline at end of file
+});
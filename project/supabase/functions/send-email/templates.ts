@@ -0,0 +1,270 @@
+import {
+  EmailTemplateData,
+  EmailTemplateName,
+  PlanDetails,
+  SenderDetails,
+} from '../_shared/emailTemplateData.ts';
+
+export type { EmailTemplateData, EmailTemplateName } from '../_shared/emailTemplateData.ts';
+
+// Named email templates. Every variable is HTML-escaped before it goes into
+// the HTML part, and each template also renders a plain-text part.
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Notification preference each template falls under (see notification_allowed())
+export type NotificationEvent = 'message' | 'reminder' | 'plan' | 'connection';
+
+// Who a signed-in user may send a template to (see recipientAuthorized() in
+// index.ts). 'jobs' templates are only sent with the service role key.
+export type EmailRecipients = 'counterpart' | 'connected_company' | 'invitee' | 'team_invitee' | 'jobs';
+
+interface EmailTemplate<T extends EmailTemplateName> {
+  // null for digests, which have their own frequency setting
+  event: NotificationEvent | null;
+  recipients: EmailRecipients;
+  required: (keyof EmailTemplateData[T])[];
+  render: (data: EmailTemplateData[T]) => RenderedEmail;
+}
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Escapes a multi-line text and keeps its line breaks
+const paragraphs = (text: string) =>
+  text
+    .split(/\n{2,}/)
+    .map(paragraph => `<p style="color: #374151; font-size: 16px; line-height: 1.5;">${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+
+const formatCurrency = (amount: number) =>
+  `$${Number(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const layout = (title: string, content: string) => `
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+    <h2 style="color: #4F46E5;">${escapeHtml(title)}</h2>
+    ${content}
+  </div>
+`;
+
+const senderHtml = ({ senderName, senderCompany, senderEmail, senderPhone }: SenderDetails) => `
+  <div style="margin-top: 24px; padding-top: 24px; border-top: 1px solid #E5E7EB;">
+    <h3 style="color: #111827; font-size: 18px;">Sender Details:</h3>
+    <p style="color: #374151; margin: 8px 0;">
+      <strong>Name:</strong> ${escapeHtml(senderName)}<br>
+      ${senderEmail ? `<strong>Email:</strong> ${escapeHtml(senderEmail)}<br>` : ''}
+      ${senderPhone ? `<strong>Phone:</strong> ${escapeHtml(senderPhone)}<br>` : ''}
+      <strong>Company:</strong> ${escapeHtml(senderCompany)}
+    </p>
+  </div>
+`;
+
+const senderText = ({ senderName, senderCompany, senderEmail, senderPhone }: SenderDetails) =>
+  [
+    '--',
+    senderName,
+    senderCompany,
+    senderEmail,
+    senderPhone,
+  ].filter(Boolean).join('\n');
+
+const planHtml = (plan: PlanDetails) => `
+  <p style="color: #374151; margin: 8px 0;">
+    ${plan.planType ? `<strong>Plan:</strong> ${escapeHtml(plan.planType)}<br>` : ''}
+    <strong>Total:</strong> ${escapeHtml(formatCurrency(plan.totalAmount))}<br>
+    <strong>Payments:</strong> ${escapeHtml(plan.numberOfPayments)} (${escapeHtml(plan.paymentPeriod)})
+  </p>
+`;
+
+const planText = (plan: PlanDetails) =>
+  [
+    plan.planType && `Plan: ${plan.planType}`,
+    `Total: ${formatCurrency(plan.totalAmount)}`,
+    `Payments: ${plan.numberOfPayments} (${plan.paymentPeriod})`,
+  ].filter(Boolean).join('\n');
+
+export const EMAIL_TEMPLATES: { [T in EmailTemplateName]: EmailTemplate<T> } = {
+  new_message: {
+    event: 'message',
+    recipients: 'counterpart',
+    required: ['senderName', 'senderCompany', 'message'],
+    render: (data) => ({
+      subject: `New message from ${data.senderCompany}`,
+      text: `New message from ${data.senderCompany}\n\n${data.message}\n\n${senderText(data)}`,
+      html: layout(`New Message from ${data.senderCompany}`, paragraphs(data.message) + senderHtml(data)),
+    }),
+  },
+  reminder: {
+    event: 'reminder',
+    recipients: 'counterpart',
+    required: ['senderCompany', 'subject', 'message'],
+    render: (data) => ({
+      subject: data.subject,
+      text: `${data.message}\n\n${senderText(data)}`,
+      html: layout(data.subject, paragraphs(data.message) + senderHtml(data)),
+    }),
+  },
+  plan_proposed: {
+    event: 'plan',
+    recipients: 'counterpart',
+    required: ['senderName', 'senderCompany', 'totalAmount', 'numberOfPayments', 'paymentPeriod'],
+    render: (data) => ({
+      subject: `New payment plan proposal from ${data.senderCompany}`,
+      text: [
+        `${data.senderName} proposed a new payment plan:`,
+        planText(data),
+        data.reason && `Reason: ${data.reason}`,
+        'Open the chat to accept it, reject it or make a counter-offer.',
+        senderText(data),
+      ].filter(Boolean).join('\n\n'),
+      html: layout(
+        'New Payment Plan Proposal',
+        paragraphs(`${data.senderName} proposed a new payment plan:`)
+          + planHtml(data)
+          + (data.reason ? paragraphs(`Reason: ${data.reason}`) : '')
+          + paragraphs('Open the chat to accept it, reject it or make a counter-offer.')
+          + senderHtml(data)
+      ),
+    }),
+  },
+  plan_accepted: {
+    event: 'plan',
+    recipients: 'counterpart',
+    required: ['senderName', 'senderCompany', 'totalAmount', 'numberOfPayments', 'paymentPeriod'],
+    render: (data) => ({
+      subject: `Payment plan accepted by ${data.senderCompany}`,
+      text: [
+        `${data.senderName} accepted the payment plan. It is now in effect:`,
+        planText(data),
+        senderText(data),
+      ].join('\n\n'),
+      html: layout(
+        'Payment Plan Accepted',
+        paragraphs(`${data.senderName} accepted the payment plan. It is now in effect:`)
+          + planHtml(data)
+          + senderHtml(data)
+      ),
+    }),
+  },
+  connection_request: {
+    event: 'connection',
+    recipients: 'connected_company',
+    required: ['senderName', 'senderCompany'],
+    render: (data) => ({
+      subject: `${data.senderCompany} wants to connect`,
+      text: [
+        `${data.senderName} from ${data.senderCompany} sent you a connection request.`,
+        data.message,
+        'Sign in to review the request.',
+        senderText(data),
+      ].filter(Boolean).join('\n\n'),
+      html: layout(
+        'New Connection Request',
+        paragraphs(`${data.senderName} from ${data.senderCompany} sent you a connection request.`)
+          + (data.message ? paragraphs(data.message) : '')
+          + paragraphs('Sign in to review the request.')
+          + senderHtml(data)
+      ),
+    }),
+  },
+  invitation: {
+    event: 'connection',
+    recipients: 'invitee',
+    required: ['senderName', 'senderCompany', 'inviteUrl', 'expiresAt'],
+    render: (data) => {
+      const greeting = data.recipientName ? `Hi ${data.recipientName},\n\n` : '';
+      const intro = `${data.senderName} from ${data.senderCompany} invited you to connect on Yero.`;
+      const expiry = `The invitation expires on ${data.expiresAt}.`;
+      return {
+        subject: `${data.senderCompany} invited you to connect`,
+        text: [
+          `${greeting}${intro}`,
+          `Accept the invitation: ${data.inviteUrl}`,
+          expiry,
+          senderText(data),
+        ].join('\n\n'),
+        html: layout(
+          'You Have Been Invited',
+          paragraphs(`${greeting}${intro}`)
+            + `<p><a href="${escapeHtml(data.inviteUrl)}" style="display: inline-block; padding: 10px 20px; background: #4F46E5; color: #FFFFFF; border-radius: 8px; text-decoration: none;">Accept Invitation</a></p>`
+            + paragraphs(expiry)
+            + senderHtml(data)
+        ),
+      };
+    },
+  },
+  team_invitation: {
+    event: 'connection',
+    recipients: 'team_invitee',
+    required: ['senderName', 'senderCompany', 'role', 'inviteUrl', 'expiresAt'],
+    render: (data) => {
+      const greeting = data.recipientName ? `Hi ${data.recipientName},\n\n` : '';
+      const intro = `${data.senderName} invited you to join ${data.senderCompany} on Yero as ${data.role}.`;
+      const expiry = `The invitation expires on ${data.expiresAt}.`;
+      return {
+        subject: `Join ${data.senderCompany} on Yero`,
+        text: [
+          `${greeting}${intro}`,
+          `Create your account: ${data.inviteUrl}`,
+          expiry,
+          senderText(data),
+        ].join('\n\n'),
+        html: layout(
+          'Join Your Team',
+          paragraphs(`${greeting}${intro}`)
+            + `<p><a href="${escapeHtml(data.inviteUrl)}" style="display: inline-block; padding: 10px 20px; background: #4F46E5; color: #FFFFFF; border-radius: 8px; text-decoration: none;">Create Account</a></p>`
+            + paragraphs(expiry)
+            + senderHtml(data)
+        ),
+      };
+    },
+  },
+  digest: {
+    event: null,
+    recipients: 'jobs',
+    required: ['recipientName', 'period', 'items'],
+    render: (data) => {
+      const title = data.period === 'weekly' ? 'Your weekly summary' : 'Your daily summary';
+      return {
+        subject: title,
+        text: [
+          `Hi ${data.recipientName},`,
+          `Here is what happened since your last ${data.period} summary:`,
+          data.items.map(item => `- ${item.title}: ${item.detail}`).join('\n'),
+        ].join('\n\n'),
+        html: layout(
+          title,
+          paragraphs(`Hi ${data.recipientName},\n\nHere is what happened since your last ${data.period} summary:`)
+            + `<ul style="color: #374151; font-size: 16px; line-height: 1.5;">${
+              data.items.map(item => `<li><strong>${escapeHtml(item.title)}:</strong> ${escapeHtml(item.detail)}</li>`).join('')
+            }</ul>`
+        ),
+      };
+    },
+  },
+};
+
+export function isEmailTemplateName(name: unknown): name is EmailTemplateName {
+  return typeof name === 'string' && name in EMAIL_TEMPLATES;
+}
+
+export function missingFields<T extends EmailTemplateName>(template: T, data: Partial<EmailTemplateData[T]>) {
+  return (EMAIL_TEMPLATES[template].required as string[]).filter(field => {
+    const value = (data as Record<string, unknown>)[field];
+    return value === undefined || value === null || value === '';
+  });
+}
+
+export function renderEmail<T extends EmailTemplateName>(template: T, data: EmailTemplateData[T]): RenderedEmail {
+  return EMAIL_TEMPLATES[template].render(data);
+}
@@ -0,0 +1,98 @@
+import { SmtpClient } from 'https://deno.land/x/smtp@v0.7.0/mod.ts';
+
+// Where rendered emails go. EMAIL_TRANSPORT picks one:
+//
+//   smtp     SMTP_HOST, SMTP_PORT (default 465), SMTP_USERNAME, SMTP_PASSWORD,
+//            SMTP_FROM (default SMTP_USERNAME) and SMTP_TLS (default true)
+//   file     writes every email as JSON into EMAIL_OUTBOX_DIR (default ./outbox)
+//   console  logs the plain-text part
+//
+// Without EMAIL_TRANSPORT, SMTP is used when SMTP_HOST is set and the console
+// otherwise, so local development never sends real email by accident.
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send: (message: EmailMessage) => Promise<void>;
+}
+
+export function createSmtpTransport(): EmailTransport {
+  const hostname = Deno.env.get('SMTP_HOST');
+  const username = Deno.env.get('SMTP_USERNAME');
+  const password = Deno.env.get('SMTP_PASSWORD');
+  const port = Number(Deno.env.get('SMTP_PORT') ?? 465);
+  const from = Deno.env.get('SMTP_FROM') ?? username;
+  const useTls = Deno.env.get('SMTP_TLS') !== 'false';
+
+  if (!hostname || !username || !password || !from) {
+    throw new Error('SMTP transport needs SMTP_HOST, SMTP_USERNAME and SMTP_PASSWORD');
+  }
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      const client = new SmtpClient();
+      const config = { hostname, port, username, password };
+
+      if (useTls) {
+        await client.connectTLS(config);
+      } else {
+        await client.connect(config);
+      }
+
+      try {
+        await client.send({
+          from,
+          to: message.to,
+          subject: message.subject,
+          content: message.text,
+          html: message.html,
+        });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+}
+
+export function createFileTransport(directory = Deno.env.get('EMAIL_OUTBOX_DIR') ?? './outbox'): EmailTransport {
+  return {
+    name: 'file',
+    send: async (message) => {
+      await Deno.mkdir(directory, { recursive: true });
+      const path = `${directory}/${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID()}.json`;
+      await Deno.writeTextFile(path, JSON.stringify(message, null, 2));
+    },
+  };
+}
+
+export function createConsoleTransport(): EmailTransport {
+  return {
+    name: 'console',
+    send: (message) => {
+      console.log(`To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+      return Promise.resolve();
+    },
+  };
+}
+
+export function createTransport(): EmailTransport {
+  const transport = Deno.env.get('EMAIL_TRANSPORT') ?? (Deno.env.get('SMTP_HOST') ? 'smtp' : 'console');
+
+  switch (transport) {
+    case 'smtp':
+      return createSmtpTransport();
+    case 'file':
+      return createFileTransport();
+    case 'console':
+      return createConsoleTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${transport}"`);
+  }
+}
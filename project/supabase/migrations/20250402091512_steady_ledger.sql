@@ -0,0 +1,158 @@
+/*
+  # Generate Installment Schedules from Payment Plans
+
+  1. New Functions
+    - `generate_installment_schedule(plan_id)`
+      - Creates one `transactions` row per installment of a payment plan
+      - Due dates are spaced by the plan's `payment_rate` (days)
+      - Amounts are rounded to cents with the rounding remainder on the last installment
+      - Does nothing if the plan already has non-cancelled installments
+    - `cancel_open_installments(plan_id)`
+      - Cancels every pending or partially paid installment of a plan
+    - Both run from the trigger below only; they cannot be called over RPC
+
+  2. Triggers
+    - `payment_plan_schedule_sync` on `Payment_plan`
+      - On activation, materializes the schedule
+      - When the activated plan has a `parent_plan_id`, cancels the parent's open installments
+      - When an active plan is cancelled, rejected or completed, cancels its open installments
+
+  3. Backfill
+    - Generates schedules for active plans that have no installments yet
+
+  4. Notes
+    - Paid and overdue installments are never touched, so payment history
+      survives a renegotiation
+*/
+
+CREATE INDEX IF NOT EXISTS idx_transactions_plan_number
+ON transactions (payment_plan_id, payment_number);
+
+-- Materialize the installments of a single plan
+CREATE OR REPLACE FUNCTION generate_installment_schedule(plan_id bigint)
+RETURNS void AS $$
+DECLARE
+  plan_record RECORD;
+  installment_amount numeric;
+  remainder numeric;
+  start_date date;
+  i integer;
+BEGIN
+  SELECT id, total_due, payment_rate, num_payment
+  INTO plan_record
+  FROM "Payment_plan"
+  WHERE id = plan_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+    OR COALESCE(plan_record.total_due, 0) <= 0
+    OR COALESCE(plan_record.num_payment, 0) <= 0 THEN
+    RETURN;
+  END IF;
+
+  -- Keep the generator idempotent
+  IF EXISTS (
+    SELECT 1 FROM transactions t
+    WHERE t.payment_plan_id = plan_id
+    AND t.status <> 'cancelled'
+  ) THEN
+    RETURN;
+  END IF;
+
+  installment_amount := floor(plan_record.total_due * 100 / plan_record.num_payment) / 100;
+  remainder := plan_record.total_due - installment_amount * plan_record.num_payment;
+  start_date := CURRENT_DATE;
+
+  FOR i IN 1..plan_record.num_payment LOOP
+    INSERT INTO transactions (
+      amount,
+      due_date,
+      status,
+      payment_type,
+      payment_number,
+      payment_plan_id,
+      description
+    ) VALUES (
+      CASE
+        WHEN i = plan_record.num_payment THEN installment_amount + remainder
+        ELSE installment_amount
+      END,
+      start_date + (COALESCE(plan_record.payment_rate, 30) * i),
+      'pending',
+      CASE
+        WHEN plan_record.num_payment > 1 THEN 'installment'
+        ELSE 'lumpsum'
+      END,
+      i,
+      plan_record.id,
+      CASE
+        WHEN plan_record.num_payment > 1
+        THEN 'Installment Payment ' || i || ' of ' || plan_record.num_payment
+        ELSE 'Full Payment'
+      END
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Cancel the installments of a plan that have not been settled or missed yet
+CREATE OR REPLACE FUNCTION cancel_open_installments(plan_id bigint)
+RETURNS void AS $$
+BEGIN
+  UPDATE transactions
+  SET status = 'cancelled',
+      updated_at = now()
+  WHERE payment_plan_id = plan_id
+  AND status IN ('pending', 'partial');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Keep the installment ledger in sync with the plan lifecycle
+CREATE OR REPLACE FUNCTION sync_payment_plan_schedule()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status = 'active'
+    AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'active') THEN
+    IF NEW.parent_plan_id IS NOT NULL THEN
+      PERFORM cancel_open_installments(NEW.parent_plan_id);
+    END IF;
+
+    PERFORM generate_installment_schedule(NEW.id);
+  ELSIF TG_OP = 'UPDATE'
+    AND OLD.status = 'active'
+    AND NEW.status IN ('cancelled', 'rejected', 'completed') THEN
+    PERFORM cancel_open_installments(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS payment_plan_schedule_sync ON "Payment_plan";
+
+CREATE TRIGGER payment_plan_schedule_sync
+  AFTER INSERT OR UPDATE OF status ON "Payment_plan"
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_payment_plan_schedule();
+
+REVOKE EXECUTE ON FUNCTION generate_installment_schedule(bigint) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cancel_open_installments(bigint) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sync_payment_plan_schedule() FROM PUBLIC, anon, authenticated;
+
+-- Backfill active plans that never had their installments materialized
+DO $$
+DECLARE
+  plan_record RECORD;
+BEGIN
+  FOR plan_record IN
+    SELECT pp.id
+    FROM "Payment_plan" pp
+    WHERE pp.status = 'active'
+    AND NOT EXISTS (
+      SELECT 1 FROM transactions t
+      WHERE t.payment_plan_id = pp.id
+    )
+  LOOP
+    PERFORM generate_installment_schedule(plan_record.id);
+  END LOOP;
+END $$;
@@ -0,0 +1,345 @@
+/*
+  # Payments Sub-Ledger and Installment Allocation
+
+  1. New Tables
+    - `payments`
+      - `id` (uuid, primary key)
+      - `liaison_id` (uuid, foreign key to liaisons)
+      - `amount` (numeric, money received)
+      - `payment_date` (date the money was received)
+      - `method` (bank_transfer, card, cash, cheque, other)
+      - `reference` (text, nullable, e.g. bank reference)
+      - `recorded_by` (uuid, foreign key to users)
+      - `created_at` (timestamp)
+    - `payment_allocations`
+      - `id` (uuid, primary key)
+      - `payment_id` (uuid, foreign key to payments)
+      - `transaction_id` (uuid, foreign key to transactions)
+      - `amount` (numeric, portion of the payment applied to the installment)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `transactions.status` accepts 'partial'
+    - `transactions.amount_paid` caches the sum of allocations
+
+  3. Functions
+    - `refresh_installment_status(transaction_id)` derives status, completion_date
+      and days_to_payment from the allocations of one installment
+    - `allocate_liaison_payments(liaison_id)` spreads every unallocated payment
+      balance across open installments, oldest due date first; whatever cannot be
+      allocated stays on the payment as credit carried forward
+    - `mark_overdue_installments()` flags unpaid installments past their due date;
+      pg_cron runs it every night
+    - `cancel_open_installments(plan_id)` also cancels partially paid
+      installments and releases what was paid on them as credit, which the
+      installments of a renegotiated plan consume
+    - None of them can be called over RPC
+
+  4. Triggers
+    - Recording a payment allocates it immediately
+    - New installments (e.g. a renegotiated plan) consume any carried-forward credit
+
+  5. Security
+    - RLS on both tables, scoped to the parties of the liaison
+    - RLS on `transactions`: the parties of the liaison can read its
+      installments; amounts paid, statuses and completion dates only change
+      through the functions and triggers above
+    - `liaison_credit_balances` applies the RLS of the caller
+*/
+
+ALTER TABLE transactions
+DROP CONSTRAINT IF EXISTS transactions_status_check;
+
+ALTER TABLE transactions
+ADD CONSTRAINT transactions_status_check
+CHECK (status IN ('pending', 'partial', 'paid', 'overdue', 'cancelled'));
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS amount_paid numeric NOT NULL DEFAULT 0;
+
+-- Create payments table
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  liaison_id uuid NOT NULL REFERENCES liaisons(id),
+  amount numeric NOT NULL CHECK (amount > 0),
+  payment_date date NOT NULL DEFAULT CURRENT_DATE,
+  method text NOT NULL DEFAULT 'bank_transfer'
+    CHECK (method IN ('bank_transfer', 'card', 'cash', 'cheque', 'other')),
+  reference text,
+  recorded_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Create payment allocations table
+CREATE TABLE IF NOT EXISTS payment_allocations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id uuid NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  transaction_id uuid NOT NULL REFERENCES transactions(id),
+  amount numeric NOT NULL CHECK (amount > 0),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_payments_liaison_id ON payments(liaison_id);
+CREATE INDEX IF NOT EXISTS idx_payments_payment_date ON payments(payment_date);
+CREATE INDEX IF NOT EXISTS idx_payment_allocations_payment ON payment_allocations(payment_id);
+CREATE INDEX IF NOT EXISTS idx_payment_allocations_transaction ON payment_allocations(transaction_id);
+
+-- Derive the state of one installment from its allocations
+CREATE OR REPLACE FUNCTION refresh_installment_status(installment_id uuid)
+RETURNS void AS $$
+DECLARE
+  installment RECORD;
+  paid numeric;
+  last_payment_date date;
+BEGIN
+  SELECT id, amount, due_date, status
+  INTO installment
+  FROM transactions
+  WHERE id = installment_id;
+
+  IF NOT FOUND OR installment.status = 'cancelled' THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(pa.amount), 0), MAX(p.payment_date)
+  INTO paid, last_payment_date
+  FROM payment_allocations pa
+  JOIN payments p ON p.id = pa.payment_id
+  WHERE pa.transaction_id = installment_id;
+
+  UPDATE transactions
+  SET amount_paid = paid,
+      status = CASE
+        WHEN paid >= installment.amount THEN 'paid'
+        WHEN installment.due_date < CURRENT_DATE THEN 'overdue'
+        WHEN paid > 0 THEN 'partial'
+        ELSE 'pending'
+      END,
+      completion_date = CASE
+        WHEN paid >= installment.amount THEN last_payment_date::timestamptz
+        ELSE NULL
+      END,
+      days_to_payment = CASE
+        WHEN paid >= installment.amount THEN last_payment_date - installment.due_date
+        ELSE NULL
+      END,
+      updated_at = now()
+  WHERE id = installment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Spread unallocated payment balances across open installments, oldest first
+CREATE OR REPLACE FUNCTION allocate_liaison_payments(target_liaison_id uuid)
+RETURNS void AS $$
+DECLARE
+  payment_record RECORD;
+  installment RECORD;
+  available numeric;
+  outstanding numeric;
+  applied numeric;
+BEGIN
+  FOR payment_record IN
+    SELECT p.id, p.amount - COALESCE((
+      SELECT SUM(pa.amount) FROM payment_allocations pa WHERE pa.payment_id = p.id
+    ), 0) AS balance
+    FROM payments p
+    WHERE p.liaison_id = target_liaison_id
+    ORDER BY p.payment_date, p.created_at
+    FOR UPDATE OF p
+  LOOP
+    available := payment_record.balance;
+    CONTINUE WHEN available <= 0;
+
+    FOR installment IN
+      SELECT t.id, t.amount, t.amount_paid
+      FROM transactions t
+      JOIN "Payment_plan" pp ON pp.id = t.payment_plan_id
+      WHERE pp.liaison_id = target_liaison_id
+      AND t.status IN ('pending', 'partial', 'overdue')
+      ORDER BY t.due_date, t.payment_number
+      FOR UPDATE OF t
+    LOOP
+      EXIT WHEN available <= 0;
+
+      outstanding := installment.amount - installment.amount_paid;
+      CONTINUE WHEN outstanding <= 0;
+
+      applied := LEAST(available, outstanding);
+
+      INSERT INTO payment_allocations (payment_id, transaction_id, amount)
+      VALUES (payment_record.id, installment.id, applied);
+
+      available := available - applied;
+      PERFORM refresh_installment_status(installment.id);
+    END LOOP;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Flag installments that passed their due date without being fully paid
+CREATE OR REPLACE FUNCTION mark_overdue_installments()
+RETURNS integer AS $$
+DECLARE
+  affected integer;
+BEGIN
+  UPDATE transactions
+  SET status = 'overdue',
+      updated_at = now()
+  WHERE status IN ('pending', 'partial')
+  AND due_date < CURRENT_DATE;
+
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  RETURN affected;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION allocate_new_payment()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM allocate_liaison_payments(NEW.liaison_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION apply_credit_to_new_installment()
+RETURNS trigger AS $$
+DECLARE
+  plan_liaison_id uuid;
+BEGIN
+  SELECT liaison_id INTO plan_liaison_id
+  FROM "Payment_plan"
+  WHERE id = NEW.payment_plan_id;
+
+  IF plan_liaison_id IS NOT NULL THEN
+    PERFORM allocate_liaison_payments(plan_liaison_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS payments_allocate ON payments;
+
+CREATE TRIGGER payments_allocate
+  AFTER INSERT ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION allocate_new_payment();
+
+DROP TRIGGER IF EXISTS transactions_apply_credit ON transactions;
+
+CREATE TRIGGER transactions_apply_credit
+  AFTER INSERT ON transactions
+  FOR EACH ROW
+  WHEN (NEW.status = 'pending')
+  EXECUTE FUNCTION apply_credit_to_new_installment();
+
+-- What was paid on a cancelled installment becomes credit again
+CREATE OR REPLACE FUNCTION cancel_open_installments(plan_id bigint)
+RETURNS void AS $$
+BEGIN
+  DELETE FROM payment_allocations pa
+  USING transactions t
+  WHERE pa.transaction_id = t.id
+  AND t.payment_plan_id = plan_id
+  AND t.status = 'partial';
+
+  UPDATE transactions
+  SET status = 'cancelled',
+      amount_paid = 0,
+      updated_at = now()
+  WHERE payment_plan_id = plan_id
+  AND status IN ('pending', 'partial');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION refresh_installment_status(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION allocate_liaison_payments(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION mark_overdue_installments() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION allocate_new_payment() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION apply_credit_to_new_installment() FROM PUBLIC, anon, authenticated;
+
+-- Flag overdue installments shortly after midnight
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'mark-overdue-installments',
+  '5 0 * * *',
+  'SELECT mark_overdue_installments()'
+);
+
+-- Remaining credit per liaison
+CREATE OR REPLACE VIEW liaison_credit_balances
+WITH (security_invoker = true) AS
+SELECT
+  p.liaison_id,
+  SUM(p.amount) - COALESCE(SUM(allocated.total), 0) AS credit_balance
+FROM payments p
+LEFT JOIN (
+  SELECT payment_id, SUM(amount) AS total
+  FROM payment_allocations
+  GROUP BY payment_id
+) allocated ON allocated.payment_id = p.id
+GROUP BY p.liaison_id;
+
+-- Existing paid rows were seeded without allocations; keep their cached total consistent
+UPDATE transactions
+SET amount_paid = amount
+WHERE status = 'paid';
+
+-- Enable RLS
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_allocations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transactions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view payments in their liaisons"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM liaisons
+      WHERE liaisons.id = payments.liaison_id
+      AND (liaisons.accountant_id = auth.uid() OR liaisons.client_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Accountants can record payments in their liaisons"
+  ON payments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM liaisons
+      WHERE liaisons.id = payments.liaison_id
+      AND liaisons.accountant_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view allocations of their payments"
+  ON payment_allocations
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM payments
+      JOIN liaisons ON liaisons.id = payments.liaison_id
+      WHERE payments.id = payment_allocations.payment_id
+      AND (liaisons.accountant_id = auth.uid() OR liaisons.client_id = auth.uid())
+    )
+  );
+
+-- Installments are only written by the ledger functions and triggers above
+CREATE POLICY "Users can view installments in their liaisons"
+  ON transactions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM "Payment_plan"
+      JOIN liaisons ON liaisons.id = "Payment_plan".liaison_id
+      WHERE "Payment_plan".id = transactions.payment_plan_id
+      AND (liaisons.accountant_id = auth.uid() OR liaisons.client_id = auth.uid())
+    )
+  );
@@ -0,0 +1,500 @@
+/*
+  # Deterministic CRS Scoring Engine
+
+  1. New Tables
+    - `crs_score_history`
+      - `id` (uuid, primary key)
+      - `liaison_id` (uuid, foreign key to liaisons)
+      - `previous_score` (integer, nullable)
+      - `new_score` (integer)
+      - `risk_level` (low, medium, high)
+      - `factors` (jsonb, the contributing factors reported by the engine)
+      - `transaction_id` (uuid, nullable, the installment change that caused the recalculation)
+      - `reason` (text)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `liaisons.risk_level` caches the risk level derived from `crs_score`
+    - `calculate_payment_consistency` no longer uses `random()`
+
+  3. Functions
+    - `crs_default_policy()` the scoring constants
+    - `crs_policy_for_liaison(liaison_id)` the policy that applies to a liaison
+    - `score_payment_events(events, policy)` the engine itself: replays settled
+      installments in due date order and returns the score, risk level,
+      contributing factors and the score after every installment
+    - `calculate_crs_score(liaison_id)` scores the installment history of a
+      liaison. It runs with the caller's permissions, so row level security
+      limits it to the caller's own liaisons.
+    - `recalculate_crs_score(liaison_id, transaction_id, reason)` stores the result
+      on the liaison and records the change in `crs_score_history`
+    - `recalculate_all_crs_scores()` for the daily job, so installments whose grace
+      period just ended are picked up without a transaction change. pg_cron runs
+      it every night.
+    - Only triggers and the job can store scores; they cannot be called over RPC
+
+  4. Triggers
+    - Any insert, update or delete on `transactions` recalculates the liaison's score
+
+  5. Rules
+    - On-time payment: +recovery_increment, plus recovery_bonus every
+      bonus_period consecutive on-time payments
+    - Late payment: late_payment_weight x the missed payment penalty
+    - Missed payment (unpaid after the grace period):
+      base_penalty x penalty_multiplier ^ (consecutive misses - 1)
+    - The score is clamped to [min_score, max_score]
+
+  6. Security
+    - RLS on `crs_score_history`, readable by the parties of the liaison
+    - RLS on `liaisons`, readable by the members of both companies; there are
+      no write policies, so liaisons only change through definer functions
+    - `crs_score` and `risk_level` can only be changed by
+      `recalculate_crs_score`; a trigger refuses any other update
+*/
+
+ALTER TABLE liaisons
+ADD COLUMN IF NOT EXISTS risk_level text NOT NULL DEFAULT 'low'
+CHECK (risk_level IN ('low', 'medium', 'high'));
+
+-- Create score history table
+CREATE TABLE IF NOT EXISTS crs_score_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  liaison_id uuid NOT NULL REFERENCES liaisons(id) ON DELETE CASCADE,
+  previous_score integer,
+  new_score integer NOT NULL CHECK (new_score >= 0 AND new_score <= 100),
+  risk_level text NOT NULL CHECK (risk_level IN ('low', 'medium', 'high')),
+  factors jsonb NOT NULL DEFAULT '{}'::jsonb,
+  transaction_id uuid REFERENCES transactions(id) ON DELETE SET NULL,
+  reason text NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_crs_score_history_liaison
+ON crs_score_history (liaison_id, created_at DESC);
+
+-- Scoring constants
+CREATE OR REPLACE FUNCTION crs_default_policy()
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'base_score', 85,
+    'base_penalty', 10,
+    'penalty_multiplier', 1.5,
+    'late_payment_weight', 0.5,
+    'recovery_increment', 5,
+    'recovery_bonus', 10,
+    'bonus_period', 6,
+    'grace_days', 0,
+    'min_score', 0,
+    'max_score', 100,
+    'risk_thresholds', jsonb_build_object('low', 80, 'medium', 70)
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Policy applied to a liaison
+CREATE OR REPLACE FUNCTION crs_policy_for_liaison(target_liaison_id uuid)
+RETURNS jsonb AS $$
+  SELECT crs_default_policy();
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION crs_risk_level(score numeric, policy jsonb)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN score >= (policy->'risk_thresholds'->>'low')::numeric THEN 'low'
+    WHEN score >= (policy->'risk_thresholds'->>'medium')::numeric THEN 'medium'
+    ELSE 'high'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Replay a list of installment outcomes ('on_time', 'late', 'missed') in order
+CREATE OR REPLACE FUNCTION score_payment_events(events jsonb, policy jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  event jsonb;
+  score numeric := (policy->>'base_score')::numeric;
+  min_score numeric := (policy->>'min_score')::numeric;
+  max_score numeric := (policy->>'max_score')::numeric;
+  bonus_period integer := GREATEST((policy->>'bonus_period')::integer, 1);
+  streak integer := 0;
+  consecutive_misses integer := 0;
+  on_time_count integer := 0;
+  late_count integer := 0;
+  missed_count integer := 0;
+  recovery_points numeric := 0;
+  bonus_points numeric := 0;
+  penalty_points numeric := 0;
+  total_delay integer := 0;
+  change numeric;
+  penalty numeric;
+  next_score numeric;
+  trajectory jsonb := '[]'::jsonb;
+BEGIN
+  FOR event IN SELECT value FROM jsonb_array_elements(COALESCE(events, '[]'::jsonb)) LOOP
+    CASE event->>'outcome'
+      WHEN 'on_time' THEN
+        streak := streak + 1;
+        consecutive_misses := 0;
+        on_time_count := on_time_count + 1;
+        change := (policy->>'recovery_increment')::numeric;
+        recovery_points := recovery_points + change;
+
+        IF streak % bonus_period = 0 THEN
+          change := change + (policy->>'recovery_bonus')::numeric;
+          bonus_points := bonus_points + (policy->>'recovery_bonus')::numeric;
+        END IF;
+      ELSE
+        streak := 0;
+        consecutive_misses := consecutive_misses + 1;
+        penalty := (policy->>'base_penalty')::numeric
+          * power((policy->>'penalty_multiplier')::numeric, consecutive_misses - 1);
+
+        IF event->>'outcome' = 'late' THEN
+          late_count := late_count + 1;
+          penalty := penalty * (policy->>'late_payment_weight')::numeric;
+        ELSE
+          missed_count := missed_count + 1;
+        END IF;
+
+        penalty_points := penalty_points + penalty;
+        change := -penalty;
+    END CASE;
+
+    next_score := LEAST(max_score, GREATEST(min_score, score + change));
+    total_delay := total_delay + GREATEST(COALESCE((event->>'days_late')::integer, 0), 0);
+
+    trajectory := trajectory || jsonb_build_array(jsonb_build_object(
+      'transaction_id', event->'transaction_id',
+      'due_date', event->'due_date',
+      'outcome', event->'outcome',
+      'days_late', COALESCE((event->>'days_late')::integer, 0),
+      'change', round(next_score - score, 1),
+      'score', round(next_score)::integer
+    ));
+
+    score := next_score;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'score', round(score)::integer,
+    'risk_level', crs_risk_level(round(score), policy),
+    'factors', jsonb_build_object(
+      'base_score', (policy->>'base_score')::numeric,
+      'settled_count', on_time_count + late_count + missed_count,
+      'on_time_count', on_time_count,
+      'late_count', late_count,
+      'missed_count', missed_count,
+      'current_streak', streak,
+      'consecutive_misses', consecutive_misses,
+      'payments_until_bonus', bonus_period - (streak % bonus_period),
+      'recovery_points', round(recovery_points, 1),
+      'bonus_points', round(bonus_points, 1),
+      'penalty_points', round(penalty_points, 1),
+      'average_delay', CASE
+        WHEN late_count + missed_count + on_time_count = 0 THEN 0
+        ELSE round(total_delay::numeric / (on_time_count + late_count + missed_count), 1)
+      END
+    ),
+    'trajectory', trajectory
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Settled installments of a liaison as engine events, oldest due date first.
+-- An installment counts once it is paid, or once it is unpaid past its grace period.
+CREATE OR REPLACE FUNCTION liaison_payment_events(target_liaison_id uuid, policy jsonb)
+RETURNS jsonb AS $$
+  SELECT COALESCE(jsonb_agg(event ORDER BY due_date, payment_number), '[]'::jsonb)
+  FROM (
+    SELECT
+      t.due_date,
+      t.payment_number,
+      jsonb_build_object(
+        'transaction_id', t.id,
+        'due_date', t.due_date,
+        'outcome', CASE
+          WHEN t.status = 'paid'
+            AND t.completion_date::date - t.due_date <= (policy->>'grace_days')::integer
+          THEN 'on_time'
+          WHEN t.status = 'paid' THEN 'late'
+          ELSE 'missed'
+        END,
+        'days_late', CASE
+          WHEN t.status = 'paid' THEN t.completion_date::date - t.due_date
+          ELSE CURRENT_DATE - t.due_date
+        END
+      ) AS event
+    FROM transactions t
+    JOIN "Payment_plan" pp ON pp.id = t.payment_plan_id
+    WHERE pp.liaison_id = target_liaison_id
+    AND (
+      (t.status = 'paid' AND t.completion_date IS NOT NULL)
+      OR (
+        t.status IN ('pending', 'partial', 'overdue')
+        AND t.due_date + (policy->>'grace_days')::integer < CURRENT_DATE
+      )
+    )
+  ) settled;
+$$ LANGUAGE sql STABLE;
+
+-- Score of a liaison, plus the score it would reach if the next open
+-- installment is paid on time
+CREATE OR REPLACE FUNCTION calculate_crs_score(target_liaison_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  policy jsonb := crs_policy_for_liaison(target_liaison_id);
+  events jsonb := liaison_payment_events(target_liaison_id, policy);
+  result jsonb;
+  next_installment RECORD;
+  projected jsonb;
+BEGIN
+  result := score_payment_events(events, policy);
+
+  SELECT t.id, t.due_date
+  INTO next_installment
+  FROM transactions t
+  JOIN "Payment_plan" pp ON pp.id = t.payment_plan_id
+  WHERE pp.liaison_id = target_liaison_id
+  AND t.status IN ('pending', 'partial', 'overdue')
+  AND t.due_date + (policy->>'grace_days')::integer >= CURRENT_DATE
+  ORDER BY t.due_date, t.payment_number
+  LIMIT 1;
+
+  IF FOUND THEN
+    projected := score_payment_events(
+      events || jsonb_build_array(jsonb_build_object(
+        'transaction_id', next_installment.id,
+        'due_date', next_installment.due_date,
+        'outcome', 'on_time',
+        'days_late', 0
+      )),
+      policy
+    );
+  ELSE
+    projected := result;
+  END IF;
+
+  RETURN result || jsonb_build_object(
+    'projected_score', projected->'score',
+    'policy', policy
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Store the current score on the liaison and log the change
+CREATE OR REPLACE FUNCTION recalculate_crs_score(
+  target_liaison_id uuid,
+  source_transaction_id uuid DEFAULT NULL,
+  change_reason text DEFAULT 'transaction_change'
+) RETURNS integer AS $$
+DECLARE
+  current_liaison RECORD;
+  result jsonb;
+  new_score integer;
+  new_risk_level text;
+BEGIN
+  SELECT id, crs_score, risk_level
+  INTO current_liaison
+  FROM liaisons
+  WHERE id = target_liaison_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  result := calculate_crs_score(target_liaison_id);
+  new_score := (result->>'score')::integer;
+  new_risk_level := result->>'risk_level';
+
+  IF current_liaison.crs_score IS DISTINCT FROM new_score
+    OR current_liaison.risk_level IS DISTINCT FROM new_risk_level THEN
+    PERFORM set_config('app.crs_recalculation', 'on', true);
+
+    UPDATE liaisons
+    SET crs_score = new_score,
+        risk_level = new_risk_level,
+        updated_at = now()
+    WHERE id = target_liaison_id;
+
+    PERFORM set_config('app.crs_recalculation', 'off', true);
+
+    INSERT INTO crs_score_history (
+      liaison_id,
+      previous_score,
+      new_score,
+      risk_level,
+      factors,
+      transaction_id,
+      reason
+    ) VALUES (
+      target_liaison_id,
+      current_liaison.crs_score,
+      new_score,
+      new_risk_level,
+      result->'factors',
+      source_transaction_id,
+      change_reason
+    );
+  END IF;
+
+  RETURN new_score;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION recalculate_all_crs_scores()
+RETURNS integer AS $$
+DECLARE
+  liaison_record RECORD;
+  recalculated integer := 0;
+BEGIN
+  FOR liaison_record IN SELECT id FROM liaisons LOOP
+    PERFORM recalculate_crs_score(liaison_record.id, NULL, 'scheduled_recalculation');
+    recalculated := recalculated + 1;
+  END LOOP;
+
+  RETURN recalculated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION recalculate_crs_on_transaction_change()
+RETURNS trigger AS $$
+DECLARE
+  plan_liaison_id uuid;
+  changed_transaction_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    changed_transaction_id := NULL;
+    SELECT liaison_id INTO plan_liaison_id
+    FROM "Payment_plan"
+    WHERE id = OLD.payment_plan_id;
+  ELSE
+    changed_transaction_id := NEW.id;
+    SELECT liaison_id INTO plan_liaison_id
+    FROM "Payment_plan"
+    WHERE id = NEW.payment_plan_id;
+  END IF;
+
+  IF plan_liaison_id IS NOT NULL THEN
+    PERFORM recalculate_crs_score(
+      plan_liaison_id,
+      changed_transaction_id,
+      'transaction_' || lower(TG_OP)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS transactions_recalculate_crs ON transactions;
+
+CREATE TRIGGER transactions_recalculate_crs
+  AFTER INSERT OR UPDATE OR DELETE ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION recalculate_crs_on_transaction_change();
+
+REVOKE EXECUTE ON FUNCTION recalculate_crs_score(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION recalculate_all_crs_scores() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION recalculate_crs_on_transaction_change() FROM PUBLIC, anon, authenticated;
+
+-- Rescore after the overdue job, so missed grace periods count the same night
+SELECT cron.schedule(
+  'recalculate-crs-scores',
+  '15 0 * * *',
+  'SELECT recalculate_all_crs_scores()'
+);
+
+-- Per-installment consistency, now deterministic
+CREATE OR REPLACE FUNCTION calculate_payment_consistency(
+  completion_date timestamptz,
+  due_date date,
+  payment_streak integer
+) RETURNS numeric AS $$
+DECLARE
+  base_score numeric;
+  days_late integer;
+  streak_bonus numeric;
+BEGIN
+  IF completion_date IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  days_late := completion_date::date - due_date;
+
+  IF days_late <= 0 THEN
+    -- Up to 5 extra points for paying early
+    base_score := 85 + LEAST(-days_late, 5);
+  ELSE
+    -- Lose 3 points per day late, never below 50
+    base_score := GREATEST(80 - days_late * 3, 50);
+  END IF;
+
+  -- Add streak bonus (up to 10 points)
+  streak_bonus := LEAST(payment_streak * 2, 10);
+
+  RETURN LEAST(base_score + streak_bonus, 100);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Replace the seeded scores with engine scores
+DO $$
+DECLARE
+  liaison_record RECORD;
+BEGIN
+  FOR liaison_record IN SELECT id FROM liaisons LOOP
+    PERFORM recalculate_crs_score(liaison_record.id, NULL, 'engine_backfill');
+  END LOOP;
+END $$;
+
+-- Scores are only stored by recalculate_crs_score, which sets this flag
+CREATE OR REPLACE FUNCTION protect_liaison_crs_score()
+RETURNS trigger AS $$
+BEGIN
+  IF (NEW.crs_score IS DISTINCT FROM OLD.crs_score OR NEW.risk_level IS DISTINCT FROM OLD.risk_level)
+  AND current_setting('app.crs_recalculation', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'CRS scores can only be changed by recalculation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS liaisons_protect_crs_score ON liaisons;
+
+CREATE TRIGGER liaisons_protect_crs_score
+  BEFORE UPDATE OF crs_score, risk_level ON liaisons
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_liaison_crs_score();
+
+-- Enable RLS
+ALTER TABLE crs_score_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE liaisons ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view score history of their liaisons"
+  ON crs_score_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM liaisons
+      WHERE liaisons.id = crs_score_history.liaison_id
+      AND (liaisons.accountant_id = auth.uid() OR liaisons.client_id = auth.uid())
+    )
+  );
+
+-- Liaisons are created and changed by definer functions only
+CREATE POLICY "Users can view liaisons of their companies"
+  ON liaisons
+  FOR SELECT
+  TO authenticated
+  USING (
+    accountant_id = auth.uid()
+    OR client_id = auth.uid()
+    OR EXISTS (
+      SELECT 1
+      FROM company_relationships cr
+      JOIN users caller ON caller.id = auth.uid()
+      WHERE cr.id = liaisons.company_relationship_id
+      AND caller.company_id IN (cr.accounting_firm_id, cr.client_firm_id)
+    )
+  );
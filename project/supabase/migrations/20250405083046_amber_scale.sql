@@ -0,0 +1,281 @@
+/*
+  # Per-Firm CRS Policies
+
+  1. New Tables
+    - `crs_policies`
+      - `id` (uuid, primary key)
+      - `company_id` (uuid, foreign key to the accounting firm)
+      - `version` (integer, assigned automatically, 1 for the first policy of a firm)
+      - `base_score` (integer, score of a client with no settled installments)
+      - `base_penalty` (numeric, points lost for the first missed payment)
+      - `penalty_multiplier` (numeric, growth of the penalty per consecutive miss)
+      - `late_payment_weight` (numeric, share of the penalty applied to late payments)
+      - `recovery_increment` (numeric, points per on-time payment)
+      - `recovery_bonus` (numeric, bonus points per completed streak)
+      - `bonus_period` (integer, consecutive on-time payments per bonus)
+      - `grace_days` (integer, days after the due date before a payment counts as late)
+      - `low_risk_threshold` / `medium_risk_threshold` (integer)
+      - `notes` (text, nullable, why the policy changed)
+      - `created_by` (uuid, foreign key to users)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `companies.crs_policy_id` points to the policy currently in effect
+    - `crs_score_history.policy_id` records the policy a score was computed with
+
+  3. Functions
+    - `crs_policy_for_liaison(liaison_id)` now resolves the accounting firm's
+      current policy and falls back to `crs_default_policy()`
+    - `recalculate_crs_score` stores the policy used with every history entry
+
+  4. Triggers
+    - New policies get the next version number of their firm
+    - Publishing a policy makes it current and rescores the firm's liaisons
+
+  5. Security
+    - Policies are never updated or deleted; a change is a new version
+    - Only managers of the accounting firm can publish policies
+    - Members of the firm and its connected clients can read them
+*/
+
+-- Create policies table
+CREATE TABLE IF NOT EXISTS crs_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  base_score integer NOT NULL DEFAULT 85 CHECK (base_score BETWEEN 0 AND 100),
+  base_penalty numeric NOT NULL DEFAULT 10 CHECK (base_penalty >= 0),
+  penalty_multiplier numeric NOT NULL DEFAULT 1.5 CHECK (penalty_multiplier >= 1),
+  late_payment_weight numeric NOT NULL DEFAULT 0.5
+    CHECK (late_payment_weight >= 0 AND late_payment_weight <= 1),
+  recovery_increment numeric NOT NULL DEFAULT 5 CHECK (recovery_increment >= 0),
+  recovery_bonus numeric NOT NULL DEFAULT 10 CHECK (recovery_bonus >= 0),
+  bonus_period integer NOT NULL DEFAULT 6 CHECK (bonus_period >= 1),
+  grace_days integer NOT NULL DEFAULT 0 CHECK (grace_days >= 0),
+  low_risk_threshold integer NOT NULL DEFAULT 80,
+  medium_risk_threshold integer NOT NULL DEFAULT 70,
+  notes text,
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (company_id, version),
+  CHECK (medium_risk_threshold BETWEEN 0 AND 100),
+  CHECK (low_risk_threshold BETWEEN 0 AND 100),
+  CHECK (medium_risk_threshold < low_risk_threshold)
+);
+
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS crs_policy_id uuid REFERENCES crs_policies(id);
+
+ALTER TABLE crs_score_history
+ADD COLUMN IF NOT EXISTS policy_id uuid REFERENCES crs_policies(id);
+
+-- Engine representation of a stored policy
+CREATE OR REPLACE FUNCTION crs_policy_to_jsonb(policy crs_policies)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'policy_id', policy.id,
+    'version', policy.version,
+    'base_score', policy.base_score,
+    'base_penalty', policy.base_penalty,
+    'penalty_multiplier', policy.penalty_multiplier,
+    'late_payment_weight', policy.late_payment_weight,
+    'recovery_increment', policy.recovery_increment,
+    'recovery_bonus', policy.recovery_bonus,
+    'bonus_period', policy.bonus_period,
+    'grace_days', policy.grace_days,
+    'min_score', 0,
+    'max_score', 100,
+    'risk_thresholds', jsonb_build_object(
+      'low', policy.low_risk_threshold,
+      'medium', policy.medium_risk_threshold
+    )
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION crs_default_policy()
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'policy_id', NULL,
+    'version', 0,
+    'base_score', 85,
+    'base_penalty', 10,
+    'penalty_multiplier', 1.5,
+    'late_payment_weight', 0.5,
+    'recovery_increment', 5,
+    'recovery_bonus', 10,
+    'bonus_period', 6,
+    'grace_days', 0,
+    'min_score', 0,
+    'max_score', 100,
+    'risk_thresholds', jsonb_build_object('low', 80, 'medium', 70)
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Current policy of the accounting firm behind a liaison
+CREATE OR REPLACE FUNCTION crs_policy_for_liaison(target_liaison_id uuid)
+RETURNS jsonb AS $$
+  SELECT COALESCE(
+    (
+      SELECT crs_policy_to_jsonb(p)
+      FROM liaisons l
+      JOIN company_relationships cr ON cr.id = l.company_relationship_id
+      JOIN companies c ON c.id = cr.accounting_firm_id
+      JOIN crs_policies p ON p.id = c.crs_policy_id
+      WHERE l.id = target_liaison_id
+    ),
+    crs_default_policy()
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Store the current score on the liaison and log the change with its policy
+CREATE OR REPLACE FUNCTION recalculate_crs_score(
+  target_liaison_id uuid,
+  source_transaction_id uuid DEFAULT NULL,
+  change_reason text DEFAULT 'transaction_change'
+) RETURNS integer AS $$
+DECLARE
+  current_liaison RECORD;
+  result jsonb;
+  new_score integer;
+  new_risk_level text;
+BEGIN
+  SELECT id, crs_score, risk_level
+  INTO current_liaison
+  FROM liaisons
+  WHERE id = target_liaison_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  result := calculate_crs_score(target_liaison_id);
+  new_score := (result->>'score')::integer;
+  new_risk_level := result->>'risk_level';
+
+  IF current_liaison.crs_score IS DISTINCT FROM new_score
+    OR current_liaison.risk_level IS DISTINCT FROM new_risk_level THEN
+    PERFORM set_config('app.crs_recalculation', 'on', true);
+
+    UPDATE liaisons
+    SET crs_score = new_score,
+        risk_level = new_risk_level,
+        updated_at = now()
+    WHERE id = target_liaison_id;
+
+    PERFORM set_config('app.crs_recalculation', 'off', true);
+
+    INSERT INTO crs_score_history (
+      liaison_id,
+      previous_score,
+      new_score,
+      risk_level,
+      factors,
+      transaction_id,
+      policy_id,
+      reason
+    ) VALUES (
+      target_liaison_id,
+      current_liaison.crs_score,
+      new_score,
+      new_risk_level,
+      result->'factors',
+      source_transaction_id,
+      (result->'policy'->>'policy_id')::uuid,
+      change_reason
+    );
+  END IF;
+
+  RETURN new_score;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION assign_crs_policy_version()
+RETURNS trigger AS $$
+BEGIN
+  -- Serialize publishes of the same firm so versions stay gapless
+  PERFORM 1 FROM companies WHERE id = NEW.company_id FOR UPDATE;
+
+  SELECT COALESCE(MAX(version), 0) + 1
+  INTO NEW.version
+  FROM crs_policies
+  WHERE company_id = NEW.company_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION apply_crs_policy()
+RETURNS trigger AS $$
+DECLARE
+  liaison_record RECORD;
+BEGIN
+  UPDATE companies
+  SET crs_policy_id = NEW.id,
+      updated_at = now()
+  WHERE id = NEW.company_id;
+
+  FOR liaison_record IN
+    SELECT l.id
+    FROM liaisons l
+    JOIN company_relationships cr ON cr.id = l.company_relationship_id
+    WHERE cr.accounting_firm_id = NEW.company_id
+  LOOP
+    PERFORM recalculate_crs_score(liaison_record.id, NULL, 'policy_change');
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS crs_policies_assign_version ON crs_policies;
+
+CREATE TRIGGER crs_policies_assign_version
+  BEFORE INSERT ON crs_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_crs_policy_version();
+
+DROP TRIGGER IF EXISTS crs_policies_apply ON crs_policies;
+
+CREATE TRIGGER crs_policies_apply
+  AFTER INSERT ON crs_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_crs_policy();
+
+-- Enable RLS
+ALTER TABLE crs_policies ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Firm members and connected clients can view CRS policies"
+  ON crs_policies
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.company_id = crs_policies.company_id
+    )
+    OR EXISTS (
+      SELECT 1 FROM liaisons
+      JOIN company_relationships ON company_relationships.id = liaisons.company_relationship_id
+      WHERE company_relationships.accounting_firm_id = crs_policies.company_id
+      AND liaisons.client_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Managers can publish CRS policies for their firm"
+  ON crs_policies
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM users
+      JOIN companies ON companies.id = users.company_id
+      WHERE users.id = auth.uid()
+      AND users.company_id = crs_policies.company_id
+      AND users.role = 'manager'
+      AND companies.type = 'accounting_firm'
+    )
+  );
@@ -0,0 +1,66 @@
+/*
+  # CRS What-If Simulation
+
+  1. New Functions
+    - `simulate_crs_score(liaison_id, scenarios)`
+      - `scenarios` is a list of `{ transaction_id, outcome, days }` where outcome is
+        'early', 'on_time', 'late' or 'miss' and `days` is how early or late
+      - Replays the liaison's settled history followed by the hypothetical outcomes
+        of its upcoming installments through `score_payment_events`, so the
+        projection follows exactly the same rules and policy as the real score
+      - Installments without a scenario, or already settled, are ignored
+      - Nothing is written
+
+  2. Security
+    - `simulate_crs_score` runs with the caller's permissions, like
+      `calculate_crs_score`, so row level security applies
+*/
+
+CREATE OR REPLACE FUNCTION simulate_crs_score(target_liaison_id uuid, scenarios jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  policy jsonb := crs_policy_for_liaison(target_liaison_id);
+  grace_days integer := (policy->>'grace_days')::integer;
+  events jsonb := liaison_payment_events(target_liaison_id, policy);
+  installment RECORD;
+  scenario jsonb;
+  days_late integer;
+BEGIN
+  FOR installment IN
+    SELECT t.id, t.due_date
+    FROM transactions t
+    JOIN "Payment_plan" pp ON pp.id = t.payment_plan_id
+    WHERE pp.liaison_id = target_liaison_id
+    AND t.status IN ('pending', 'partial', 'overdue')
+    AND t.due_date + grace_days >= CURRENT_DATE
+    ORDER BY t.due_date, t.payment_number
+  LOOP
+    SELECT value
+    INTO scenario
+    FROM jsonb_array_elements(COALESCE(scenarios, '[]'::jsonb))
+    WHERE value->>'transaction_id' = installment.id::text
+    LIMIT 1;
+
+    CONTINUE WHEN scenario IS NULL;
+
+    days_late := CASE scenario->>'outcome'
+      WHEN 'early' THEN -abs(COALESCE((scenario->>'days')::integer, 0))
+      WHEN 'late' THEN abs(COALESCE((scenario->>'days')::integer, 0))
+      ELSE 0
+    END;
+
+    events := events || jsonb_build_array(jsonb_build_object(
+      'transaction_id', installment.id,
+      'due_date', installment.due_date,
+      'outcome', CASE
+        WHEN scenario->>'outcome' = 'miss' THEN 'missed'
+        WHEN days_late <= grace_days THEN 'on_time'
+        ELSE 'late'
+      END,
+      'days_late', days_late
+    ));
+  END LOOP;
+
+  RETURN score_payment_events(events, policy) || jsonb_build_object('policy', policy);
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,189 @@
+/*
+  # Liaison Payment Analytics
+
+  1. New Views
+    - `liaison_next_installments`
+      - The earliest open (pending, partial or overdue) installment of every liaison
+
+  2. New Functions
+    - `liaison_payment_timing(liaison_id, months)`
+      - Average days from due date of the installments paid in each of the last
+        `months` months; months without payments are returned with no average
+    - `liaison_payment_distribution(liaison_id, on_time_days, late_days)`
+      - Counts settled installments per bucket: 'on_time' (paid at most
+        `on_time_days` after the due date), 'late' (at most `late_days`) and
+        'very_late'; unpaid installments past their due date count by days overdue
+    - `liaison_activity_feed(liaison_id, max_items)`
+      - Recorded payments, settled installments, messages, uploaded records and
+        payment plan changes, newest first
+
+  3. Security
+    - Everything runs with the caller's permissions
+    - Accountants can now read the records uploaded by their clients
+*/
+
+CREATE OR REPLACE VIEW liaison_next_installments
+WITH (security_invoker = true) AS
+SELECT DISTINCT ON (pp.liaison_id)
+  pp.liaison_id,
+  t.id AS transaction_id,
+  t.description,
+  t.amount,
+  t.amount_paid,
+  t.amount - t.amount_paid AS outstanding,
+  t.due_date,
+  t.status
+FROM transactions t
+JOIN "Payment_plan" pp ON pp.id = t.payment_plan_id
+WHERE t.status IN ('pending', 'partial', 'overdue')
+ORDER BY pp.liaison_id, t.due_date, t.payment_number;
+
+CREATE OR REPLACE FUNCTION liaison_payment_timing(
+  target_liaison_id uuid,
+  months integer DEFAULT 12
+) RETURNS TABLE (
+  month date,
+  average_days_from_due numeric,
+  payments integer
+) AS $$
+  SELECT
+    series.month::date,
+    round(AVG(t.completion_date::date - t.due_date), 1),
+    COUNT(t.id)::integer
+  FROM generate_series(
+    date_trunc('month', CURRENT_DATE) - make_interval(months => months - 1),
+    date_trunc('month', CURRENT_DATE),
+    interval '1 month'
+  ) AS series(month)
+  LEFT JOIN (
+    SELECT t.id, t.due_date, t.completion_date
+    FROM transactions t
+    JOIN "Payment_plan" pp ON pp.id = t.payment_plan_id
+    WHERE pp.liaison_id = target_liaison_id
+    AND t.status = 'paid'
+    AND t.completion_date IS NOT NULL
+  ) t ON date_trunc('month', t.completion_date) = series.month
+  GROUP BY series.month
+  ORDER BY series.month;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION liaison_payment_distribution(
+  target_liaison_id uuid,
+  on_time_days integer DEFAULT 0,
+  late_days integer DEFAULT 30
+) RETURNS TABLE (
+  bucket text,
+  installments integer
+) AS $$
+  WITH settled AS (
+    SELECT CASE
+      WHEN t.status = 'paid' THEN t.completion_date::date - t.due_date
+      ELSE CURRENT_DATE - t.due_date
+    END AS days_late
+    FROM transactions t
+    JOIN "Payment_plan" pp ON pp.id = t.payment_plan_id
+    WHERE pp.liaison_id = target_liaison_id
+    AND (
+      (t.status = 'paid' AND t.completion_date IS NOT NULL)
+      OR (t.status IN ('pending', 'partial', 'overdue') AND t.due_date < CURRENT_DATE)
+    )
+  )
+  SELECT buckets.bucket, COUNT(settled.days_late)::integer
+  FROM (VALUES (1, 'on_time'), (2, 'late'), (3, 'very_late')) AS buckets(position, bucket)
+  LEFT JOIN settled ON buckets.bucket = CASE
+    WHEN settled.days_late <= on_time_days THEN 'on_time'
+    WHEN settled.days_late <= late_days THEN 'late'
+    ELSE 'very_late'
+  END
+  GROUP BY buckets.position, buckets.bucket
+  ORDER BY buckets.position;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION liaison_activity_feed(
+  target_liaison_id uuid,
+  max_items integer DEFAULT 20
+) RETURNS TABLE (
+  occurred_at timestamptz,
+  activity_type text,
+  description text
+) AS $$
+  SELECT occurred_at, activity_type, description
+  FROM (
+    SELECT
+      p.created_at AS occurred_at,
+      'payment' AS activity_type,
+      'Payment of $' || to_char(p.amount, 'FM999,999,990.00') || ' recorded' AS description
+    FROM payments p
+    WHERE p.liaison_id = target_liaison_id
+
+    UNION ALL
+
+    SELECT
+      t.completion_date,
+      'installment',
+      t.description || CASE
+        WHEN t.completion_date::date > t.due_date
+        THEN ' settled ' || (t.completion_date::date - t.due_date) || ' days late'
+        ELSE ' settled on time'
+      END
+    FROM transactions t
+    JOIN "Payment_plan" pp ON pp.id = t.payment_plan_id
+    WHERE pp.liaison_id = target_liaison_id
+    AND t.status = 'paid'
+    AND t.completion_date IS NOT NULL
+
+    UNION ALL
+
+    SELECT
+      m.created_at,
+      CASE WHEN m.document_url IS NOT NULL THEN 'document' ELSE 'message' END,
+      CASE
+        WHEN m.document_url IS NOT NULL THEN COALESCE(u.full_name, 'Someone') || ' shared ' || m.document_name
+        ELSE 'Message from ' || COALESCE(u.full_name, 'unknown sender')
+      END
+    FROM messages m
+    LEFT JOIN users u ON u.id = m.sender_id
+    WHERE m.liaison_id = target_liaison_id
+
+    UNION ALL
+
+    SELECT
+      cr.created_at,
+      'document',
+      CASE
+        WHEN cr.verification_file_url IS NOT NULL THEN 'Invoice and payment proof uploaded'
+        ELSE 'Invoice uploaded'
+      END
+    FROM client_records cr
+    JOIN liaisons l ON l.client_id = cr.user_id
+    WHERE l.id = target_liaison_id
+
+    UNION ALL
+
+    SELECT
+      pp.created_at,
+      'plan_change',
+      'Payment plan of $' || to_char(pp.total_due, 'FM999,999,990') || ' in '
+        || pp.num_payment || ' payments ' || CASE pp.status
+          WHEN 'pending' THEN 'proposed'
+          ELSE pp.status
+        END
+    FROM "Payment_plan" pp
+    WHERE pp.liaison_id = target_liaison_id
+  ) activity
+  WHERE occurred_at IS NOT NULL
+  ORDER BY occurred_at DESC
+  LIMIT max_items;
+$$ LANGUAGE sql STABLE;
+
+CREATE POLICY "Accountants can view records of their clients"
+  ON client_records
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM liaisons
+      WHERE liaisons.client_id = client_records.user_id
+      AND liaisons.accountant_id = auth.uid()
+    )
+  );
@@ -0,0 +1,70 @@
+/*
+  # Accounts Receivable Aging
+
+  1. New Functions
+    - `firm_receivables_aging(as_of)`
+      - Every open (pending, partial or overdue) installment across all client
+        relationships of the caller's accounting firm
+      - Includes the client company, the liaison's client contact and accountant,
+        the outstanding amount and days past due on `as_of`
+      - Buckets: 'current' (not yet due), '1_30', '31_60', '61_90' and '90_plus'
+
+  2. Security
+    - Runs as the definer so the report covers liaisons of every accountant in
+      the firm, but only ever returns rows of the caller's own accounting firm
+*/
+
+CREATE OR REPLACE FUNCTION firm_receivables_aging(as_of date DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  client_company_id uuid,
+  client_company_name text,
+  liaison_id uuid,
+  client_name text,
+  accountant_name text,
+  transaction_id uuid,
+  description text,
+  payment_number integer,
+  due_date date,
+  amount numeric,
+  amount_paid numeric,
+  outstanding numeric,
+  status text,
+  days_past_due integer,
+  bucket text
+) AS $$
+  SELECT
+    client_firm.id,
+    client_firm.name,
+    l.id,
+    client_user.full_name,
+    accountant.full_name,
+    t.id,
+    t.description,
+    t.payment_number::integer,
+    t.due_date,
+    t.amount,
+    t.amount_paid,
+    t.amount - t.amount_paid,
+    t.status,
+    GREATEST(as_of - t.due_date, 0),
+    CASE
+      WHEN as_of - t.due_date <= 0 THEN 'current'
+      WHEN as_of - t.due_date <= 30 THEN '1_30'
+      WHEN as_of - t.due_date <= 60 THEN '31_60'
+      WHEN as_of - t.due_date <= 90 THEN '61_90'
+      ELSE '90_plus'
+    END
+  FROM users caller
+  JOIN companies firm ON firm.id = caller.company_id AND firm.type = 'accounting_firm'
+  JOIN company_relationships cr ON cr.accounting_firm_id = firm.id
+  JOIN companies client_firm ON client_firm.id = cr.client_firm_id
+  JOIN liaisons l ON l.company_relationship_id = cr.id
+  LEFT JOIN users client_user ON client_user.id = l.client_id
+  LEFT JOIN users accountant ON accountant.id = l.accountant_id
+  JOIN "Payment_plan" pp ON pp.liaison_id = l.id
+  JOIN transactions t ON t.payment_plan_id = pp.id
+  WHERE caller.id = auth.uid()
+  AND t.status IN ('pending', 'partial', 'overdue')
+  AND t.amount > t.amount_paid
+  ORDER BY client_firm.name, l.id, t.due_date, t.payment_number;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
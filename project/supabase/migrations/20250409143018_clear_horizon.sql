@@ -0,0 +1,97 @@
+/*
+  # Cash-Flow Forecast
+
+  1. New Functions
+    - `liaison_on_time_probability(liaison_id)`
+      - Share of the liaison's settled installments that were paid on time under
+        its firm's CRS policy, smoothed towards a prior for its risk level
+        (low 0.9, medium 0.7, high 0.4) weighted as four installments so that
+        new clients start from their tier and converge on their own history
+    - `firm_cash_flow_forecast(weeks, as_of)`
+      - Every open installment of an active payment plan across the caller's
+        accounting firm due before the end of the forecast window, with the
+        week it falls in, its outstanding amount and the liaison's on-time
+        probability and risk level
+      - Installments already past due are expected in the first week
+      - Weeks start on the Monday of `as_of`, the caller's local date, so they
+        line up with the weeks the browser draws
+
+  2. Security
+    - The forecast runs as the definer so it covers liaisons of every accountant
+      in the firm, but only ever returns rows of the caller's own accounting firm
+*/
+
+CREATE OR REPLACE FUNCTION liaison_on_time_probability(target_liaison_id uuid)
+RETURNS numeric AS $$
+  WITH history AS (
+    SELECT
+      COUNT(*) FILTER (WHERE event->>'outcome' = 'on_time') AS on_time,
+      COUNT(*) AS settled
+    FROM jsonb_array_elements(
+      liaison_payment_events(target_liaison_id, crs_policy_for_liaison(target_liaison_id))
+    ) AS event
+  ),
+  prior AS (
+    SELECT CASE l.risk_level
+      WHEN 'low' THEN 0.9
+      WHEN 'medium' THEN 0.7
+      ELSE 0.4
+    END AS probability
+    FROM liaisons l
+    WHERE l.id = target_liaison_id
+  )
+  SELECT round((history.on_time + prior.probability * 4) / (history.settled + 4), 4)
+  FROM history, prior;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION firm_cash_flow_forecast(
+  weeks integer DEFAULT 12,
+  as_of date DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (
+  week_start date,
+  client_company_id uuid,
+  client_company_name text,
+  liaison_id uuid,
+  risk_level text,
+  crs_score integer,
+  on_time_probability numeric,
+  transaction_id uuid,
+  due_date date,
+  outstanding numeric
+) AS $$
+  WITH firm_liaisons AS (
+    SELECT
+      l.id,
+      l.risk_level,
+      l.crs_score,
+      client_firm.id AS client_company_id,
+      client_firm.name AS client_company_name,
+      liaison_on_time_probability(l.id) AS on_time_probability
+    FROM users caller
+    JOIN companies firm ON firm.id = caller.company_id AND firm.type = 'accounting_firm'
+    JOIN company_relationships cr ON cr.accounting_firm_id = firm.id
+    JOIN companies client_firm ON client_firm.id = cr.client_firm_id
+    JOIN liaisons l ON l.company_relationship_id = cr.id
+    WHERE caller.id = auth.uid()
+  )
+  SELECT
+    (date_trunc('week', as_of)
+      + (GREATEST(t.due_date - date_trunc('week', as_of)::date, 0) / 7) * interval '1 week')::date,
+    fl.client_company_id,
+    fl.client_company_name,
+    fl.id,
+    fl.risk_level,
+    fl.crs_score,
+    fl.on_time_probability,
+    t.id,
+    t.due_date,
+    t.amount - t.amount_paid
+  FROM firm_liaisons fl
+  JOIN "Payment_plan" pp ON pp.liaison_id = fl.id AND pp.status = 'active'
+  JOIN transactions t ON t.payment_plan_id = pp.id
+  WHERE t.status IN ('pending', 'partial', 'overdue')
+  AND t.amount > t.amount_paid
+  AND t.due_date < date_trunc('week', as_of)::date + weeks * 7
+  ORDER BY t.due_date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
@@ -0,0 +1,86 @@
+/*
+  # Typed Chat Messages
+
+  1. Changes
+    - `messages.message_type`: 'text', 'payment_plan_request',
+      'payment_plan_response', 'reminder', 'document' or 'system_event'
+    - `messages.payload`: the structured body of every non-text message;
+      `content` keeps a plain-text summary for notifications and previews
+
+  2. Data Migration
+    - Payment plan requests stored as JSON in `content` move to `payload`
+    - The plain-text accept/reject confirmations become payment plan responses
+    - Messages with an attached document become document messages
+
+  3. Constraints
+    - Every message other than plain text must carry a JSON object payload
+*/
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS message_type text NOT NULL DEFAULT 'text',
+ADD COLUMN IF NOT EXISTS payload jsonb;
+
+ALTER TABLE messages
+DROP CONSTRAINT IF EXISTS messages_message_type_check;
+
+ALTER TABLE messages
+ADD CONSTRAINT messages_message_type_check
+CHECK (message_type IN (
+  'text',
+  'payment_plan_request',
+  'payment_plan_response',
+  'reminder',
+  'document',
+  'system_event'
+));
+
+-- Only used by the data migration below
+CREATE OR REPLACE FUNCTION try_parse_jsonb(value text)
+RETURNS jsonb AS $$
+BEGIN
+  RETURN value::jsonb;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+UPDATE messages
+SET
+  message_type = 'payment_plan_request',
+  payload = try_parse_jsonb(content) - 'type',
+  content = 'Payment plan request'
+WHERE message_type = 'text'
+AND content LIKE '{%'
+AND try_parse_jsonb(content)->>'type' = 'payment_plan_request';
+
+UPDATE messages
+SET
+  message_type = 'payment_plan_response',
+  payload = jsonb_build_object('status', 'accepted')
+WHERE message_type = 'text'
+AND content = 'Payment plan accepted! The new payment schedule is now active.';
+
+UPDATE messages
+SET
+  message_type = 'payment_plan_response',
+  payload = jsonb_build_object('status', 'rejected')
+WHERE message_type = 'text'
+AND content = 'Payment plan rejected. The current payment schedule remains in effect.';
+
+UPDATE messages
+SET
+  message_type = 'document',
+  payload = jsonb_build_object('url', document_url, 'name', COALESCE(document_name, 'Document'))
+WHERE message_type = 'text'
+AND document_url IS NOT NULL;
+
+DROP FUNCTION try_parse_jsonb(text);
+
+ALTER TABLE messages
+DROP CONSTRAINT IF EXISTS messages_payload_check;
+
+ALTER TABLE messages
+ADD CONSTRAINT messages_payload_check
+CHECK (message_type = 'text' OR jsonb_typeof(payload) = 'object');
+
+CREATE INDEX IF NOT EXISTS idx_messages_message_type ON messages(message_type);
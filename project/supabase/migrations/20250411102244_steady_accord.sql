@@ -0,0 +1,531 @@
+/*
+  # Payment Plan Negotiations
+
+  1. New Tables
+    - `payment_plan_negotiations`
+      - One renegotiation of a liaison's payment plan
+      - `status`: 'proposed' (first offer), 'countered' (a later revision is
+        open), then 'accepted', 'rejected', 'expired' or 'withdrawn'
+      - `base_plan_id`: the active plan when the negotiation was opened
+      - `accepted_plan_id`: the plan created on acceptance; its
+        `parent_plan_id` is the plan it superseded
+      - `expires_at`: open offers lapse if the counter-party doesn't act in time
+    - `payment_plan_revisions`
+      - Every offer in a negotiation, numbered from 1; each counter-offer adds
+        a revision proposed by the other side
+
+  2. New Functions
+    - `open_plan_negotiation(liaison_id, plan)`
+    - `counter_plan_negotiation(negotiation_id, plan)`
+    - `accept_plan_negotiation(negotiation_id)`
+    - `reject_plan_negotiation(negotiation_id, reason)`
+    - `withdraw_plan_negotiation(negotiation_id)`
+    - `expire_plan_negotiations()`
+    - Only the counter-party of the latest revision can counter, accept or
+      reject it; only its proposer can withdraw it. Each step posts its chat
+      message in the same transaction. Accepting cancels the active plan and
+      activates the new one atomically. Every action returns the negotiation's
+      resulting status, which is 'expired' when the offer had already lapsed.
+    - Plans store whole dollars, so offers with cents are refused rather than
+      rounded on acceptance
+    - `accept_connection(relationship_id)`: the company that received a
+      connection request accepts it, activating the plans that came with it
+
+  3. Security
+    - Both sides of the liaison can read its negotiations and revisions
+    - All changes go through the functions above; `expire_plan_negotiations`
+      is only run by them
+    - Payment plans can no longer be inserted or updated directly; they only
+      change through these functions
+*/
+
+CREATE TABLE IF NOT EXISTS payment_plan_negotiations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  liaison_id uuid NOT NULL REFERENCES liaisons(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'proposed'
+    CHECK (status IN ('proposed', 'countered', 'accepted', 'rejected', 'expired', 'withdrawn')),
+  base_plan_id bigint REFERENCES "Payment_plan"(id),
+  accepted_plan_id bigint REFERENCES "Payment_plan"(id),
+  opened_by uuid NOT NULL REFERENCES users(id),
+  closed_by uuid REFERENCES users(id),
+  close_reason text,
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '14 days',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  closed_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS payment_plan_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  negotiation_id uuid NOT NULL REFERENCES payment_plan_negotiations(id) ON DELETE CASCADE,
+  revision integer NOT NULL CHECK (revision > 0),
+  proposed_by uuid NOT NULL REFERENCES users(id),
+  plan_type text NOT NULL CHECK (plan_type IN ('installment', 'lumpsum')),
+  total_amount numeric NOT NULL CHECK (total_amount > 0),
+  number_of_payments integer NOT NULL CHECK (number_of_payments > 0),
+  payment_period integer NOT NULL CHECK (payment_period > 0),
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (negotiation_id, revision)
+);
+
+-- A liaison has at most one negotiation in progress
+CREATE UNIQUE INDEX IF NOT EXISTS idx_open_plan_negotiation
+ON payment_plan_negotiations (liaison_id)
+WHERE status IN ('proposed', 'countered');
+
+CREATE INDEX IF NOT EXISTS idx_plan_revisions_negotiation
+ON payment_plan_revisions (negotiation_id, revision);
+
+ALTER TABLE payment_plan_negotiations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_plan_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view negotiations in their liaisons"
+  ON payment_plan_negotiations
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM liaisons
+      WHERE liaisons.id = payment_plan_negotiations.liaison_id
+      AND (liaisons.accountant_id = auth.uid() OR liaisons.client_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can view revisions of negotiations in their liaisons"
+  ON payment_plan_revisions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM payment_plan_negotiations n
+      JOIN liaisons ON liaisons.id = n.liaison_id
+      WHERE n.id = payment_plan_revisions.negotiation_id
+      AND (liaisons.accountant_id = auth.uid() OR liaisons.client_id = auth.uid())
+    )
+  );
+
+-- Plans only change through the negotiation functions and accept_connection,
+-- so neither side can write an active plan or edit its amounts directly
+DROP POLICY IF EXISTS "Users can insert payment plans in their liaisons" ON "Payment_plan";
+DROP POLICY IF EXISTS "Users can update payment plans in their liaisons" ON "Payment_plan";
+
+-- Plan JSON as sent in chat messages
+CREATE OR REPLACE FUNCTION plan_revision_to_jsonb(rev payment_plan_revisions, target_liaison_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_strip_nulls(jsonb_build_object(
+    'type', rev.plan_type,
+    'totalAmount', rev.total_amount,
+    'paymentPeriod', rev.payment_period,
+    'numberOfPayments', rev.number_of_payments,
+    'paymentAmount', round(rev.total_amount / rev.number_of_payments, 2),
+    'reason', rev.reason,
+    'liaisonId', target_liaison_id
+  ));
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION payment_plan_to_jsonb(plan_id bigint)
+RETURNS jsonb AS $$
+  SELECT COALESCE(
+    (
+      SELECT jsonb_build_object(
+        'type', CASE WHEN pp.num_payment > 1 THEN 'installment' ELSE 'lumpsum' END,
+        'totalAmount', pp.total_due,
+        'paymentPeriod', pp.payment_rate,
+        'numberOfPayments', pp.num_payment,
+        'paymentAmount', round(pp.total_due::numeric / pp.num_payment, 2)
+      )
+      FROM "Payment_plan" pp
+      WHERE pp.id = plan_id
+    ),
+    jsonb_build_object(
+      'type', 'lumpsum',
+      'totalAmount', 0,
+      'paymentPeriod', 30,
+      'numberOfPayments', 1
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Locks an open negotiation for an action by the caller. Returns NULL after
+-- marking it expired when its latest offer has lapsed.
+CREATE OR REPLACE FUNCTION lock_plan_negotiation(target_negotiation_id uuid)
+RETURNS payment_plan_negotiations AS $$
+DECLARE
+  negotiation payment_plan_negotiations;
+BEGIN
+  SELECT * INTO negotiation
+  FROM payment_plan_negotiations
+  WHERE id = target_negotiation_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM liaisons
+    WHERE liaisons.id = negotiation.liaison_id
+    AND (liaisons.accountant_id = auth.uid() OR liaisons.client_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Negotiation not found';
+  END IF;
+
+  IF negotiation.status NOT IN ('proposed', 'countered') THEN
+    RAISE EXCEPTION 'This negotiation is already %', negotiation.status;
+  END IF;
+
+  IF negotiation.expires_at < now() THEN
+    UPDATE payment_plan_negotiations
+    SET status = 'expired', closed_at = now(), updated_at = now()
+    WHERE id = negotiation.id;
+    RETURN NULL;
+  END IF;
+
+  RETURN negotiation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION latest_plan_revision(target_negotiation_id uuid)
+RETURNS payment_plan_revisions AS $$
+  SELECT *
+  FROM payment_plan_revisions
+  WHERE negotiation_id = target_negotiation_id
+  ORDER BY revision DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Adds a revision from the caller and posts it to the chat
+CREATE OR REPLACE FUNCTION add_plan_revision(
+  negotiation payment_plan_negotiations,
+  plan jsonb,
+  current_plan jsonb
+) RETURNS payment_plan_revisions AS $$
+DECLARE
+  rev payment_plan_revisions;
+BEGIN
+  IF (plan->>'totalAmount')::numeric <> trunc((plan->>'totalAmount')::numeric) THEN
+    RAISE EXCEPTION 'Total amount must be a whole number of dollars';
+  END IF;
+
+  INSERT INTO payment_plan_revisions (
+    negotiation_id,
+    revision,
+    proposed_by,
+    plan_type,
+    total_amount,
+    number_of_payments,
+    payment_period,
+    reason
+  )
+  SELECT
+    negotiation.id,
+    COALESCE(MAX(revision), 0) + 1,
+    auth.uid(),
+    COALESCE(plan->>'type', 'installment'),
+    (plan->>'totalAmount')::numeric,
+    (plan->>'numberOfPayments')::integer,
+    (plan->>'paymentPeriod')::integer,
+    NULLIF(plan->>'reason', '')
+  FROM payment_plan_revisions
+  WHERE negotiation_id = negotiation.id
+  RETURNING * INTO rev;
+
+  INSERT INTO messages (liaison_id, sender_id, content, message_type, payload, is_read)
+  VALUES (
+    negotiation.liaison_id,
+    auth.uid(),
+    CASE WHEN rev.revision = 1 THEN 'Payment plan request' ELSE 'Payment plan counter-offer' END,
+    'payment_plan_request',
+    jsonb_build_object(
+      'currentPlan', current_plan,
+      'newPlan', plan_revision_to_jsonb(rev, negotiation.liaison_id),
+      'negotiationId', negotiation.id,
+      'revision', rev.revision
+    ),
+    false
+  );
+
+  RETURN rev;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION post_plan_response(
+  negotiation payment_plan_negotiations,
+  response_status text,
+  content text,
+  plan_id bigint DEFAULT NULL
+) RETURNS void AS $$
+  INSERT INTO messages (liaison_id, sender_id, content, message_type, payload, is_read)
+  VALUES (
+    negotiation.liaison_id,
+    auth.uid(),
+    content,
+    'payment_plan_response',
+    jsonb_strip_nulls(jsonb_build_object(
+      'status', response_status,
+      'planId', plan_id,
+      'negotiationId', negotiation.id
+    )),
+    false
+  );
+$$ LANGUAGE sql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION open_plan_negotiation(target_liaison_id uuid, plan jsonb)
+RETURNS uuid AS $$
+DECLARE
+  negotiation payment_plan_negotiations;
+  active_plan_id bigint;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM liaisons
+    WHERE liaisons.id = target_liaison_id
+    AND (liaisons.accountant_id = auth.uid() OR liaisons.client_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Liaison not found';
+  END IF;
+
+  -- Offers nobody answered in time don't block a new negotiation
+  PERFORM expire_plan_negotiations();
+
+  IF EXISTS (
+    SELECT 1 FROM payment_plan_negotiations
+    WHERE liaison_id = target_liaison_id
+    AND status IN ('proposed', 'countered')
+  ) THEN
+    RAISE EXCEPTION 'A payment plan negotiation is already in progress';
+  END IF;
+
+  SELECT id INTO active_plan_id
+  FROM "Payment_plan"
+  WHERE liaison_id = target_liaison_id
+  AND status = 'active';
+
+  INSERT INTO payment_plan_negotiations (liaison_id, base_plan_id, opened_by)
+  VALUES (target_liaison_id, active_plan_id, auth.uid())
+  RETURNING * INTO negotiation;
+
+  PERFORM add_plan_revision(negotiation, plan, payment_plan_to_jsonb(active_plan_id));
+
+  RETURN negotiation.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION counter_plan_negotiation(target_negotiation_id uuid, plan jsonb)
+RETURNS text AS $$
+DECLARE
+  negotiation payment_plan_negotiations;
+  latest payment_plan_revisions;
+BEGIN
+  negotiation := lock_plan_negotiation(target_negotiation_id);
+  IF negotiation.id IS NULL THEN
+    RETURN 'expired';
+  END IF;
+
+  latest := latest_plan_revision(negotiation.id);
+  IF latest.proposed_by = auth.uid() THEN
+    RAISE EXCEPTION 'Only the other party can respond to this offer';
+  END IF;
+
+  PERFORM add_plan_revision(negotiation, plan, plan_revision_to_jsonb(latest, negotiation.liaison_id) - 'liaisonId' - 'reason');
+
+  UPDATE payment_plan_negotiations
+  SET status = 'countered',
+      expires_at = now() + interval '14 days',
+      updated_at = now()
+  WHERE id = negotiation.id;
+
+  RETURN 'countered';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION accept_plan_negotiation(target_negotiation_id uuid)
+RETURNS text AS $$
+DECLARE
+  negotiation payment_plan_negotiations;
+  latest payment_plan_revisions;
+  previous_plan_id bigint;
+  new_plan_id bigint;
+BEGIN
+  negotiation := lock_plan_negotiation(target_negotiation_id);
+  IF negotiation.id IS NULL THEN
+    RETURN 'expired';
+  END IF;
+
+  latest := latest_plan_revision(negotiation.id);
+  IF latest.proposed_by = auth.uid() THEN
+    RAISE EXCEPTION 'Only the other party can accept this offer';
+  END IF;
+
+  IF latest.total_amount <> trunc(latest.total_amount) THEN
+    RAISE EXCEPTION 'Total amount must be a whole number of dollars';
+  END IF;
+
+  UPDATE "Payment_plan"
+  SET status = 'cancelled'
+  WHERE liaison_id = negotiation.liaison_id
+  AND status = 'active'
+  RETURNING id INTO previous_plan_id;
+
+  -- The schedule trigger materializes the new installments and cancels the
+  -- open ones of the superseded plan
+  INSERT INTO "Payment_plan" (
+    total_due,
+    payment_rate,
+    num_payment,
+    liaison_id,
+    status,
+    parent_plan_id,
+    modified_by
+  ) VALUES (
+    latest.total_amount,
+    latest.payment_period,
+    latest.number_of_payments,
+    negotiation.liaison_id,
+    'active',
+    previous_plan_id,
+    auth.uid()
+  )
+  RETURNING id INTO new_plan_id;
+
+  UPDATE payment_plan_negotiations
+  SET status = 'accepted',
+      accepted_plan_id = new_plan_id,
+      closed_by = auth.uid(),
+      closed_at = now(),
+      updated_at = now()
+  WHERE id = negotiation.id;
+
+  PERFORM post_plan_response(
+    negotiation,
+    'accepted',
+    'Payment plan accepted! The new payment schedule is now active.',
+    new_plan_id
+  );
+
+  RETURN 'accepted';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION reject_plan_negotiation(target_negotiation_id uuid, reason text DEFAULT NULL)
+RETURNS text AS $$
+DECLARE
+  negotiation payment_plan_negotiations;
+BEGIN
+  negotiation := lock_plan_negotiation(target_negotiation_id);
+  IF negotiation.id IS NULL THEN
+    RETURN 'expired';
+  END IF;
+
+  IF (latest_plan_revision(negotiation.id)).proposed_by = auth.uid() THEN
+    RAISE EXCEPTION 'Only the other party can reject this offer';
+  END IF;
+
+  UPDATE payment_plan_negotiations
+  SET status = 'rejected',
+      closed_by = auth.uid(),
+      close_reason = NULLIF(reason, ''),
+      closed_at = now(),
+      updated_at = now()
+  WHERE id = negotiation.id;
+
+  PERFORM post_plan_response(
+    negotiation,
+    'rejected',
+    'Payment plan rejected. The current payment schedule remains in effect.'
+      || COALESCE(E'\n\n' || NULLIF(reason, ''), '')
+  );
+
+  RETURN 'rejected';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION withdraw_plan_negotiation(target_negotiation_id uuid)
+RETURNS text AS $$
+DECLARE
+  negotiation payment_plan_negotiations;
+BEGIN
+  negotiation := lock_plan_negotiation(target_negotiation_id);
+  IF negotiation.id IS NULL THEN
+    RETURN 'expired';
+  END IF;
+
+  IF (latest_plan_revision(negotiation.id)).proposed_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the party who made this offer can withdraw it';
+  END IF;
+
+  UPDATE payment_plan_negotiations
+  SET status = 'withdrawn',
+      closed_by = auth.uid(),
+      closed_at = now(),
+      updated_at = now()
+  WHERE id = negotiation.id;
+
+  PERFORM post_plan_response(
+    negotiation,
+    'withdrawn',
+    'Payment plan offer withdrawn. The current payment schedule remains in effect.'
+  );
+
+  RETURN 'withdrawn';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION expire_plan_negotiations()
+RETURNS integer AS $$
+DECLARE
+  expired integer;
+BEGIN
+  UPDATE payment_plan_negotiations
+  SET status = 'expired',
+      closed_at = now(),
+      updated_at = now()
+  WHERE status IN ('proposed', 'countered')
+  AND expires_at < now();
+
+  GET DIAGNOSTICS expired = ROW_COUNT;
+  RETURN expired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Accepting a connection request activates the plans that came with it.
+-- Only the company that received the request can accept it.
+CREATE OR REPLACE FUNCTION accept_connection(target_relationship_id uuid)
+RETURNS void AS $$
+DECLARE
+  relationship company_relationships;
+BEGIN
+  SELECT cr.* INTO relationship
+  FROM company_relationships cr
+  JOIN users caller ON caller.id = auth.uid()
+  WHERE cr.id = target_relationship_id
+  AND caller.company_id = CASE cr.initiated_by
+    WHEN 'client' THEN cr.accounting_firm_id
+    ELSE cr.client_firm_id
+  END
+  FOR UPDATE OF cr;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Connection request not found';
+  END IF;
+
+  IF relationship.verification_status <> 'pending' THEN
+    RAISE EXCEPTION 'This connection request has already been %', relationship.verification_status;
+  END IF;
+
+  UPDATE "Payment_plan"
+  SET status = 'active'
+  WHERE status = 'pending'
+  AND liaison_id IN (
+    SELECT id FROM liaisons WHERE company_relationship_id = relationship.id
+  );
+
+  UPDATE company_relationships
+  SET verification_status = 'verified',
+      updated_at = now()
+  WHERE id = relationship.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal helpers are only called from the functions above
+REVOKE EXECUTE ON FUNCTION lock_plan_negotiation(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION add_plan_revision(payment_plan_negotiations, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION post_plan_response(payment_plan_negotiations, text, text, bigint) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_plan_negotiations() FROM PUBLIC, anon, authenticated;
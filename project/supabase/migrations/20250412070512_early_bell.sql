@@ -0,0 +1,229 @@
+/*
+  # Automated Payment Reminders
+
+  1. New Tables
+    - `payment_reminders`
+      - One row per reminder sent for an installment, at most one per level
+      - `message_id`: the reminder posted to the liaison's chat
+      - `emailed_at` / `email_error`: outcome of the optional email copy
+
+  2. Changes
+    - `liaisons.reminders_paused`: accountants can stop automated reminders
+      for a client
+
+  3. New Functions
+    - `reminder_level(days_until_due, crs_score)`
+      - The REMINDER_LEVELS ladder: friendly from 7 days before the due date,
+        approaching from 5 days, overdue once past due and urgent from 7 days
+        past due. A level's tone is kept for clients at or above its CRS
+        threshold (85, 75, 65, 0); clients below it get the next, firmer
+        level, but never a past-due one before the due date. The chat's
+        manual reminders use the same function.
+    - `due_payment_reminders(as_of)`
+      - Open installments of active plans whose current level hasn't been sent
+        yet, skipping paused clients and liaisons without an accountant
+    - `set_reminders_paused(liaison_id, paused)`: the liaison's accountant
+      pauses or resumes automated reminders
+    - `record_payment_reminder(transaction_id, level, content, amount, due_date, days_until_due)`
+      - Records the reminder and posts it to the chat from the liaison's
+        accountant in one transaction; returns NULL if that level was already
+        sent for the installment
+
+  4. Security
+    - Both sides of a liaison can read its reminders
+    - Reminders are only recorded by the scheduler (service role)
+*/
+
+ALTER TABLE liaisons
+ADD COLUMN IF NOT EXISTS reminders_paused boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS payment_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  liaison_id uuid NOT NULL REFERENCES liaisons(id) ON DELETE CASCADE,
+  transaction_id uuid NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  level text NOT NULL CHECK (level IN ('friendly', 'approaching', 'overdue', 'urgent')),
+  message_id uuid REFERENCES messages(id) ON DELETE SET NULL,
+  days_until_due integer NOT NULL,
+  crs_score integer,
+  emailed_at timestamptz,
+  email_error text,
+  sent_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (transaction_id, level)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reminders_liaison
+ON payment_reminders (liaison_id, sent_at DESC);
+
+ALTER TABLE payment_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view reminders in their liaisons"
+  ON payment_reminders
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM liaisons
+      WHERE liaisons.id = payment_reminders.liaison_id
+      AND (liaisons.accountant_id = auth.uid() OR liaisons.client_id = auth.uid())
+    )
+  );
+
+-- The REMINDER_LEVELS ladder of src/lib/reminders.ts, mildest first. The
+-- chat's reminder generator calls this too, so both pick the same level.
+CREATE OR REPLACE FUNCTION reminder_level(days_until_due integer, crs_score integer)
+RETURNS text AS $$
+DECLARE
+  ladder CONSTANT text[] := ARRAY['friendly', 'approaching', 'overdue', 'urgent'];
+  days_before_due CONSTANT integer[] := ARRAY[7, 5, 0, -7];
+  crs_thresholds CONSTANT integer[] := ARRAY[85, 75, 65, 0];
+  score CONSTANT integer := COALESCE(crs_score, 0);
+  level integer := 0;
+BEGIN
+  -- The last step the due date has reached; past-due steps only once it has passed
+  FOR step IN 1..array_length(ladder, 1) LOOP
+    IF days_until_due <= days_before_due[step]
+    AND (days_before_due[step] > 0 OR days_until_due < 0) THEN
+      level := step;
+    END IF;
+  END LOOP;
+
+  IF level = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  -- Clients below a step's CRS threshold get the next, firmer one
+  WHILE level < array_length(ladder, 1)
+  AND score < crs_thresholds[level]
+  AND (days_before_due[level + 1] > 0 OR days_until_due < 0) LOOP
+    level := level + 1;
+  END LOOP;
+
+  RETURN ladder[level];
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION due_payment_reminders(as_of date DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  transaction_id uuid,
+  liaison_id uuid,
+  level text,
+  days_until_due integer,
+  crs_score integer,
+  amount numeric,
+  due_date date,
+  description text,
+  client_name text,
+  client_email text,
+  accountant_id uuid,
+  accountant_name text,
+  accounting_firm_name text
+) AS $$
+  SELECT *
+  FROM (
+    SELECT
+      t.id AS transaction_id,
+      l.id AS liaison_id,
+      reminder_level(t.due_date - as_of, l.crs_score) AS level,
+      t.due_date - as_of AS days_until_due,
+      l.crs_score,
+      t.amount - t.amount_paid AS amount,
+      t.due_date,
+      t.description,
+      client.full_name AS client_name,
+      client.email AS client_email,
+      accountant.id AS accountant_id,
+      accountant.full_name AS accountant_name,
+      firm.name AS accounting_firm_name
+    FROM transactions t
+    JOIN "Payment_plan" pp ON pp.id = t.payment_plan_id AND pp.status = 'active'
+    JOIN liaisons l ON l.id = pp.liaison_id
+    JOIN users accountant ON accountant.id = l.accountant_id
+    LEFT JOIN users client ON client.id = l.client_id
+    LEFT JOIN companies firm ON firm.id = accountant.company_id
+    WHERE t.status IN ('pending', 'partial', 'overdue')
+    AND t.amount > t.amount_paid
+    AND NOT l.reminders_paused
+  ) candidates
+  WHERE candidates.level IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM payment_reminders pr
+    WHERE pr.transaction_id = candidates.transaction_id
+    AND pr.level = candidates.level
+  )
+  ORDER BY candidates.due_date;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION record_payment_reminder(
+  target_transaction_id uuid,
+  target_level text,
+  reminder_content text,
+  reminder_amount numeric,
+  reminder_due_date date,
+  reminder_days_until_due integer
+) RETURNS uuid AS $$
+DECLARE
+  reminder payment_reminders;
+  target_liaison liaisons;
+  new_message_id uuid;
+BEGIN
+  SELECT l.* INTO target_liaison
+  FROM transactions t
+  JOIN "Payment_plan" pp ON pp.id = t.payment_plan_id
+  JOIN liaisons l ON l.id = pp.liaison_id
+  WHERE t.id = target_transaction_id;
+
+  IF NOT FOUND OR target_liaison.accountant_id IS NULL THEN
+    RAISE EXCEPTION 'No liaison to remind for installment %', target_transaction_id;
+  END IF;
+
+  INSERT INTO payment_reminders (liaison_id, transaction_id, level, days_until_due, crs_score)
+  VALUES (target_liaison.id, target_transaction_id, target_level, reminder_days_until_due, target_liaison.crs_score)
+  ON CONFLICT (transaction_id, level) DO NOTHING
+  RETURNING * INTO reminder;
+
+  -- Another run already sent this level
+  IF reminder.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO messages (liaison_id, sender_id, content, message_type, payload, is_read)
+  VALUES (
+    target_liaison.id,
+    target_liaison.accountant_id,
+    reminder_content,
+    'reminder',
+    jsonb_build_object(
+      'level', target_level,
+      'transactionId', target_transaction_id,
+      'amount', reminder_amount,
+      'dueDate', reminder_due_date
+    ),
+    false
+  )
+  RETURNING id INTO new_message_id;
+
+  UPDATE payment_reminders
+  SET message_id = new_message_id
+  WHERE id = reminder.id;
+
+  RETURN reminder.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Liaisons have no update policy; only their accountant can pause reminders
+CREATE OR REPLACE FUNCTION set_reminders_paused(target_liaison_id uuid, paused boolean)
+RETURNS void AS $$
+BEGIN
+  UPDATE liaisons
+  SET reminders_paused = paused,
+      updated_at = now()
+  WHERE id = target_liaison_id
+  AND accountant_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_payment_reminder(uuid, text, text, numeric, date, integer) FROM PUBLIC, anon, authenticated;
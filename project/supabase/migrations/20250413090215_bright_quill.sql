@@ -0,0 +1,208 @@
+/*
+  # Reminder Templates
+
+  1. New Tables
+    - `reminder_templates`
+      - `id` (uuid, primary key)
+      - `company_id` (uuid, foreign key to the accounting firm)
+      - `level` (friendly, approaching, overdue, urgent)
+      - `subject` (text, email subject)
+      - `body` (text, may use {{variables}} such as {{firstName}} or {{amount}})
+      - `updated_by` (uuid, foreign key to users)
+      - `created_at` / `updated_at` (timestamp)
+    - At most one template per firm and level; levels without one use the
+      built-in wording
+
+  2. Changes
+    - `due_payment_reminders` also returns the accounting firm and what is left
+      to pay on the plan, so the scheduler can render the firm's templates
+
+  3. New Functions
+    - `reminder_preview_variables(liaison_id, as_of)`
+      - The template variables for the liaison's next open installment, or
+        NULL when nothing is left to pay. Used by the template preview and the
+        chat's reminder generator.
+
+  4. Security
+    - Members of the firm can read its templates, only managers can change them
+    - `reminder_preview_variables` runs as the definer so managers can preview
+      against any client of the firm, but only for liaisons of the caller's firm
+*/
+
+CREATE TABLE IF NOT EXISTS reminder_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  level text NOT NULL CHECK (level IN ('friendly', 'approaching', 'overdue', 'urgent')),
+  subject text NOT NULL CHECK (length(trim(subject)) > 0),
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  updated_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (company_id, level)
+);
+
+ALTER TABLE reminder_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view reminder templates"
+  ON reminder_templates
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.company_id = reminder_templates.company_id
+    )
+  );
+
+CREATE POLICY "Managers can create reminder templates for their firm"
+  ON reminder_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    updated_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM users
+      JOIN companies ON companies.id = users.company_id
+      WHERE users.id = auth.uid()
+      AND users.company_id = reminder_templates.company_id
+      AND users.role = 'manager'
+      AND companies.type = 'accounting_firm'
+    )
+  );
+
+CREATE POLICY "Managers can update reminder templates of their firm"
+  ON reminder_templates
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.company_id = reminder_templates.company_id
+      AND users.role = 'manager'
+    )
+  )
+  WITH CHECK (
+    updated_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.company_id = reminder_templates.company_id
+      AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Managers can delete reminder templates of their firm"
+  ON reminder_templates
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.company_id = reminder_templates.company_id
+      AND users.role = 'manager'
+    )
+  );
+
+-- Outstanding balance of a plan's open installments
+CREATE OR REPLACE FUNCTION plan_remaining_amount(target_plan_id bigint)
+RETURNS numeric AS $$
+  SELECT COALESCE(SUM(amount - amount_paid), 0)
+  FROM transactions
+  WHERE payment_plan_id = target_plan_id
+  AND status IN ('pending', 'partial', 'overdue');
+$$ LANGUAGE sql STABLE;
+
+-- The return type changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS due_payment_reminders(date);
+
+CREATE FUNCTION due_payment_reminders(as_of date DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  transaction_id uuid,
+  liaison_id uuid,
+  level text,
+  days_until_due integer,
+  crs_score integer,
+  amount numeric,
+  due_date date,
+  description text,
+  plan_remaining numeric,
+  client_name text,
+  client_email text,
+  accountant_id uuid,
+  accountant_name text,
+  accounting_firm_id uuid,
+  accounting_firm_name text
+) AS $$
+  SELECT *
+  FROM (
+    SELECT
+      t.id AS transaction_id,
+      l.id AS liaison_id,
+      reminder_level(t.due_date - as_of, l.crs_score) AS level,
+      t.due_date - as_of AS days_until_due,
+      l.crs_score,
+      t.amount - t.amount_paid AS amount,
+      t.due_date,
+      t.description,
+      plan_remaining_amount(pp.id) AS plan_remaining,
+      client.full_name AS client_name,
+      client.email AS client_email,
+      accountant.id AS accountant_id,
+      accountant.full_name AS accountant_name,
+      firm.id AS accounting_firm_id,
+      firm.name AS accounting_firm_name
+    FROM transactions t
+    JOIN "Payment_plan" pp ON pp.id = t.payment_plan_id AND pp.status = 'active'
+    JOIN liaisons l ON l.id = pp.liaison_id
+    JOIN users accountant ON accountant.id = l.accountant_id
+    LEFT JOIN users client ON client.id = l.client_id
+    LEFT JOIN companies firm ON firm.id = accountant.company_id
+    WHERE t.status IN ('pending', 'partial', 'overdue')
+    AND t.amount > t.amount_paid
+    AND NOT l.reminders_paused
+  ) candidates
+  WHERE candidates.level IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM payment_reminders pr
+    WHERE pr.transaction_id = candidates.transaction_id
+    AND pr.level = candidates.level
+  )
+  ORDER BY candidates.due_date;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION reminder_preview_variables(
+  target_liaison_id uuid,
+  as_of date DEFAULT CURRENT_DATE
+) RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'transactionId', t.id,
+    'daysUntilDue', t.due_date - as_of,
+    'firstName', split_part(COALESCE(client_user.full_name, ''), ' ', 1),
+    'clientName', COALESCE(client_user.full_name, ''),
+    'amount', t.amount - t.amount_paid,
+    'dueDate', t.due_date,
+    'daysOverdue', GREATEST(as_of - t.due_date, 0),
+    'crsScore', l.crs_score,
+    'planRemaining', plan_remaining_amount(pp.id),
+    'firmId', firm.id,
+    'firmName', firm.name,
+    'accountantName', COALESCE(accountant.full_name, '')
+  )
+  FROM users caller
+  JOIN companies firm ON firm.id = caller.company_id AND firm.type = 'accounting_firm'
+  JOIN company_relationships cr ON cr.accounting_firm_id = firm.id
+  JOIN liaisons l ON l.company_relationship_id = cr.id
+  LEFT JOIN users client_user ON client_user.id = l.client_id
+  LEFT JOIN users accountant ON accountant.id = l.accountant_id
+  JOIN "Payment_plan" pp ON pp.liaison_id = l.id AND pp.status = 'active'
+  JOIN transactions t ON t.payment_plan_id = pp.id
+  WHERE caller.id = auth.uid()
+  AND l.id = target_liaison_id
+  AND t.status IN ('pending', 'partial', 'overdue')
+  AND t.amount > t.amount_paid
+  ORDER BY t.due_date, t.payment_number
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
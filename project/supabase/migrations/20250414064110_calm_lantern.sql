@@ -0,0 +1,170 @@
+/*
+  # Email Digests
+
+  1. New Tables
+    - `notification_preferences`
+      - One row per user; users without a row get the daily digest
+      - `email_digest`: how often the user gets a summary email,
+        'daily' (default), 'weekly' or 'off'
+
+  2. Changes
+    - `users.last_digest_sent_at`: end of the period the last digest covered
+
+  3. New Functions
+    - `due_digest_recipients(as_of)`
+      - Users whose daily or weekly digest is due on `as_of`
+    - `digest_content(user_id, since, horizon_days, as_of)`
+      - `messages`: unread messages sent to the user since the last digest,
+        counted per liaison; read messages are never included
+      - `installments`: open installments of the user's liaisons due within
+        `horizon_days` of `as_of`
+      - `proposals`: plan negotiations still open at `as_of` waiting on the
+        user's answer
+
+  4. Security
+    - Users can read and change only their own preferences
+    - Both functions read every liaison of a user, so they run as the definer
+      and are only callable by the scheduler (service role)
+*/
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  email_digest text NOT NULL DEFAULT 'daily' CHECK (email_digest IN ('off', 'daily', 'weekly')),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notification preferences"
+  ON notification_preferences
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their notification preferences"
+  ON notification_preferences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their notification preferences"
+  ON notification_preferences
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS last_digest_sent_at timestamptz;
+
+CREATE OR REPLACE FUNCTION due_digest_recipients(as_of timestamptz DEFAULT now())
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  full_name text,
+  frequency text,
+  since timestamptz
+) AS $$
+  SELECT
+    u.id,
+    u.email,
+    u.full_name,
+    COALESCE(np.email_digest, 'daily'),
+    COALESCE(
+      u.last_digest_sent_at,
+      as_of - CASE WHEN np.email_digest = 'weekly' THEN interval '7 days' ELSE interval '1 day' END
+    )
+  FROM users u
+  LEFT JOIN notification_preferences np ON np.user_id = u.id
+  WHERE COALESCE(np.email_digest, 'daily') <> 'off'
+  -- An hour of slack so a run that starts a little early still picks the user up
+  AND (
+    u.last_digest_sent_at IS NULL
+    OR u.last_digest_sent_at <= as_of
+      - CASE WHEN np.email_digest = 'weekly' THEN interval '7 days' ELSE interval '1 day' END
+      + interval '1 hour'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION digest_content(
+  target_user_id uuid,
+  since timestamptz,
+  horizon_days integer DEFAULT 7,
+  as_of timestamptz DEFAULT now()
+) RETURNS jsonb AS $$
+  WITH user_liaisons AS (
+    SELECT
+      l.id,
+      l.client_id,
+      -- The other side of the liaison, as the user knows them
+      CASE
+        WHEN l.client_id = target_user_id THEN accounting_firm.name
+        ELSE client_firm.name
+      END AS counterpart
+    FROM liaisons l
+    JOIN company_relationships cr ON cr.id = l.company_relationship_id
+    JOIN companies accounting_firm ON accounting_firm.id = cr.accounting_firm_id
+    JOIN companies client_firm ON client_firm.id = cr.client_firm_id
+    WHERE l.client_id = target_user_id OR l.accountant_id = target_user_id
+  )
+  SELECT jsonb_build_object(
+    'messages', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'liaisonId', ul.id,
+        'counterpart', ul.counterpart,
+        'count', unread.count,
+        'latest', unread.latest
+      ) ORDER BY unread.latest DESC)
+      FROM user_liaisons ul
+      JOIN (
+        SELECT m.liaison_id, count(*) AS count, max(m.created_at) AS latest
+        FROM messages m
+        WHERE m.is_read = false
+        AND m.sender_id <> target_user_id
+        AND m.created_at > since
+        GROUP BY m.liaison_id
+      ) unread ON unread.liaison_id = ul.id
+    ), '[]'::jsonb),
+    'installments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'liaisonId', ul.id,
+        'counterpart', ul.counterpart,
+        'description', t.description,
+        'amount', t.amount - t.amount_paid,
+        'dueDate', t.due_date
+      ) ORDER BY t.due_date)
+      FROM user_liaisons ul
+      JOIN "Payment_plan" pp ON pp.liaison_id = ul.id AND pp.status = 'active'
+      JOIN transactions t ON t.payment_plan_id = pp.id
+      WHERE t.status IN ('pending', 'partial', 'overdue')
+      AND t.amount > t.amount_paid
+      AND t.due_date <= as_of::date + horizon_days
+    ), '[]'::jsonb),
+    'proposals', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'liaisonId', ul.id,
+        'counterpart', ul.counterpart,
+        'totalAmount', rev.total_amount,
+        'numberOfPayments', rev.number_of_payments,
+        'paymentPeriod', rev.payment_period,
+        'expiresAt', n.expires_at
+      ) ORDER BY n.expires_at)
+      FROM user_liaisons ul
+      JOIN payment_plan_negotiations n ON n.liaison_id = ul.id
+      JOIN LATERAL (
+        SELECT r.*
+        FROM payment_plan_revisions r
+        WHERE r.negotiation_id = n.id
+        ORDER BY r.revision DESC
+        LIMIT 1
+      ) rev ON true
+      WHERE n.status IN ('proposed', 'countered')
+      AND n.expires_at > as_of
+      AND rev.proposed_by <> target_user_id
+    ), '[]'::jsonb)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION due_digest_recipients(timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION digest_content(uuid, timestamptz, integer, timestamptz) FROM PUBLIC, anon, authenticated;
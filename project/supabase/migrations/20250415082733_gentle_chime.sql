@@ -0,0 +1,123 @@
+/*
+  # Notification Preferences
+
+  1. Changes
+    - `notification_preferences`, which so far only held the digest frequency
+      - Users without a row get every notification and no quiet hours
+      - `in_app_<event>` / `email_<event>` (boolean) for each event: message,
+        reminder, plan (payment plan proposals and answers) and connection
+      - `quiet_hours_start` / `quiet_hours_end` (time, both or neither): no
+        toasts or immediate emails in between; the range may wrap midnight
+      - `timezone` (IANA name) the quiet hours are in
+    - `due_digest_recipients` holds digests back during the recipient's quiet
+      hours
+
+  2. New Functions
+    - `in_quiet_hours(start, end, timezone, at)`
+    - `notification_allowed(user_id, channel, event, at)`
+      - Whether the user wants `channel` ('in_app' or 'email') notifications
+        for `event` at the given moment
+
+  3. Security
+    - `notification_allowed` is for the senders (service role)
+*/
+
+CREATE OR REPLACE FUNCTION is_valid_timezone(tz text)
+RETURNS boolean AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tz);
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE notification_preferences
+ADD COLUMN IF NOT EXISTS in_app_message boolean NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS in_app_reminder boolean NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS in_app_plan boolean NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS in_app_connection boolean NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS email_message boolean NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS email_reminder boolean NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS email_plan boolean NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS email_connection boolean NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS quiet_hours_start time,
+ADD COLUMN IF NOT EXISTS quiet_hours_end time,
+ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'UTC' CHECK (is_valid_timezone(timezone));
+
+ALTER TABLE notification_preferences
+ADD CONSTRAINT notification_preferences_quiet_hours_check
+CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL));
+
+CREATE OR REPLACE FUNCTION in_quiet_hours(
+  quiet_start time,
+  quiet_end time,
+  tz text,
+  at timestamptz DEFAULT now()
+) RETURNS boolean AS $$
+  SELECT CASE
+    WHEN quiet_start IS NULL OR quiet_end IS NULL OR quiet_start = quiet_end THEN false
+    WHEN quiet_start < quiet_end THEN
+      (at AT TIME ZONE tz)::time >= quiet_start AND (at AT TIME ZONE tz)::time < quiet_end
+    -- The range wraps midnight, e.g. 22:00 to 07:00
+    ELSE
+      (at AT TIME ZONE tz)::time >= quiet_start OR (at AT TIME ZONE tz)::time < quiet_end
+  END;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION notification_allowed(
+  target_user_id uuid,
+  channel text,
+  event text,
+  at timestamptz DEFAULT now()
+) RETURNS boolean AS $$
+DECLARE
+  prefs notification_preferences;
+BEGIN
+  IF channel NOT IN ('in_app', 'email') OR event NOT IN ('message', 'reminder', 'plan', 'connection') THEN
+    RAISE EXCEPTION 'Unknown notification % for %', event, channel;
+  END IF;
+
+  SELECT * INTO prefs
+  FROM notification_preferences
+  WHERE user_id = target_user_id;
+
+  IF NOT FOUND THEN
+    RETURN true;
+  END IF;
+
+  IF NOT (to_jsonb(prefs)->>(channel || '_' || event))::boolean THEN
+    RETURN false;
+  END IF;
+
+  RETURN NOT in_quiet_hours(prefs.quiet_hours_start, prefs.quiet_hours_end, prefs.timezone, at);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION notification_allowed(uuid, text, text, timestamptz) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION due_digest_recipients(as_of timestamptz DEFAULT now())
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  full_name text,
+  frequency text,
+  since timestamptz
+) AS $$
+  SELECT
+    u.id,
+    u.email,
+    u.full_name,
+    COALESCE(np.email_digest, 'daily'),
+    COALESCE(
+      u.last_digest_sent_at,
+      as_of - CASE WHEN np.email_digest = 'weekly' THEN interval '7 days' ELSE interval '1 day' END
+    )
+  FROM users u
+  LEFT JOIN notification_preferences np ON np.user_id = u.id
+  WHERE COALESCE(np.email_digest, 'daily') <> 'off'
+  -- An hour of slack so a run that starts a little early still picks the user up
+  AND (
+    u.last_digest_sent_at IS NULL
+    OR u.last_digest_sent_at <= as_of
+      - CASE WHEN np.email_digest = 'weekly' THEN interval '7 days' ELSE interval '1 day' END
+      + interval '1 hour'
+  )
+  -- Held back until the recipient's quiet hours are over
+  AND NOT COALESCE(in_quiet_hours(np.quiet_hours_start, np.quiet_hours_end, np.timezone, as_of), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
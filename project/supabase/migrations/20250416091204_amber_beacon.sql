@@ -0,0 +1,300 @@
+/*
+  # Notification Center
+
+  1. New Tables
+    - `notifications`
+      - One row per notification shown in a user's inbox
+      - `event`: message, reminder, plan or connection, the same events as the
+        notification preferences
+      - `title` / `body`: what the inbox shows
+      - `link`: the page to open, `liaison_id` the conversation on it
+      - `source_id`: the message or relationship the notification is about
+      - `is_read` / `read_at`
+
+  2. New Functions
+    - `notify_user(user_id, event, title, body, link, liaison_id, source_id)`
+      - Adds a notification unless the user turned off in-app notifications
+        for the event. Quiet hours only hold back pop-ups, not the inbox.
+
+  3. Triggers
+    - New messages notify the other side of the liaison: reminders as
+      'reminder', payment plan proposals and answers as 'plan', anything else
+      as 'message'
+    - Reading a message marks its notification read
+    - A new liaison on a pending relationship notifies the side that didn't
+      initiate it; verifying a relationship notifies the side that did
+
+  4. Security
+    - Users can read their notifications and mark them read; they are only
+      created by the triggers
+*/
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  event text NOT NULL CHECK (event IN ('message', 'reminder', 'plan', 'connection')),
+  title text NOT NULL,
+  body text,
+  link text NOT NULL,
+  liaison_id uuid REFERENCES liaisons(id) ON DELETE CASCADE,
+  source_id uuid,
+  is_read boolean NOT NULL DEFAULT false,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user
+ON notifications (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_unread
+ON notifications (user_id)
+WHERE NOT is_read;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_source
+ON notifications (source_id);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their notifications read"
+  ON notifications
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+
+CREATE OR REPLACE FUNCTION notify_user(
+  target_user_id uuid,
+  notification_event text,
+  notification_title text,
+  notification_body text,
+  notification_link text,
+  target_liaison_id uuid DEFAULT NULL,
+  target_source_id uuid DEFAULT NULL
+) RETURNS uuid AS $$
+DECLARE
+  prefs notification_preferences;
+  new_id uuid;
+BEGIN
+  SELECT * INTO prefs
+  FROM notification_preferences
+  WHERE user_id = target_user_id;
+
+  IF FOUND AND NOT (to_jsonb(prefs)->>('in_app_' || notification_event))::boolean THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO notifications (user_id, event, title, body, link, liaison_id, source_id)
+  VALUES (
+    target_user_id,
+    notification_event,
+    notification_title,
+    left(notification_body, 200),
+    notification_link,
+    target_liaison_id,
+    target_source_id
+  )
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION notify_user(uuid, text, text, text, text, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Where a user finds their conversations and connections
+CREATE OR REPLACE FUNCTION user_home_path(target_user_id uuid)
+RETURNS text AS $$
+  SELECT CASE WHEN role = 'client_user' THEN '/client' ELSE '/accounting' END
+  FROM users
+  WHERE id = target_user_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION notify_message_recipient()
+RETURNS trigger AS $$
+DECLARE
+  target_liaison liaisons;
+  recipient_id uuid;
+  sender_name text;
+  notification_event text;
+  notification_title text;
+BEGIN
+  SELECT * INTO target_liaison
+  FROM liaisons
+  WHERE id = NEW.liaison_id;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  recipient_id := CASE
+    WHEN NEW.sender_id = target_liaison.accountant_id THEN target_liaison.client_id
+    ELSE target_liaison.accountant_id
+  END;
+
+  IF recipient_id IS NULL OR recipient_id = NEW.sender_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO sender_name
+  FROM users
+  WHERE id = NEW.sender_id;
+
+  CASE NEW.message_type
+    WHEN 'reminder' THEN
+      notification_event := 'reminder';
+      notification_title := 'Payment reminder from ' || COALESCE(sender_name, 'your accountant');
+    WHEN 'payment_plan_request' THEN
+      notification_event := 'plan';
+      notification_title := COALESCE(sender_name, 'Your contact') || ' proposed a payment plan';
+    WHEN 'payment_plan_response' THEN
+      notification_event := 'plan';
+      notification_title := COALESCE(sender_name, 'Your contact') || ' answered a payment plan proposal';
+    ELSE
+      notification_event := 'message';
+      notification_title := 'New message from ' || COALESCE(sender_name, 'your contact');
+  END CASE;
+
+  PERFORM notify_user(
+    recipient_id,
+    notification_event,
+    notification_title,
+    NEW.content,
+    user_home_path(recipient_id) || '/chat',
+    NEW.liaison_id,
+    NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS messages_notify_recipient ON messages;
+
+CREATE TRIGGER messages_notify_recipient
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_message_recipient();
+
+CREATE OR REPLACE FUNCTION mark_message_notification_read()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE notifications
+  SET is_read = true,
+      read_at = now()
+  WHERE source_id = NEW.id
+  AND NOT is_read;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS messages_mark_notification_read ON messages;
+
+CREATE TRIGGER messages_mark_notification_read
+  AFTER UPDATE OF is_read ON messages
+  FOR EACH ROW
+  WHEN (NEW.is_read AND NOT OLD.is_read)
+  EXECUTE FUNCTION mark_message_notification_read();
+
+CREATE OR REPLACE FUNCTION notify_connection_request()
+RETURNS trigger AS $$
+DECLARE
+  relationship company_relationships;
+  recipient_id uuid;
+  initiator_id uuid;
+  initiator_company text;
+BEGIN
+  SELECT * INTO relationship
+  FROM company_relationships
+  WHERE id = NEW.company_relationship_id;
+
+  IF NOT FOUND OR relationship.verification_status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  IF relationship.initiated_by = 'client' THEN
+    initiator_id := NEW.client_id;
+    recipient_id := NEW.accountant_id;
+  ELSE
+    initiator_id := NEW.accountant_id;
+    recipient_id := NEW.client_id;
+  END IF;
+
+  SELECT c.name INTO initiator_company
+  FROM users u
+  JOIN companies c ON c.id = u.company_id
+  WHERE u.id = initiator_id;
+
+  PERFORM notify_user(
+    recipient_id,
+    'connection',
+    COALESCE(initiator_company, 'A company') || ' wants to connect',
+    'Review the request to start working together.',
+    user_home_path(recipient_id),
+    NEW.id,
+    relationship.id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS liaisons_notify_connection_request ON liaisons;
+
+CREATE TRIGGER liaisons_notify_connection_request
+  AFTER INSERT ON liaisons
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_connection_request();
+
+CREATE OR REPLACE FUNCTION notify_connection_verified()
+RETURNS trigger AS $$
+DECLARE
+  liaison_record RECORD;
+  recipient_id uuid;
+  other_company text;
+BEGIN
+  FOR liaison_record IN
+    SELECT * FROM liaisons WHERE company_relationship_id = NEW.id
+  LOOP
+    recipient_id := CASE
+      WHEN NEW.initiated_by = 'client' THEN liaison_record.client_id
+      ELSE liaison_record.accountant_id
+    END;
+
+    SELECT name INTO other_company
+    FROM companies
+    WHERE id = CASE
+      WHEN NEW.initiated_by = 'client' THEN NEW.accounting_firm_id
+      ELSE NEW.client_firm_id
+    END;
+
+    PERFORM notify_user(
+      recipient_id,
+      'connection',
+      COALESCE(other_company, 'Your contact') || ' accepted your connection request',
+      'You can now chat and share payment plans.',
+      user_home_path(recipient_id),
+      liaison_record.id,
+      NEW.id
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS company_relationships_notify_verified ON company_relationships;
+
+CREATE TRIGGER company_relationships_notify_verified
+  AFTER UPDATE OF verification_status ON company_relationships
+  FOR EACH ROW
+  WHEN (NEW.verification_status = 'verified' AND OLD.verification_status IS DISTINCT FROM 'verified')
+  EXECUTE FUNCTION notify_connection_verified();
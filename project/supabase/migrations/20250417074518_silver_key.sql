@@ -0,0 +1,339 @@
+/*
+  # Connection Invitations
+
+  Replaces connecting by company name. The inviter invites someone by email;
+  the link carries a signed token, and the relationship and liaison are only
+  created when the invitee redeems it while signed in with that email.
+
+  1. New Tables
+    - `invitations`
+      - `inviter_id` / `company_id`: who invited, and for which company
+      - `invitee_email` / `invitee_name`: who may redeem the invitation
+      - `initiated_by`: 'client' or 'accountant', copied to the relationship
+      - `payment_plan`: optional initial plan ({total_due, payment_rate, num_payment})
+      - `expires_at`, `revoked_at`, `redeemed_at` / `redeemed_by`
+      - `company_relationship_id`: the relationship created on redemption
+    - `invitation_signing_key`
+      - A single random key used to sign invitation tokens. No policies, so it
+        is only readable by the functions below.
+
+  2. Tokens
+    - `<invitation id>.<signature>`, the signature being an HMAC of the id and
+      the expiry. The token itself is never stored, and changing the expiry
+      invalidates it.
+
+  3. New Functions
+    - `create_invitation(email, name, payment_plan, valid_days)`: returns the token
+    - `revoke_invitation(invitation_id)`: the inviter or a manager of their company
+    - `invitation_details(token)`: what the invite page shows, also before sign-in
+    - `redeem_invitation(token)`: connects the caller, returns the liaison id
+
+  4. Security
+    - Members of the inviting company can see its invitations
+    - Invitations are only written through the functions above
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS invitation_signing_key (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  secret bytea NOT NULL DEFAULT extensions.gen_random_bytes(32)
+);
+
+INSERT INTO invitation_signing_key DEFAULT VALUES
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE invitation_signing_key ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  inviter_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  invitee_email text NOT NULL,
+  invitee_name text,
+  initiated_by text NOT NULL CHECK (initiated_by IN ('client', 'accountant')),
+  payment_plan jsonb,
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,
+  redeemed_at timestamptz,
+  redeemed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  company_relationship_id uuid REFERENCES company_relationships(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_invitations_company
+ON invitations (company_id, created_at DESC);
+
+ALTER TABLE invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company members can view their invitations"
+  ON invitations
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.company_id = invitations.company_id
+    )
+  );
+
+CREATE OR REPLACE FUNCTION sign_invitation(invitation_id uuid, expires timestamptz)
+RETURNS text AS $$
+  SELECT left(encode(
+    extensions.hmac(
+      convert_to(invitation_id::text || ':' || floor(extract(epoch FROM expires))::bigint::text, 'UTF8'),
+      secret,
+      'sha256'
+    ),
+    'hex'
+  ), 32)
+  FROM invitation_signing_key;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION sign_invitation(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+
+-- The invitation a token was signed for, or nothing for a malformed or forged token
+CREATE OR REPLACE FUNCTION invitation_from_token(token text)
+RETURNS invitations AS $$
+DECLARE
+  invitation invitations;
+BEGIN
+  IF token !~ '^[0-9a-f-]{36}\.[0-9a-f]{32}$' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO invitation
+  FROM invitations
+  WHERE id = split_part(token, '.', 1)::uuid;
+
+  IF NOT FOUND OR sign_invitation(invitation.id, invitation.expires_at) <> split_part(token, '.', 2) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN invitation;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION invitation_from_token(text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION invitation_status(invitation invitations)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN invitation.redeemed_at IS NOT NULL THEN 'redeemed'
+    WHEN invitation.revoked_at IS NOT NULL THEN 'revoked'
+    WHEN invitation.expires_at <= now() THEN 'expired'
+    ELSE 'pending'
+  END;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION create_invitation(
+  email text,
+  name text DEFAULT NULL,
+  payment_plan jsonb DEFAULT NULL,
+  valid_days integer DEFAULT 14
+) RETURNS text AS $$
+DECLARE
+  caller RECORD;
+  invitation invitations;
+BEGIN
+  SELECT u.id, u.company_id, c.type AS company_type
+  INTO caller
+  FROM users u
+  JOIN companies c ON c.id = u.company_id
+  WHERE u.id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF email IS NULL OR email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address';
+  END IF;
+
+  IF valid_days NOT BETWEEN 1 AND 90 THEN
+    RAISE EXCEPTION 'Invitations can be valid for 1 to 90 days';
+  END IF;
+
+  INSERT INTO invitations (
+    inviter_id,
+    company_id,
+    invitee_email,
+    invitee_name,
+    initiated_by,
+    payment_plan,
+    expires_at
+  )
+  VALUES (
+    caller.id,
+    caller.company_id,
+    lower(trim(email)),
+    NULLIF(trim(name), ''),
+    CASE WHEN caller.company_type = 'client' THEN 'client' ELSE 'accountant' END,
+    payment_plan,
+    date_trunc('second', now()) + make_interval(days => valid_days)
+  )
+  RETURNING * INTO invitation;
+
+  RETURN invitation.id::text || '.' || sign_invitation(invitation.id, invitation.expires_at);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION revoke_invitation(invitation_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE invitations i
+  SET revoked_at = now()
+  FROM users caller
+  WHERE i.id = invitation_id
+  AND caller.id = auth.uid()
+  AND caller.company_id = i.company_id
+  AND (i.inviter_id = caller.id OR caller.role = 'manager')
+  AND i.redeemed_at IS NULL
+  AND i.revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invitation cannot be revoked';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION invitation_details(token text)
+RETURNS jsonb AS $$
+DECLARE
+  invitation invitations;
+  result jsonb;
+BEGIN
+  invitation := invitation_from_token(token);
+  IF invitation.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT jsonb_build_object(
+    'status', invitation_status(invitation),
+    'inviteeEmail', invitation.invitee_email,
+    'inviteeName', invitation.invitee_name,
+    'inviterName', u.full_name,
+    'inviterCompany', c.name,
+    'initiatedBy', invitation.initiated_by,
+    'expiresAt', invitation.expires_at
+  )
+  INTO result
+  FROM users u
+  JOIN companies c ON c.id = u.company_id
+  WHERE u.id = invitation.inviter_id;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION invitation_details(text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION redeem_invitation(token text)
+RETURNS uuid AS $$
+DECLARE
+  invitation invitations;
+  caller RECORD;
+  account_email text;
+  inviter_company_type text;
+  relationship_id uuid;
+  new_liaison_id uuid;
+BEGIN
+  invitation := invitation_from_token(token);
+  IF invitation.id IS NULL THEN
+    RAISE EXCEPTION 'This invitation link is not valid';
+  END IF;
+
+  -- Locked so two redemptions of the same link cannot both go through
+  SELECT * INTO invitation
+  FROM invitations
+  WHERE id = invitation.id
+  FOR UPDATE;
+
+  CASE invitation_status(invitation)
+    WHEN 'redeemed' THEN RAISE EXCEPTION 'This invitation has already been used';
+    WHEN 'revoked' THEN RAISE EXCEPTION 'This invitation has been revoked';
+    WHEN 'expired' THEN RAISE EXCEPTION 'This invitation has expired';
+    ELSE NULL;
+  END CASE;
+
+  SELECT u.id, u.company_id, c.type AS company_type, c.name AS company_name
+  INTO caller
+  FROM users u
+  JOIN companies c ON c.id = u.company_id
+  WHERE u.id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- The signed-in account's address, not the editable profile copy
+  SELECT email INTO account_email
+  FROM auth.users
+  WHERE id = auth.uid();
+
+  IF lower(account_email) <> invitation.invitee_email THEN
+    RAISE EXCEPTION 'This invitation was sent to %', invitation.invitee_email;
+  END IF;
+
+  SELECT type INTO inviter_company_type
+  FROM companies
+  WHERE id = invitation.company_id;
+
+  IF caller.company_type = inviter_company_type THEN
+    RAISE EXCEPTION 'Invitations connect a client with an accounting firm';
+  END IF;
+
+  -- Redeeming is the invitee's acceptance, so the relationship starts verified
+  INSERT INTO company_relationships (accounting_firm_id, client_firm_id, verification_status, initiated_by)
+  VALUES (
+    CASE WHEN invitation.initiated_by = 'accountant' THEN invitation.company_id ELSE caller.company_id END,
+    CASE WHEN invitation.initiated_by = 'client' THEN invitation.company_id ELSE caller.company_id END,
+    'verified',
+    invitation.initiated_by
+  )
+  ON CONFLICT (accounting_firm_id, client_firm_id)
+  DO UPDATE SET verification_status = 'verified', updated_at = now()
+  RETURNING id INTO relationship_id;
+
+  INSERT INTO liaisons (company_relationship_id, accountant_id, client_id)
+  VALUES (
+    relationship_id,
+    CASE WHEN invitation.initiated_by = 'accountant' THEN invitation.inviter_id ELSE caller.id END,
+    CASE WHEN invitation.initiated_by = 'client' THEN invitation.inviter_id ELSE caller.id END
+  )
+  ON CONFLICT (company_relationship_id, accountant_id, client_id)
+  DO UPDATE SET updated_at = now()
+  RETURNING id INTO new_liaison_id;
+
+  IF invitation.payment_plan IS NOT NULL THEN
+    INSERT INTO "Payment_plan" (total_due, payment_rate, num_payment, liaison_id, status, modified_by)
+    VALUES (
+      (invitation.payment_plan->>'total_due')::numeric,
+      (invitation.payment_plan->>'payment_rate')::integer,
+      (invitation.payment_plan->>'num_payment')::integer,
+      new_liaison_id,
+      'pending',
+      invitation.inviter_id
+    );
+  END IF;
+
+  UPDATE invitations
+  SET redeemed_at = now(),
+      redeemed_by = caller.id,
+      company_relationship_id = relationship_id
+  WHERE id = invitation.id;
+
+  PERFORM notify_user(
+    invitation.inviter_id,
+    'connection',
+    caller.company_name || ' accepted your invitation',
+    'You can now chat and share payment plans.',
+    user_home_path(invitation.inviter_id) || '/chat',
+    new_liaison_id,
+    relationship_id
+  );
+
+  RETURN new_liaison_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
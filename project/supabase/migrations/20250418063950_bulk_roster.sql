@@ -0,0 +1,276 @@
+/*
+  # Bulk Client Import
+
+  1. New Tables
+    - `pending_contacts`
+      - The liaison of an imported client who has no account yet, with the
+        accountant and opening balance they will be connected with
+      - `claimed_at` / `liaison_id`: set when they sign up
+
+  2. New Functions
+    - `import_clients(rows jsonb, dry_run boolean)`
+      - Imports clients for the caller's accounting firm. Each row is
+        {rowNumber, companyName, domainEmail, liaisonName, liaisonEmail,
+        liaisonPhone, openingBalance, paymentRate, numPayments}, already
+        validated by the import wizard.
+      - Returns one result per row: {rowNumber, status, message}, status being
+        'ready' (dry run), 'created', 'duplicate' or 'error'
+      - Rows whose company already exists, or that repeat an earlier row, are
+        reported as duplicates and skipped
+      - Liaisons who already have an account, or are already waiting to sign
+        up from an earlier import, are skipped; they should be invited instead
+      - Each row creates the client company, a pending relationship initiated
+        by the firm and a pending contact for its liaison. No user is created,
+        so the liaison can still sign up with their email. A row that fails is
+        rolled back on its own.
+    - `attach_pending_contact()` trigger
+      - When someone signs up in an imported company with its liaison's email,
+        creates their liaison with the importing accountant, and a pending
+        payment plan when the row had an opening balance
+
+  3. Security
+    - Only members of an accounting firm can import, at most 1000 rows at a time
+    - The firm's members can read its pending contacts; changes go through the
+      functions above
+*/
+
+CREATE TABLE IF NOT EXISTS pending_contacts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_relationship_id uuid NOT NULL REFERENCES company_relationships(id) ON DELETE CASCADE,
+  accountant_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  full_name text NOT NULL,
+  phone_number text,
+  payment_plan jsonb,
+  claimed_at timestamptz,
+  liaison_id uuid REFERENCES liaisons(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- An address waits for at most one sign-up
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pending_contacts_email
+ON pending_contacts (lower(email))
+WHERE claimed_at IS NULL;
+
+ALTER TABLE pending_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view their pending contacts"
+  ON pending_contacts
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM company_relationships cr
+      JOIN users caller ON caller.id = auth.uid()
+      WHERE cr.id = pending_contacts.company_relationship_id
+      AND cr.accounting_firm_id = caller.company_id
+    )
+  );
+
+CREATE OR REPLACE FUNCTION import_clients(rows jsonb, dry_run boolean DEFAULT true)
+RETURNS jsonb AS $$
+DECLARE
+  caller RECORD;
+  row_data jsonb;
+  row_number integer;
+  company_name text;
+  liaison_email text;
+  seen_companies text[] := '{}';
+  seen_emails text[] := '{}';
+  new_company_id uuid;
+  new_relationship_id uuid;
+  results jsonb := '[]'::jsonb;
+BEGIN
+  SELECT u.id, u.company_id
+  INTO caller
+  FROM users u
+  JOIN companies c ON c.id = u.company_id
+  WHERE u.id = auth.uid()
+  AND c.type = 'accounting_firm';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only accounting firms can import clients';
+  END IF;
+
+  IF jsonb_typeof(rows) <> 'array' THEN
+    RAISE EXCEPTION 'Expected an array of rows';
+  END IF;
+
+  IF jsonb_array_length(rows) > 1000 THEN
+    RAISE EXCEPTION 'Import at most 1000 clients at a time';
+  END IF;
+
+  FOR row_data IN SELECT * FROM jsonb_array_elements(rows)
+  LOOP
+    row_number := (row_data->>'rowNumber')::integer;
+    company_name := trim(row_data->>'companyName');
+    liaison_email := lower(trim(row_data->>'liaisonEmail'));
+
+    IF lower(company_name) = ANY(seen_companies) THEN
+      results := results || jsonb_build_object(
+        'rowNumber', row_number,
+        'status', 'duplicate',
+        'message', 'Repeats a company from an earlier row'
+      );
+      CONTINUE;
+    END IF;
+    seen_companies := seen_companies || lower(company_name);
+
+    IF EXISTS (SELECT 1 FROM companies WHERE lower(name) = lower(company_name)) THEN
+      results := results || jsonb_build_object(
+        'rowNumber', row_number,
+        'status', 'duplicate',
+        'message', CASE
+          WHEN EXISTS (
+            SELECT 1
+            FROM company_relationships cr
+            JOIN companies c ON c.id = cr.client_firm_id
+            WHERE cr.accounting_firm_id = caller.company_id
+            AND lower(c.name) = lower(company_name)
+          ) THEN 'Already one of your clients'
+          ELSE 'A company with this name already exists; invite its liaison instead'
+        END
+      );
+      CONTINUE;
+    END IF;
+
+    IF liaison_email = ANY(seen_emails) THEN
+      results := results || jsonb_build_object(
+        'rowNumber', row_number,
+        'status', 'error',
+        'message', 'The liaison email is used by an earlier row'
+      );
+      CONTINUE;
+    END IF;
+    seen_emails := seen_emails || liaison_email;
+
+    IF EXISTS (SELECT 1 FROM users WHERE lower(email) = liaison_email) THEN
+      results := results || jsonb_build_object(
+        'rowNumber', row_number,
+        'status', 'error',
+        'message', liaison_email || ' already has an account; invite them instead'
+      );
+      CONTINUE;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM pending_contacts WHERE lower(email) = liaison_email AND claimed_at IS NULL) THEN
+      results := results || jsonb_build_object(
+        'rowNumber', row_number,
+        'status', 'error',
+        'message', liaison_email || ' was already imported and has not signed up yet'
+      );
+      CONTINUE;
+    END IF;
+
+    IF dry_run THEN
+      results := results || jsonb_build_object(
+        'rowNumber', row_number,
+        'status', 'ready',
+        'message', NULL
+      );
+      CONTINUE;
+    END IF;
+
+    BEGIN
+      INSERT INTO companies (name, domain_email, type, is_using_software)
+      VALUES (company_name, row_data->>'domainEmail', 'client', false)
+      RETURNING id INTO new_company_id;
+
+      INSERT INTO company_relationships (accounting_firm_id, client_firm_id, verification_status, initiated_by)
+      VALUES (caller.company_id, new_company_id, 'pending', 'accountant')
+      RETURNING id INTO new_relationship_id;
+
+      INSERT INTO pending_contacts (
+        company_relationship_id,
+        accountant_id,
+        email,
+        full_name,
+        phone_number,
+        payment_plan
+      ) VALUES (
+        new_relationship_id,
+        caller.id,
+        liaison_email,
+        trim(row_data->>'liaisonName'),
+        NULLIF(trim(row_data->>'liaisonPhone'), ''),
+        CASE WHEN COALESCE((row_data->>'openingBalance')::numeric, 0) > 0 THEN
+          jsonb_build_object(
+            'total_due', (row_data->>'openingBalance')::numeric,
+            'payment_rate', COALESCE((row_data->>'paymentRate')::integer, 30),
+            'num_payment', COALESCE((row_data->>'numPayments')::integer, 1)
+          )
+        END
+      );
+
+      results := results || jsonb_build_object(
+        'rowNumber', row_number,
+        'status', 'created',
+        'message', NULL
+      );
+    EXCEPTION WHEN OTHERS THEN
+      results := results || jsonb_build_object(
+        'rowNumber', row_number,
+        'status', 'error',
+        'message', SQLERRM
+      );
+    END;
+  END LOOP;
+
+  RETURN results;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION attach_pending_contact()
+RETURNS trigger AS $$
+DECLARE
+  contact pending_contacts;
+  new_liaison_id uuid;
+BEGIN
+  SELECT pc.* INTO contact
+  FROM pending_contacts pc
+  JOIN company_relationships cr ON cr.id = pc.company_relationship_id
+  WHERE lower(pc.email) = lower(NEW.email)
+  AND pc.claimed_at IS NULL
+  AND cr.client_firm_id = NEW.company_id
+  FOR UPDATE OF pc;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO liaisons (company_relationship_id, accountant_id, client_id)
+  VALUES (contact.company_relationship_id, contact.accountant_id, NEW.id)
+  ON CONFLICT (company_relationship_id, accountant_id, client_id)
+  DO UPDATE SET updated_at = now()
+  RETURNING id INTO new_liaison_id;
+
+  IF contact.payment_plan IS NOT NULL THEN
+    INSERT INTO "Payment_plan" (total_due, payment_rate, num_payment, liaison_id, status, modified_by)
+    VALUES (
+      (contact.payment_plan->>'total_due')::numeric,
+      (contact.payment_plan->>'payment_rate')::integer,
+      (contact.payment_plan->>'num_payment')::integer,
+      new_liaison_id,
+      'pending',
+      contact.accountant_id
+    );
+  END IF;
+
+  UPDATE pending_contacts
+  SET claimed_at = now(),
+      liaison_id = new_liaison_id
+  WHERE id = contact.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS users_attach_pending_contact ON users;
+
+CREATE TRIGGER users_attach_pending_contact
+  AFTER INSERT ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION attach_pending_contact();
+
+REVOKE EXECUTE ON FUNCTION attach_pending_contact() FROM PUBLIC, anon, authenticated;
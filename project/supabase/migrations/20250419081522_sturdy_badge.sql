@@ -0,0 +1,692 @@
+/*
+  # Team Management and Role Permissions
+
+  1. Permission Map
+    - `role_permissions`: which role may do what. The app reads the same
+      table to decide what to show, and the database enforces it:
+      - `clients.create`: invite or import clients / connect with accountants
+      - `plans.accept`: accept payment plans and connection plans
+      - `connections.delete`: remove a connection
+      - `crs_policy.manage`: publish CRS policies
+      - `reminders.manage`: edit reminder templates
+      - `team.manage`: invite colleagues, change roles, deactivate users
+      - `liaisons.view_all`: see every colleague's liaisons
+    - `has_permission(permission)`: whether the caller's role has it. Always
+      false for deactivated users.
+
+  2. Changes
+    - `users.is_active` / `users.deactivated_at`
+    - Roles, activation, company and email of a user can only be changed
+      through the team functions below, and profiles can only be created by
+      `create_account` or `accept_team_invitation`
+    - CRS policy and reminder template policies use the permission map
+      instead of checking for managers
+    - `company_relationships` gets row level security: members of both
+      companies can see and update a relationship, only users with
+      `connections.delete` can remove it
+    - Creating relationships or invitations needs `clients.create`, accepting
+      plans needs `plans.accept`
+
+  3. New Tables
+    - `team_invitations`: colleagues invited to join a company with a role,
+      with signed tokens like connection invitations
+
+  4. New Functions
+    - `create_account(company_name, company_domain_email, company_type,
+      full_name, phone_number, role)`: creates the signed-up user's profile
+      as the first member of a new company created with it, or in the company
+      a firm imported them with (see `pending_contacts`). It never joins any
+      other existing company.
+    - `create_team_invitation(email, name, role, valid_days)`: returns the token
+    - `revoke_team_invitation(invitation_id)`
+    - `team_invitation_details(token)`: what the join page shows
+    - `accept_team_invitation(token, full_name, phone_number)`: creates the
+      signed-up user's profile in the inviting company
+    - `set_member_role(member_id, role)` / `set_member_active(member_id, active)`:
+      keep at least one active manager per company
+    - `team_liaisons()`: every liaison of the caller's company
+*/
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS deactivated_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role text NOT NULL CHECK (role IN ('manager', 'accountant', 'client_user')),
+  permission text NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('manager', 'clients.create'),
+  ('manager', 'plans.accept'),
+  ('manager', 'connections.delete'),
+  ('manager', 'crs_policy.manage'),
+  ('manager', 'reminders.manage'),
+  ('manager', 'team.manage'),
+  ('manager', 'liaisons.view_all'),
+  ('accountant', 'clients.create'),
+  ('accountant', 'plans.accept'),
+  ('client_user', 'clients.create'),
+  ('client_user', 'plans.accept'),
+  ('client_user', 'connections.delete')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone signed in can read the permission map"
+  ON role_permissions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION has_permission(required_permission text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM users u
+    JOIN role_permissions rp ON rp.role = u.role
+    WHERE u.id = auth.uid()
+    AND u.is_active
+    AND rp.permission = required_permission
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Raises unless the caller has the permission. Requests without a user, like
+-- the scheduler's, are not limited by roles.
+CREATE OR REPLACE FUNCTION require_permission(required_permission text, action text)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT has_permission(required_permission) THEN
+    RAISE EXCEPTION 'You do not have permission to %', action;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Role, activation and company changes only go through the team functions
+CREATE OR REPLACE FUNCTION protect_user_access()
+RETURNS trigger AS $$
+BEGIN
+  IF auth.uid() IS NULL OR current_setting('app.team_change', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'Accounts are created by signing up or accepting an invitation';
+  END IF;
+
+  IF NEW.email IS DISTINCT FROM OLD.email THEN
+    RAISE EXCEPTION 'The account email cannot be changed';
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role
+  OR NEW.is_active IS DISTINCT FROM OLD.is_active
+  OR NEW.company_id IS DISTINCT FROM OLD.company_id THEN
+    RAISE EXCEPTION 'Roles and access are managed from the team page';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS users_protect_access ON users;
+
+CREATE TRIGGER users_protect_access
+  BEFORE INSERT OR UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_user_access();
+
+-- CRS policies and reminder templates
+DROP POLICY IF EXISTS "Managers can publish CRS policies for their firm" ON crs_policies;
+
+CREATE POLICY "Managers can publish CRS policies for their firm"
+  ON crs_policies
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND has_permission('crs_policy.manage')
+    AND EXISTS (
+      SELECT 1 FROM users
+      JOIN companies ON companies.id = users.company_id
+      WHERE users.id = auth.uid()
+      AND users.company_id = crs_policies.company_id
+      AND companies.type = 'accounting_firm'
+    )
+  );
+
+DROP POLICY IF EXISTS "Managers can create reminder templates for their firm" ON reminder_templates;
+DROP POLICY IF EXISTS "Managers can update reminder templates of their firm" ON reminder_templates;
+DROP POLICY IF EXISTS "Managers can delete reminder templates of their firm" ON reminder_templates;
+
+CREATE POLICY "Managers can create reminder templates for their firm"
+  ON reminder_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    updated_by = auth.uid()
+    AND has_permission('reminders.manage')
+    AND EXISTS (
+      SELECT 1 FROM users
+      JOIN companies ON companies.id = users.company_id
+      WHERE users.id = auth.uid()
+      AND users.company_id = reminder_templates.company_id
+      AND companies.type = 'accounting_firm'
+    )
+  );
+
+CREATE POLICY "Managers can update reminder templates of their firm"
+  ON reminder_templates
+  FOR UPDATE
+  TO authenticated
+  USING (
+    has_permission('reminders.manage')
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.company_id = reminder_templates.company_id
+    )
+  )
+  WITH CHECK (
+    updated_by = auth.uid()
+    AND has_permission('reminders.manage')
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.company_id = reminder_templates.company_id
+    )
+  );
+
+CREATE POLICY "Managers can delete reminder templates of their firm"
+  ON reminder_templates
+  FOR DELETE
+  TO authenticated
+  USING (
+    has_permission('reminders.manage')
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.company_id = reminder_templates.company_id
+    )
+  );
+
+-- Company relationships. Row level security was switched off early on and
+-- its policies dropped, so every policy is created here.
+ALTER TABLE company_relationships ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Companies can view their relationships" ON company_relationships;
+
+CREATE POLICY "Companies can view their relationships"
+  ON company_relationships
+  FOR SELECT
+  TO authenticated
+  USING (
+    accounting_firm_id IN (SELECT company_id FROM users WHERE users.id = auth.uid())
+    OR client_firm_id IN (SELECT company_id FROM users WHERE users.id = auth.uid())
+  );
+
+CREATE POLICY "Companies can create relationships they are part of"
+  ON company_relationships
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_permission('clients.create')
+    AND (
+      accounting_firm_id IN (SELECT company_id FROM users WHERE users.id = auth.uid())
+      OR client_firm_id IN (SELECT company_id FROM users WHERE users.id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Companies can update their relationships"
+  ON company_relationships
+  FOR UPDATE
+  TO authenticated
+  USING (
+    accounting_firm_id IN (SELECT company_id FROM users WHERE users.id = auth.uid())
+    OR client_firm_id IN (SELECT company_id FROM users WHERE users.id = auth.uid())
+  );
+
+CREATE POLICY "Permitted users can remove their relationships"
+  ON company_relationships
+  FOR DELETE
+  TO authenticated
+  USING (
+    has_permission('connections.delete')
+    AND (
+      accounting_firm_id IN (SELECT company_id FROM users WHERE users.id = auth.uid())
+      OR client_firm_id IN (SELECT company_id FROM users WHERE users.id = auth.uid())
+    )
+  );
+
+-- Security definer functions (invitations, imports) skip row level security,
+-- so relationship creation is also checked here
+CREATE OR REPLACE FUNCTION check_relationship_permission()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM require_permission('clients.create', 'connect companies');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS company_relationships_check_permission ON company_relationships;
+
+CREATE TRIGGER company_relationships_check_permission
+  BEFORE INSERT ON company_relationships
+  FOR EACH ROW
+  EXECUTE FUNCTION check_relationship_permission();
+
+CREATE OR REPLACE FUNCTION check_invitation_permission()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM require_permission('clients.create', 'send invitations');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS invitations_check_permission ON invitations;
+
+CREATE TRIGGER invitations_check_permission
+  BEFORE INSERT ON invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION check_invitation_permission();
+
+-- Accepting a negotiated plan, or the plan that came with a connection request
+CREATE OR REPLACE FUNCTION check_plan_acceptance_permission()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM require_permission('plans.accept', 'accept payment plans');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS payment_plan_negotiations_check_acceptance ON payment_plan_negotiations;
+
+CREATE TRIGGER payment_plan_negotiations_check_acceptance
+  BEFORE UPDATE OF status ON payment_plan_negotiations
+  FOR EACH ROW
+  WHEN (NEW.status = 'accepted' AND OLD.status IS DISTINCT FROM 'accepted')
+  EXECUTE FUNCTION check_plan_acceptance_permission();
+
+DROP TRIGGER IF EXISTS payment_plan_check_activation ON "Payment_plan";
+
+CREATE TRIGGER payment_plan_check_activation
+  BEFORE UPDATE OF status ON "Payment_plan"
+  FOR EACH ROW
+  WHEN (NEW.status = 'active' AND OLD.status = 'pending')
+  EXECUTE FUNCTION check_plan_acceptance_permission();
+
+CREATE OR REPLACE FUNCTION revoke_invitation(invitation_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE invitations i
+  SET revoked_at = now()
+  FROM users caller
+  WHERE i.id = invitation_id
+  AND caller.id = auth.uid()
+  AND caller.company_id = i.company_id
+  AND (i.inviter_id = caller.id OR has_permission('team.manage'))
+  AND i.redeemed_at IS NULL
+  AND i.revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invitation cannot be revoked';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Team invitations
+CREATE TABLE IF NOT EXISTS team_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  inviter_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  invitee_email text NOT NULL,
+  invitee_name text,
+  role text NOT NULL CHECK (role IN ('manager', 'accountant', 'client_user')),
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,
+  accepted_at timestamptz,
+  accepted_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_invitations_company
+ON team_invitations (company_id, created_at DESC);
+
+ALTER TABLE team_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company members can view their team invitations"
+  ON team_invitations
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.company_id = team_invitations.company_id
+    )
+  );
+
+-- Roles a company of the given type can hand out
+CREATE OR REPLACE FUNCTION role_allowed_for_company(target_role text, company_type text)
+RETURNS boolean AS $$
+  SELECT target_role = 'manager'
+    OR (company_type = 'accounting_firm' AND target_role = 'accountant')
+    OR (company_type = 'client' AND target_role = 'client_user');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION create_team_invitation(
+  email text,
+  name text DEFAULT NULL,
+  role text DEFAULT 'accountant',
+  valid_days integer DEFAULT 14
+) RETURNS text AS $$
+DECLARE
+  caller RECORD;
+  invitation team_invitations;
+BEGIN
+  PERFORM require_permission('team.manage', 'invite colleagues');
+
+  SELECT u.id, u.company_id, c.type AS company_type
+  INTO caller
+  FROM users u
+  JOIN companies c ON c.id = u.company_id
+  WHERE u.id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT role_allowed_for_company(role, caller.company_type) THEN
+    RAISE EXCEPTION 'Role % is not available for this company', role;
+  END IF;
+
+  IF email IS NULL OR email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM users WHERE lower(users.email) = lower(trim(email))) THEN
+    RAISE EXCEPTION '% already has an account', lower(trim(email));
+  END IF;
+
+  IF valid_days NOT BETWEEN 1 AND 90 THEN
+    RAISE EXCEPTION 'Invitations can be valid for 1 to 90 days';
+  END IF;
+
+  INSERT INTO team_invitations (company_id, inviter_id, invitee_email, invitee_name, role, expires_at)
+  VALUES (
+    caller.company_id,
+    caller.id,
+    lower(trim(email)),
+    NULLIF(trim(name), ''),
+    role,
+    date_trunc('second', now()) + make_interval(days => valid_days)
+  )
+  RETURNING * INTO invitation;
+
+  RETURN invitation.id::text || '.' || sign_invitation(invitation.id, invitation.expires_at);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION revoke_team_invitation(invitation_id uuid)
+RETURNS void AS $$
+BEGIN
+  PERFORM require_permission('team.manage', 'revoke team invitations');
+
+  UPDATE team_invitations i
+  SET revoked_at = now()
+  FROM users caller
+  WHERE i.id = invitation_id
+  AND caller.id = auth.uid()
+  AND caller.company_id = i.company_id
+  AND i.accepted_at IS NULL
+  AND i.revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invitation cannot be revoked';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION team_invitation_from_token(token text)
+RETURNS team_invitations AS $$
+DECLARE
+  invitation team_invitations;
+BEGIN
+  IF token !~ '^[0-9a-f-]{36}\.[0-9a-f]{32}$' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO invitation
+  FROM team_invitations
+  WHERE id = split_part(token, '.', 1)::uuid;
+
+  IF NOT FOUND OR sign_invitation(invitation.id, invitation.expires_at) <> split_part(token, '.', 2) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN invitation;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION team_invitation_from_token(text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION team_invitation_details(token text)
+RETURNS jsonb AS $$
+DECLARE
+  invitation team_invitations;
+  result jsonb;
+BEGIN
+  invitation := team_invitation_from_token(token);
+  IF invitation.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT jsonb_build_object(
+    'status', CASE
+      WHEN invitation.accepted_at IS NOT NULL THEN 'redeemed'
+      WHEN invitation.revoked_at IS NOT NULL THEN 'revoked'
+      WHEN invitation.expires_at <= now() THEN 'expired'
+      ELSE 'pending'
+    END,
+    'inviteeEmail', invitation.invitee_email,
+    'inviteeName', invitation.invitee_name,
+    'role', invitation.role,
+    'inviterName', u.full_name,
+    'companyName', c.name,
+    'companyType', c.type,
+    'expiresAt', invitation.expires_at
+  )
+  INTO result
+  FROM users u
+  JOIN companies c ON c.id = invitation.company_id
+  WHERE u.id = invitation.inviter_id;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION team_invitation_details(text) TO anon, authenticated;
+
+-- Called right after sign-up; returns the company type to route the new user.
+-- The only existing company a new user can join is the one a firm imported
+-- them with; everyone else gets the company described here, created now.
+CREATE OR REPLACE FUNCTION create_account(
+  company_name text,
+  company_domain_email text,
+  company_type text,
+  full_name text,
+  phone_number text DEFAULT NULL,
+  role text DEFAULT 'manager'
+) RETURNS text AS $$
+DECLARE
+  account_email text;
+  target_company_id uuid;
+BEGIN
+  SELECT email INTO account_email
+  FROM auth.users
+  WHERE id = auth.uid();
+
+  IF account_email IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM users WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'You already belong to a company';
+  END IF;
+
+  -- A liaison a firm imported joins the company it was imported with, so
+  -- attach_pending_contact() connects them to their accountant
+  SELECT c.id, c.type INTO target_company_id, company_type
+  FROM pending_contacts pc
+  JOIN company_relationships cr ON cr.id = pc.company_relationship_id
+  JOIN companies c ON c.id = cr.client_firm_id
+  WHERE lower(pc.email) = lower(account_email)
+  AND pc.claimed_at IS NULL;
+
+  IF target_company_id IS NULL THEN
+    IF NULLIF(trim(company_name), '') IS NULL THEN
+      RAISE EXCEPTION 'Enter your company name';
+    END IF;
+
+    IF company_type IS NULL OR company_type NOT IN ('accounting_firm', 'client') THEN
+      RAISE EXCEPTION 'Unknown company type %', company_type;
+    END IF;
+  END IF;
+
+  IF NOT role_allowed_for_company(role, company_type) THEN
+    RAISE EXCEPTION 'Role % is not available for this company', role;
+  END IF;
+
+  IF target_company_id IS NULL THEN
+    INSERT INTO companies (name, domain_email, type)
+    VALUES (trim(company_name), trim(COALESCE(company_domain_email, '')), company_type)
+    RETURNING id INTO target_company_id;
+  END IF;
+
+  PERFORM set_config('app.team_change', 'on', true);
+
+  INSERT INTO users (id, company_id, email, full_name, phone_number, role)
+  VALUES (
+    auth.uid(),
+    target_company_id,
+    account_email,
+    trim(full_name),
+    NULLIF(trim(phone_number), ''),
+    role
+  );
+
+  RETURN company_type;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Roles and activation
+CREATE OR REPLACE FUNCTION other_active_managers(target_company_id uuid, excluded_user_id uuid)
+RETURNS integer AS $$
+  SELECT count(*)::integer
+  FROM users
+  WHERE company_id = target_company_id
+  AND id <> excluded_user_id
+  AND role = 'manager'
+  AND is_active;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION set_member_role(member_id uuid, new_role text)
+RETURNS void AS $$
+DECLARE
+  member RECORD;
+BEGIN
+  PERFORM require_permission('team.manage', 'change roles');
+
+  SELECT u.id, u.role, u.company_id, c.type AS company_type
+  INTO member
+  FROM users u
+  JOIN companies c ON c.id = u.company_id
+  JOIN users caller ON caller.company_id = u.company_id AND caller.id = auth.uid()
+  WHERE u.id = member_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Team member not found';
+  END IF;
+
+  IF NOT role_allowed_for_company(new_role, member.company_type) THEN
+    RAISE EXCEPTION 'Role % is not available for this company', new_role;
+  END IF;
+
+  IF member.role = 'manager' AND new_role <> 'manager'
+  AND other_active_managers(member.company_id, member.id) = 0 THEN
+    RAISE EXCEPTION 'Every company needs at least one active manager';
+  END IF;
+
+  PERFORM set_config('app.team_change', 'on', true);
+
+  UPDATE users
+  SET role = new_role,
+      updated_at = now()
+  WHERE id = member.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION set_member_active(member_id uuid, active boolean)
+RETURNS void AS $$
+DECLARE
+  member RECORD;
+BEGIN
+  PERFORM require_permission('team.manage', 'deactivate users');
+
+  IF member_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot deactivate yourself';
+  END IF;
+
+  SELECT u.id, u.role, u.company_id
+  INTO member
+  FROM users u
+  JOIN users caller ON caller.company_id = u.company_id AND caller.id = auth.uid()
+  WHERE u.id = member_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Team member not found';
+  END IF;
+
+  IF NOT active AND member.role = 'manager'
+  AND other_active_managers(member.company_id, member.id) = 0 THEN
+    RAISE EXCEPTION 'Every company needs at least one active manager';
+  END IF;
+
+  PERFORM set_config('app.team_change', 'on', true);
+
+  UPDATE users
+  SET is_active = active,
+      deactivated_at = CASE WHEN active THEN NULL ELSE now() END,
+      updated_at = now()
+  WHERE id = member.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION team_liaisons()
+RETURNS TABLE (
+  liaison_id uuid,
+  member_id uuid,
+  contact_name text,
+  company_name text,
+  verification_status text
+) AS $$
+BEGIN
+  PERFORM require_permission('liaisons.view_all', 'view all liaisons');
+
+  RETURN QUERY
+  SELECT
+    l.id,
+    member.id,
+    contact.full_name,
+    contact_company.name,
+    cr.verification_status
+  FROM users caller
+  JOIN users member ON member.company_id = caller.company_id
+  JOIN liaisons l ON l.accountant_id = member.id OR l.client_id = member.id
+  JOIN users contact ON contact.id = CASE WHEN l.accountant_id = member.id THEN l.client_id ELSE l.accountant_id END
+  JOIN companies contact_company ON contact_company.id = contact.company_id
+  JOIN company_relationships cr ON cr.id = l.company_relationship_id
+  WHERE caller.id = auth.uid()
+  ORDER BY member.full_name, contact_company.name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
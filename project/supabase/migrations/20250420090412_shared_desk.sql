@@ -0,0 +1,323 @@
+/*
+  # Multiple Liaisons per Relationship
+
+  1. Changes
+    - `liaisons.is_primary`: each relationship has exactly one primary liaison,
+      the one pages fall back to when the signed-in user has no liaison of
+      their own. The first liaison of a relationship becomes primary.
+    - `user_home_path()` goes by company type now that client companies can
+      have managers
+
+  2. New Functions (callers need `team.manage` in one of the two companies)
+    - `add_liaison(relationship_id, accountant_id, client_id)`: a backup
+      accountant or a second client contact
+    - `set_primary_liaison(liaison_id)`
+    - `reassign_liaison(liaison_id, new_member_id)`: hands a liaison over to a
+      colleague on the same side. The liaison itself changes hands, so its
+      open plans, payments, reminders, CRS history and chat history go with
+      it. If the colleague already had a liaison with the same contact, its
+      conversation is merged in; that liaison must have nothing else of its
+      own (plans, payments, reminders, CRS history or any other record).
+      A note is posted in the chat and the new member is notified.
+*/
+
+ALTER TABLE liaisons
+ADD COLUMN IF NOT EXISTS is_primary boolean NOT NULL DEFAULT false;
+
+UPDATE liaisons l
+SET is_primary = true
+WHERE l.id = (
+  SELECT first.id
+  FROM liaisons first
+  WHERE first.company_relationship_id = l.company_relationship_id
+  ORDER BY first.created_at, first.id
+  LIMIT 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_liaisons_primary
+ON liaisons (company_relationship_id)
+WHERE is_primary;
+
+CREATE OR REPLACE FUNCTION default_primary_liaison()
+RETURNS trigger AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM liaisons
+    WHERE company_relationship_id = NEW.company_relationship_id
+    AND is_primary
+  ) THEN
+    NEW.is_primary := true;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS liaisons_default_primary ON liaisons;
+
+CREATE TRIGGER liaisons_default_primary
+  BEFORE INSERT ON liaisons
+  FOR EACH ROW
+  EXECUTE FUNCTION default_primary_liaison();
+
+CREATE OR REPLACE FUNCTION user_home_path(target_user_id uuid)
+RETURNS text AS $$
+  SELECT CASE WHEN c.type = 'accounting_firm' THEN '/accounting' ELSE '/client' END
+  FROM users u
+  JOIN companies c ON c.id = u.company_id
+  WHERE u.id = target_user_id;
+$$ LANGUAGE sql STABLE;
+
+-- The relationship, if the caller may manage its liaisons
+CREATE OR REPLACE FUNCTION managed_relationship(target_relationship_id uuid)
+RETURNS company_relationships AS $$
+DECLARE
+  relationship company_relationships;
+BEGIN
+  PERFORM require_permission('team.manage', 'manage liaisons');
+
+  SELECT cr.* INTO relationship
+  FROM company_relationships cr
+  JOIN users caller ON caller.id = auth.uid()
+  WHERE cr.id = target_relationship_id
+  AND caller.company_id IN (cr.accounting_firm_id, cr.client_firm_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Connection not found';
+  END IF;
+
+  RETURN relationship;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION managed_relationship(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION add_liaison(
+  target_relationship_id uuid,
+  target_accountant_id uuid,
+  target_client_id uuid
+) RETURNS uuid AS $$
+DECLARE
+  relationship company_relationships;
+  firm_name text;
+  client_name text;
+  new_liaison_id uuid;
+BEGIN
+  relationship := managed_relationship(target_relationship_id);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = target_accountant_id
+    AND company_id = relationship.accounting_firm_id
+    AND is_active
+  ) THEN
+    RAISE EXCEPTION 'The accountant must be an active member of the accounting firm';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = target_client_id
+    AND company_id = relationship.client_firm_id
+    AND is_active
+  ) THEN
+    RAISE EXCEPTION 'The client contact must be an active member of the client company';
+  END IF;
+
+  INSERT INTO liaisons (company_relationship_id, accountant_id, client_id)
+  VALUES (target_relationship_id, target_accountant_id, target_client_id)
+  ON CONFLICT (company_relationship_id, accountant_id, client_id) DO NOTHING
+  RETURNING id INTO new_liaison_id;
+
+  IF new_liaison_id IS NULL THEN
+    RAISE EXCEPTION 'These two are already liaisons for this connection';
+  END IF;
+
+  SELECT name INTO firm_name FROM companies WHERE id = relationship.accounting_firm_id;
+  SELECT name INTO client_name FROM companies WHERE id = relationship.client_firm_id;
+
+  IF target_accountant_id <> auth.uid() THEN
+    PERFORM notify_user(
+      target_accountant_id,
+      'connection',
+      'You are now a liaison for ' || client_name,
+      'You can chat with ' || client_name || ' from your conversations.',
+      '/accounting/chat',
+      new_liaison_id
+    );
+  END IF;
+
+  IF target_client_id <> auth.uid() THEN
+    PERFORM notify_user(
+      target_client_id,
+      'connection',
+      'You are now a contact for ' || firm_name,
+      'You can chat with ' || firm_name || ' from your conversations.',
+      '/client/chat',
+      new_liaison_id
+    );
+  END IF;
+
+  RETURN new_liaison_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION set_primary_liaison(target_liaison_id uuid)
+RETURNS void AS $$
+DECLARE
+  target liaisons;
+BEGIN
+  SELECT * INTO target
+  FROM liaisons
+  WHERE id = target_liaison_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Liaison not found';
+  END IF;
+
+  PERFORM managed_relationship(target.company_relationship_id);
+
+  UPDATE liaisons
+  SET is_primary = false,
+      updated_at = now()
+  WHERE company_relationship_id = target.company_relationship_id
+  AND is_primary
+  AND id <> target.id;
+
+  UPDATE liaisons
+  SET is_primary = true,
+      updated_at = now()
+  WHERE id = target.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION reassign_liaison(target_liaison_id uuid, new_member_id uuid)
+RETURNS void AS $$
+DECLARE
+  source liaisons;
+  relationship company_relationships;
+  new_member users;
+  previous_member_id uuid;
+  previous_name text;
+  contact_company text;
+  replaces_accountant boolean;
+  existing liaisons;
+  child RECORD;
+  has_rows boolean;
+BEGIN
+  SELECT * INTO source
+  FROM liaisons
+  WHERE id = target_liaison_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Liaison not found';
+  END IF;
+
+  relationship := managed_relationship(source.company_relationship_id);
+
+  SELECT * INTO new_member
+  FROM users
+  WHERE id = new_member_id;
+
+  IF NOT FOUND OR NOT new_member.is_active THEN
+    RAISE EXCEPTION 'Reassign to an active colleague';
+  END IF;
+
+  -- Managers hand over their own side of the connection
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND company_id = new_member.company_id
+  ) THEN
+    RAISE EXCEPTION 'You can only reassign to colleagues in your company';
+  END IF;
+
+  IF new_member.company_id = relationship.accounting_firm_id THEN
+    replaces_accountant := true;
+    previous_member_id := source.accountant_id;
+  ELSIF new_member.company_id = relationship.client_firm_id THEN
+    replaces_accountant := false;
+    previous_member_id := source.client_id;
+  ELSE
+    RAISE EXCEPTION 'Reassign to a member of this connection';
+  END IF;
+
+  IF previous_member_id = new_member_id THEN
+    RAISE EXCEPTION '% is already the liaison', new_member.full_name;
+  END IF;
+
+  -- A liaison the colleague already has with the same contact is merged in
+  SELECT * INTO existing
+  FROM liaisons
+  WHERE company_relationship_id = source.company_relationship_id
+  AND accountant_id = CASE WHEN replaces_accountant THEN new_member_id ELSE source.accountant_id END
+  AND client_id = CASE WHEN replaces_accountant THEN source.client_id ELSE new_member_id END;
+
+  IF FOUND THEN
+    -- Only the conversation moves over. Anything else that points at the
+    -- colleague's liaison (plans, payments, reminders, score history, client
+    -- records, ...) would be lost or cascade away, so the merge is refused.
+    UPDATE messages SET liaison_id = source.id WHERE liaison_id = existing.id;
+    UPDATE notifications SET liaison_id = source.id WHERE liaison_id = existing.id;
+    UPDATE pending_contacts SET liaison_id = source.id WHERE liaison_id = existing.id;
+
+    FOR child IN
+      SELECT c.conrelid::regclass AS table_name, a.attname AS column_name
+      FROM pg_constraint c
+      JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = c.conkey[1]
+      WHERE c.contype = 'f'
+      AND c.confrelid = 'liaisons'::regclass
+    LOOP
+      EXECUTE format('SELECT EXISTS (SELECT 1 FROM %s WHERE %I = $1)', child.table_name, child.column_name)
+      INTO has_rows
+      USING existing.id;
+
+      IF has_rows THEN
+        RAISE EXCEPTION '% already has % with this contact', new_member.full_name, replace(trim(both '"' from child.table_name::text), '_', ' ');
+      END IF;
+    END LOOP;
+
+    DELETE FROM liaisons WHERE id = existing.id;
+
+    source.is_primary := source.is_primary OR existing.is_primary;
+  END IF;
+
+  UPDATE liaisons
+  SET accountant_id = CASE WHEN replaces_accountant THEN new_member_id ELSE accountant_id END,
+      client_id = CASE WHEN replaces_accountant THEN client_id ELSE new_member_id END,
+      is_primary = source.is_primary,
+      updated_at = now()
+  WHERE id = source.id;
+
+  SELECT full_name INTO previous_name FROM users WHERE id = previous_member_id;
+  SELECT name INTO contact_company
+  FROM companies
+  WHERE id = CASE WHEN replaces_accountant THEN relationship.client_firm_id ELSE relationship.accounting_firm_id END;
+
+  -- Sent as the new member, so the trigger notifies the contact on the other side
+  INSERT INTO messages (liaison_id, sender_id, content, message_type, payload, is_read)
+  VALUES (
+    source.id,
+    new_member_id,
+    new_member.full_name || ' has taken over from ' || COALESCE(previous_name, 'a former colleague') || '.',
+    'system_event',
+    jsonb_build_object(
+      'event', 'liaison_reassigned',
+      'description', new_member.full_name || ' has taken over from ' || COALESCE(previous_name, 'a former colleague') || '.',
+      'data', jsonb_build_object('previousMemberId', previous_member_id, 'newMemberId', new_member_id)
+    ),
+    false
+  );
+
+  IF new_member_id <> auth.uid() THEN
+    PERFORM notify_user(
+      new_member_id,
+      'connection',
+      contact_company || ' has been handed over to you',
+      'Open plans, reminders and the conversation history are now yours.',
+      user_home_path(new_member_id) || '/chat',
+      source.id
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,212 @@
+/*
+  # Client Portal Across Accounting Firms
+
+  1. Changes
+    - `client_records.company_relationship_id`: the accounting firm a record
+      was uploaded for. Existing records of companies with a single
+      relationship are attributed to it; the rest stay unscoped and remain
+      visible to all of the company's firms.
+    - Clients may only attribute records to their own company's relationships
+    - Accountants see the records uploaded for their own relationship, and
+      `liaison_activity_feed()` lists only those
+
+  2. New Functions
+    - `client_firm_overview()`: for every connected accounting firm of the
+      caller's company, the outstanding and overdue balance of its active
+      payment plans and the next installment due
+*/
+
+ALTER TABLE client_records
+ADD COLUMN IF NOT EXISTS company_relationship_id uuid REFERENCES company_relationships(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_client_records_relationship
+ON client_records(company_relationship_id);
+
+UPDATE client_records rec
+SET company_relationship_id = only_relationship.id
+FROM users u
+JOIN LATERAL (
+  SELECT MIN(cr.id::text)::uuid AS id
+  FROM company_relationships cr
+  WHERE cr.client_firm_id = u.company_id
+  HAVING COUNT(*) = 1
+) only_relationship ON true
+WHERE u.id = rec.user_id
+AND rec.company_relationship_id IS NULL;
+
+DROP POLICY IF EXISTS "Users can insert their own records" ON client_records;
+
+CREATE POLICY "Users can insert their own records"
+  ON client_records
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (
+      company_relationship_id IS NULL
+      OR company_relationship_id IN (
+        SELECT cr.id
+        FROM company_relationships cr
+        JOIN users u ON u.company_id = cr.client_firm_id
+        WHERE u.id = auth.uid()
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Accountants can view records of their clients" ON client_records;
+
+CREATE POLICY "Accountants can view records of their clients"
+  ON client_records
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM liaisons
+      WHERE liaisons.client_id = client_records.user_id
+      AND liaisons.accountant_id = auth.uid()
+      AND (
+        client_records.company_relationship_id IS NULL
+        OR client_records.company_relationship_id = liaisons.company_relationship_id
+      )
+    )
+  );
+
+-- The activity feed only lists a client's records uploaded for the liaison's firm
+CREATE OR REPLACE FUNCTION liaison_activity_feed(
+  target_liaison_id uuid,
+  max_items integer DEFAULT 20
+) RETURNS TABLE (
+  occurred_at timestamptz,
+  activity_type text,
+  description text
+) AS $$
+  SELECT occurred_at, activity_type, description
+  FROM (
+    SELECT
+      p.created_at AS occurred_at,
+      'payment' AS activity_type,
+      'Payment of $' || to_char(p.amount, 'FM999,999,990.00') || ' recorded' AS description
+    FROM payments p
+    WHERE p.liaison_id = target_liaison_id
+
+    UNION ALL
+
+    SELECT
+      t.completion_date,
+      'installment',
+      t.description || CASE
+        WHEN t.completion_date::date > t.due_date
+        THEN ' settled ' || (t.completion_date::date - t.due_date) || ' days late'
+        ELSE ' settled on time'
+      END
+    FROM transactions t
+    JOIN "Payment_plan" pp ON pp.id = t.payment_plan_id
+    WHERE pp.liaison_id = target_liaison_id
+    AND t.status = 'paid'
+    AND t.completion_date IS NOT NULL
+
+    UNION ALL
+
+    SELECT
+      m.created_at,
+      CASE WHEN m.document_url IS NOT NULL THEN 'document' ELSE 'message' END,
+      CASE
+        WHEN m.document_url IS NOT NULL THEN COALESCE(u.full_name, 'Someone') || ' shared ' || m.document_name
+        ELSE 'Message from ' || COALESCE(u.full_name, 'unknown sender')
+      END
+    FROM messages m
+    LEFT JOIN users u ON u.id = m.sender_id
+    WHERE m.liaison_id = target_liaison_id
+
+    UNION ALL
+
+    SELECT
+      cr.created_at,
+      'document',
+      CASE
+        WHEN cr.verification_file_url IS NOT NULL THEN 'Invoice and payment proof uploaded'
+        ELSE 'Invoice uploaded'
+      END
+    FROM client_records cr
+    JOIN liaisons l ON l.client_id = cr.user_id
+    WHERE l.id = target_liaison_id
+    AND (cr.company_relationship_id IS NULL OR cr.company_relationship_id = l.company_relationship_id)
+
+    UNION ALL
+
+    SELECT
+      pp.created_at,
+      'plan_change',
+      'Payment plan of $' || to_char(pp.total_due, 'FM999,999,990') || ' in '
+        || pp.num_payment || ' payments ' || CASE pp.status
+          WHEN 'pending' THEN 'proposed'
+          ELSE pp.status
+        END
+    FROM "Payment_plan" pp
+    WHERE pp.liaison_id = target_liaison_id
+  ) activity
+  WHERE occurred_at IS NOT NULL
+  ORDER BY occurred_at DESC
+  LIMIT max_items;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION client_firm_overview()
+RETURNS TABLE (
+  relationship_id uuid,
+  accounting_firm_id uuid,
+  accounting_firm_name text,
+  open_plans integer,
+  outstanding numeric,
+  overdue numeric,
+  next_due_date date,
+  next_due_amount numeric
+) AS $$
+  WITH open_installments AS (
+    SELECT
+      l.company_relationship_id,
+      pp.id AS plan_id,
+      t.due_date,
+      t.amount - t.amount_paid AS outstanding
+    FROM transactions t
+    JOIN "Payment_plan" pp ON pp.id = t.payment_plan_id
+    JOIN liaisons l ON l.id = pp.liaison_id
+    WHERE pp.status = 'active'
+    AND t.status IN ('pending', 'partial', 'overdue')
+  )
+  SELECT
+    cr.id,
+    firm.id,
+    firm.name,
+    (
+      SELECT COUNT(DISTINCT oi.plan_id)::integer
+      FROM open_installments oi
+      WHERE oi.company_relationship_id = cr.id
+    ),
+    COALESCE((
+      SELECT SUM(oi.outstanding)
+      FROM open_installments oi
+      WHERE oi.company_relationship_id = cr.id
+    ), 0),
+    COALESCE((
+      SELECT SUM(oi.outstanding)
+      FROM open_installments oi
+      WHERE oi.company_relationship_id = cr.id
+      AND oi.due_date < CURRENT_DATE
+    ), 0),
+    next_due.due_date,
+    next_due.amount
+  FROM company_relationships cr
+  JOIN users caller ON caller.id = auth.uid() AND caller.company_id = cr.client_firm_id
+  JOIN companies firm ON firm.id = cr.accounting_firm_id
+  LEFT JOIN LATERAL (
+    SELECT oi.due_date, SUM(oi.outstanding) AS amount
+    FROM open_installments oi
+    WHERE oi.company_relationship_id = cr.id
+    AND oi.due_date >= CURRENT_DATE
+    GROUP BY oi.due_date
+    ORDER BY oi.due_date
+    LIMIT 1
+  ) next_due ON true
+  WHERE cr.verification_status IN ('verified', 'established')
+  ORDER BY firm.name;
+$$ LANGUAGE sql STABLE;
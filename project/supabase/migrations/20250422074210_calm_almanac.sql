@@ -0,0 +1,191 @@
+/*
+  # Payment Calendar and iCalendar Feed
+
+  1. New Tables
+    - `calendar_feeds`: one secret feed token per user. The `calendar-feed`
+      edge function serves the installments of `?token=...` as an iCalendar
+      file that calendar apps subscribe to.
+      - `changed_at` moves whenever a plan or installment the feed covers
+        changes, so the feed is rebuilt and calendar apps polling it only
+        download it again when something changed
+      - Revoking deletes the row; regenerating replaces the token, and the
+        old URL stops working immediately
+
+  2. New Functions
+    - `calendar_installments(from_date, to_date)`: installments of active and
+      completed plans due in the range, with the counterpart company and the
+      liaison's risk level. Accountants see their whole firm's clients, client
+      users every accounting firm of their company.
+    - `user_calendar_installments(user_id, from_date, to_date)`: the same for
+      any user, for the edge function only
+    - `regenerate_calendar_feed()`, `revoke_calendar_feed()`
+
+  3. Security
+    - Users can only read their own feed row
+*/
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  changed_at timestamptz NOT NULL DEFAULT now(),
+  last_fetched_at timestamptz
+);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar feed"
+  ON calendar_feeds
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION user_calendar_installments(
+  target_user_id uuid,
+  from_date date,
+  to_date date
+) RETURNS TABLE (
+  transaction_id uuid,
+  liaison_id uuid,
+  relationship_id uuid,
+  counterpart_name text,
+  description text,
+  payment_number integer,
+  num_payments integer,
+  due_date date,
+  amount numeric,
+  outstanding numeric,
+  status text,
+  risk_level text,
+  updated_at timestamptz
+) AS $$
+  SELECT
+    t.id,
+    l.id,
+    cr.id,
+    counterpart.name,
+    t.description,
+    t.payment_number::integer,
+    pp.num_payment::integer,
+    t.due_date,
+    t.amount,
+    t.amount - t.amount_paid,
+    CASE
+      WHEN t.status IN ('pending', 'partial') AND t.due_date < CURRENT_DATE THEN 'overdue'
+      ELSE t.status
+    END,
+    l.risk_level,
+    COALESCE(t.updated_at, t.created_at)
+  FROM users member
+  JOIN company_relationships cr
+    ON member.company_id IN (cr.accounting_firm_id, cr.client_firm_id)
+  JOIN companies counterpart
+    ON counterpart.id = CASE
+      WHEN cr.accounting_firm_id = member.company_id THEN cr.client_firm_id
+      ELSE cr.accounting_firm_id
+    END
+  JOIN liaisons l ON l.company_relationship_id = cr.id
+  JOIN "Payment_plan" pp ON pp.liaison_id = l.id
+  JOIN transactions t ON t.payment_plan_id = pp.id
+  WHERE member.id = target_user_id
+  AND member.is_active
+  AND pp.status IN ('active', 'completed')
+  AND t.status <> 'cancelled'
+  AND t.due_date BETWEEN from_date AND to_date
+  ORDER BY t.due_date, counterpart.name, t.payment_number;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION user_calendar_installments(uuid, date, date) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION calendar_installments(from_date date, to_date date)
+RETURNS TABLE (
+  transaction_id uuid,
+  liaison_id uuid,
+  relationship_id uuid,
+  counterpart_name text,
+  description text,
+  payment_number integer,
+  num_payments integer,
+  due_date date,
+  amount numeric,
+  outstanding numeric,
+  status text,
+  risk_level text,
+  updated_at timestamptz
+) AS $$
+  SELECT * FROM user_calendar_installments(auth.uid(), from_date, to_date);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Feeds of both companies of a liaison are rebuilt when its plans change
+CREATE OR REPLACE FUNCTION touch_calendar_feeds(target_liaison_id uuid)
+RETURNS void AS $$
+  UPDATE calendar_feeds f
+  SET changed_at = now()
+  FROM users member, liaisons l
+  JOIN company_relationships cr ON cr.id = l.company_relationship_id
+  WHERE l.id = target_liaison_id
+  AND f.user_id = member.id
+  AND member.company_id IN (cr.accounting_firm_id, cr.client_firm_id);
+$$ LANGUAGE sql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION touch_calendar_feeds(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION touch_calendar_feeds_for_plan()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM touch_calendar_feeds(CASE WHEN TG_OP = 'DELETE' THEN OLD.liaison_id ELSE NEW.liaison_id END);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS payment_plan_calendar_feeds ON "Payment_plan";
+
+CREATE TRIGGER payment_plan_calendar_feeds
+  AFTER INSERT OR UPDATE OR DELETE ON "Payment_plan"
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_calendar_feeds_for_plan();
+
+CREATE OR REPLACE FUNCTION touch_calendar_feeds_for_installment()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM touch_calendar_feeds(pp.liaison_id)
+  FROM "Payment_plan" pp
+  WHERE pp.id = CASE WHEN TG_OP = 'DELETE' THEN OLD.payment_plan_id ELSE NEW.payment_plan_id END;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS transactions_calendar_feeds ON transactions;
+
+CREATE TRIGGER transactions_calendar_feeds
+  AFTER INSERT OR UPDATE OF amount, amount_paid, due_date, status, description OR DELETE ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_calendar_feeds_for_installment();
+
+-- Creates the caller's feed, or replaces its token so the old URL stops working
+CREATE OR REPLACE FUNCTION regenerate_calendar_feed()
+RETURNS text AS $$
+DECLARE
+  new_token text := encode(extensions.gen_random_bytes(24), 'hex');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO calendar_feeds (user_id, token)
+  VALUES (auth.uid(), new_token)
+  ON CONFLICT (user_id) DO UPDATE
+  SET token = EXCLUDED.token,
+      created_at = now(),
+      changed_at = now(),
+      last_fetched_at = NULL;
+
+  RETURN new_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION revoke_calendar_feed()
+RETURNS void AS $$
+  DELETE FROM calendar_feeds WHERE user_id = auth.uid();
+$$ LANGUAGE sql SECURITY DEFINER;
@@ -0,0 +1,575 @@
+/*
+  # Proof-of-Payment Matching
+
+  1. Changes
+    - `client_records.record_type`: 'invoice' or 'payment_proof'. Proofs keep
+      their file in `verification_file_url` and no longer need an invoice.
+    - `client_records.status`: submitted, under_review, confirmed or rejected
+    - `client_records.liaison_id`: the conversation the record belongs to.
+      Records uploaded for a relationship are attached to the uploader's own
+      liaison, or the relationship's primary one.
+    - Proof details: `payment_amount`, `payment_date`, `payment_method`, and
+      once reviewed `reviewed_by`, `reviewed_at`, `review_note` and the
+      `payment_id` recorded from it
+    - Clients upload invoices directly; proofs go through
+      `submit_payment_proof()`. Only the functions below change a record.
+    - Accountants see the records of their own liaisons
+    - `client_records` is published to realtime so reviews show up live
+    - Recording a payment skips the automatic oldest-first allocation while
+      `app.manual_allocation` is on
+    - `liaison_activity_feed()` lists proofs with their amount and status
+
+  2. New Tables
+    - `payment_proof_installments`: the installments a proof covers
+
+  3. New Functions
+    - `submit_payment_proof(liaison_id, file_url, amount, payment_date, method,
+      installment_ids)`: for client contacts of the liaison's company. The
+      installments must be open installments of the liaison's active plans.
+    - `start_payment_proof_review(record_id)`: marks a proof under review
+    - `confirm_payment_proof(record_id)`: records the payment and allocates it
+      to the chosen installments, earliest due first. Whatever is left is
+      allocated oldest-first like any other payment.
+    - `reject_payment_proof(record_id, reason)`: the reason is required
+    - Each step is posted in the liaison chat as a system event. Reviewers are
+      the liaison's accountant and colleagues with `liaisons.view_all`.
+*/
+
+ALTER TABLE client_records
+ALTER COLUMN invoice_file_url DROP NOT NULL;
+
+ALTER TABLE client_records
+ADD COLUMN IF NOT EXISTS record_type text NOT NULL DEFAULT 'invoice'
+  CHECK (record_type IN ('invoice', 'payment_proof')),
+ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'submitted'
+  CHECK (status IN ('submitted', 'under_review', 'confirmed', 'rejected')),
+ADD COLUMN IF NOT EXISTS liaison_id uuid REFERENCES liaisons(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS payment_amount numeric CHECK (payment_amount > 0),
+ADD COLUMN IF NOT EXISTS payment_date date,
+ADD COLUMN IF NOT EXISTS payment_method text
+  CHECK (payment_method IN ('bank_transfer', 'card', 'cash', 'cheque', 'other')),
+ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES users(id),
+ADD COLUMN IF NOT EXISTS reviewed_at timestamptz,
+ADD COLUMN IF NOT EXISTS review_note text,
+ADD COLUMN IF NOT EXISTS payment_id uuid REFERENCES payments(id) ON DELETE SET NULL;
+
+ALTER TABLE client_records
+DROP CONSTRAINT IF EXISTS client_records_type_check;
+
+ALTER TABLE client_records
+ADD CONSTRAINT client_records_type_check
+CHECK (
+  (record_type = 'invoice' AND invoice_file_url IS NOT NULL)
+  OR (
+    record_type = 'payment_proof'
+    AND verification_file_url IS NOT NULL
+    AND payment_amount IS NOT NULL
+    AND payment_date IS NOT NULL
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_records_liaison
+ON client_records(liaison_id, status);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE client_records;
+
+CREATE TABLE IF NOT EXISTS payment_proof_installments (
+  record_id uuid NOT NULL REFERENCES client_records(id) ON DELETE CASCADE,
+  transaction_id uuid NOT NULL REFERENCES transactions(id),
+  PRIMARY KEY (record_id, transaction_id)
+);
+
+ALTER TABLE payment_proof_installments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view the installments of visible proofs"
+  ON payment_proof_installments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM client_records rec
+      WHERE rec.id = payment_proof_installments.record_id
+    )
+  );
+
+-- The uploader's own liaison of the relationship, else its primary liaison
+CREATE OR REPLACE FUNCTION assign_record_liaison()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.company_relationship_id IS NULL THEN
+    NEW.liaison_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.liaison_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM liaisons
+    WHERE id = NEW.liaison_id
+    AND company_relationship_id = NEW.company_relationship_id
+  ) THEN
+    SELECT id INTO NEW.liaison_id
+    FROM liaisons
+    WHERE company_relationship_id = NEW.company_relationship_id
+    ORDER BY (client_id = NEW.user_id) DESC, is_primary DESC, created_at
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS client_records_assign_liaison ON client_records;
+
+CREATE TRIGGER client_records_assign_liaison
+  BEFORE INSERT ON client_records
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_record_liaison();
+
+UPDATE client_records rec
+SET liaison_id = (
+  SELECT l.id
+  FROM liaisons l
+  WHERE l.company_relationship_id = rec.company_relationship_id
+  ORDER BY (l.client_id = rec.user_id) DESC, l.is_primary DESC, l.created_at
+  LIMIT 1
+)
+WHERE rec.company_relationship_id IS NOT NULL
+AND rec.liaison_id IS NULL;
+
+DROP POLICY IF EXISTS "Users can insert their own records" ON client_records;
+
+CREATE POLICY "Users can insert their own records"
+  ON client_records
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND record_type = 'invoice'
+    AND status = 'submitted'
+    AND reviewed_by IS NULL
+    AND payment_id IS NULL
+    AND (
+      company_relationship_id IS NULL
+      OR company_relationship_id IN (
+        SELECT cr.id
+        FROM company_relationships cr
+        JOIN users u ON u.company_id = cr.client_firm_id
+        WHERE u.id = auth.uid()
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Accountants can view records of their clients" ON client_records;
+
+CREATE POLICY "Accountants can view records of their clients"
+  ON client_records
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM liaisons
+      WHERE liaisons.id = client_records.liaison_id
+      AND liaisons.accountant_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM liaisons
+      WHERE liaisons.client_id = client_records.user_id
+      AND liaisons.accountant_id = auth.uid()
+      AND client_records.company_relationship_id IS NULL
+    )
+  );
+
+CREATE OR REPLACE FUNCTION allocate_new_payment()
+RETURNS trigger AS $$
+BEGIN
+  -- Set by callers that allocate the payment themselves
+  IF current_setting('app.manual_allocation', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM allocate_liaison_payments(NEW.liaison_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Posts a step of a record's review in its liaison chat, as the caller. The
+-- message trigger only notifies the liaison's client contact, and only when
+-- the liaison's accountant posts; otherwise the uploader is notified here.
+CREATE OR REPLACE FUNCTION post_record_event(
+  target_record client_records,
+  event text,
+  description text,
+  data jsonb
+) RETURNS void AS $$
+DECLARE
+  target_liaison liaisons;
+  message_id uuid;
+BEGIN
+  SELECT * INTO target_liaison
+  FROM liaisons
+  WHERE id = target_record.liaison_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO messages (liaison_id, sender_id, content, message_type, payload, is_read)
+  VALUES (
+    target_liaison.id,
+    auth.uid(),
+    description,
+    'system_event',
+    jsonb_build_object(
+      'event', event,
+      'description', description,
+      'data', jsonb_build_object('recordId', target_record.id) || data
+    ),
+    false
+  )
+  RETURNING id INTO message_id;
+
+  IF target_record.user_id <> auth.uid()
+  AND NOT (auth.uid() = target_liaison.accountant_id AND target_liaison.client_id = target_record.user_id) THEN
+    PERFORM notify_user(
+      target_record.user_id,
+      'message',
+      description,
+      NULL,
+      '/client/records',
+      target_liaison.id,
+      message_id
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The proof, locked, if the caller may review it
+CREATE OR REPLACE FUNCTION reviewable_payment_proof(target_record_id uuid)
+RETURNS client_records AS $$
+DECLARE
+  proof client_records;
+BEGIN
+  SELECT rec.* INTO proof
+  FROM client_records rec
+  JOIN liaisons l ON l.id = rec.liaison_id
+  JOIN company_relationships cr ON cr.id = l.company_relationship_id
+  JOIN users caller ON caller.id = auth.uid() AND caller.is_active
+  WHERE rec.id = target_record_id
+  AND rec.record_type = 'payment_proof'
+  AND (
+    l.accountant_id = caller.id
+    OR (caller.company_id = cr.accounting_firm_id AND has_permission('liaisons.view_all'))
+  )
+  FOR UPDATE OF rec;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Proof of payment not found';
+  END IF;
+
+  IF proof.status NOT IN ('submitted', 'under_review') THEN
+    RAISE EXCEPTION 'This proof of payment has already been %', proof.status;
+  END IF;
+
+  RETURN proof;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION post_record_event(client_records, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reviewable_payment_proof(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION submit_payment_proof(
+  target_liaison_id uuid,
+  file_url text,
+  amount numeric,
+  paid_on date,
+  method text,
+  installment_ids uuid[]
+) RETURNS uuid AS $$
+DECLARE
+  target_liaison liaisons;
+  proof client_records;
+  covered integer;
+BEGIN
+  SELECT l.* INTO target_liaison
+  FROM liaisons l
+  JOIN company_relationships cr ON cr.id = l.company_relationship_id
+  JOIN users caller ON caller.id = auth.uid() AND caller.is_active
+  WHERE l.id = target_liaison_id
+  AND caller.company_id = cr.client_firm_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  IF amount IS NULL OR amount <= 0 THEN
+    RAISE EXCEPTION 'The amount paid must be positive';
+  END IF;
+
+  IF paid_on IS NULL OR paid_on > CURRENT_DATE THEN
+    RAISE EXCEPTION 'The payment date cannot be in the future';
+  END IF;
+
+  IF COALESCE(array_length(installment_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Choose the installments this payment covers';
+  END IF;
+
+  SELECT COUNT(*) INTO covered
+  FROM transactions t
+  JOIN "Payment_plan" pp ON pp.id = t.payment_plan_id
+  WHERE t.id = ANY(installment_ids)
+  AND pp.liaison_id = target_liaison.id
+  AND pp.status = 'active'
+  AND t.status IN ('pending', 'partial', 'overdue');
+
+  IF covered <> (SELECT COUNT(DISTINCT id) FROM unnest(installment_ids) AS id) THEN
+    RAISE EXCEPTION 'Only open installments of this conversation''s active plan can be covered';
+  END IF;
+
+  INSERT INTO client_records (
+    user_id,
+    record_type,
+    verification_file_url,
+    company_relationship_id,
+    liaison_id,
+    payment_amount,
+    payment_date,
+    payment_method
+  ) VALUES (
+    auth.uid(),
+    'payment_proof',
+    file_url,
+    target_liaison.company_relationship_id,
+    target_liaison.id,
+    amount,
+    paid_on,
+    COALESCE(method, 'bank_transfer')
+  )
+  RETURNING * INTO proof;
+
+  INSERT INTO payment_proof_installments (record_id, transaction_id)
+  SELECT DISTINCT proof.id, id
+  FROM unnest(installment_ids) AS id;
+
+  PERFORM post_record_event(
+    proof,
+    'payment_proof_submitted',
+    'Proof of payment submitted: $' || to_char(amount, 'FM999,999,990.00')
+      || ' paid on ' || to_char(paid_on, 'Mon DD, YYYY') || '.',
+    jsonb_build_object('amount', amount, 'paymentDate', paid_on, 'installmentIds', to_jsonb(installment_ids))
+  );
+
+  RETURN proof.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION start_payment_proof_review(target_record_id uuid)
+RETURNS void AS $$
+DECLARE
+  proof client_records;
+BEGIN
+  proof := reviewable_payment_proof(target_record_id);
+
+  IF proof.status = 'under_review' THEN
+    RETURN;
+  END IF;
+
+  UPDATE client_records
+  SET status = 'under_review',
+      reviewed_by = auth.uid(),
+      updated_at = now()
+  WHERE id = proof.id;
+
+  PERFORM post_record_event(
+    proof,
+    'payment_proof_under_review',
+    'Your proof of payment is being reviewed.',
+    '{}'::jsonb
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION confirm_payment_proof(target_record_id uuid)
+RETURNS uuid AS $$
+DECLARE
+  proof client_records;
+  installment RECORD;
+  new_payment_id uuid;
+  available numeric;
+  applied numeric;
+BEGIN
+  proof := reviewable_payment_proof(target_record_id);
+
+  PERFORM set_config('app.manual_allocation', 'on', true);
+
+  INSERT INTO payments (liaison_id, amount, payment_date, method, reference, recorded_by)
+  VALUES (
+    proof.liaison_id,
+    proof.payment_amount,
+    proof.payment_date,
+    COALESCE(proof.payment_method, 'bank_transfer'),
+    'Proof of payment ' || left(proof.id::text, 8),
+    auth.uid()
+  )
+  RETURNING id INTO new_payment_id;
+
+  PERFORM set_config('app.manual_allocation', 'off', true);
+
+  available := proof.payment_amount;
+
+  FOR installment IN
+    SELECT t.id, t.amount - t.amount_paid AS outstanding
+    FROM payment_proof_installments ppi
+    JOIN transactions t ON t.id = ppi.transaction_id
+    WHERE ppi.record_id = proof.id
+    AND t.status IN ('pending', 'partial', 'overdue')
+    ORDER BY t.due_date, t.payment_number
+    FOR UPDATE OF t
+  LOOP
+    EXIT WHEN available <= 0;
+    CONTINUE WHEN installment.outstanding <= 0;
+
+    applied := LEAST(available, installment.outstanding);
+
+    INSERT INTO payment_allocations (payment_id, transaction_id, amount)
+    VALUES (new_payment_id, installment.id, applied);
+
+    available := available - applied;
+    PERFORM refresh_installment_status(installment.id);
+  END LOOP;
+
+  IF available > 0 THEN
+    PERFORM allocate_liaison_payments(proof.liaison_id);
+  END IF;
+
+  UPDATE client_records
+  SET status = 'confirmed',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      payment_id = new_payment_id,
+      updated_at = now()
+  WHERE id = proof.id;
+
+  PERFORM post_record_event(
+    proof,
+    'payment_proof_confirmed',
+    'Payment of $' || to_char(proof.payment_amount, 'FM999,999,990.00') || ' confirmed.',
+    jsonb_build_object('paymentId', new_payment_id, 'amount', proof.payment_amount)
+  );
+
+  RETURN new_payment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION reject_payment_proof(target_record_id uuid, reason text)
+RETURNS void AS $$
+DECLARE
+  proof client_records;
+BEGIN
+  IF NULLIF(trim(reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Give the client a reason for rejecting the proof';
+  END IF;
+
+  proof := reviewable_payment_proof(target_record_id);
+
+  UPDATE client_records
+  SET status = 'rejected',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = trim(reason),
+      updated_at = now()
+  WHERE id = proof.id;
+
+  PERFORM post_record_event(
+    proof,
+    'payment_proof_rejected',
+    'Proof of payment of $' || to_char(proof.payment_amount, 'FM999,999,990.00')
+      || ' rejected: ' || trim(reason),
+    jsonb_build_object('reason', trim(reason))
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Proofs show their amount and review status in the activity feed
+CREATE OR REPLACE FUNCTION liaison_activity_feed(
+  target_liaison_id uuid,
+  max_items integer DEFAULT 20
+) RETURNS TABLE (
+  occurred_at timestamptz,
+  activity_type text,
+  description text
+) AS $$
+  SELECT occurred_at, activity_type, description
+  FROM (
+    SELECT
+      p.created_at AS occurred_at,
+      'payment' AS activity_type,
+      'Payment of $' || to_char(p.amount, 'FM999,999,990.00') || ' recorded' AS description
+    FROM payments p
+    WHERE p.liaison_id = target_liaison_id
+
+    UNION ALL
+
+    SELECT
+      t.completion_date,
+      'installment',
+      t.description || CASE
+        WHEN t.completion_date::date > t.due_date
+        THEN ' settled ' || (t.completion_date::date - t.due_date) || ' days late'
+        ELSE ' settled on time'
+      END
+    FROM transactions t
+    JOIN "Payment_plan" pp ON pp.id = t.payment_plan_id
+    WHERE pp.liaison_id = target_liaison_id
+    AND t.status = 'paid'
+    AND t.completion_date IS NOT NULL
+
+    UNION ALL
+
+    SELECT
+      m.created_at,
+      CASE WHEN m.document_url IS NOT NULL THEN 'document' ELSE 'message' END,
+      CASE
+        WHEN m.document_url IS NOT NULL THEN COALESCE(u.full_name, 'Someone') || ' shared ' || m.document_name
+        ELSE 'Message from ' || COALESCE(u.full_name, 'unknown sender')
+      END
+    FROM messages m
+    LEFT JOIN users u ON u.id = m.sender_id
+    WHERE m.liaison_id = target_liaison_id
+
+    UNION ALL
+
+    SELECT
+      cr.created_at,
+      'document',
+      CASE
+        WHEN cr.record_type = 'payment_proof'
+        THEN 'Proof of payment of $' || to_char(cr.payment_amount, 'FM999,999,990.00') || ' '
+          || replace(cr.status, '_', ' ')
+        WHEN cr.verification_file_url IS NOT NULL THEN 'Invoice and payment proof uploaded'
+        ELSE 'Invoice uploaded'
+      END
+    FROM client_records cr
+    JOIN liaisons l ON l.id = target_liaison_id
+    WHERE cr.liaison_id = l.id
+    OR (
+      cr.liaison_id IS NULL
+      AND cr.user_id = l.client_id
+      AND (cr.company_relationship_id IS NULL OR cr.company_relationship_id = l.company_relationship_id)
+    )
+
+    UNION ALL
+
+    SELECT
+      pp.created_at,
+      'plan_change',
+      'Payment plan of $' || to_char(pp.total_due, 'FM999,999,990') || ' in '
+        || pp.num_payment || ' payments ' || CASE pp.status
+          WHEN 'pending' THEN 'proposed'
+          ELSE pp.status
+        END
+    FROM "Payment_plan" pp
+    WHERE pp.liaison_id = target_liaison_id
+  ) activity
+  WHERE occurred_at IS NOT NULL
+  ORDER BY occurred_at DESC
+  LIMIT max_items;
+$$ LANGUAGE sql STABLE;
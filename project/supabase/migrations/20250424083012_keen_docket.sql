@@ -0,0 +1,363 @@
+/*
+  # Record Review Queue
+
+  1. Changes
+    - Colleagues with `liaisons.view_all` see the records of all of their
+      firm's clients, like the liaison's own accountant
+    - `confirm_payment_proof(record_id, note)` takes an optional note for the
+      client, kept in `review_note` and posted with the confirmation
+
+  2. New Functions
+    - `client_record_review_queue()`: the invoices and proofs of payment
+      waiting for a decision that the caller may review, oldest first, with
+      the client and the installments a proof covers. Invoices uploaded
+      outside a conversation are reviewed through one of the uploader's
+      liaisons, preferring the caller's own, and their decisions are posted there
+    - `approve_client_record(record_id, comment)` /
+      `reject_client_record(record_id, comment)`: confirm or reject an invoice
+      or a proof of payment. Rejecting needs a comment. Proofs go through
+      `confirm_payment_proof` / `reject_payment_proof`; invoice decisions are
+      posted in the liaison chat as system events the same way.
+    - `review_client_records(record_ids, decision, comment)`: the same for many
+      records at once. Each record is decided on its own; the result lists the
+      new status of every record, or why it could not be decided.
+*/
+
+DROP POLICY IF EXISTS "Accountants can view records of their clients" ON client_records;
+
+CREATE POLICY "Accountants can view records of their clients"
+  ON client_records
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM liaisons
+      WHERE liaisons.id = client_records.liaison_id
+      AND liaisons.accountant_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM liaisons
+      WHERE liaisons.client_id = client_records.user_id
+      AND liaisons.accountant_id = auth.uid()
+      AND client_records.company_relationship_id IS NULL
+    )
+    OR (
+      has_permission('liaisons.view_all')
+      AND EXISTS (
+        SELECT 1
+        FROM company_relationships cr
+        JOIN users caller ON caller.id = auth.uid()
+        WHERE cr.id = client_records.company_relationship_id
+        AND cr.accounting_firm_id = caller.company_id
+      )
+    )
+  );
+
+-- The liaison a record is reviewed through: its own, or for an invoice uploaded
+-- outside a conversation, one of the uploader's liaisons (the caller's first).
+-- Nothing if the caller may not review it.
+CREATE OR REPLACE FUNCTION record_review_liaison(target_record client_records)
+RETURNS SETOF liaisons AS $$
+  SELECT l.*
+  FROM liaisons l
+  JOIN company_relationships cr ON cr.id = l.company_relationship_id
+  JOIN users caller ON caller.id = auth.uid() AND caller.is_active
+  WHERE (
+    l.id = target_record.liaison_id
+    OR (
+      target_record.liaison_id IS NULL
+      AND l.client_id = target_record.user_id
+      AND (target_record.company_relationship_id IS NULL OR l.company_relationship_id = target_record.company_relationship_id)
+    )
+  )
+  AND (
+    l.accountant_id = caller.id
+    OR (caller.company_id = cr.accounting_firm_id AND has_permission('liaisons.view_all'))
+  )
+  ORDER BY l.accountant_id = caller.id DESC, l.created_at
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The record, locked, if the caller may decide on it. A record without a
+-- liaison carries the one it is reviewed through, so decisions reach a chat.
+CREATE OR REPLACE FUNCTION reviewable_client_record(target_record_id uuid)
+RETURNS client_records AS $$
+DECLARE
+  target_record client_records;
+  review_liaison_id uuid;
+BEGIN
+  SELECT * INTO target_record
+  FROM client_records
+  WHERE id = target_record_id
+  FOR UPDATE;
+
+  IF FOUND THEN
+    SELECT id INTO review_liaison_id FROM record_review_liaison(target_record);
+  END IF;
+
+  IF review_liaison_id IS NULL THEN
+    RAISE EXCEPTION 'Record not found';
+  END IF;
+
+  IF target_record.status NOT IN ('submitted', 'under_review') THEN
+    RAISE EXCEPTION 'This record has already been %', target_record.status;
+  END IF;
+
+  target_record.liaison_id := review_liaison_id;
+
+  RETURN target_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION reviewable_payment_proof(target_record_id uuid)
+RETURNS client_records AS $$
+DECLARE
+  proof client_records;
+BEGIN
+  proof := reviewable_client_record(target_record_id);
+
+  IF proof.record_type <> 'payment_proof' THEN
+    RAISE EXCEPTION 'Proof of payment not found';
+  END IF;
+
+  RETURN proof;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_review_liaison(client_records) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reviewable_client_record(uuid) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS confirm_payment_proof(uuid);
+
+CREATE FUNCTION confirm_payment_proof(target_record_id uuid, note text DEFAULT NULL)
+RETURNS uuid AS $$
+DECLARE
+  proof client_records;
+  installment RECORD;
+  new_payment_id uuid;
+  available numeric;
+  applied numeric;
+BEGIN
+  proof := reviewable_payment_proof(target_record_id);
+  note := NULLIF(trim(note), '');
+
+  PERFORM set_config('app.manual_allocation', 'on', true);
+
+  INSERT INTO payments (liaison_id, amount, payment_date, method, reference, recorded_by)
+  VALUES (
+    proof.liaison_id,
+    proof.payment_amount,
+    proof.payment_date,
+    COALESCE(proof.payment_method, 'bank_transfer'),
+    'Proof of payment ' || left(proof.id::text, 8),
+    auth.uid()
+  )
+  RETURNING id INTO new_payment_id;
+
+  PERFORM set_config('app.manual_allocation', 'off', true);
+
+  available := proof.payment_amount;
+
+  FOR installment IN
+    SELECT t.id, t.amount - t.amount_paid AS outstanding
+    FROM payment_proof_installments ppi
+    JOIN transactions t ON t.id = ppi.transaction_id
+    WHERE ppi.record_id = proof.id
+    AND t.status IN ('pending', 'partial', 'overdue')
+    ORDER BY t.due_date, t.payment_number
+    FOR UPDATE OF t
+  LOOP
+    EXIT WHEN available <= 0;
+    CONTINUE WHEN installment.outstanding <= 0;
+
+    applied := LEAST(available, installment.outstanding);
+
+    INSERT INTO payment_allocations (payment_id, transaction_id, amount)
+    VALUES (new_payment_id, installment.id, applied);
+
+    available := available - applied;
+    PERFORM refresh_installment_status(installment.id);
+  END LOOP;
+
+  IF available > 0 THEN
+    PERFORM allocate_liaison_payments(proof.liaison_id);
+  END IF;
+
+  UPDATE client_records
+  SET status = 'confirmed',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = note,
+      payment_id = new_payment_id,
+      updated_at = now()
+  WHERE id = proof.id;
+
+  PERFORM post_record_event(
+    proof,
+    'payment_proof_confirmed',
+    'Payment of $' || to_char(proof.payment_amount, 'FM999,999,990.00') || ' confirmed'
+      || COALESCE(': ' || note, '.'),
+    jsonb_strip_nulls(jsonb_build_object('paymentId', new_payment_id, 'amount', proof.payment_amount, 'comment', note))
+  );
+
+  RETURN new_payment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION approve_client_record(target_record_id uuid, comment text DEFAULT NULL)
+RETURNS text AS $$
+DECLARE
+  target_record client_records;
+BEGIN
+  target_record := reviewable_client_record(target_record_id);
+  comment := NULLIF(trim(comment), '');
+
+  IF target_record.record_type = 'payment_proof' THEN
+    PERFORM confirm_payment_proof(target_record.id, comment);
+    RETURN 'confirmed';
+  END IF;
+
+  UPDATE client_records
+  SET status = 'confirmed',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = comment,
+      updated_at = now()
+  WHERE id = target_record.id;
+
+  PERFORM post_record_event(
+    target_record,
+    'invoice_approved',
+    'Invoice uploaded on ' || to_char(target_record.created_at, 'Mon DD, YYYY') || ' approved'
+      || COALESCE(': ' || comment, '.'),
+    jsonb_strip_nulls(jsonb_build_object('comment', comment))
+  );
+
+  RETURN 'confirmed';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION reject_client_record(target_record_id uuid, comment text)
+RETURNS text AS $$
+DECLARE
+  target_record client_records;
+BEGIN
+  IF NULLIF(trim(comment), '') IS NULL THEN
+    RAISE EXCEPTION 'Give the client a reason for rejecting the record';
+  END IF;
+
+  target_record := reviewable_client_record(target_record_id);
+
+  IF target_record.record_type = 'payment_proof' THEN
+    PERFORM reject_payment_proof(target_record.id, comment);
+    RETURN 'rejected';
+  END IF;
+
+  UPDATE client_records
+  SET status = 'rejected',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = trim(comment),
+      updated_at = now()
+  WHERE id = target_record.id;
+
+  PERFORM post_record_event(
+    target_record,
+    'invoice_rejected',
+    'Invoice uploaded on ' || to_char(target_record.created_at, 'Mon DD, YYYY') || ' rejected: ' || trim(comment),
+    jsonb_build_object('reason', trim(comment))
+  );
+
+  RETURN 'rejected';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION review_client_records(
+  record_ids uuid[],
+  decision text,
+  comment text DEFAULT NULL
+) RETURNS TABLE (
+  record_id uuid,
+  new_status text,
+  error_message text
+) AS $$
+DECLARE
+  target_record_id uuid;
+BEGIN
+  IF decision NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Unknown decision %', decision;
+  END IF;
+
+  FOREACH target_record_id IN ARRAY record_ids LOOP
+    record_id := target_record_id;
+    new_status := NULL;
+    error_message := NULL;
+
+    -- A record that cannot be decided leaves the others untouched
+    BEGIN
+      new_status := CASE decision
+        WHEN 'approve' THEN approve_client_record(target_record_id, comment)
+        ELSE reject_client_record(target_record_id, comment)
+      END;
+    EXCEPTION WHEN OTHERS THEN
+      error_message := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION client_record_review_queue()
+RETURNS TABLE (
+  record_id uuid,
+  record_type text,
+  status text,
+  invoice_file_url text,
+  verification_file_url text,
+  payment_amount numeric,
+  payment_date date,
+  payment_method text,
+  created_at timestamptz,
+  liaison_id uuid,
+  client_company_id uuid,
+  client_company_name text,
+  uploaded_by_name text,
+  accountant_name text,
+  installments jsonb
+) AS $$
+  SELECT
+    rec.id,
+    rec.record_type,
+    rec.status,
+    rec.invoice_file_url,
+    rec.verification_file_url,
+    rec.payment_amount,
+    rec.payment_date,
+    rec.payment_method,
+    rec.created_at,
+    l.id,
+    client.id,
+    client.name,
+    uploader.full_name,
+    accountant.full_name,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', t.id,
+        'description', t.description,
+        'paymentNumber', t.payment_number,
+        'dueDate', t.due_date
+      ) ORDER BY t.due_date, t.payment_number)
+      FROM payment_proof_installments ppi
+      JOIN transactions t ON t.id = ppi.transaction_id
+      WHERE ppi.record_id = rec.id
+    ), '[]'::jsonb)
+  FROM client_records rec
+  JOIN LATERAL record_review_liaison(rec) l ON true
+  JOIN company_relationships cr ON cr.id = l.company_relationship_id
+  JOIN companies client ON client.id = cr.client_firm_id
+  LEFT JOIN users uploader ON uploader.id = rec.user_id
+  LEFT JOIN users accountant ON accountant.id = l.accountant_id
+  WHERE rec.status IN ('submitted', 'under_review')
+  ORDER BY rec.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;